@@ -2,6 +2,8 @@
 
 import { HelpCommand, Kernel, ListLoader } from '@adonisjs/ace'
 import BuildCommand from './commands/build.ts'
+import FmtCommand from './commands/fmt.ts'
+import RunCommand from './commands/run.ts'
 
 const version = '0.0.0'
 
@@ -22,7 +24,7 @@ kernel.defineFlag('version', {
 	type: 'boolean',
 })
 
-kernel.addLoader(new ListLoader([BuildCommand, HelpCommand]))
+kernel.addLoader(new ListLoader([BuildCommand, FmtCommand, HelpCommand, RunCommand]))
 
 kernel.on('finding:command', async (): Promise<boolean> => {
 	console.log(`TinyWhale v${version}`)
@@ -35,6 +37,7 @@ kernel.on('finding:command', async (): Promise<boolean> => {
 
 try {
 	await kernel.handle(process.argv.slice(2))
+	process.exitCode = kernel.exitCode ?? 0
 } catch (error: unknown) {
 	console.error(error)
 	process.exit(1)
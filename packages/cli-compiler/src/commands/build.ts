@@ -1,8 +1,14 @@
 import { mkdir, readFile, writeFile } from 'node:fs/promises'
 import { args, BaseCommand, flags } from '@adonisjs/ace'
-import { type CompileResult, type CompileWarning, compile } from '@tinywhale/compiler'
+import {
+	type CompileDiagnostic,
+	type CompileResult,
+	compileToResult,
+	DiagnosticSeverity,
+} from '@tinywhale/compiler'
 import {
 	formatCompileError,
+	formatDiagnosticSummary,
 	formatInvalidTargetError,
 	formatReadError,
 	formatValidationError,
@@ -33,6 +39,9 @@ export default class BuildCommand extends BaseCommand {
 	@flags.boolean({ description: 'Run optimization passes' })
 	declare optimize: boolean
 
+	@flags.boolean({ description: 'Compile calls in tail position to WebAssembly tail calls' })
+	declare tailCalls: boolean
+
 	private async readSourceFile(): Promise<string | null> {
 		try {
 			return await readFile(this.input, 'utf-8')
@@ -43,16 +52,34 @@ export default class BuildCommand extends BaseCommand {
 		}
 	}
 
-	private displayWarnings(warnings: CompileWarning[]): void {
-		for (const warning of warnings) {
-			this.logger.warning(warning.formattedMessage)
+	private reportDiagnostic(diagnostic: CompileDiagnostic): void {
+		if (diagnostic.severity === DiagnosticSeverity.Error) {
+			this.logger.error(diagnostic.formattedMessage)
+		} else {
+			this.logger.warning(diagnostic.formattedMessage)
+		}
+	}
+
+	private reportDiagnostics(diagnostics: CompileDiagnostic[]): void {
+		for (const diagnostic of diagnostics) {
+			this.reportDiagnostic(diagnostic)
 		}
+		const summary = formatDiagnosticSummary(diagnostics)
+		if (summary) this.logger.info(summary)
 	}
 
 	private compileSource(source: string): CompileResult | null {
 		try {
-			const result = compile(source, { filename: this.input, optimize: this.optimize })
-			this.displayWarnings(result.warnings)
+			const { diagnostics, result } = compileToResult(source, {
+				filename: this.input,
+				optimize: this.optimize,
+				tailCalls: this.tailCalls,
+			})
+			this.reportDiagnostics(diagnostics)
+			if (!result) {
+				this.exitCode = 1
+				return null
+			}
 			if (!result.valid) {
 				this.logger.error(formatValidationError())
 				this.exitCode = 1
@@ -0,0 +1,76 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { args, BaseCommand, flags } from '@adonisjs/ace'
+import { type FormatResult, format } from '@tinywhale/compiler'
+import {
+	formatCompileError,
+	formatReadError,
+	formatUnformattedError,
+	formatWriteError,
+} from '../utils.ts'
+
+export default class FmtCommand extends BaseCommand {
+	static override commandName = 'fmt'
+	static override description = 'Format TinyWhale source files in place'
+
+	@args.spread({ description: 'Input .tw files to format' })
+	declare inputs: string[]
+
+	@flags.boolean({ description: 'Report unformatted files instead of rewriting them' })
+	declare check: boolean
+
+	private async readSourceFile(input: string): Promise<string | null> {
+		try {
+			return await readFile(input, 'utf-8')
+		} catch (error: unknown) {
+			this.logger.error(formatReadError(input, error))
+			this.exitCode = 1
+			return null
+		}
+	}
+
+	private formatSource(input: string, source: string): FormatResult | null {
+		try {
+			const result = format(source, input)
+			if (!result.succeeded) {
+				this.logger.error(result.context.formatAllDiagnostics())
+				this.exitCode = 1
+				return null
+			}
+			return result
+		} catch (error: unknown) {
+			this.logger.error(formatCompileError(error))
+			this.exitCode = 1
+			return null
+		}
+	}
+
+	private async writeSourceFile(input: string, text: string): Promise<void> {
+		try {
+			await writeFile(input, text)
+		} catch (error: unknown) {
+			this.logger.error(formatWriteError(error))
+			this.exitCode = 1
+		}
+	}
+
+	private async formatFile(input: string): Promise<void> {
+		const source = await this.readSourceFile(input)
+		if (source === null) return
+
+		const result = this.formatSource(input, source)
+		if (result === null || result.text === source) return
+
+		if (this.check) {
+			this.logger.error(formatUnformattedError(input))
+			this.exitCode = 1
+			return
+		}
+		await this.writeSourceFile(input, result.text)
+	}
+
+	override async run(): Promise<void> {
+		for (const input of this.inputs) {
+			await this.formatFile(input)
+		}
+	}
+}
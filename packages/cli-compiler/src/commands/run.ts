@@ -0,0 +1,161 @@
+import { readFile } from 'node:fs/promises'
+import { args, BaseCommand, flags } from '@adonisjs/ace'
+import {
+	type CompileDiagnostic,
+	type CompileResult,
+	compileToResult,
+	DiagnosticSeverity,
+	type ExportedFunction,
+} from '@tinywhale/compiler'
+import {
+	createHostImports,
+	formatArgumentCountError,
+	formatCompileError,
+	formatDiagnosticSummary,
+	formatInvalidArgumentError,
+	formatReadError,
+	formatResult,
+	formatRuntimeError,
+	formatUnknownFunctionError,
+	formatValidationError,
+	parseArgument,
+	type WasmValue,
+} from '../utils.ts'
+
+/** A call to make once the program has run. */
+interface Invocation {
+	name: string
+	values: WasmValue[]
+	result: ExportedFunction['result']
+}
+
+type ExportedCallable = (...values: WasmValue[]) => WasmValue | WasmValue[] | undefined
+
+export default class RunCommand extends BaseCommand {
+	static override commandName = 'run'
+	static override description = 'Compile a TinyWhale source file and run it'
+
+	@args.string({ description: 'Input .tw file to run' })
+	declare input: string
+
+	@args.spread({ description: 'Arguments for the invoked function', required: false })
+	declare values?: string[]
+
+	@flags.string({ description: 'Function to call after the program runs' })
+	declare invoke?: string
+
+	@flags.boolean({ description: 'Compile calls in tail position to WebAssembly tail calls' })
+	declare tailCalls: boolean
+
+	private async readSourceFile(): Promise<string | null> {
+		try {
+			return await readFile(this.input, 'utf-8')
+		} catch (error: unknown) {
+			this.logger.error(formatReadError(this.input, error))
+			this.exitCode = 1
+			return null
+		}
+	}
+
+	private reportDiagnostic(diagnostic: CompileDiagnostic): void {
+		if (diagnostic.severity === DiagnosticSeverity.Error) {
+			this.logger.error(diagnostic.formattedMessage)
+		} else {
+			this.logger.warning(diagnostic.formattedMessage)
+		}
+	}
+
+	private reportDiagnostics(diagnostics: CompileDiagnostic[]): void {
+		for (const diagnostic of diagnostics) {
+			this.reportDiagnostic(diagnostic)
+		}
+		const summary = formatDiagnosticSummary(diagnostics)
+		if (summary) this.logger.info(summary)
+	}
+
+	private compileSource(source: string): CompileResult | null {
+		try {
+			const { diagnostics, result } = compileToResult(source, {
+				filename: this.input,
+				tailCalls: this.tailCalls,
+			})
+			this.reportDiagnostics(diagnostics)
+			if (!result) {
+				this.exitCode = 1
+				return null
+			}
+			if (!result.valid) {
+				this.logger.error(formatValidationError())
+				this.exitCode = 1
+				return null
+			}
+			return result
+		} catch (error: unknown) {
+			this.logger.error(formatCompileError(error))
+			this.exitCode = 1
+			return null
+		}
+	}
+
+	private fail(message: string): null {
+		this.logger.error(message)
+		this.exitCode = 1
+		return null
+	}
+
+	private parseArguments(func: ExportedFunction, texts: string[]): WasmValue[] | null {
+		if (texts.length !== func.params.length) {
+			return this.fail(formatArgumentCountError(func.name, func.params.length, texts.length))
+		}
+		const values = func.params.map((type, i) => parseArgument(texts[i] ?? '', type))
+		const invalid = values.indexOf(null)
+		if (invalid !== -1) {
+			const type = func.params[invalid] ?? 'i32'
+			return this.fail(formatInvalidArgumentError(texts[invalid] ?? '', type))
+		}
+		return values.filter((value) => value !== null)
+	}
+
+	/**
+	 * Check the requested call against the function's signature before
+	 * anything runs. Returns undefined when nothing is to be invoked.
+	 */
+	private resolveInvocation(result: CompileResult): Invocation | null | undefined {
+		if (this.invoke === undefined) return undefined
+		const name = this.invoke
+		const func = result.functions.find((candidate) => candidate.name === name)
+		if (!func) return this.fail(formatUnknownFunctionError(name))
+		const values = this.parseArguments(func, this.values ?? [])
+		return values && { name, result: func.result, values }
+	}
+
+	/**
+	 * Instantiating the module runs `_start`, which it declares as its start
+	 * function. Host imports print the values they are called with.
+	 */
+	private async execute(result: CompileResult, invocation: Invocation | undefined): Promise<void> {
+		try {
+			const imports = createHostImports(result.imports, (line) => this.logger.log(line))
+			const { instance } = await WebAssembly.instantiate(result.binary, imports)
+			if (!invocation) return
+			const callable = instance.exports[invocation.name] as ExportedCallable
+			const value = callable(...invocation.values)
+			if (value !== undefined) this.logger.log(formatResult(value, invocation.result))
+		} catch (error: unknown) {
+			this.fail(formatRuntimeError(error))
+		}
+	}
+
+	override async run(): Promise<void> {
+		const source = await this.readSourceFile()
+		if (source === null) return
+
+		const result = this.compileSource(source)
+		if (result === null) return
+
+		const invocation = this.resolveInvocation(result)
+		if (invocation === null) return
+
+		await this.execute(result, invocation)
+	}
+}
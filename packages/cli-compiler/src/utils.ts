@@ -1,5 +1,13 @@
 import { basename, join } from 'node:path'
-import { CompileError, type CompileResult } from '@tinywhale/compiler'
+import {
+	type CompileDiagnostic,
+	CompileError,
+	type CompileResult,
+	DiagnosticSeverity,
+	type ExportedFunction,
+	type HostValueType,
+	type ImportedFunction,
+} from '@tinywhale/compiler'
 import {
 	interpolateMessage,
 	TWCLI001,
@@ -8,10 +16,19 @@ import {
 	TWCLI004,
 	TWCLI005,
 	TWCLI006,
+	TWCLI007,
+	TWCLI008,
+	TWCLI009,
+	TWCLI010,
+	TWCLI011,
+	TWCLI012,
 } from '@tinywhale/diagnostics'
 
 export type OutputTarget = 'wasm' | 'wat'
 
+/** A value passed to or returned from a WebAssembly function. */
+export type WasmValue = bigint | number
+
 export function isNodeError(error: unknown): error is NodeJS.ErrnoException {
 	return error instanceof Error && 'code' in error
 }
@@ -53,6 +70,147 @@ export function formatCompileError(error: unknown): string {
 	return `[${TWCLI006.code}] ${message}`
 }
 
+export function formatUnformattedError(filePath: string): string {
+	const message = interpolateMessage(TWCLI007.message, { path: filePath })
+	return `[${TWCLI007.code}] ${message}`
+}
+
+export function formatUnknownFunctionError(name: string): string {
+	const message = interpolateMessage(TWCLI008.message, { name })
+	return `[${TWCLI008.code}] ${message}`
+}
+
+export function formatArgumentCountError(name: string, expected: number, actual: number): string {
+	const message = interpolateMessage(TWCLI009.message, {
+		actual: String(actual),
+		expected: String(expected),
+		name,
+	})
+	return `[${TWCLI009.code}] ${message}`
+}
+
+export function formatInvalidArgumentError(value: string, type: HostValueType): string {
+	const message = interpolateMessage(TWCLI010.message, { type, value })
+	return `[${TWCLI010.code}] ${message}`
+}
+
+/** `panic` and non-exhaustive matches compile to `unreachable`; other traps keep their reason. */
+export function formatRuntimeError(error: unknown): string {
+	if (error instanceof WebAssembly.RuntimeError && error.message === 'unreachable') {
+		return `[${TWCLI011.code}] ${TWCLI011.message}`
+	}
+	const message = interpolateMessage(TWCLI012.message, { reason: getErrorMessage(error) })
+	return `[${TWCLI012.code}] ${message}`
+}
+
+/** An integer of the given width and signedness, or null when the text is not one. */
+function parseInteger(text: string, bits: bigint, signed: boolean): bigint | null {
+	if (!/^-?\d+$/.test(text)) return null
+	const value = BigInt(text)
+	const min = signed ? -(1n << (bits - 1n)) : 0n
+	return value >= min && value < min + (1n << bits) ? value : null
+}
+
+function toNumber(value: bigint | null): number | null {
+	return value === null ? null : Number(value)
+}
+
+function parseDecimal(text: string): number | null {
+	const value = Number(text)
+	return text.trim() === '' || Number.isNaN(value) ? null : value
+}
+
+/** A boolean crosses the boundary as 1 or 0. */
+function parseBool(text: string): number | null {
+	if (text === 'true') return 1
+	return text === 'false' ? 0 : null
+}
+
+const ARGUMENT_PARSERS: Record<HostValueType, (text: string) => WasmValue | null> = {
+	bool: parseBool,
+	f32: parseDecimal,
+	f64: parseDecimal,
+	i32: (text) => toNumber(parseInteger(text, 32n, true)),
+	i64: (text) => parseInteger(text, 64n, true),
+	u32: (text) => toNumber(parseInteger(text, 32n, false)),
+	u64: (text) => parseInteger(text, 64n, false),
+}
+
+/**
+ * Parse a command-line argument as the value the JS API expects for a
+ * wasm parameter: i64 and u64 as a BigInt, `true` and `false` as 1 and
+ * 0, everything else as a number.
+ * Returns null when the text is not a valid value of that type.
+ */
+export function parseArgument(text: string, type: HostValueType): WasmValue | null {
+	return ARGUMENT_PARSERS[type](text)
+}
+
+/**
+ * The JS API reads every integer as signed; unsigned ones are read back
+ * by their bits, and booleans from their 0 or 1.
+ */
+const VALUE_FORMATTERS: Partial<Record<HostValueType, (value: WasmValue) => string>> = {
+	bool: (value) => String(value !== 0),
+	u32: (value) => String(Number(value) >>> 0),
+	u64: (value) => String(BigInt.asUintN(64, BigInt(value))),
+}
+
+function formatValue(value: WasmValue, type: HostValueType | undefined): string {
+	const format = type === undefined ? undefined : VALUE_FORMATTERS[type]
+	return format ? format(value) : String(value)
+}
+
+/**
+ * Format the value a function returned. Functions returning tuples
+ * return one value per element, printed space-separated.
+ */
+export function formatResult(
+	value: WasmValue | WasmValue[],
+	type: ExportedFunction['result']
+): string {
+	const types = [type ?? []].flat()
+	return [value]
+		.flat()
+		.map((element, i) => formatValue(element, types[i]))
+		.join(' ')
+}
+
+/**
+ * Host functions for a program's imports. Each prints the values it is
+ * called with on one line and returns nothing.
+ */
+export function createHostImports(
+	imports: readonly ImportedFunction[],
+	print: (line: string) => void
+): WebAssembly.Imports {
+	const modules: WebAssembly.Imports = {}
+	for (const { module, name, params } of imports) {
+		modules[module] ??= {}
+		modules[module][name] = (...values: WasmValue[]) => print(formatResult(values, params))
+	}
+	return modules
+}
+
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function countSeverity(diagnostics: readonly CompileDiagnostic[], severity: DiagnosticSeverity) {
+	return diagnostics.filter((d) => d.severity === severity).length
+}
+
+/** Summary line such as "3 errors, 1 warning"; empty when there is nothing to count. */
+export function formatDiagnosticSummary(diagnostics: readonly CompileDiagnostic[]): string {
+	const errors = countSeverity(diagnostics, DiagnosticSeverity.Error)
+	const warnings = countSeverity(diagnostics, DiagnosticSeverity.Warning)
+	const parts = [
+		...(errors > 0 ? [pluralize(errors, 'error')] : []),
+		...(warnings > 0 ? [pluralize(warnings, 'warning')] : []),
+	]
+	return parts.join(', ')
+}
+
 export function isValidTarget(value: string): value is OutputTarget {
 	return value === 'wasm' || value === 'wat'
 }
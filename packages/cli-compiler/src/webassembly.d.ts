@@ -0,0 +1,23 @@
+/**
+ * The part of the WebAssembly JS API that `tinywhale run` uses.
+ *
+ * Node provides the global at runtime, but its types only ship with the
+ * DOM lib, which this package does not load.
+ */
+
+declare namespace WebAssembly {
+	interface Instance {
+		readonly exports: Record<string, unknown>
+	}
+
+	interface WebAssemblyInstantiatedSource {
+		instance: Instance
+	}
+
+	/** Host values a module imports, by module name and then field name */
+	type Imports = Record<string, Record<string, unknown>>
+
+	class RuntimeError extends Error {}
+
+	function instantiate(bytes: Uint8Array, imports?: Imports): Promise<WebAssemblyInstantiatedSource>
+}
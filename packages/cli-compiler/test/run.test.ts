@@ -0,0 +1,111 @@
+import assert from 'node:assert'
+import { spawnSync } from 'node:child_process'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+
+/** The built CLI; `pnpm -r build` runs before the tests. */
+const CLI = join(import.meta.dirname, '../dist/cli.js')
+
+interface RunOutput {
+	readonly status: number | null
+	readonly stdout: string
+	readonly stderr: string
+}
+
+function tinywhale(...args: string[]): RunOutput {
+	const { status, stderr, stdout } = spawnSync(process.execPath, [CLI, ...args], {
+		encoding: 'utf-8',
+		timeout: 60_000,
+	})
+	return { status, stderr, stdout }
+}
+
+const EVEN_ODD = `even: (i32) -> bool
+odd: (i32) -> bool
+even = tailrec (n: i32): bool -> n == 0 || odd(n - 1)
+odd = tailrec (n: i32): bool -> n != 0 && even(n - 1)
+`
+
+describe('tinywhale run', () => {
+	let dir: string
+
+	function sourceFile(name: string, source: string): string {
+		const path = join(dir, name)
+		writeFileSync(path, source)
+		return path
+	}
+
+	before(() => {
+		dir = mkdtempSync(join(tmpdir(), 'tinywhale-run-'))
+	})
+
+	after(() => {
+		rmSync(dir, { force: true, recursive: true })
+	})
+
+	describe('--tail-calls', () => {
+		it('should run deep tail recursion without overflowing the stack', () => {
+			const file = sourceFile('even.tw', EVEN_ODD)
+			const result = tinywhale('run', file, '--tail-calls', '--invoke', 'even', '1000001')
+			assert.strictEqual(result.status, 0, result.stderr)
+			assert.strictEqual(result.stdout.trim(), 'false')
+		})
+
+		it('should overflow the stack without tail calls', () => {
+			const file = sourceFile('even.tw', EVEN_ODD)
+			const result = tinywhale('run', file, '--invoke', 'even', '1000001')
+			assert.strictEqual(result.status, 1)
+			assert.match(result.stderr, /TWCLI012/)
+		})
+	})
+
+	describe('--invoke with unsigned values', () => {
+		it('should pass and print u32 values above the signed range', () => {
+			const file = sourceFile('u32.tw', 'max = (a: u32): u32 -> a\n')
+			const result = tinywhale('run', file, '--invoke', 'max', '4294967295')
+			assert.strictEqual(result.status, 0, result.stderr)
+			assert.strictEqual(result.stdout.trim(), '4294967295')
+		})
+
+		it('should pass and print u64 values above the signed range', () => {
+			const file = sourceFile('u64.tw', 'max = (a: u64): u64 -> a\n')
+			const result = tinywhale('run', file, '--invoke', 'max', '18446744073709551615')
+			assert.strictEqual(result.status, 0, result.stderr)
+			assert.strictEqual(result.stdout.trim(), '18446744073709551615')
+		})
+
+		it('should print unsigned results computed from signed-range arguments', () => {
+			const file = sourceFile('sub.tw', 'sub = (a: u32, b: u32): u32 -> a - b\n')
+			const result = tinywhale('run', file, '--invoke', 'sub', '0', '1')
+			assert.strictEqual(result.status, 0, result.stderr)
+			assert.strictEqual(result.stdout.trim(), '4294967295')
+		})
+
+		it('should reject arguments outside the unsigned range', () => {
+			const file = sourceFile('u32.tw', 'max = (a: u32): u32 -> a\n')
+			const result = tinywhale('run', file, '--invoke', 'max', '-1')
+			assert.strictEqual(result.status, 1)
+			assert.match(result.stderr, /TWCLI010/)
+		})
+	})
+
+	describe('--invoke with bool values', () => {
+		const NOT = 'not = (b: bool): bool -> b == false\n'
+
+		it('should pass true and false and print bool results', () => {
+			const file = sourceFile('not.tw', NOT)
+			assert.strictEqual(tinywhale('run', file, '--invoke', 'not', 'true').stdout.trim(), 'false')
+			assert.strictEqual(tinywhale('run', file, '--invoke', 'not', 'false').stdout.trim(), 'true')
+		})
+
+		it('should reject integers for bool parameters', () => {
+			const file = sourceFile('not.tw', NOT)
+			const result = tinywhale('run', file, '--invoke', 'not', '5')
+			assert.strictEqual(result.status, 1)
+			assert.match(result.stderr, /TWCLI010/)
+			assert.match(result.stderr, /invalid bool argument "5"/)
+		})
+	})
+})
@@ -1,13 +1,22 @@
 import assert from 'node:assert'
 import { describe, it } from 'node:test'
-import { CompileError } from '@tinywhale/compiler'
+import { type CompileDiagnostic, CompileError, DiagnosticSeverity } from '@tinywhale/compiler'
 import {
+	createHostImports,
+	formatArgumentCountError,
 	formatCompileError,
+	formatDiagnosticSummary,
+	formatInvalidArgumentError,
 	formatReadError,
+	formatResult,
+	formatRuntimeError,
+	formatUnformattedError,
+	formatUnknownFunctionError,
 	getErrorMessage,
 	getOutputContent,
 	isNodeError,
 	isValidTarget,
+	parseArgument,
 	resolveOutputFilename,
 	resolveOutputPath,
 } from '../src/utils.ts'
@@ -86,6 +95,179 @@ describe('formatCompileError', () => {
 	})
 })
 
+describe('formatUnformattedError', () => {
+	it('should format the path with TWCLI007 code', () => {
+		const result = formatUnformattedError('src/main.tw')
+		assert.strictEqual(result, '[TWCLI007] file is not formatted: src/main.tw')
+	})
+})
+
+describe('formatDiagnosticSummary', () => {
+	function diagnosticsOf(...severities: DiagnosticSeverity[]): CompileDiagnostic[] {
+		return severities.map((severity) => ({
+			code: 'TWCHECK013',
+			column: 1,
+			endColumn: 2,
+			endLine: 1,
+			formattedMessage: '',
+			line: 1,
+			message: '',
+			severity,
+		}))
+	}
+
+	it('should count errors and warnings', () => {
+		const { Error: error, Warning: warning } = DiagnosticSeverity
+		const result = formatDiagnosticSummary(diagnosticsOf(error, warning, error, error))
+		assert.strictEqual(result, '3 errors, 1 warning')
+	})
+
+	it('should leave out a severity that did not occur', () => {
+		assert.strictEqual(formatDiagnosticSummary(diagnosticsOf(DiagnosticSeverity.Error)), '1 error')
+		const warnings = diagnosticsOf(DiagnosticSeverity.Warning, DiagnosticSeverity.Warning)
+		assert.strictEqual(formatDiagnosticSummary(warnings), '2 warnings')
+	})
+
+	it('should be empty without diagnostics', () => {
+		assert.strictEqual(formatDiagnosticSummary([]), '')
+	})
+})
+
+describe('invocation errors', () => {
+	it('should format an unknown function with TWCLI008 code', () => {
+		const result = formatUnknownFunctionError('add')
+		assert.strictEqual(result, '[TWCLI008] no function named "add" to invoke')
+	})
+
+	it('should format an argument count mismatch with TWCLI009 code', () => {
+		const result = formatArgumentCountError('add', 2, 1)
+		assert.strictEqual(result, '[TWCLI009] add takes 2 argument(s) but 1 were given')
+	})
+
+	it('should format an invalid argument with TWCLI010 code', () => {
+		const result = formatInvalidArgumentError('x', 'i32')
+		assert.strictEqual(result, '[TWCLI010] invalid i32 argument "x"')
+	})
+})
+
+describe('formatRuntimeError', () => {
+	it('should report an unreachable trap as a panic with TWCLI011 code', () => {
+		const result = formatRuntimeError(new WebAssembly.RuntimeError('unreachable'))
+		assert.strictEqual(result, '[TWCLI011] program panicked')
+	})
+
+	it('should keep the reason of other traps with TWCLI012 code', () => {
+		const result = formatRuntimeError(new WebAssembly.RuntimeError('divide by zero'))
+		assert.strictEqual(result, '[TWCLI012] runtime error: divide by zero')
+	})
+})
+
+describe('parseArgument', () => {
+	it('should parse i32 as a number', () => {
+		assert.strictEqual(parseArgument('-42', 'i32'), -42)
+	})
+
+	it('should parse i64 as a BigInt without losing precision', () => {
+		assert.strictEqual(parseArgument('9007199254740993', 'i64'), 9007199254740993n)
+	})
+
+	it('should parse floats as numbers', () => {
+		assert.strictEqual(parseArgument('1.5', 'f64'), 1.5)
+		assert.strictEqual(parseArgument('-2e3', 'f32'), -2000)
+	})
+
+	it('should reject integers out of range', () => {
+		assert.strictEqual(parseArgument('2147483648', 'i32'), null)
+		assert.strictEqual(parseArgument('-2147483648', 'i32'), -2147483648)
+		assert.strictEqual(parseArgument('9223372036854775808', 'i64'), null)
+	})
+
+	it('should parse unsigned integers against the unsigned range', () => {
+		assert.strictEqual(parseArgument('4294967295', 'u32'), 4294967295)
+		assert.strictEqual(parseArgument('4294967296', 'u32'), null)
+		assert.strictEqual(parseArgument('18446744073709551615', 'u64'), 18446744073709551615n)
+		assert.strictEqual(parseArgument('18446744073709551616', 'u64'), null)
+		assert.strictEqual(parseArgument('-1', 'u32'), null)
+		assert.strictEqual(parseArgument('-1', 'u64'), null)
+	})
+
+	it('should parse only true and false as bool', () => {
+		assert.strictEqual(parseArgument('true', 'bool'), 1)
+		assert.strictEqual(parseArgument('false', 'bool'), 0)
+		assert.strictEqual(parseArgument('1', 'bool'), null)
+		assert.strictEqual(parseArgument('5', 'bool'), null)
+		assert.strictEqual(parseArgument('True', 'bool'), null)
+	})
+
+	it('should reject text that is not a number of the type', () => {
+		assert.strictEqual(parseArgument('1.5', 'i32'), null)
+		assert.strictEqual(parseArgument('abc', 'i64'), null)
+		assert.strictEqual(parseArgument('', 'f64'), null)
+		assert.strictEqual(parseArgument('abc', 'f64'), null)
+	})
+})
+
+describe('formatResult', () => {
+	it('should print a single value as is', () => {
+		assert.strictEqual(formatResult(42, 'i32'), '42')
+		assert.strictEqual(formatResult(9007199254740993n, 'i64'), '9007199254740993')
+	})
+
+	it('should print tuple results space-separated', () => {
+		assert.strictEqual(formatResult([3, 1], ['i32', 'i32']), '3 1')
+		assert.strictEqual(formatResult([2.5, 4n], ['f64', 'i64']), '2.5 4')
+	})
+
+	it('should print unsigned results above the signed range as unsigned', () => {
+		assert.strictEqual(formatResult(-1, 'u32'), '4294967295')
+		assert.strictEqual(formatResult(-1n, 'u64'), '18446744073709551615')
+		assert.strictEqual(formatResult([-1, -1], ['i32', 'u32']), '-1 4294967295')
+	})
+
+	it('should print bool results as true and false', () => {
+		assert.strictEqual(formatResult(1, 'bool'), 'true')
+		assert.strictEqual(formatResult(0, 'bool'), 'false')
+		assert.strictEqual(formatResult([1, 1], ['i32', 'bool']), '1 true')
+	})
+})
+
+describe('createHostImports', () => {
+	it('should group imports by module', () => {
+		const imports = createHostImports(
+			[
+				{ module: 'env', name: 'log', params: ['i32'], result: null },
+				{ module: 'env', name: 'show', params: ['f64'], result: null },
+				{ module: 'debug', name: 'trace', params: [], result: null },
+			],
+			() => {}
+		)
+		assert.deepStrictEqual(Object.keys(imports), ['env', 'debug'])
+		assert.deepStrictEqual(Object.keys(imports['env'] ?? {}), ['log', 'show'])
+	})
+
+	it('should print the values a host function is called with', () => {
+		const lines: string[] = []
+		const imports = createHostImports(
+			[{ module: 'env', name: 'log', params: ['i32', 'i64'], result: null }],
+			(line) => lines.push(line)
+		)
+		const log = imports['env']?.['log'] as (...values: (bigint | number)[]) => void
+		log(42, 7n)
+		assert.deepStrictEqual(lines, ['42 7'])
+	})
+
+	it('should print unsigned values a host function is called with as unsigned', () => {
+		const lines: string[] = []
+		const imports = createHostImports(
+			[{ module: 'env', name: 'log', params: ['u32', 'u64'], result: null }],
+			(line) => lines.push(line)
+		)
+		const log = imports['env']?.['log'] as (...values: (bigint | number)[]) => void
+		log(-1, -1n)
+		assert.deepStrictEqual(lines, ['4294967295 18446744073709551615'])
+	})
+})
+
 describe('isValidTarget', () => {
 	it('should return true for "wasm"', () => {
 		assert.strictEqual(isValidTarget('wasm'), true)
@@ -147,6 +329,7 @@ describe('resolveOutputPath', () => {
 describe('getOutputContent', () => {
 	const mockResult = {
 		binary: new Uint8Array([0, 1, 2, 3]),
+		functions: [],
 		text: '(module)',
 		valid: true,
 		warnings: [],
@@ -1,4 +1,6 @@
+import type { AddressInfo, Server } from 'node:net'
 import { BaseCommand, flags } from '@adonisjs/ace'
+import { startStdioServer, startTcpServer } from '@tinywhale/lsp'
 
 export default class StartCommand extends BaseCommand {
 	static override commandName = 'start'
@@ -16,16 +18,45 @@ export default class StartCommand extends BaseCommand {
 	})
 	declare port?: number
 
+	@flags.string({
+		default: '127.0.0.1',
+		description: 'Interface to bind in TCP mode',
+	})
+	declare host: string
+
+	private async listenOnPort(port: number): Promise<Server | null> {
+		try {
+			return await startTcpServer(port, this.host)
+		} catch (error: unknown) {
+			const reason = error instanceof Error ? error.message : String(error)
+			this.logger.error(`cannot listen on port ${port}: ${reason}`)
+			this.exitCode = 1
+			return null
+		}
+	}
+
+	private async runTcp(port: number): Promise<void> {
+		this.logger.info(`Starting language server on port ${port}...`)
+		const server = await this.listenOnPort(port)
+		if (server === null) return
+
+		const address = server.address() as AddressInfo
+		this.logger.success(`Listening for clients on ${address.address}:${address.port}`)
+		await new Promise<void>((resolve) => server.on('close', resolve))
+	}
+
+	private async runStdio(): Promise<void> {
+		// stdout carries the protocol, so nothing may be logged there
+		const connection = startStdioServer()
+		await new Promise<void>((resolve) => connection.onExit(resolve))
+	}
+
 	override async run(): Promise<void> {
 		if (this.port !== undefined) {
-			this.logger.info(`Starting language server on port ${this.port}...`)
-			this.logger.warning('TCP mode not yet implemented')
-			this.exitCode = 1
+			await this.runTcp(this.port)
 			return
 		}
 
-		this.logger.info('Starting language server on stdio...')
-		this.logger.warning('Language server not yet implemented')
-		this.logger.info('See @tinywhale/lsp package for implementation status')
+		await this.runStdio()
 	}
 }
@@ -0,0 +1,453 @@
+/**
+ * Completion.
+ *
+ * Completion runs while the user is typing, so the line under the
+ * cursor rarely parses. What to offer is decided from the text before
+ * the cursor; what is known about the program comes from checking only
+ * the lines above it, which is also exactly what is in scope there.
+ * Lines above that fail to parse are blanked out and the check retried,
+ * so one broken line does not take completion down with it.
+ */
+
+import { check } from '../check/checker.ts'
+import { BuiltinTypeId, type SymbolId, type TypeId, TypeKind } from '../check/types.ts'
+import { CompilationContext } from '../core/context.ts'
+import { type NodeId, NodeKind, nodeId } from '../core/nodes.ts'
+import { tokenize } from '../lex/tokenizer.ts'
+import { parse } from '../parse/parser.ts'
+import {
+	declaredType,
+	findBindingBefore,
+	isFuncTypeId,
+	recordTypeOfBinding,
+	recordTypeOfBlockOwner,
+	resolveNode,
+} from './resolve.ts'
+import { SemanticIndex } from './semantic-index.ts'
+
+export type CompletionKind = 'field' | 'function' | 'keyword' | 'parameter' | 'type' | 'variable'
+
+export interface CompletionItem {
+	readonly label: string
+	readonly kind: CompletionKind
+	/** Type or signature, for display next to the label */
+	readonly detail?: string
+}
+
+/** Everything a completion context needs to know about the request. */
+interface CompletionRequest {
+	/** Text of the cursor's line up to the cursor */
+	readonly before: string
+	/** All source lines, including those after the cursor */
+	readonly lines: readonly string[]
+	/** 1-indexed line of the cursor */
+	readonly line: number
+	/** Analysis of the lines above the cursor */
+	readonly index: SemanticIndex
+}
+
+/** Returns the items for a context, or null if the request is not in it. */
+type CompletionContext = (request: CompletionRequest) => CompletionItem[] | null
+
+const PRIMITIVE_TYPES = ['i32', 'i64', 'u32', 'u64', 'f32', 'f64', 'bool'] as const
+const BOUND_KEYWORDS = ['min', 'max', 'size'] as const
+const MAX_REPAIRS = 16
+
+const BOUND_LIST = /(?:\b(?:i32|i64|u32|u64|f32|f64)|\])<[^<>]*$/
+const BOUND_VALUE = /=\s*[\w-]*$/
+const FIELD_ACCESS = /([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\.\w*$/
+const RECORD_INSTANTIATION = /^[A-Za-z_]\w*\s*=\s*\w*$/
+const TYPE_POSITION = /:\s*\w*$/
+const FIELD_NAME = /^(\s+)\w*$/
+const BLOCK_ENTRY = /^\s+([A-Za-z_]\w*)\s*[=:]/
+const LAMBDA_PARAMS = /\(([^()]*)\)\s*(?::[^-]*)?->/
+const LAMBDA_PARAM = /^\s*([A-Za-z_]\w*)\s*:\s*(.+?)\s*$/
+const ARM_BINDING = /^\s*([a-z]\w*)\s*->/
+const BODY_OPENER = /->\s*$/
+const LOCAL_BINDING = /^\s+([a-z_]\w*)\s*(?::([^<=]*(?:<[^>]*>)?[^=]*?))?\s*=(?!=)/
+
+// ============================================================================
+// Prefix analysis
+// ============================================================================
+
+function analyzeSource(source: string, filename: string): CompilationContext {
+	const context = new CompilationContext(source, filename)
+	if (tokenize(context).succeeded && parse(context).succeeded) check(context)
+	return context
+}
+
+/** The line of the first error, if it stopped parsing. */
+function failedLine(context: CompilationContext): number | undefined {
+	return context.types === null ? context.getErrors()[0]?.line : undefined
+}
+
+/**
+ * Check the lines above the cursor, blanking any that stop the program
+ * from parsing. Blank lines keep line numbers aligned with the document.
+ */
+function analyzePrefix(lines: readonly string[], line: number, filename: string): SemanticIndex {
+	const prefix = lines.slice(0, line - 1)
+	let context = analyzeSource(`${prefix.join('\n')}\n`, filename)
+	for (let attempt = 0; attempt < MAX_REPAIRS; attempt++) {
+		const broken = failedLine(context)
+		if (broken === undefined || prefix[broken - 1] === undefined) break
+		prefix[broken - 1] = ''
+		context = analyzeSource(`${prefix.join('\n')}\n`, filename)
+	}
+	return new SemanticIndex(context)
+}
+
+// ============================================================================
+// Items
+// ============================================================================
+
+function typeName(index: SemanticIndex, typeId: TypeId): string {
+	return index.context.types?.typeName(typeId) ?? ''
+}
+
+function primitiveItems(): CompletionItem[] {
+	return PRIMITIVE_TYPES.map((label) => ({ kind: 'type', label }))
+}
+
+function recordTypeItems(index: SemanticIndex): CompletionItem[] {
+	const items: CompletionItem[] = []
+	for (const [, info] of index.context.types ?? []) {
+		if (info.kind === TypeKind.Record) items.push({ kind: 'type', label: info.name })
+	}
+	return items
+}
+
+function fieldItems(index: SemanticIndex, recordTypeId: TypeId): CompletionItem[] {
+	return (index.context.types?.getFields(recordTypeId) ?? []).map((field) => ({
+		detail: typeName(index, field.typeId),
+		kind: 'field',
+		label: field.name,
+	}))
+}
+
+/** Parameter symbols of a defined function; empty for forward declarations. */
+function paramSymbolsOf(index: SemanticIndex, name: string): readonly SymbolId[] {
+	for (const [, func] of index.context.funcs ?? []) {
+		if (index.context.strings.get(func.nameId) === name) return func.paramSymbols
+	}
+	return []
+}
+
+/** `(a: i32, b: i32) -> i32`, with parameter names when the body is known. */
+function funcSignature(index: SemanticIndex, name: string, typeId: TypeId): string {
+	const { strings, symbols } = index.context
+	const paramSymbols = paramSymbolsOf(index, name)
+	if (paramSymbols.length === 0 || !symbols) return typeName(index, typeId)
+	const params = paramSymbols.map((id) => {
+		const symbol = symbols.get(id)
+		return `${strings.get(symbol.nameId)}: ${typeName(index, symbol.typeId)}`
+	})
+	const returnType = index.context.types?.getFuncInfo(typeId)?.returnType ?? BuiltinTypeId.None
+	return `(${params.join(', ')}) -> ${typeName(index, returnType)}`
+}
+
+function bindingItem(index: SemanticIndex, name: string, id: NodeId): CompletionItem {
+	const resolution = resolveNode(index, id)
+	const typeId = resolution ? declaredType(index, resolution) : undefined
+	if (typeId === undefined) return { kind: 'variable', label: name }
+	if (isFuncTypeId(index, typeId)) {
+		return { detail: funcSignature(index, name, typeId), kind: 'function', label: name }
+	}
+	return { detail: typeName(index, typeId), kind: 'variable', label: name }
+}
+
+const DECLARATION_KINDS: ReadonlySet<NodeKind> = new Set([NodeKind.BindingExpr, NodeKind.FuncDecl])
+
+/**
+ * Bindings and functions declared above the cursor. A later binding of
+ * a name shadows an earlier one, so each name is offered once with the
+ * type of its latest binding.
+ */
+function scopeItems(index: SemanticIndex, endLine: number): CompletionItem[] {
+	const visible = new Map<string, NodeId>()
+	for (const id of declarations(index)) {
+		const { tokenId } = index.context.nodes.get(id)
+		if (index.context.tokens.get(tokenId).line >= endLine) continue
+		visible.set(index.tokenName(tokenId) ?? '', id)
+	}
+	return [...visible].map(([name, id]) => bindingItem(index, name, id))
+}
+
+/**
+ * The line of a top-level function whose body, on the indented lines
+ * below it, holds the cursor.
+ */
+function enclosingFunctionLine(request: CompletionRequest): number | undefined {
+	const start = statementStart(request)
+	const text = request.lines[start - 1] ?? ''
+	const opensBody = start !== request.line && BODY_OPENER.test(text)
+	return opensBody && LAMBDA_PARAMS.test(text) ? start : undefined
+}
+
+/**
+ * Bindings of a function body above the cursor, read from the text like
+ * parameters: a body that is still being written does not check. Only
+ * the body's own level counts, and a binding is not in scope within its
+ * own definition, including the indented lines of a match below it. A
+ * later binding of a name shadows an earlier one.
+ */
+function localItems(request: CompletionRequest, funcLine: number): CompletionItem[] {
+	const bodyIndent = indentOf(request.lines[funcLine] ?? '')
+	const bodyLines = request.lines.slice(funcLine, bodyStatementStart(request, bodyIndent) - 1)
+	const visible = new Map<string, CompletionItem>()
+	for (const item of bodyLines.flatMap((text) => localBindingItems(text, bodyIndent))) {
+		visible.set(item.label, item)
+	}
+	return [...visible.values()].reverse()
+}
+
+/** The line where the body-level statement containing the cursor starts. */
+function bodyStatementStart(request: CompletionRequest, bodyIndent: number): number {
+	if (indentOf(request.before) <= bodyIndent) return request.line
+	return findOwnerLine(request.lines, request.line, bodyIndent + 1) ?? request.line
+}
+
+function localBindingItems(text: string, bodyIndent: number): CompletionItem[] {
+	const item = indentOf(text) === bodyIndent ? localBindingItem(text) : undefined
+	return item ? [item] : []
+}
+
+function localBindingItem(text: string): CompletionItem | undefined {
+	const match = LOCAL_BINDING.exec(text)
+	if (!match?.[1]) return undefined
+	const detail = match[2]?.trim()
+	return detail
+		? { detail, kind: 'variable', label: match[1] }
+		: { kind: 'variable', label: match[1] }
+}
+
+/**
+ * In a function body: its parameters and bindings, and the functions
+ * declared above. Other top-level bindings cannot be captured by a
+ * function, so they are not offered.
+ */
+function bodyScopeItems(request: CompletionRequest, funcLine: number): CompletionItem[] {
+	const functions = scopeItems(request.index, funcLine + 1).filter(
+		(item) => item.kind === 'function'
+	)
+	return [
+		...localItems(request, funcLine),
+		...lambdaParamItems(request.lines[funcLine - 1] ?? ''),
+		...functions,
+	]
+}
+
+/**
+ * The line where the statement containing the cursor starts. A binding
+ * is not in scope within its own definition, including the indented
+ * lines of a match or record block below it.
+ */
+function statementStart(request: CompletionRequest): number {
+	if (indentOf(request.before) === 0) return request.line
+	return findOwnerLine(request.lines, request.line, 1) ?? request.line
+}
+
+function declarations(index: SemanticIndex): NodeId[] {
+	return index.lineIds().flatMap((lineId) => {
+		const content = index.lineContent(lineId)
+		return content !== undefined && isDeclaration(index, content) ? [content] : []
+	})
+}
+
+function isDeclaration(index: SemanticIndex, id: NodeId): boolean {
+	return DECLARATION_KINDS.has(index.context.nodes.get(id).kind)
+}
+
+/** Parameters of a lambda on the cursor's line, when the cursor is in its body. */
+function lambdaParamItems(before: string): CompletionItem[] {
+	const params = LAMBDA_PARAMS.exec(before)?.[1] ?? ''
+	return params.split(',').flatMap((param) => {
+		const match = LAMBDA_PARAM.exec(param)
+		return match?.[1] && match[2]
+			? [{ detail: match[2], kind: 'parameter' as const, label: match[1] }]
+			: []
+	})
+}
+
+/** The binding introduced by a match arm pattern on the cursor's line. */
+function armBindingItems(before: string): CompletionItem[] {
+	const name = ARM_BINDING.exec(before)?.[1]
+	return name === undefined ? [] : [{ kind: 'variable', label: name }]
+}
+
+// ============================================================================
+// Contexts
+// ============================================================================
+
+/** Inside `i32<...>` or `i32[]<...>`: bound keywords, or nothing after `=`. */
+function boundListContext(request: CompletionRequest): CompletionItem[] | null {
+	if (!BOUND_LIST.test(request.before)) return null
+	if (BOUND_VALUE.test(request.before)) return []
+	return [
+		...BOUND_KEYWORDS.map((label) => ({ kind: 'keyword' as const, label })),
+		...primitiveItems(),
+	]
+}
+
+/** After `p.` or `o.inner.`: the fields of the record reached so far. */
+function fieldAccessContext(request: CompletionRequest): CompletionItem[] | null {
+	const chain = FIELD_ACCESS.exec(request.before)?.[1]
+	if (chain === undefined) return null
+	const [root = '', ...path] = chain.split('.')
+	const recordTypeId = path.reduce<TypeId | undefined>(
+		(typeId, name) => fieldRecordType(request.index, typeId, name),
+		rootRecordType(request.index, root)
+	)
+	return recordTypeId === undefined ? [] : fieldItems(request.index, recordTypeId)
+}
+
+function rootRecordType(index: SemanticIndex, name: string): TypeId | undefined {
+	const end = nodeId(index.context.nodes.count())
+	const bindingId = findBindingBefore(index, name, end)
+	return bindingId === undefined ? undefined : recordTypeOfBinding(index, bindingId)
+}
+
+function fieldRecordType(
+	index: SemanticIndex,
+	recordTypeId: TypeId | undefined,
+	name: string
+): TypeId | undefined {
+	if (recordTypeId === undefined) return undefined
+	const field = index.context.types?.getField(recordTypeId, name)
+	return field && index.context.types?.isRecordType(field.typeId) ? field.typeId : undefined
+}
+
+/** `p = |` at the top level: a record instantiation names its type. */
+function recordInstantiationContext(request: CompletionRequest): CompletionItem[] | null {
+	return RECORD_INSTANTIATION.test(request.before) ? recordTypeItems(request.index) : null
+}
+
+/** After `name:`, a type is expected. */
+function typePositionContext(request: CompletionRequest): CompletionItem[] | null {
+	if (!TYPE_POSITION.test(request.before)) return null
+	return [...primitiveItems(), ...recordTypeItems(request.index)]
+}
+
+/**
+ * At the start of a line in a record initializer block: the fields of
+ * the record that the block does not initialize yet.
+ */
+function recordInitContext(request: CompletionRequest): CompletionItem[] | null {
+	const indent = FIELD_NAME.exec(request.before)?.[1]?.length
+	if (indent === undefined) return null
+	const ownerLine = findOwnerLine(request.lines, request.line, indent)
+	const recordTypeId =
+		ownerLine === undefined ? undefined : initializedRecordType(request.index, ownerLine)
+	if (ownerLine === undefined || recordTypeId === undefined) return null
+	const present = new Set(blockEntries(request, ownerLine, indent))
+	return fieldItems(request.index, recordTypeId).filter((item) => !present.has(item.label))
+}
+
+function indentOf(text: string): number {
+	return text.length - text.trimStart().length
+}
+
+function isDedentedPast(text: string, indent: number): boolean {
+	return text.trim() !== '' && indentOf(text) < indent
+}
+
+/** The nearest non-blank line above with less indentation. */
+function findOwnerLine(lines: readonly string[], line: number, indent: number): number | undefined {
+	for (let i = line - 1; i >= 1; i--) {
+		if (isDedentedPast(lines[i - 1] ?? '', indent)) return i
+	}
+	return undefined
+}
+
+/**
+ * The record a block initializes, if its owner is a record instantiation
+ * or a nested record init. Type declaration blocks declare new fields
+ * rather than initialize existing ones, so they do not count.
+ */
+function initializedRecordType(index: SemanticIndex, ownerLine: number): TypeId | undefined {
+	const lineId = index.lineAt(ownerLine)
+	const content = lineId === undefined ? undefined : index.lineContent(lineId)
+	return content !== undefined && isInitializer(index, content)
+		? recordTypeOfBlockOwner(index, content)
+		: undefined
+}
+
+function isInitializer(index: SemanticIndex, id: NodeId): boolean {
+	const kind = index.context.nodes.get(id).kind
+	return kind === NodeKind.BindingExpr || kind === NodeKind.FieldDecl
+}
+
+/** Field names already written in the block, above and below the cursor. */
+function blockEntries(request: CompletionRequest, ownerLine: number, indent: number): string[] {
+	const { lines } = request
+	return blockLines(lines, ownerLine, indent)
+		.filter((i) => i !== request.line && indentOf(lines[i - 1] ?? '') === indent)
+		.flatMap((i) => BLOCK_ENTRY.exec(lines[i - 1] ?? '')?.slice(1, 2) ?? [])
+}
+
+/** Line numbers of a block: from its owner to the first line indented less. */
+function blockLines(lines: readonly string[], ownerLine: number, indent: number): number[] {
+	const block: number[] = []
+	for (
+		let i = ownerLine + 1;
+		i <= lines.length && !isDedentedPast(lines[i - 1] ?? '', indent);
+		i++
+	) {
+		block.push(i)
+	}
+	return block
+}
+
+/** Anywhere else an expression may follow: everything in scope. */
+function expressionContext(request: CompletionRequest): CompletionItem[] {
+	const funcLine = enclosingFunctionLine(request)
+	const scope =
+		funcLine === undefined
+			? scopeItems(request.index, statementStart(request))
+			: bodyScopeItems(request, funcLine)
+	return uniqueItems([
+		...lambdaParamItems(request.before),
+		...armBindingItems(request.before),
+		...scope,
+	])
+}
+
+/** The first item of each name: inner scopes come first and shadow outer ones. */
+function uniqueItems(items: readonly CompletionItem[]): CompletionItem[] {
+	const seen = new Set<string>()
+	return items.filter((item) => !seen.has(item.label) && seen.add(item.label))
+}
+
+/** Checked in order; the first context that applies decides the items. */
+const CONTEXTS: readonly CompletionContext[] = [
+	boundListContext,
+	fieldAccessContext,
+	recordInstantiationContext,
+	typePositionContext,
+	recordInitContext,
+]
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Completion items at a 1-indexed position. Works on source that does
+ * not parse: only the text before the cursor and the lines above it
+ * are used to decide what to offer.
+ */
+export function getCompletions(
+	source: string,
+	line: number,
+	column: number,
+	filename = '<input>'
+): CompletionItem[] {
+	const lines = source.split('\n')
+	const before = (lines[line - 1] ?? '').slice(0, column - 1)
+	const request = { before, index: analyzePrefix(lines, line, filename), line, lines }
+	for (const context of CONTEXTS) {
+		const items = context(request)
+		if (items) return items
+	}
+	return expressionContext(request)
+}
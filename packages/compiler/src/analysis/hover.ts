@@ -0,0 +1,140 @@
+/**
+ * Hover queries: what is under the cursor and what is its type.
+ */
+
+import { CHECKED_NAME } from '../check/checked.ts'
+import { BuiltinTypeId, InstKind, type SymbolId, type TypeId } from '../check/types.ts'
+import type { CompilationContext } from '../core/context.ts'
+import type { TokenId } from '../core/tokens.ts'
+import {
+	checkedCallAt,
+	declaredType,
+	isFuncTypeId,
+	type Resolution,
+	resolveToken,
+} from './resolve.ts'
+import { SemanticIndex, type SourceSpan } from './semantic-index.ts'
+
+/** The role an identifier plays, for display. */
+export type HoverRole =
+	| 'builtin'
+	| 'field'
+	| 'function'
+	| 'parameter'
+	| 'type'
+	| 'variable'
+	| 'variant'
+
+interface HoverBase {
+	/** Name as written at the declaration */
+	readonly name: string
+	/** Resolved type of the entity (the type itself for role `type`) */
+	readonly typeId: TypeId
+	/** Source span of the hovered token */
+	readonly span: SourceSpan
+}
+
+/**
+ * Result of a hover query.
+ * Fields also carry the record type that declares them; a variant's type
+ * is its sum type.
+ */
+export type HoverInfo =
+	| (HoverBase & { readonly role: 'field'; readonly recordTypeId: TypeId })
+	| (HoverBase & { readonly role: Exclude<HoverRole, 'field'> })
+
+/** A record parameter is passed as its fields, so it is a parameter when they are. */
+function isParameter(index: SemanticIndex, symbolId: SymbolId): boolean {
+	const passedIds = index.context.symbols?.getRecordFields(symbolId) ?? [symbolId]
+	return [...(index.context.funcs ?? [])].some(([, func]) =>
+		passedIds.every((id) => func.paramSymbols.includes(id))
+	)
+}
+
+/** How a symbol is used: as a parameter, a function or a plain variable. */
+export function symbolRole(
+	index: SemanticIndex,
+	symbolId: SymbolId,
+	typeId: TypeId
+): 'function' | 'parameter' | 'variable' {
+	if (isParameter(index, symbolId)) return 'parameter'
+	return isFuncTypeId(index, typeId) ? 'function' : 'variable'
+}
+
+function resolutionName(index: SemanticIndex, resolution: Resolution): string {
+	switch (resolution.kind) {
+		case 'symbol': {
+			const nameId = index.context.symbols?.get(resolution.symbolId).nameId
+			return nameId === undefined ? '' : index.context.strings.get(nameId)
+		}
+		case 'aggregate':
+			return resolution.name
+		case 'field':
+			return resolution.field.name
+		case 'type':
+			return index.context.types?.typeName(resolution.typeId) ?? ''
+		case 'variant':
+			return resolution.variant.name
+	}
+}
+
+function buildHover(
+	index: SemanticIndex,
+	resolution: Resolution,
+	typeId: TypeId,
+	span: SourceSpan
+): HoverInfo {
+	const name = resolutionName(index, resolution)
+	switch (resolution.kind) {
+		case 'field':
+			return { name, recordTypeId: resolution.recordTypeId, role: 'field', span, typeId }
+		case 'type':
+			return { name, role: 'type', span, typeId }
+		case 'variant':
+			return { name, role: 'variant', span, typeId }
+		case 'aggregate':
+			return { name, role: 'variable', span, typeId }
+		case 'symbol':
+			return { name, role: symbolRole(index, resolution.symbolId, typeId), span, typeId }
+	}
+}
+
+/**
+ * Describe the entity at a 1-indexed source position.
+ * Returns null when the position is not on a resolvable identifier or type,
+ * or when checking has not run.
+ */
+export function getHover(
+	context: CompilationContext,
+	line: number,
+	column: number,
+	index: SemanticIndex = new SemanticIndex(context)
+): HoverInfo | null {
+	const tokenId = index.tokenAt(line, column)
+	if (tokenId === undefined || context.types === null) return null
+	return hoverToken(index, tokenId)
+}
+
+function hoverToken(index: SemanticIndex, tokenId: TokenId): HoverInfo | null {
+	const resolution = resolveToken(index, tokenId)
+	if (!resolution) return hoverBuiltin(index, tokenId)
+	const typeId = declaredType(index, resolution)
+	if (typeId === undefined) return null
+	return buildHover(index, resolution, typeId, index.tokenSpan(tokenId))
+}
+
+/**
+ * `checked` is declared by no binding. Its type is the bounded type it
+ * converts to, or Invalid when the call checks nothing: the conversion
+ * was rejected, or the value already fits.
+ */
+function hoverBuiltin(index: SemanticIndex, tokenId: TokenId): HoverInfo | null {
+	const callId = checkedCallAt(index, tokenId)
+	if (callId === undefined) return null
+	const check = index
+		.instsAt(callId)
+		.map((instId) => index.context.insts?.get(instId))
+		.find((inst) => inst?.kind === InstKind.RefinementCheck)
+	const typeId = check?.typeId ?? BuiltinTypeId.Invalid
+	return { name: CHECKED_NAME, role: 'builtin', span: index.tokenSpan(tokenId), typeId }
+}
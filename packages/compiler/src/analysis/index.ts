@@ -0,0 +1,38 @@
+/**
+ * Analysis: editor-facing queries over a checked compilation context.
+ *
+ * These run after check() and never emit diagnostics. They tolerate
+ * programs with errors, answering what they can from whatever the
+ * checker managed to build.
+ */
+
+export { type CompletionItem, type CompletionKind, getCompletions } from './completion.ts'
+export { getHover, type HoverInfo, type HoverRole } from './hover.ts'
+export {
+	findDefinition,
+	findReferences,
+	type Occurrence,
+	ReferenceIndex,
+} from './references.ts'
+export {
+	applyTextEdits,
+	prepareRename,
+	type RenameResult,
+	type RenameTarget,
+	rename,
+	type TextEdit,
+} from './rename.ts'
+export {
+	declaredType,
+	flattenedOrigin,
+	type Resolution,
+	resolveNode,
+	resolveToken,
+} from './resolve.ts'
+export { SemanticIndex, type SourceSpan } from './semantic-index.ts'
+export {
+	getSemanticTokens,
+	type SemanticToken,
+	type SemanticTokenModifier,
+	type SemanticTokenType,
+} from './semantic-tokens.ts'
@@ -0,0 +1,209 @@
+/**
+ * Definitions and references.
+ *
+ * Every identifier in the program is resolved once and grouped by the
+ * entity it names. Entities are compared by identity, not by name:
+ * `x: i32 = 1` followed by `x: i32 = 2` declares two symbols, and each
+ * reference belongs to whichever was visible where it appears.
+ */
+
+import type { SymbolId, TypeId } from '../check/types.ts'
+import type { CompilationContext } from '../core/context.ts'
+import { type NodeId, NodeKind } from '../core/nodes.ts'
+import { type TokenId, TokenKind } from '../core/tokens.ts'
+import { type Resolution, resolveToken } from './resolve.ts'
+import { SemanticIndex, type SourceSpan } from './semantic-index.ts'
+
+/** One appearance of an entity's name in the source. */
+export interface Occurrence {
+	readonly tokenId: TokenId
+	readonly span: SourceSpan
+	/** Whether this is the entity's declaration rather than a use */
+	readonly isDeclaration: boolean
+}
+
+/** Identity of a resolved entity, stable across occurrences. */
+function entityKey(resolution: Resolution): string {
+	switch (resolution.kind) {
+		case 'symbol':
+			return `symbol:${resolution.symbolId}`
+		case 'aggregate':
+			return `aggregate:${resolution.bindingNodeId}`
+		case 'field':
+			return `field:${resolution.recordTypeId}:${resolution.field.name}`
+		case 'type':
+			return `type:${resolution.typeId}`
+		case 'variant':
+			return `variant:${resolution.sumTypeId}:${resolution.variant.name}`
+	}
+}
+
+export class ReferenceIndex {
+	readonly semantic: SemanticIndex
+
+	private readonly resolutions: Map<TokenId, Resolution> = new Map()
+	private readonly occurrencesByKey: Map<string, TokenId[]> = new Map()
+
+	constructor(semantic: SemanticIndex) {
+		this.semantic = semantic
+		for (const [id, token] of semantic.context.tokens) {
+			if (token.kind === TokenKind.Identifier) this.indexToken(id)
+		}
+	}
+
+	private indexToken(tokenId: TokenId): void {
+		const resolution = resolveToken(this.semantic, tokenId)
+		if (!resolution) return
+		this.resolutions.set(tokenId, resolution)
+		const key = entityKey(resolution)
+		const existing = this.occurrencesByKey.get(key)
+		if (existing) existing.push(tokenId)
+		else this.occurrencesByKey.set(key, [tokenId])
+	}
+
+	/** The entity named at a 1-indexed position, if any. */
+	resolutionAt(line: number, column: number): Resolution | null {
+		const tokenId = this.semantic.tokenAt(line, column)
+		return tokenId === undefined ? null : this.resolutionOf(tokenId)
+	}
+
+	/** The entity an identifier token names, if any. */
+	resolutionOf(tokenId: TokenId): Resolution | null {
+		return this.resolutions.get(tokenId) ?? null
+	}
+
+	/**
+	 * Identity of the entity a token names. Keys are only comparable
+	 * between tokens of the same index.
+	 */
+	entityOf(tokenId: TokenId): string | undefined {
+		const resolution = this.resolutions.get(tokenId)
+		return resolution ? entityKey(resolution) : undefined
+	}
+
+	/** Where an entity is declared. Builtin types have no declaration. */
+	definition(resolution: Resolution): Occurrence | null {
+		const tokenId = this.declarationToken(resolution)
+		return tokenId === undefined ? null : this.occurrence(tokenId, tokenId)
+	}
+
+	/** Every occurrence of an entity in source order, declaration included. */
+	references(resolution: Resolution): Occurrence[] {
+		const declaration = this.declarationToken(resolution)
+		const tokenIds = this.occurrencesByKey.get(entityKey(resolution)) ?? []
+		return tokenIds.map((tokenId) => this.occurrence(tokenId, declaration))
+	}
+
+	private occurrence(tokenId: TokenId, declaration: TokenId | undefined): Occurrence {
+		return {
+			isDeclaration: tokenId === declaration,
+			span: this.semantic.tokenSpan(tokenId),
+			tokenId,
+		}
+	}
+
+	// ===========================================================================
+	// Declarations
+	// ===========================================================================
+
+	private declarationToken(resolution: Resolution): TokenId | undefined {
+		switch (resolution.kind) {
+			case 'symbol':
+				return this.symbolDeclaration(resolution.symbolId)
+			case 'aggregate':
+				return this.nodeToken(resolution.bindingNodeId)
+			case 'field':
+				return this.fieldDeclaration(resolution.recordTypeId, resolution.field.name)
+			case 'type':
+				return this.typeDeclaration(resolution.typeId)
+			case 'variant':
+				return this.nodeToken(resolution.variant.parseNodeId)
+		}
+	}
+
+	private nodeToken(id: NodeId): TokenId {
+		return this.semantic.context.nodes.get(id).tokenId
+	}
+
+	/**
+	 * A symbol's parse node is the statement that declared it. Parameters
+	 * share the node of their function's binding, so they are found among
+	 * its Parameter nodes by name.
+	 */
+	private symbolDeclaration(symbolId: SymbolId): TokenId | undefined {
+		const { context } = this.semantic
+		const symbol = context.symbols?.get(symbolId)
+		if (!symbol) return undefined
+		const name = context.strings.get(symbol.nameId)
+		if (this.semantic.tokenName(this.nodeToken(symbol.parseNodeId)) === name) {
+			return this.nodeToken(symbol.parseNodeId)
+		}
+		return this.parameterDeclaration(symbol.parseNodeId, name)
+	}
+
+	private parameterDeclaration(bindingId: NodeId, name: string): TokenId | undefined {
+		for (const [, node] of this.semantic.context.nodes.iterateSubtree(bindingId)) {
+			const isMatch =
+				node.kind === NodeKind.Parameter && this.semantic.tokenName(node.tokenId) === name
+			if (isMatch) return node.tokenId
+		}
+		return undefined
+	}
+
+	private typeDeclaration(typeId: TypeId): TokenId | undefined {
+		const parseNodeId = this.semantic.context.types?.get(typeId).parseNodeId
+		return parseNodeId == null ? undefined : this.nodeToken(parseNodeId)
+	}
+
+	/** The FieldDecl line in the block under a record's TypeDecl. */
+	private fieldDeclaration(recordTypeId: TypeId, name: string): TokenId | undefined {
+		const parseNodeId = this.semantic.context.types?.get(recordTypeId).parseNodeId
+		const declLine = parseNodeId == null ? undefined : this.semantic.lineOf(parseNodeId)
+		if (declLine === undefined) return undefined
+		return this.fieldsOfBlock(declLine).find((tokenId) => this.semantic.tokenName(tokenId) === name)
+	}
+
+	private fieldsOfBlock(ownerLine: NodeId): TokenId[] {
+		return this.semantic
+			.lineIds()
+			.filter((lineId) => this.semantic.blockOwner(lineId) === ownerLine)
+			.flatMap((lineId) => this.fieldDeclToken(this.semantic.lineContent(lineId)))
+	}
+
+	private fieldDeclToken(id: NodeId | undefined): TokenId[] {
+		if (id === undefined) return []
+		return this.semantic.context.nodes.get(id).kind === NodeKind.FieldDecl
+			? [this.nodeToken(id)]
+			: []
+	}
+}
+
+/**
+ * Find where the entity at a 1-indexed position is declared.
+ * Returns null off identifiers and for builtin types.
+ */
+export function findDefinition(
+	context: CompilationContext,
+	line: number,
+	column: number,
+	references: ReferenceIndex = new ReferenceIndex(new SemanticIndex(context))
+): Occurrence | null {
+	const resolution = references.resolutionAt(line, column)
+	return resolution ? references.definition(resolution) : null
+}
+
+/**
+ * Find every occurrence of the entity at a 1-indexed position,
+ * optionally leaving out its declaration.
+ */
+export function findReferences(
+	context: CompilationContext,
+	line: number,
+	column: number,
+	includeDeclaration: boolean,
+	references: ReferenceIndex = new ReferenceIndex(new SemanticIndex(context))
+): Occurrence[] {
+	const resolution = references.resolutionAt(line, column)
+	const found = resolution ? references.references(resolution) : []
+	return includeDeclaration ? found : found.filter((occurrence) => !occurrence.isDeclaration)
+}
@@ -0,0 +1,191 @@
+/**
+ * Rename refactoring.
+ *
+ * A rename edits every occurrence of one entity — the binding and its
+ * uses, a function's forward declaration, definition and calls, or a
+ * field's declaration, initializers and accesses. It must not change
+ * what any other name refers to: renaming `y` to `x` is rejected when a
+ * use of `y` would then resolve to an `x` bound in between, or when an
+ * existing `x` would be shadowed by the renamed binding. Rather than
+ * re-deriving the checker's scoping rules, the edited program is checked
+ * again and its references compared with the original's.
+ */
+
+import { check } from '../check/checker.ts'
+import { isEffectfulName } from '../check/funcs.ts'
+import { CompilationContext } from '../core/context.ts'
+import { type TokenId, TokenKind } from '../core/tokens.ts'
+import { isKeyword, tokenize } from '../lex/tokenizer.ts'
+import { parse } from '../parse/parser.ts'
+import { ReferenceIndex } from './references.ts'
+import type { Resolution } from './resolve.ts'
+import { SemanticIndex, type SourceSpan } from './semantic-index.ts'
+
+/** Replace the text of a span. */
+export interface TextEdit {
+	readonly span: SourceSpan
+	readonly newText: string
+}
+
+export type RenameResult =
+	| { readonly succeeded: true; readonly edits: readonly TextEdit[] }
+	| { readonly succeeded: false; readonly error: string }
+
+/** The identifier a rename would start from. */
+export interface RenameTarget {
+	readonly span: SourceSpan
+	readonly placeholder: string
+}
+
+interface NameRule {
+	readonly pattern: RegExp
+	readonly message: string
+}
+
+const TYPE_NAME: NameRule = {
+	message: 'type names must start with an uppercase letter',
+	pattern: /^[A-Z][A-Za-z0-9_]*$/,
+}
+
+const VALUE_NAME: NameRule = {
+	message: 'names must start with a lowercase letter',
+	pattern: /^@?[a-z][A-Za-z0-9_]*$/,
+}
+
+function failure(error: string): RenameResult {
+	return { error, succeeded: false }
+}
+
+/** The `@` of an effectful function is part of what it means, so a rename keeps it. */
+function effectPrefixReason(oldName: string, newName: string): string | null {
+	if (isEffectfulName(oldName) === isEffectfulName(newName)) return null
+	return isEffectfulName(oldName)
+		? `'${oldName}' is effectful, so its new name must start with '@'`
+		: `only effectful functions have names starting with '@'`
+}
+
+/** Why a name cannot be given to an entity, or null if it can. */
+function invalidNameReason(
+	resolution: Resolution,
+	oldName: string,
+	newName: string
+): string | null {
+	if (isKeyword(newName)) return `'${newName}' is a reserved keyword`
+	const isTypeName = resolution.kind === 'type' || resolution.kind === 'variant'
+	const rule = isTypeName ? TYPE_NAME : VALUE_NAME
+	if (!rule.pattern.test(newName)) return rule.message
+	return effectPrefixReason(oldName, newName)
+}
+
+/** Apply non-overlapping edits to source text. */
+export function applyTextEdits(source: string, edits: readonly TextEdit[]): string {
+	const lines = source.split('\n')
+	const ordered = [...edits].sort(
+		(a, b) => b.span.line - a.span.line || b.span.column - a.span.column
+	)
+	for (const { span, newText } of ordered) {
+		const text = lines[span.line - 1] ?? ''
+		const start = span.column - 1
+		lines[span.line - 1] = text.slice(0, start) + newText + text.slice(start + span.length)
+	}
+	return lines.join('\n')
+}
+
+function reanalyze(source: string, filename: string): ReferenceIndex | null {
+	const context = new CompilationContext(source, filename)
+	if (!tokenize(context).succeeded || !parse(context).succeeded) return null
+	check(context)
+	return new ReferenceIndex(new SemanticIndex(context))
+}
+
+/**
+ * Whether two analyses of the same token stream group identifiers into
+ * the same entities. Entity keys differ between analyses, so the
+ * grouping must match one-to-one rather than key for key.
+ */
+function sameReferences(before: ReferenceIndex, after: ReferenceIndex): boolean {
+	const forward = new Map<string, string>()
+	const backward = new Map<string, string>()
+	return identifierTokens(before).every((id) => {
+		const from = entityOrNone(before, id)
+		const to = entityOrNone(after, id)
+		return extendsMapping(forward, from, to) && extendsMapping(backward, to, from)
+	})
+}
+
+function identifierTokens(references: ReferenceIndex): TokenId[] {
+	const ids: TokenId[] = []
+	for (const [id, token] of references.semantic.context.tokens) {
+		if (token.kind === TokenKind.Identifier) ids.push(id)
+	}
+	return ids
+}
+
+/** Unresolved tokens each stand for themselves. */
+function entityOrNone(references: ReferenceIndex, id: TokenId): string {
+	return references.entityOf(id) ?? `none:${id}`
+}
+
+function extendsMapping(mapping: Map<string, string>, from: string, to: string): boolean {
+	const existing = mapping.get(from)
+	mapping.set(from, to)
+	return existing === undefined || existing === to
+}
+
+/** Whether the edited program still means the same thing. */
+function preservesMeaning(references: ReferenceIndex, edits: readonly TextEdit[]): boolean {
+	const { context } = references.semantic
+	const after = reanalyze(applyTextEdits(context.source, edits), context.filename)
+	if (!after) return false
+	const sameShape = after.semantic.context.tokens.count() === context.tokens.count()
+	const noNewErrors = after.semantic.context.getErrorCount() <= context.getErrorCount()
+	return sameShape && noNewErrors && sameReferences(references, after)
+}
+
+/**
+ * Check that the identifier at a 1-indexed position can be renamed.
+ * Only entities declared in the program can be; builtin types cannot.
+ */
+export function prepareRename(
+	context: CompilationContext,
+	line: number,
+	column: number,
+	references: ReferenceIndex = new ReferenceIndex(new SemanticIndex(context))
+): RenameTarget | null {
+	const tokenId = references.semantic.tokenAt(line, column)
+	const resolution = references.resolutionAt(line, column)
+	if (tokenId === undefined || !resolution || !references.definition(resolution)) return null
+	return {
+		placeholder: references.semantic.tokenText(tokenId),
+		span: references.semantic.tokenSpan(tokenId),
+	}
+}
+
+/**
+ * Compute the edits that rename the entity at a 1-indexed position.
+ * Fails if the position is not on a renameable identifier, if the new
+ * name is not valid for the entity, or if the rename would change what
+ * some other name in the program refers to.
+ */
+export function rename(
+	context: CompilationContext,
+	line: number,
+	column: number,
+	newName: string,
+	references: ReferenceIndex = new ReferenceIndex(new SemanticIndex(context))
+): RenameResult {
+	const tokenId = references.semantic.tokenAt(line, column)
+	const resolution = references.resolutionAt(line, column)
+	if (tokenId === undefined || !resolution || !references.definition(resolution)) {
+		return failure('nothing to rename here')
+	}
+	const oldName = references.semantic.tokenText(tokenId)
+	const invalid = invalidNameReason(resolution, oldName, newName)
+	if (invalid !== null) return failure(invalid)
+
+	const edits = references.references(resolution).map(({ span }) => ({ newText: newName, span }))
+	if (!preservesMeaning(references, edits)) {
+		return failure(`renaming to '${newName}' would change what other names refer to`)
+	}
+	return { edits, succeeded: true }
+}
@@ -0,0 +1,585 @@
+/**
+ * Resolve identifier tokens to the program entities they name.
+ *
+ * Most references are answered by SemIR: a VarRef or PatternBind carries
+ * its SymbolId. Records are the exception — the checker flattens
+ * `p = Point` into `p_x`, `p_y` locals — so those are resolved
+ * structurally from the parse tree and the TypeStore.
+ */
+
+import { CHECKED_NAME } from '../check/checked.ts'
+import {
+	type FieldInfo,
+	getPatternBindSymbolId,
+	getVarRefSymbolId,
+	type Inst,
+	InstKind,
+	type SymbolId,
+	type TypeId,
+	TypeKind,
+	type VariantInfo,
+} from '../check/types.ts'
+import type { StringId } from '../core/context.ts'
+import { type NodeId, NodeKind, prevNodeId } from '../core/nodes.ts'
+import type { TokenId } from '../core/tokens.ts'
+import type { SemanticIndex } from './semantic-index.ts'
+
+/**
+ * What an identifier refers to.
+ * - symbol: a variable, parameter, pattern binding or function binding
+ * - aggregate: a record binding, stored as flattened symbols
+ * - field: a record field
+ * - type: a named type
+ * - variant: a variant of a sum type
+ */
+export type Resolution =
+	| { readonly kind: 'symbol'; readonly symbolId: SymbolId }
+	| {
+			readonly kind: 'aggregate'
+			readonly name: string
+			readonly typeId: TypeId
+			readonly bindingNodeId: NodeId
+	  }
+	| { readonly kind: 'field'; readonly recordTypeId: TypeId; readonly field: FieldInfo }
+	| { readonly kind: 'type'; readonly typeId: TypeId }
+	| { readonly kind: 'variant'; readonly sumTypeId: TypeId; readonly variant: VariantInfo }
+
+type NodeResolver = (index: SemanticIndex, id: NodeId) => Resolution | null
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function nodeName(index: SemanticIndex, id: NodeId): string | null {
+	return index.tokenName(index.context.nodes.get(id).tokenId)
+}
+
+function kindOf(index: SemanticIndex, id: NodeId | undefined): NodeKind | undefined {
+	return id === undefined ? undefined : index.context.nodes.get(id).kind
+}
+
+function lookupType(index: SemanticIndex, name: string | null): TypeId | undefined {
+	return name === null ? undefined : index.context.types?.lookup(name)
+}
+
+function lookupRecordType(index: SemanticIndex, name: string | null): TypeId | undefined {
+	const typeId = lookupType(index, name)
+	if (typeId === undefined) return undefined
+	return index.context.types?.isRecordType(typeId) ? typeId : undefined
+}
+
+function typeResolution(typeId: TypeId | undefined): Resolution | null {
+	return typeId === undefined ? null : { kind: 'type', typeId }
+}
+
+function variantResolution(index: SemanticIndex, name: string | null): Resolution | null {
+	const ref = name === null ? undefined : index.context.types?.lookupVariant(name)
+	return ref ? { kind: 'variant', sumTypeId: ref.typeId, variant: ref.variant } : null
+}
+
+function fieldResolution(
+	index: SemanticIndex,
+	recordTypeId: TypeId | undefined,
+	name: string | null
+): Resolution | null {
+	if (recordTypeId === undefined || name === null) return null
+	const field = index.context.types?.getField(recordTypeId, name)
+	return field ? { field, kind: 'field', recordTypeId } : null
+}
+
+/** A field of a variant, reported as a field of its sum type. */
+function variantFieldResolution(
+	index: SemanticIndex,
+	variantDeclId: NodeId,
+	name: string | null
+): Resolution | null {
+	const ref = index.context.types?.lookupVariant(nodeName(index, variantDeclId) ?? '')
+	const field = ref?.variant.fields.find((candidate) => candidate.name === name)
+	return ref && field ? { field, kind: 'field', recordTypeId: ref.typeId } : null
+}
+
+/** The symbol an instruction refers to, for VarRef and PatternBind. */
+function instSymbol(inst: Inst): SymbolId | undefined {
+	if (inst.kind === InstKind.VarRef) return getVarRefSymbolId(inst)
+	if (inst.kind === InstKind.PatternBind) return getPatternBindSymbolId(inst)
+	return undefined
+}
+
+/** The symbol of the first symbol-carrying instruction at a node. */
+function symbolAt(index: SemanticIndex, id: NodeId): SymbolId | undefined {
+	const insts = index.context.insts
+	if (!insts) return undefined
+	return index
+		.instsAt(id)
+		.map((instId) => instSymbol(insts.get(instId)))
+		.find((symId) => symId !== undefined)
+}
+
+/** First symbol-carrying instruction at a node. */
+function symbolFromInsts(index: SemanticIndex, id: NodeId): Resolution | null {
+	const symbolId = symbolAt(index, id)
+	return symbolId === undefined ? null : symbolResolution(index, symbolId)
+}
+
+function symbolResolution(index: SemanticIndex, symbolId: SymbolId): Resolution {
+	return (
+		flattenedOrigin(index, symbolId) ??
+		recordInstantiationOrigin(index, symbolId) ?? { kind: 'symbol', symbolId }
+	)
+}
+
+/** Symbol declared at a node with the given name. */
+function declaredSymbol(index: SemanticIndex, id: NodeId, name: string | null): Resolution | null {
+	const symbols = index.context.symbols
+	const symbolId = index
+		.symbolsAt(id)
+		.find((symId) => symbols && index.context.strings.get(symbols.get(symId).nameId) === name)
+	return symbolId === undefined ? null : { kind: 'symbol', symbolId }
+}
+
+// ============================================================================
+// Records
+// ============================================================================
+
+/** The record type instantiated by `p = Point`, if the binding is one. */
+export function recordTypeOfBinding(index: SemanticIndex, bindingId: NodeId): TypeId | undefined {
+	const [nameId, typeNameId, ...rest] = index.childrenOf(bindingId)
+	if (nameId === undefined || typeNameId === undefined || rest.length > 0) return undefined
+	if (kindOf(index, typeNameId) !== NodeKind.Identifier) return undefined
+	return lookupRecordType(index, nodeName(index, typeNameId))
+}
+
+function aggregateOfBinding(index: SemanticIndex, bindingId: NodeId): Resolution | null {
+	const typeId = recordTypeOfBinding(index, bindingId)
+	const name = nodeName(index, bindingId)
+	if (typeId === undefined || name === null) return null
+	return { bindingNodeId: bindingId, kind: 'aggregate', name, typeId }
+}
+
+/** The field named by a flattened path like `inner_val`, walking nested records. */
+function fieldAtPath(index: SemanticIndex, recordTypeId: TypeId, path: string): Resolution | null {
+	const fields = index.context.types?.getFields(recordTypeId) ?? []
+	const leaf = fields.find((field) => field.name === path)
+	if (leaf) return { field: leaf, kind: 'field', recordTypeId }
+	const parent = fields.find((field) => continuesInto(index, field, path))
+	return parent ? fieldAtPath(index, parent.typeId, path.slice(parent.name.length + 1)) : null
+}
+
+/** Whether a path continues past a field into its nested record. */
+function continuesInto(index: SemanticIndex, field: FieldInfo, path: string): boolean {
+	return (
+		path.startsWith(`${field.name}_`) && index.context.types?.isRecordType(field.typeId) === true
+	)
+}
+
+/**
+ * Map a flattened symbol back to the source entity that produced it.
+ * Record bindings are stored as one local per field (`p = Point`
+ * declares `p_x` and `p_y`, nested records declare `o_inner` and
+ * `o_inner_val`). Such symbols resolve to the field `p.x` names.
+ * Returns null for symbols that are not flattened.
+ */
+export function flattenedOrigin(index: SemanticIndex, symbolId: SymbolId): Resolution | null {
+	const symbol = index.context.symbols?.get(symbolId)
+	const bindingId = symbol ? flattenedRoot(index, symbol.parseNodeId) : undefined
+	if (!symbol || bindingId === undefined) return null
+	const prefix = `${nodeName(index, bindingId)}_`
+	const name = index.context.strings.get(symbol.nameId)
+	if (!name.startsWith(prefix)) return null
+	return flattenedPathOrigin(index, bindingId, name.slice(prefix.length))
+}
+
+/**
+ * A record instantiated by `p = Point` also has a symbol for the record
+ * as a whole, declared at the binding. It resolves to the binding.
+ */
+function recordInstantiationOrigin(index: SemanticIndex, symbolId: SymbolId): Resolution | null {
+	const symbol = index.context.symbols?.get(symbolId)
+	if (!symbol || index.context.strings.get(symbol.nameId) !== nodeName(index, symbol.parseNodeId))
+		return null
+	return recordAggregateOfBinding(index, symbol.parseNodeId)
+}
+
+function recordAggregateOfBinding(index: SemanticIndex, bindingId: NodeId): Resolution | null {
+	if (kindOf(index, bindingId) !== NodeKind.BindingExpr) return null
+	return recordTypeOfBinding(index, bindingId) === undefined
+		? null
+		: aggregateOfBinding(index, bindingId)
+}
+
+/**
+ * The record a field access chain starts from, when the checker read the
+ * field straight from its flattened local: `p.x` reads `p_x`, which is
+ * declared alongside the symbol for `p` as a whole.
+ */
+function flattenedBase(index: SemanticIndex, id: NodeId): Resolution | null {
+	let suffix = ''
+	let current = index.parentOf(id)
+	while (current !== undefined && kindOf(index, current) === NodeKind.FieldAccess) {
+		suffix += `_${nodeName(index, current)}`
+		const symbolId = symbolAt(index, current)
+		if (symbolId !== undefined) return flattenedBaseSymbol(index, symbolId, suffix)
+		current = index.parentOf(current)
+	}
+	return null
+}
+
+function flattenedBaseSymbol(
+	index: SemanticIndex,
+	symbolId: SymbolId,
+	suffix: string
+): Resolution | null {
+	const symbol = index.context.symbols?.get(symbolId)
+	const name = symbol ? index.context.strings.get(symbol.nameId) : ''
+	if (!symbol || !name.endsWith(suffix)) return null
+	const base = declaredSymbol(index, symbol.parseNodeId, name.slice(0, -suffix.length))
+	return base?.kind === 'symbol' ? symbolResolution(index, base.symbolId) : base
+}
+
+/**
+ * The binding a flattened symbol belongs to. Leaves of a nested record
+ * init are declared at the nested FieldDecl (`inner: Inner`), so climb
+ * out through the enclosing init blocks.
+ */
+function flattenedRoot(index: SemanticIndex, id: NodeId): NodeId | undefined {
+	let current: NodeId | undefined = id
+	while (kindOf(index, current) === NodeKind.FieldDecl) {
+		current = current === undefined ? undefined : blockOwnerContent(index, current)
+	}
+	return kindOf(index, current) === NodeKind.BindingExpr ? current : undefined
+}
+
+function flattenedPathOrigin(
+	index: SemanticIndex,
+	bindingId: NodeId,
+	path: string
+): Resolution | null {
+	const recordTypeId = recordTypeOfBinding(index, bindingId)
+	return recordTypeId === undefined ? null : fieldAtPath(index, recordTypeId, path)
+}
+
+/**
+ * The nearest binding of `name` before a node. Bindings are processed
+ * in source order, so this is the binding visible at that point.
+ */
+export function findBindingBefore(
+	index: SemanticIndex,
+	name: string,
+	beforeId: NodeId
+): NodeId | undefined {
+	for (let id = prevNodeId(beforeId); id >= 0; id = prevNodeId(id)) {
+		if (kindOf(index, id) === NodeKind.BindingExpr && nodeName(index, id) === name) return id
+	}
+	return undefined
+}
+
+function aggregateForReference(index: SemanticIndex, id: NodeId): Resolution | null {
+	const name = nodeName(index, id)
+	const bindingId = name === null ? undefined : findBindingBefore(index, name, id)
+	return bindingId === undefined ? null : aggregateOfBinding(index, bindingId)
+}
+
+/**
+ * Static type of the base of a field access chain.
+ * For `o.inner.val`, the base of `val` is `o.inner`, whose type is
+ * the type of field `inner` in the record type bound to `o`.
+ */
+function typeOfBase(index: SemanticIndex, id: NodeId): TypeId | undefined {
+	const kind = kindOf(index, id)
+	if (kind === NodeKind.FieldAccess) return typeOfResolved(index, resolveFieldAccess(index, id))
+	if (kind === NodeKind.Identifier) return typeOfResolved(index, resolveIdentifier(index, id))
+	return undefined
+}
+
+function typeOfResolved(index: SemanticIndex, resolution: Resolution | null): TypeId | undefined {
+	return resolution ? declaredType(index, resolution) : undefined
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/** The record type whose fields are initialized in the block containing a node. */
+function recordTypeOfEnclosingBlock(index: SemanticIndex, id: NodeId): TypeId | undefined {
+	const owner = blockOwnerContent(index, id)
+	return owner === undefined ? undefined : recordTypeOfBlockOwner(index, owner)
+}
+
+/** The statement that opens the block containing a node. */
+export function blockOwnerContent(index: SemanticIndex, id: NodeId): NodeId | undefined {
+	const lineId = index.lineOf(id)
+	const ownerLine = lineId === undefined ? undefined : index.blockOwner(lineId)
+	return ownerLine === undefined ? undefined : index.lineContent(ownerLine)
+}
+
+/**
+ * The record type a block owner introduces: a record instantiation
+ * (`p = Point`), a nested record init (`inner: Inner`) or a type declaration.
+ */
+export function recordTypeOfBlockOwner(index: SemanticIndex, owner: NodeId): TypeId | undefined {
+	const kind = kindOf(index, owner)
+	if (kind === NodeKind.BindingExpr) return recordTypeOfBinding(index, owner)
+	if (kind === NodeKind.FieldDecl) return lookupRecordType(index, fieldDeclTypeName(index, owner))
+	if (kind === NodeKind.TypeDecl) return lookupRecordType(index, nodeName(index, owner))
+	return undefined
+}
+
+/** Type name written after the colon of a FieldDecl (`inner: Inner`). */
+function fieldDeclTypeName(index: SemanticIndex, id: NodeId): string | null {
+	const tokenId = index.context.nodes.get(id).tokenId
+	return index.tokenName((tokenId + 2) as TokenId)
+}
+
+// ============================================================================
+// Node resolvers
+// ============================================================================
+
+function resolveIdentifier(index: SemanticIndex, id: NodeId): Resolution | null {
+	const fromInsts = symbolFromInsts(index, id)
+	if (fromInsts) return fromInsts
+
+	const parentId = index.parentOf(id)
+	const parentKind = kindOf(index, parentId)
+	if (parentKind === NodeKind.BindingExpr && parentId !== undefined) {
+		return resolveBindingChild(index, id, parentId)
+	}
+	return parentKind === NodeKind.Parameter ? null : resolveReference(index, id)
+}
+
+/** A name read without an instruction of its own, such as the base of `p.x`. */
+function resolveReference(index: SemanticIndex, id: NodeId): Resolution | null {
+	return flattenedBase(index, id) ?? aggregateForReference(index, id) ?? resolveVariant(index, id)
+}
+
+/** The name, record type name or variant child of a BindingExpr. */
+function resolveBindingChild(
+	index: SemanticIndex,
+	id: NodeId,
+	bindingId: NodeId
+): Resolution | null {
+	const [nameId] = index.childrenOf(bindingId)
+	if (id === nameId) return resolveBinding(index, bindingId)
+	return typeResolution(lookupRecordType(index, nodeName(index, id))) ?? resolveVariant(index, id)
+}
+
+function resolveBinding(index: SemanticIndex, id: NodeId): Resolution | null {
+	const name = nodeName(index, id)
+	return (
+		recordAggregateOfBinding(index, id) ??
+		declaredSymbol(index, id, name) ??
+		forwardDeclaredFunc(index, id, name) ??
+		aggregateOfBinding(index, id) ??
+		resolveBodyRecordField(index, id)
+	)
+}
+
+function tokenColumn(index: SemanticIndex, id: NodeId): number {
+	return index.context.tokens.get(index.context.nodes.get(id).tokenId).column
+}
+
+/**
+ * The record literal whose field a lambda body binding initializes: `x = a`
+ * indented under `p = Point`. The statements of a body are not lines of
+ * their own, so the literal is the nearest less indented statement.
+ */
+function bodyRecordLiteral(index: SemanticIndex, id: NodeId): NodeId | undefined {
+	const parentId = index.parentOf(id)
+	if (parentId === undefined || kindOf(index, parentId) !== NodeKind.ExpressionSequence)
+		return undefined
+	const siblings = index.childrenOf(parentId)
+	const column = tokenColumn(index, id)
+	return siblings
+		.slice(0, siblings.indexOf(id))
+		.findLast((siblingId) => tokenColumn(index, siblingId) < column)
+}
+
+function resolveBodyRecordField(index: SemanticIndex, id: NodeId): Resolution | null {
+	const literalId = bodyRecordLiteral(index, id)
+	if (literalId === undefined || kindOf(index, literalId) !== NodeKind.BindingExpr) return null
+	return fieldResolution(index, recordTypeOfBinding(index, literalId), nodeName(index, id))
+}
+
+/**
+ * A function defined after a forward declaration (`f: (i32) -> i32`)
+ * reuses the symbol declared by the FuncDecl rather than adding one.
+ */
+function forwardDeclaredFunc(
+	index: SemanticIndex,
+	id: NodeId,
+	name: string | null
+): Resolution | null {
+	if (name === null || !isFuncBinding(index, id)) return null
+	const funcs = index.context.funcs
+	const funcId = funcs?.getByName(nameIdOf(index, id))
+	if (!funcs || funcId === undefined) return null
+	return declaredSymbol(index, funcs.get(funcId).parseNodeId, name)
+}
+
+/** A binding that defines a function: a lambda or an extern. */
+function isFuncBinding(index: SemanticIndex, id: NodeId): boolean {
+	const valueKind = kindOf(index, index.childrenOf(id).at(-1))
+	return (
+		valueKind === NodeKind.Lambda ||
+		valueKind === NodeKind.ExternWasm ||
+		valueKind === NodeKind.ExternHost
+	)
+}
+
+function nameIdOf(index: SemanticIndex, id: NodeId): StringId {
+	return index.context.tokens.get(index.context.nodes.get(id).tokenId).payload as StringId
+}
+
+/**
+ * Match arm bindings are read by a PatternBind at the pattern; names in a
+ * tuple pattern are declared there instead.
+ */
+function resolvePatternBinding(index: SemanticIndex, id: NodeId): Resolution | null {
+	return symbolFromInsts(index, id) ?? declaredSymbol(index, id, nodeName(index, id))
+}
+
+function resolveFuncDecl(index: SemanticIndex, id: NodeId): Resolution | null {
+	return declaredSymbol(index, id, nodeName(index, id))
+}
+
+/** Parameters are declared at their binding, or at the lambda itself when it is anonymous. */
+function resolveParameter(index: SemanticIndex, id: NodeId): Resolution | null {
+	const name = nodeName(index, id)
+	const lambdaId = index.ancestorOfKind(id, NodeKind.Lambda)
+	const anonymous = lambdaId === undefined ? null : declaredSymbol(index, lambdaId, name)
+	if (anonymous) return anonymous
+	const bindingId = index.ancestorOfKind(id, NodeKind.BindingExpr)
+	if (bindingId === undefined) return null
+	return declaredSymbol(index, bindingId, name)
+}
+
+function resolveFieldAccess(index: SemanticIndex, id: NodeId): Resolution | null {
+	const baseType = typeOfBase(index, prevNodeId(id))
+	return fieldResolution(index, baseType, nodeName(index, id))
+}
+
+function resolveFieldInit(index: SemanticIndex, id: NodeId): Resolution | null {
+	const parentId = index.parentOf(id)
+	if (kindOf(index, parentId) === NodeKind.VariantDecl && parentId !== undefined) {
+		return variantFieldResolution(index, parentId, nodeName(index, id))
+	}
+	return fieldResolution(index, recordTypeOfEnclosingBlock(index, id), nodeName(index, id))
+}
+
+/** Variant names, declared or constructed or matched, resolve to their declaration. */
+function resolveVariant(index: SemanticIndex, id: NodeId): Resolution | null {
+	return variantResolution(index, nodeName(index, id))
+}
+
+/** A bare variant line (`Empty`) parses as a TypeDecl. */
+function resolveTypeDecl(index: SemanticIndex, id: NodeId): Resolution | null {
+	const name = nodeName(index, id)
+	return typeResolution(lookupType(index, name)) ?? variantResolution(index, name)
+}
+
+/** Type annotations resolve to the declared type of what they annotate. */
+function resolveTypeAnnotation(index: SemanticIndex, id: NodeId): Resolution | null {
+	const annotationId = index.ancestorOfKind(id, NodeKind.TypeAnnotation) ?? id
+	const ownerId = index.parentOf(annotationId)
+	const owner = ownerId === undefined ? null : resolveAnnotated(index, ownerId)
+	const declared = owner ? declaredType(index, owner) : undefined
+	const tokenId = index.context.nodes.get(id).tokenId
+	return typeResolution(declared ?? lookupType(index, index.tokenText(tokenId)))
+}
+
+/**
+ * The type written in a FieldDecl (`x: i32`). It has no node of its own;
+ * the parser records it at a fixed offset from the field name token.
+ */
+function resolveFieldDeclType(index: SemanticIndex, tokenId: TokenId): Resolution | null {
+	const nameTokenId = (tokenId - 2) as TokenId
+	if (nameTokenId < 0) return null
+	const isFieldDecl = index
+		.nodesAt(nameTokenId)
+		.some((id) => kindOf(index, id) === NodeKind.FieldDecl)
+	return isFieldDecl ? typeResolution(lookupType(index, index.tokenText(tokenId))) : null
+}
+
+function resolveAnnotated(index: SemanticIndex, ownerId: NodeId): Resolution | null {
+	const kind = kindOf(index, ownerId)
+	if (kind === NodeKind.BindingExpr) return resolveBinding(index, ownerId)
+	if (kind === NodeKind.Parameter) return resolveParameter(index, ownerId)
+	return null
+}
+
+const NODE_RESOLVERS: Partial<Record<NodeKind, NodeResolver>> = {
+	[NodeKind.BindingExpr]: resolveBinding,
+	[NodeKind.BindingPattern]: resolvePatternBinding,
+	[NodeKind.FieldAccess]: resolveFieldAccess,
+	[NodeKind.FieldDecl]: resolveFieldInit,
+	[NodeKind.FieldInit]: resolveFieldInit,
+	[NodeKind.FuncDecl]: resolveFuncDecl,
+	[NodeKind.Identifier]: resolveIdentifier,
+	[NodeKind.ListType]: resolveTypeAnnotation,
+	[NodeKind.Parameter]: resolveParameter,
+	[NodeKind.RefinementType]: resolveTypeAnnotation,
+	[NodeKind.TypeAnnotation]: resolveTypeAnnotation,
+	[NodeKind.TypeDecl]: resolveTypeDecl,
+	[NodeKind.VariantDecl]: resolveVariant,
+	[NodeKind.VariantPattern]: resolveVariant,
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** Resolve a single parse node, or null if it does not name anything. */
+export function resolveNode(index: SemanticIndex, id: NodeId): Resolution | null {
+	const resolver = NODE_RESOLVERS[index.context.nodes.get(id).kind]
+	return resolver ? resolver(index, id) : null
+}
+
+/**
+ * Resolve the entity named by a token, trying the nodes built from it
+ * innermost first (an Identifier before the BindingExpr around it).
+ */
+export function resolveToken(index: SemanticIndex, tokenId: TokenId): Resolution | null {
+	for (const id of index.nodesAt(tokenId)) {
+		const resolved = resolveNode(index, id)
+		if (resolved) return resolved
+	}
+	return resolveFieldDeclType(index, tokenId)
+}
+
+/** The call a node is the callee of, if it is one. */
+function calleeOf(index: SemanticIndex, id: NodeId): NodeId | undefined {
+	const parentId = index.parentOf(id)
+	if (parentId === undefined || kindOf(index, parentId) !== NodeKind.FuncCall) return undefined
+	return index.childrenOf(parentId)[0] === id ? parentId : undefined
+}
+
+/**
+ * The call a token names the builtin `checked` in, if it does: the callee
+ * of a call, when no binding takes the name.
+ */
+export function checkedCallAt(index: SemanticIndex, tokenId: TokenId): NodeId | undefined {
+	if (index.tokenName(tokenId) !== CHECKED_NAME || resolveToken(index, tokenId)) return undefined
+	return index
+		.nodesAt(tokenId)
+		.map((id) => calleeOf(index, id))
+		.find((callId) => callId !== undefined)
+}
+
+/** The static type of a resolved entity. */
+export function declaredType(index: SemanticIndex, resolution: Resolution): TypeId | undefined {
+	switch (resolution.kind) {
+		case 'symbol':
+			return index.context.symbols?.get(resolution.symbolId).typeId
+		case 'aggregate':
+		case 'type':
+			return resolution.typeId
+		case 'field':
+			return resolution.field.typeId
+		case 'variant':
+			return resolution.sumTypeId
+	}
+}
+
+/** Whether a type is a function type. */
+export function isFuncTypeId(index: SemanticIndex, typeId: TypeId): boolean {
+	return index.context.types?.get(typeId).kind === TypeKind.Func
+}
@@ -0,0 +1,257 @@
+/**
+ * Position index over a checked compilation context.
+ *
+ * The compiler stores backreferences in one direction only: instructions
+ * point at parse nodes, parse nodes point at tokens. Editor queries need
+ * the reverse — from a cursor position to the token under it, the nodes
+ * built from that token, and the instructions and symbols built from
+ * those nodes. This index inverts those links once per analysis.
+ */
+
+import type { InstId, SymbolId } from '../check/types.ts'
+import type { CompilationContext, StringId } from '../core/context.ts'
+import { type NodeId, NodeKind, nodeId } from '../core/nodes.ts'
+import { type Token, type TokenId, TokenKind } from '../core/tokens.ts'
+
+/**
+ * A contiguous span of source text on one line.
+ * Line and column are 1-indexed, matching tokens and diagnostics.
+ */
+export interface SourceSpan {
+	readonly line: number
+	readonly column: number
+	readonly length: number
+}
+
+/** A top-level line node and its indentation level. */
+interface LineEntry {
+	readonly id: NodeId
+	readonly level: number
+}
+
+const LAYOUT_TOKENS: ReadonlySet<TokenKind> = new Set([
+	TokenKind.Dedent,
+	TokenKind.Eof,
+	TokenKind.Indent,
+	TokenKind.Newline,
+])
+
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/
+const OPERATOR_PATTERN = /^(?:->|\.\.|&&|\|\||==|!=|<=|>=|<<|>>>|>>|%%|[\w]+|.)/
+
+function pushToMap<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+	const existing = map.get(key)
+	if (existing) existing.push(value)
+	else map.set(key, [value])
+}
+
+function isNumberToken(token: Token): boolean {
+	return token.kind === TokenKind.IntLiteral || token.kind === TokenKind.FloatLiteral
+}
+
+function lineLevel(node: { tokenId: TokenId }, context: CompilationContext): number {
+	const token = context.tokens.get(node.tokenId)
+	return token.kind === TokenKind.Indent ? token.payload : 0
+}
+
+function spanContains(span: SourceSpan, line: number, column: number): boolean {
+	return span.line === line && column >= span.column && column <= span.column + span.length
+}
+
+export class SemanticIndex {
+	readonly context: CompilationContext
+
+	private readonly nodesByToken: Map<TokenId, NodeId[]> = new Map()
+	private readonly instsByNode: Map<NodeId, InstId[]> = new Map()
+	private readonly symbolsByNode: Map<NodeId, SymbolId[]> = new Map()
+	private readonly parents: Map<NodeId, NodeId> = new Map()
+	private readonly lines: LineEntry[] = []
+	private readonly lineIndexByNode: Map<NodeId, number> = new Map()
+	private readonly lineBySourceLine: Map<number, NodeId> = new Map()
+	private readonly sourceLines: readonly string[]
+
+	constructor(context: CompilationContext) {
+		this.context = context
+		this.sourceLines = context.source.split('\n')
+		this.indexNodes()
+		this.indexLines()
+		this.indexInsts()
+		this.indexSymbols()
+	}
+
+	private indexNodes(): void {
+		const { nodes } = this.context
+		for (let i = 0; i < nodes.count(); i++) {
+			const id = nodeId(i)
+			pushToMap(this.nodesByToken, nodes.get(id).tokenId, id)
+			for (const [childId] of nodes.iterateChildren(id)) {
+				this.parents.set(childId, id)
+			}
+		}
+	}
+
+	private indexLines(): void {
+		const { nodes } = this.context
+		if (nodes.count() === 0) return
+		const programId = nodeId(nodes.count() - 1)
+		if (nodes.get(programId).kind !== NodeKind.Program) return
+		const lineIds = [...nodes.iterateChildren(programId)].reverse()
+		for (const [id, node] of lineIds) {
+			this.lineIndexByNode.set(id, this.lines.length)
+			this.lines.push({ id, level: lineLevel(node, this.context) })
+			this.lineBySourceLine.set(this.context.tokens.get(node.tokenId).line, id)
+		}
+	}
+
+	private indexInsts(): void {
+		for (const [id, inst] of this.context.insts ?? []) {
+			pushToMap(this.instsByNode, inst.parseNodeId, id)
+		}
+	}
+
+	private indexSymbols(): void {
+		for (const [id, symbol] of this.context.symbols ?? []) {
+			pushToMap(this.symbolsByNode, symbol.parseNodeId, id)
+		}
+	}
+
+	// ===========================================================================
+	// Tokens
+	// ===========================================================================
+
+	/** Length of a token's source text. Layout tokens have zero length. */
+	tokenLength(tokenId: TokenId): number {
+		const token = this.context.tokens.get(tokenId)
+		if (LAYOUT_TOKENS.has(token.kind)) return 0
+		if (token.kind === TokenKind.Identifier) {
+			return this.context.strings.get(token.payload as StringId).length
+		}
+		if (token.kind === TokenKind.StringLiteral) {
+			// The payload leaves out the quotes
+			return this.context.strings.get(token.payload as StringId).length + 2
+		}
+		return this.sourceTokenLength(token)
+	}
+
+	private sourceTokenLength(token: Token): number {
+		const text = (this.sourceLines[token.line - 1] ?? '').slice(token.column - 1)
+		const pattern = isNumberToken(token) ? NUMBER_PATTERN : OPERATOR_PATTERN
+		return pattern.exec(text)?.[0].length ?? 0
+	}
+
+	tokenSpan(tokenId: TokenId): SourceSpan {
+		const token = this.context.tokens.get(tokenId)
+		return { column: token.column, length: this.tokenLength(tokenId), line: token.line }
+	}
+
+	/** Interned name of an identifier token, or null for other tokens. */
+	tokenName(tokenId: TokenId): string | null {
+		const token = this.context.tokens.get(tokenId)
+		if (token.kind !== TokenKind.Identifier) return null
+		return this.context.strings.get(token.payload as StringId)
+	}
+
+	/** Source text of a token. */
+	tokenText(tokenId: TokenId): string {
+		const token = this.context.tokens.get(tokenId)
+		const line = this.sourceLines[token.line - 1] ?? ''
+		return line.slice(token.column - 1, token.column - 1 + this.tokenLength(tokenId))
+	}
+
+	/**
+	 * Find the token at a 1-indexed position. A position just past the end
+	 * of a token still selects it, so a cursor after `foo` resolves `foo`.
+	 * When two tokens touch, the one starting at the position wins.
+	 */
+	tokenAt(line: number, column: number): TokenId | undefined {
+		let found: TokenId | undefined
+		for (const [id, token] of this.context.tokens) {
+			if (token.line === line && this.touches(id, line, column)) found = id
+		}
+		return found
+	}
+
+	private touches(tokenId: TokenId, line: number, column: number): boolean {
+		return this.tokenLength(tokenId) > 0 && spanContains(this.tokenSpan(tokenId), line, column)
+	}
+
+	// ===========================================================================
+	// Nodes
+	// ===========================================================================
+
+	/** Parse nodes whose primary token is this token, innermost first. */
+	nodesAt(tokenId: TokenId): readonly NodeId[] {
+		return this.nodesByToken.get(tokenId) ?? []
+	}
+
+	parentOf(id: NodeId): NodeId | undefined {
+		return this.parents.get(id)
+	}
+
+	/** Direct children of a node in source order. */
+	childrenOf(id: NodeId): NodeId[] {
+		return [...this.context.nodes.iterateChildren(id)].map(([childId]) => childId).reverse()
+	}
+
+	/** Nearest ancestor (excluding the node itself) with the given kind. */
+	ancestorOfKind(id: NodeId, kind: NodeKind): NodeId | undefined {
+		let current = this.parentOf(id)
+		while (current !== undefined && this.context.nodes.get(current).kind !== kind) {
+			current = this.parentOf(current)
+		}
+		return current
+	}
+
+	// ===========================================================================
+	// Lines and blocks
+	// ===========================================================================
+
+	/** The top-level line node containing a node. */
+	lineOf(id: NodeId): NodeId | undefined {
+		let current: NodeId | undefined = id
+		while (current !== undefined && !this.lineIndexByNode.has(current)) {
+			current = this.parentOf(current)
+		}
+		return current
+	}
+
+	/** The statement node of a line (its last child), if the line has content. */
+	lineContent(lineId: NodeId): NodeId | undefined {
+		return this.childrenOf(lineId).at(-1)
+	}
+
+	/** The line node for a 1-indexed source line, if it has one. */
+	lineAt(line: number): NodeId | undefined {
+		return this.lineBySourceLine.get(line)
+	}
+
+	/** Line nodes in source order. */
+	lineIds(): NodeId[] {
+		return this.lines.map((entry) => entry.id)
+	}
+
+	/**
+	 * The line that opens the block containing a line: the nearest
+	 * preceding line with a smaller indentation level.
+	 */
+	blockOwner(lineId: NodeId): NodeId | undefined {
+		const index = this.lineIndexByNode.get(lineId)
+		const entry = index === undefined ? undefined : this.lines[index]
+		if (index === undefined || entry === undefined || entry.level === 0) return undefined
+		return this.lines.findLast((candidate, i) => i < index && candidate.level < entry.level)?.id
+	}
+
+	// ===========================================================================
+	// SemIR
+	// ===========================================================================
+
+	/** Instructions whose parseNodeId is this node, in emission order. */
+	instsAt(id: NodeId): readonly InstId[] {
+		return this.instsByNode.get(id) ?? []
+	}
+
+	/** Symbols declared by this node, in declaration order. */
+	symbolsAt(id: NodeId): readonly SymbolId[] {
+		return this.symbolsByNode.get(id) ?? []
+	}
+}
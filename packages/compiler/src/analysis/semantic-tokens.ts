@@ -0,0 +1,254 @@
+/**
+ * Semantic token classification for syntax highlighting.
+ *
+ * Keywords, literals and operators are classified by TokenKind alone.
+ * Identifiers are classified by what they resolve to, so a record type,
+ * a function and a parameter get different colors even though the
+ * tokenizer sees the same kind of word. Identifiers the checker could
+ * not resolve are left unclassified.
+ */
+
+import type { SymbolId } from '../check/types.ts'
+import type { CompilationContext } from '../core/context.ts'
+import { NodeKind } from '../core/nodes.ts'
+import { type TokenId, TokenKind } from '../core/tokens.ts'
+import { symbolRole } from './hover.ts'
+import { ReferenceIndex } from './references.ts'
+import { checkedCallAt, declaredType, type Resolution } from './resolve.ts'
+import { SemanticIndex, type SourceSpan } from './semantic-index.ts'
+
+export type SemanticTokenType =
+	| 'function'
+	| 'keyword'
+	| 'number'
+	| 'operator'
+	| 'parameter'
+	| 'patternBinding'
+	| 'property'
+	| 'string'
+	| 'type'
+	| 'variable'
+	| 'wildcard'
+
+export type SemanticTokenModifier = 'declaration' | 'defaultLibrary'
+
+/** A classified token. */
+export interface SemanticToken {
+	readonly span: SourceSpan
+	readonly type: SemanticTokenType
+	readonly modifiers: readonly SemanticTokenModifier[]
+}
+
+interface Classification {
+	readonly type: SemanticTokenType
+	readonly modifiers: readonly SemanticTokenModifier[]
+}
+
+const BUILTIN_FUNCTION: Classification = { modifiers: ['defaultLibrary'], type: 'function' }
+const BUILTIN_TYPE: Classification = { modifiers: ['defaultLibrary'], type: 'type' }
+const KEYWORD: Classification = { modifiers: [], type: 'keyword' }
+const NUMBER: Classification = { modifiers: [], type: 'number' }
+const OPERATOR: Classification = { modifiers: [], type: 'operator' }
+const STRING: Classification = { modifiers: [], type: 'string' }
+
+/** Classifications that follow from the token kind alone. */
+const TOKEN_KIND_CLASSES: ReadonlyMap<TokenKind, Classification> = new Map([
+	[TokenKind.F32, BUILTIN_TYPE],
+	[TokenKind.F64, BUILTIN_TYPE],
+	[TokenKind.I32, BUILTIN_TYPE],
+	[TokenKind.I64, BUILTIN_TYPE],
+	[TokenKind.U32, BUILTIN_TYPE],
+	[TokenKind.U64, BUILTIN_TYPE],
+	[TokenKind.Bool, BUILTIN_TYPE],
+	[TokenKind.As, KEYWORD],
+	[TokenKind.Extern, KEYWORD],
+	[TokenKind.If, KEYWORD],
+	[TokenKind.Match, KEYWORD],
+	[TokenKind.Panic, KEYWORD],
+	[TokenKind.Tailrec, KEYWORD],
+	[TokenKind.True, KEYWORD],
+	[TokenKind.False, KEYWORD],
+	[TokenKind.IntLiteral, NUMBER],
+	[TokenKind.FloatLiteral, NUMBER],
+	[TokenKind.StringLiteral, STRING],
+	[TokenKind.Ampersand, OPERATOR],
+	[TokenKind.AmpersandAmpersand, OPERATOR],
+	[TokenKind.Arrow, OPERATOR],
+	[TokenKind.Bang, OPERATOR],
+	[TokenKind.BangEqual, OPERATOR],
+	[TokenKind.Caret, OPERATOR],
+	[TokenKind.DotDot, OPERATOR],
+	[TokenKind.EqualEqual, OPERATOR],
+	[TokenKind.Equals, OPERATOR],
+	[TokenKind.GreaterEqual, OPERATOR],
+	[TokenKind.GreaterGreater, OPERATOR],
+	[TokenKind.GreaterGreaterGreater, OPERATOR],
+	[TokenKind.GreaterThan, OPERATOR],
+	[TokenKind.LessEqual, OPERATOR],
+	[TokenKind.LessLess, OPERATOR],
+	[TokenKind.LessThan, OPERATOR],
+	[TokenKind.Minus, OPERATOR],
+	[TokenKind.Percent, OPERATOR],
+	[TokenKind.PercentPercent, OPERATOR],
+	[TokenKind.Pipe, OPERATOR],
+	[TokenKind.PipePipe, OPERATOR],
+	[TokenKind.Plus, OPERATOR],
+	[TokenKind.Slash, OPERATOR],
+	[TokenKind.Star, OPERATOR],
+	[TokenKind.Tilde, OPERATOR],
+])
+
+/**
+ * Identifier tokens naming the bounds in `i32<min=0, max=10>`. Bound
+ * nodes point at their value, so the keyword is the identifier before it.
+ */
+function boundKeywordTokens(index: SemanticIndex): Set<TokenId> {
+	const keywords = [...index.context.nodes]
+		.filter(([, node]) => node.kind === NodeKind.Bound)
+		.map(([, node]) => identifierBefore(index.context, node.tokenId))
+	return new Set(keywords.filter((id) => id !== undefined))
+}
+
+function kindAt(context: CompilationContext, tokenId: number): TokenKind | undefined {
+	return tokenId < 0 ? undefined : context.tokens.get(tokenId as TokenId).kind
+}
+
+/** `i32<` and `i32[]<` open bound lists; `x as i32 < 5` compares. */
+function opensBoundList(context: CompilationContext, tokenId: TokenId): boolean {
+	if (kindAt(context, tokenId) !== TokenKind.LessThan) return false
+	const previous = kindAt(context, tokenId - 1)
+	if (previous !== undefined && TOKEN_KIND_CLASSES.get(previous) === BUILTIN_TYPE) {
+		return kindAt(context, tokenId - 2) !== TokenKind.As
+	}
+	return previous === TokenKind.RBracket && kindAt(context, tokenId - 2) === TokenKind.LBracket
+}
+
+/** Whether a token opens a bound list, or closes the one that is open. */
+function isBoundBracket(context: CompilationContext, tokenId: TokenId, open: boolean): boolean {
+	if (open) return kindAt(context, tokenId) === TokenKind.GreaterThan
+	return opensBoundList(context, tokenId)
+}
+
+/** The `<` and `>` around bound lists, which bracket rather than compare. */
+function boundBracketTokens(context: CompilationContext): Set<TokenId> {
+	const brackets = new Set<TokenId>()
+	let open = false
+	for (const [id] of context.tokens) {
+		const isBracket = isBoundBracket(context, id, open)
+		if (isBracket) brackets.add(id)
+		open = open !== isBracket
+	}
+	return brackets
+}
+
+/** Identifier tokens naming what implements an extern: `wasm` or `host` after `extern`. */
+function externKindTokens(context: CompilationContext): TokenId[] {
+	return [...context.tokens]
+		.filter(([id, token]) => token.kind === TokenKind.Identifier && id > 0)
+		.filter(([id]) => context.tokens.get((id - 1) as TokenId).kind === TokenKind.Extern)
+		.map(([id]) => id)
+}
+
+function identifierBefore(context: CompilationContext, tokenId: TokenId): TokenId | undefined {
+	for (let id = tokenId - 1; id >= 0; id--) {
+		if (context.tokens.get(id as TokenId).kind === TokenKind.Identifier) return id as TokenId
+	}
+	return undefined
+}
+
+class Classifier {
+	private readonly index: SemanticIndex
+	private readonly references: ReferenceIndex
+	private readonly contextualKeywords: Set<TokenId>
+	private readonly boundBrackets: Set<TokenId>
+
+	constructor(references: ReferenceIndex) {
+		this.references = references
+		this.index = references.semantic
+		this.contextualKeywords = new Set([
+			...boundKeywordTokens(this.index),
+			...externKindTokens(this.index.context),
+		])
+		this.boundBrackets = boundBracketTokens(this.index.context)
+	}
+
+	classify(tokenId: TokenId): Classification | undefined {
+		const { kind } = this.index.context.tokens.get(tokenId)
+		if (kind === TokenKind.Underscore) return { modifiers: [], type: 'wildcard' }
+		if (this.boundBrackets.has(tokenId)) return undefined
+		if (kind === TokenKind.Identifier) return this.classifyIdentifier(tokenId)
+		return TOKEN_KIND_CLASSES.get(kind)
+	}
+
+	private classifyIdentifier(tokenId: TokenId): Classification | undefined {
+		if (this.contextualKeywords.has(tokenId)) return KEYWORD
+		if (this.isPatternBinding(tokenId))
+			return { modifiers: ['declaration'], type: 'patternBinding' }
+		const resolution = this.references.resolutionOf(tokenId)
+		if (!resolution) return this.classifyBuiltin(tokenId)
+		const type = this.resolutionType(resolution)
+		return type === undefined ? undefined : { modifiers: this.modifiers(tokenId, resolution), type }
+	}
+
+	private classifyBuiltin(tokenId: TokenId): Classification | undefined {
+		return checkedCallAt(this.index, tokenId) === undefined ? undefined : BUILTIN_FUNCTION
+	}
+
+	private isPatternBinding(tokenId: TokenId): boolean {
+		return this.index
+			.nodesAt(tokenId)
+			.some((id) => this.index.context.nodes.get(id).kind === NodeKind.BindingPattern)
+	}
+
+	private resolutionType(resolution: Resolution): SemanticTokenType | undefined {
+		switch (resolution.kind) {
+			case 'symbol':
+				return this.symbolType(resolution.symbolId)
+			case 'aggregate':
+				return 'variable'
+			case 'field':
+				return 'property'
+			case 'type':
+			case 'variant':
+				return 'type'
+		}
+	}
+
+	private symbolType(symbolId: SymbolId): SemanticTokenType | undefined {
+		const typeId = declaredType(this.index, { kind: 'symbol', symbolId })
+		if (typeId === undefined) return undefined
+		const role = symbolRole(this.index, symbolId, typeId)
+		return role === 'variable' ? this.variableType(symbolId) : role
+	}
+
+	/** Uses of a match arm binding keep the binding's color. */
+	private variableType(symbolId: SymbolId): SemanticTokenType {
+		const parseNodeId = this.index.context.symbols?.get(symbolId).parseNodeId
+		const isArmBinding =
+			parseNodeId !== undefined &&
+			this.index.context.nodes.get(parseNodeId).kind === NodeKind.BindingPattern
+		return isArmBinding ? 'patternBinding' : 'variable'
+	}
+
+	private modifiers(tokenId: TokenId, resolution: Resolution): SemanticTokenModifier[] {
+		return this.references.definition(resolution)?.tokenId === tokenId ? ['declaration'] : []
+	}
+}
+
+/**
+ * Classify every highlightable token of a program, in source order.
+ * Works on programs with errors; tokens that cannot be classified are
+ * left out.
+ */
+export function getSemanticTokens(
+	context: CompilationContext,
+	references: ReferenceIndex = new ReferenceIndex(new SemanticIndex(context))
+): SemanticToken[] {
+	const classifier = new Classifier(references)
+	const tokens: SemanticToken[] = []
+	for (const [id] of context.tokens) {
+		const classification = classifier.classify(id)
+		if (classification) tokens.push({ ...classification, span: references.semantic.tokenSpan(id) })
+	}
+	return tokens
+}
@@ -4,8 +4,8 @@
  * This module handles:
  * - Variable binding extraction and validation
  * - Simple variable bindings with expressions
- * - List literal bindings with element unpacking
  * - Record literal binding detection (delegates to checker for context setup)
+ * - Tuple destructuring bindings
  *
  * This is Layer 3 (Constructs) - imports from expressions.ts (Layer 2).
  */
@@ -14,15 +14,18 @@ import type { CompilationContext, StringId } from '../core/context.ts'
 import type { DiagnosticCode } from '../core/diagnostics.ts'
 import { type NodeId, NodeKind, offsetNodeId, prevNodeId } from '../core/nodes.ts'
 import { TokenKind } from '../core/tokens.ts'
-import {
-	checkExpression,
-	checkListElements,
-	collectListElementIds,
-	validateListLiteralSize,
-} from './expressions.ts'
-import type { CheckerState, ExprResult } from './state.ts'
+import { checkExpression, checkExpressionInferred } from './expressions.ts'
+import { bindValue } from './record-values.ts'
+import type { CheckerState } from './state.ts'
 import { resolveTypeFromAnnotation } from './type-resolution.ts'
-import { InstKind, type SymbolId, type TypeId, TypeKind } from './types.ts'
+import {
+	BuiltinTypeId,
+	type InstId,
+	InstKind,
+	type SymbolId,
+	type TypeId,
+	TypeKind,
+} from './types.ts'
 import { isExpressionNode, isValidExprResult } from './utils.ts'
 
 // ============================================================================
@@ -101,75 +104,101 @@ function extractBindingIdentInfo(identId: NodeId, context: CompilationContext):
 	return identToken.payload as StringId
 }
 
+// ============================================================================
+// Tuple Destructuring
+// ============================================================================
+
 /**
- * Check if binding is a list literal.
+ * Extract the pattern and value of a destructuring BindingExpr.
+ * In postorder: [TuplePattern, Expression..., BindingExpr]
  */
-function isListLiteralBinding(
-	exprId: NodeId,
-	declaredType: TypeId,
-	state: CheckerState,
+function extractTupleBindingNodes(
+	bindingId: NodeId,
 	context: CompilationContext
-): boolean {
+): { patternId: NodeId; exprId: NodeId } {
+	const exprId = prevNodeId(bindingId)
 	const exprNode = context.nodes.get(exprId)
-	return exprNode.kind === NodeKind.ListLiteral && state.types.isListType(declaredType)
+	return { exprId, patternId: offsetNodeId(exprId, -exprNode.subtreeSize) }
+}
+
+/** Element patterns of a TuplePattern, in source order. */
+function collectTupleElementPatterns(patternId: NodeId, context: CompilationContext): NodeId[] {
+	const elementIds: NodeId[] = []
+	for (const [childId] of context.nodes.iterateChildren(patternId)) {
+		elementIds.push(childId)
+	}
+	return elementIds.reverse()
 }
 
 /**
- * Emit bindings for list elements.
+ * Bind the destructured value to a hidden symbol, so that the value is
+ * computed once and each name reads its element from the local.
+ * The symbol is stored under a name no identifier can spell.
  */
-function emitListElementBindings(
-	symbolIds: SymbolId[],
-	elementResults: ExprResult[],
+function bindTupleValue(
 	bindingId: NodeId,
-	elementTypeId: TypeId,
-	state: CheckerState
-): void {
-	for (let i = 0; i < symbolIds.length; i++) {
-		const symId = symbolIds[i]
-		const elemResult = elementResults[i]
-		if (symId !== undefined && elemResult && isValidExprResult(elemResult)) {
-			state.insts.add({
-				arg0: symId as number,
-				arg1: elemResult.instId as number,
-				kind: InstKind.Bind,
-				parseNodeId: bindingId,
-				typeId: elementTypeId,
-			})
-		}
-	}
+	value: { instId: InstId; typeId: TypeId },
+	state: CheckerState,
+	context: CompilationContext
+): SymbolId {
+	const symId = state.symbols.add({
+		nameId: context.strings.intern(`tuple$${bindingId}`),
+		parseNodeId: bindingId,
+		typeId: value.typeId,
+	})
+	state.insts.add({
+		arg0: symId as number,
+		arg1: value.instId as number,
+		kind: InstKind.Bind,
+		parseNodeId: bindingId,
+		typeId: value.typeId,
+	})
+	return symId
 }
 
 /**
- * Process a list literal binding.
+ * Bind one name of a tuple pattern to its element. Wildcards bind nothing.
+ * The symbol is declared at its BindingPattern node.
  */
-function processListLiteralBinding(
-	bindingId: NodeId,
-	listLiteralId: NodeId,
-	listTypeId: TypeId,
-	nameId: StringId,
+function bindTupleElement(
+	elementPatternId: NodeId,
+	index: number,
+	tupleSymId: SymbolId,
+	patternId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
 ): void {
-	const expectedSize = state.types.getListSize(listTypeId)
-	const elementTypeId = state.types.getListElementType(listTypeId)
-	if (expectedSize === undefined || elementTypeId === undefined) return
-
-	const elementIds = collectListElementIds(listLiteralId, context)
-	if (!validateListLiteralSize(listLiteralId, elementIds.length, expectedSize, context)) return
-
-	const { hasError, results } = checkListElements(elementIds, elementTypeId, state, context)
-	if (hasError) return
-
-	const baseName = context.strings.get(nameId)
-	const symbolIds = state.symbols.declareListBinding(
-		baseName,
-		listTypeId,
-		bindingId,
-		(name) => context.strings.intern(name),
-		state.types
-	)
+	const elementNode = context.nodes.get(elementPatternId)
+	if (elementNode.kind !== NodeKind.BindingPattern) return
 
-	emitListElementBindings(symbolIds, results, bindingId, elementTypeId, state)
+	const tupleTypeId = state.symbols.get(tupleSymId).typeId
+	const typeId = state.types.getTupleElementTypes(tupleTypeId)?.[index] ?? BuiltinTypeId.Invalid
+	const tupleInstId = state.insts.add({
+		arg0: tupleSymId as number,
+		arg1: 0,
+		kind: InstKind.VarRef,
+		parseNodeId: patternId,
+		typeId: tupleTypeId,
+	})
+	const extractInstId = state.insts.add({
+		arg0: tupleInstId as number,
+		arg1: index,
+		kind: InstKind.TupleExtract,
+		parseNodeId: patternId,
+		typeId,
+	})
+	const symId = state.symbols.add({
+		nameId: context.tokens.get(elementNode.tokenId).payload as StringId,
+		parseNodeId: elementPatternId,
+		typeId,
+	})
+	state.insts.add({
+		arg0: symId as number,
+		arg1: extractInstId as number,
+		kind: InstKind.Bind,
+		parseNodeId: elementPatternId,
+		typeId,
+	})
 }
 
 // ============================================================================
@@ -177,24 +206,41 @@ function processListLiteralBinding(
 // ============================================================================
 
 /**
- * Emit a typed binding with explicit type annotation.
- * Handles list literal bindings specially (unpacking elements to individual locals).
- * For other bindings, creates a single symbol and emits a Bind instruction.
+ * Whether a BindingExpr destructures a tuple: {q, r} = div_mod(10, 3)
  */
-export function emitTypedBinding(
+export function isTupleBinding(bindingId: NodeId, context: CompilationContext): boolean {
+	const { patternId } = extractTupleBindingNodes(bindingId, context)
+	return context.nodes.get(patternId).kind === NodeKind.TuplePattern
+}
+
+/**
+ * Process a destructuring binding.
+ * The value must be a tuple with one element per name or wildcard in the
+ * pattern; each name becomes a binding of its element's type.
+ */
+export function handleTupleBinding(
 	bindingId: NodeId,
-	exprId: NodeId,
-	declaredType: TypeId,
-	nameId: StringId,
 	state: CheckerState,
 	context: CompilationContext
 ): void {
-	if (isListLiteralBinding(exprId, declaredType, state, context)) {
-		processListLiteralBinding(bindingId, exprId, declaredType, nameId, state, context)
+	const { exprId, patternId } = extractTupleBindingNodes(bindingId, context)
+	const result = checkExpressionInferred(exprId, state, context)
+	if (!isValidExprResult(result)) return
+
+	const elementPatternIds = collectTupleElementPatterns(patternId, context)
+	const elementTypes = state.types.getTupleElementTypes(result.typeId)
+	if (elementTypes?.length !== elementPatternIds.length) {
+		context.emitAtNode('TWCHECK044' as DiagnosticCode, patternId, {
+			count: elementPatternIds.length.toString(),
+			type: state.types.typeName(result.typeId),
+		})
 		return
 	}
 
-	emitSimpleBinding(bindingId, exprId, declaredType, nameId, state, context)
+	const tupleSymId = bindTupleValue(bindingId, result, state, context)
+	elementPatternIds.forEach((elementPatternId, i) => {
+		bindTupleElement(elementPatternId, i, tupleSymId, patternId, state, context)
+	})
 }
 
 /**
@@ -222,19 +268,7 @@ export function emitSimpleBinding(
 	const exprResult = checkExpression(exprId, declaredType, state, context)
 	if (!isValidExprResult(exprResult)) return
 
-	const symId = state.symbols.add({
-		nameId,
-		parseNodeId: bindingId,
-		typeId: declaredType,
-	})
-
-	state.insts.add({
-		arg0: symId as number,
-		arg1: exprResult.instId as number,
-		kind: InstKind.Bind,
-		parseNodeId: bindingId,
-		typeId: declaredType,
-	})
+	bindValue(nameId, declaredType, exprResult.instId, bindingId, state, context)
 }
 
 /**
@@ -285,11 +319,6 @@ export function processVariableBinding(
 		}
 	}
 
-	if (isListLiteralBinding(exprId as NodeId, declaredType, state, context)) {
-		processListLiteralBinding(bindingId, exprId as NodeId, declaredType, nameId, state, context)
-		return null
-	}
-
 	emitSimpleBinding(bindingId, exprId as NodeId, declaredType, nameId, state, context)
 	return null
 }
@@ -0,0 +1,118 @@
+/**
+ * Checked conversions for the Check phase.
+ *
+ * `checked(value)` converts a value to the bounded integer type expected
+ * where it goes, for when the checker cannot prove the value fits:
+ * `age: i32<min=0, max=125> = checked(raw)`. The program traps when the
+ * value does not fit. A binding named `checked` makes it a plain call.
+ */
+
+import type { CompilationContext, StringId } from '../core/context.ts'
+import type { DiagnosticCode } from '../core/diagnostics.ts'
+import { type NodeId, NodeKind } from '../core/nodes.ts'
+import { type CheckExpr, type CheckExprInferred, collectCallChildren } from './funcs.ts'
+import { instRangeType, isBoundedIntegerType } from './intervals.ts'
+import type { CheckerState, ExprResult } from './state.ts'
+import { BuiltinTypeId, type InstId, InstKind, type TypeId } from './types.ts'
+import { isValidExprResult } from './utils.ts'
+
+/** The name that calls a checked conversion. */
+export const CHECKED_NAME = 'checked'
+
+/** Whether a call is a checked conversion: it calls `checked`, which no binding names. */
+export function isCheckedConversion(
+	callId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	const { calleeId } = collectCallChildren(callId, context)
+	if (calleeId === null) return false
+	const callee = context.nodes.get(calleeId)
+	if (callee.kind !== NodeKind.Identifier) return false
+	const nameId = context.tokens.get(callee.tokenId).payload as StringId
+	return (
+		context.strings.get(nameId) === CHECKED_NAME && state.symbols.lookupByName(nameId) === undefined
+	)
+}
+
+/** The single value a checked conversion converts, or null after an error. */
+function convertedValueId(callId: NodeId, context: CompilationContext): NodeId | null {
+	const { argIds } = collectCallChildren(callId, context)
+	const [valueId] = argIds
+	if (argIds.length === 1 && valueId !== undefined) return valueId
+	context.emitAtNode('TWCHECK010' as DiagnosticCode, callId, {
+		found: `${argIds.length} arguments (expected 1)`,
+	})
+	return null
+}
+
+/**
+ * Report a conversion to a type that is not a bounded integer type, or
+ * to whatever type the value has when nothing is expected.
+ */
+function rejectConversion(
+	callId: NodeId,
+	valueId: NodeId,
+	targetType: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext,
+	checkExprInferred: CheckExprInferred
+): ExprResult {
+	const typeId = targetType ?? checkExprInferred(valueId, state, context).typeId
+	if (typeId !== BuiltinTypeId.Invalid) {
+		context.emitAtNode('TWCHECK100' as DiagnosticCode, callId, {
+			type: state.types.typeName(typeId),
+		})
+	}
+	return { instId: null, typeId: BuiltinTypeId.Invalid }
+}
+
+/**
+ * Convert a value to a bounded type, checking it when the program runs
+ * unless its range already fits, which earns a warning instead.
+ */
+function convertValue(
+	callId: NodeId,
+	valueInstId: InstId,
+	targetType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	if (state.types.isSubtype(instRangeType(valueInstId, state, context), targetType)) {
+		context.emitAtNode('TWCHECK052' as DiagnosticCode, callId, {
+			type: state.types.typeName(targetType),
+		})
+		return { instId: valueInstId, typeId: targetType }
+	}
+	const instId = state.insts.add({
+		arg0: valueInstId as number,
+		arg1: 0,
+		kind: InstKind.RefinementCheck,
+		parseNodeId: callId,
+		typeId: targetType,
+	})
+	return { instId, typeId: targetType }
+}
+
+/**
+ * Check a checked conversion to `targetType`, the type expected where
+ * its value goes, or null when nothing is expected. The value is checked
+ * as the type it converts to refines.
+ */
+export function checkCheckedConversion(
+	callId: NodeId,
+	targetType: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext,
+	checkExpr: CheckExpr,
+	checkExprInferred: CheckExprInferred
+): ExprResult {
+	const valueId = convertedValueId(callId, context)
+	if (valueId === null) return { instId: null, typeId: BuiltinTypeId.Invalid }
+	if (targetType === null || !isBoundedIntegerType(targetType, state)) {
+		return rejectConversion(callId, valueId, targetType, state, context, checkExprInferred)
+	}
+	const result = checkExpr(valueId, state.types.unrefined(targetType), state, context)
+	if (!isValidExprResult(result)) return result
+	return convertValue(callId, result.instId, targetType, state, context)
+}
@@ -13,16 +13,29 @@ import type { CompilationContext, StringId } from '../core/context.ts'
 import type { DiagnosticCode } from '../core/diagnostics.ts'
 import { type NodeId, NodeKind, nodeId, offsetNodeId, prevNodeId } from '../core/nodes.ts'
 import { TokenKind } from '../core/tokens.ts'
-import { emitTypedBinding, processVariableBinding } from './bindings.ts'
+import {
+	emitSimpleBinding,
+	handleTupleBinding,
+	isTupleBinding,
+	processVariableBinding,
+} from './bindings.ts'
 import {
 	finalizeTypeDecl,
 	getFieldDeclFromLine,
 	getTypeDeclFromLine,
+	getVariantDeclFromLine,
 	processFieldDecl,
+	processVariantDecl,
 	startTypeDecl,
 } from './declarations.ts'
-import { checkExpression } from './expressions.ts'
-import { handleFuncDecl, handleLambdaBinding, resolveFuncType } from './funcs.ts'
+import { checkExpression, checkExpressionInferred } from './expressions.ts'
+import {
+	checkEffectfulValues,
+	handleExternHostBinding,
+	handleExternWasmBinding,
+	handleFuncDecl,
+	handleLambdaBinding,
+} from './funcs.ts'
 import {
 	finalizeMatch,
 	getMatchArmFromLine,
@@ -30,6 +43,7 @@ import {
 	startMatchBinding,
 	startMatchFromBindingExpr,
 } from './match.ts'
+import { bindValue } from './record-values.ts'
 import {
 	extractFieldDeclName,
 	finalizeNestedRecordInit,
@@ -133,38 +147,6 @@ function isUppercaseName(name: string): boolean {
 	return name.length > 0 && name[0] === name[0]?.toUpperCase() && name[0] !== name[0]?.toLowerCase()
 }
 
-/**
- * Find FuncType child of a TypeAnnotation node (if present).
- */
-function findFuncTypeChild(typeAnnotationId: NodeId, context: CompilationContext): NodeId | null {
-	for (const [childId, child] of context.nodes.iterateChildren(typeAnnotationId)) {
-		if (child.kind === NodeKind.FuncType) {
-			return childId
-		}
-	}
-	return null
-}
-
-/**
- * Try to resolve a function type alias.
- * Returns true if this was a function type (resolved or not).
- */
-function tryResolveFuncTypeAlias(
-	typeAnnotationId: NodeId,
-	aliasName: string,
-	state: CheckerState,
-	context: CompilationContext
-): boolean {
-	const funcTypeChildId = findFuncTypeChild(typeAnnotationId, context)
-	if (funcTypeChildId === null) return false
-
-	const funcTypeId = resolveFuncType(funcTypeChildId, state, context)
-	if (funcTypeId !== BuiltinTypeId.Invalid) {
-		state.types.addAlias(aliasName, funcTypeId)
-	}
-	return true
-}
-
 /**
  * Emit error for unknown type in type alias.
  */
@@ -189,8 +171,6 @@ function handleTypeAlias(aliasId: NodeId, state: CheckerState, context: Compilat
 	const aliasName = context.strings.get(aliasToken.payload as StringId)
 	const typeAnnotationId = prevNodeId(aliasId)
 
-	if (tryResolveFuncTypeAlias(typeAnnotationId, aliasName, state, context)) return
-
 	const typeInfo = resolveTypeFromAnnotation(typeAnnotationId, state, context)
 	if (!typeInfo) {
 		emitUnknownTypeAliasError(typeAnnotationId, context)
@@ -245,6 +225,7 @@ function getUppercaseIdentifier(exprId: NodeId, context: CompilationContext): st
 
 /**
  * Try to handle record instantiation pattern: lowercase = Uppercase
+ * Variant names are left to expression checking, which constructs them.
  * Returns true if this was a record instantiation (handled or errored).
  */
 function tryHandleRecordInstantiation(
@@ -256,7 +237,7 @@ function tryHandleRecordInstantiation(
 	context: CompilationContext
 ): boolean {
 	const rhsName = getUppercaseIdentifier(exprId, context)
-	if (!rhsName || isUppercaseName(identName)) return false
+	if (!rhsName || isUppercaseName(identName) || state.types.lookupVariant(rhsName)) return false
 
 	const typeId = state.types.lookup(rhsName)
 	if (typeId !== undefined && state.types.isRecordType(typeId)) {
@@ -281,18 +262,7 @@ function emitInferredBinding(
 	const result = checkExpression(exprId, BuiltinTypeId.None, state, context)
 	if (result.instId === null || result.typeId === BuiltinTypeId.Invalid) return
 
-	const symId = state.symbols.add({
-		nameId,
-		parseNodeId: bindingId,
-		typeId: result.typeId,
-	})
-	state.insts.add({
-		arg0: symId as number,
-		arg1: result.instId as number,
-		kind: InstKind.Bind,
-		parseNodeId: bindingId,
-		typeId: result.typeId,
-	})
+	bindValue(nameId, result.typeId, result.instId, bindingId, state, context)
 }
 
 /**
@@ -310,7 +280,6 @@ function getIdentifierInfo(
 
 /**
  * Handle typed binding with explicit type annotation.
- * Uses emitTypedBinding which handles list literals specially.
  */
 function handleTypedBinding(
 	bindingId: NodeId,
@@ -322,28 +291,90 @@ function handleTypedBinding(
 ): void {
 	const typeInfo = resolveTypeFromAnnotation(typeAnnotationId, state, context)
 	if (typeInfo) {
-		emitTypedBinding(bindingId, exprId, typeInfo.typeId, nameId, state, context)
+		emitSimpleBinding(bindingId, exprId, typeInfo.typeId, nameId, state, context)
 	}
 }
 
+/** The type a binding's annotation declares, or null without one. */
+function resolveDeclaredType(
+	typeAnnotationId: NodeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId | null {
+	if (typeAnnotationId === null) return null
+	return resolveTypeFromAnnotation(typeAnnotationId, state, context)?.typeId ?? null
+}
+
 /**
  * Try to handle Lambda binding: name = (params) -> body
+ * Only top-level bindings define named functions; a local one binds a
+ * function value, which may capture the bindings around it.
  * Returns true if this was a Lambda binding.
  */
 function tryHandleLambdaBinding(
 	bindingId: NodeId,
 	exprId: NodeId,
 	nameId: StringId,
+	typeAnnotationId: NodeId | null,
 	state: CheckerState,
 	context: CompilationContext
 ): boolean {
 	const exprNode = context.nodes.get(exprId)
-	if (exprNode.kind !== NodeKind.Lambda) return false
+	if (exprNode.kind !== NodeKind.Lambda || !state.symbols.isGlobalScope()) return false
+
+	handleLambdaBinding(
+		bindingId,
+		exprId,
+		nameId,
+		resolveDeclaredType(typeAnnotationId, state, context),
+		state,
+		context,
+		checkExpressionWithSequence
+	)
+	return true
+}
+
+/**
+ * Try to handle extern binding: name = extern wasm "opcode"
+ * or @name = extern host "module" "function"
+ * Returns true if this was an extern binding.
+ */
+function tryHandleExternBinding(
+	bindingId: NodeId,
+	exprId: NodeId,
+	nameId: StringId,
+	typeAnnotationId: NodeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	const { kind } = context.nodes.get(exprId)
+	if (kind !== NodeKind.ExternWasm && kind !== NodeKind.ExternHost) return false
 
-	handleLambdaBinding(bindingId, exprId, nameId, state, context, checkExpressionWithSequence)
+	const declaredTypeId = resolveDeclaredType(typeAnnotationId, state, context)
+	const handleExtern =
+		kind === NodeKind.ExternWasm ? handleExternWasmBinding : handleExternHostBinding
+	handleExtern(bindingId, exprId, nameId, declaredTypeId, state, context)
 	return true
 }
 
+/**
+ * Try to handle a binding that defines a function: a lambda or an extern.
+ * Returns true if the binding defined a function.
+ */
+function tryHandleFuncBinding(
+	bindingId: NodeId,
+	exprId: NodeId,
+	nameId: StringId,
+	typeAnnotationId: NodeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	return (
+		tryHandleLambdaBinding(bindingId, exprId, nameId, typeAnnotationId, state, context) ||
+		tryHandleExternBinding(bindingId, exprId, nameId, typeAnnotationId, state, context)
+	)
+}
+
 /**
  * Try to handle MatchExpr binding: name: Type = match scrutinee
  * Returns true if this was a MatchExpr binding.
@@ -393,12 +424,13 @@ function handleRegularBinding(
 }
 
 /**
- * Handle a BindingExpr statement.
+ * Handle a BindingExpr that binds a single name.
  * Detects record instantiation pattern: lowercase = Uppercase
  * Detects Lambda binding pattern: name = (params) -> body
+ * Detects extern binding patterns: name = extern wasm "opcode", @name = extern host ...
  * Detects MatchExpr binding pattern: name: Type = match scrutinee
  */
-function handleBindingExpr(
+function handleNamedBinding(
 	bindingId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
@@ -410,12 +442,48 @@ function handleBindingExpr(
 	const { name: identName, nameId } = getIdentifierInfo(identId, context)
 
 	if (tryHandleRecordInstantiation(bindingId, exprId, identName, nameId, state, context)) return
-	if (tryHandleLambdaBinding(bindingId, exprId, nameId, state, context)) return
+	if (tryHandleFuncBinding(bindingId, exprId, nameId, typeAnnotationId, state, context)) return
 	if (tryHandleMatchExprBinding(bindingId, exprId, nameId, typeAnnotationId, state, context)) return
 
 	handleRegularBinding(bindingId, exprId, nameId, typeAnnotationId, state, context)
 }
 
+/**
+ * Handle a BindingExpr statement: a named binding or a tuple destructuring.
+ */
+function handleBindingExpr(
+	bindingId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	if (isTupleBinding(bindingId, context)) {
+		handleTupleBinding(bindingId, state, context)
+	} else {
+		handleNamedBinding(bindingId, state, context)
+	}
+}
+
+/**
+ * Handle a call standing alone as a statement, run for its effects.
+ * Its value, if it has one, is discarded.
+ */
+function handleCallStatement(
+	callId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const result = checkExpressionInferred(callId, state, context)
+	if (result.instId === null) return
+
+	state.insts.add({
+		arg0: result.instId as number,
+		arg1: 0,
+		kind: InstKind.Discard,
+		parseNodeId: callId,
+		typeId: BuiltinTypeId.None,
+	})
+}
+
 function emitStatement(
 	stmtId: NodeId,
 	stmtKind: NodeKind,
@@ -449,6 +517,9 @@ function emitStatement(
 			// Panic expression as statement - discard the result
 			checkExpression(stmtId, BuiltinTypeId.None, state, context)
 			break
+		case NodeKind.FuncCall:
+			handleCallStatement(stmtId, state, context)
+			break
 	}
 }
 
@@ -470,6 +541,46 @@ function collectSequenceChildren(
 	return children.reverse()
 }
 
+/**
+ * Whether a statement of a lambda body is a field of the record literal
+ * it follows: `x = a` indented under `p = Point`.
+ */
+function isRecordLiteralField(
+	stmtId: NodeId,
+	literalId: NodeId | null,
+	context: CompilationContext
+): boolean {
+	if (literalId === null || context.nodes.get(stmtId).kind !== NodeKind.BindingExpr) return false
+	const column = (id: NodeId) => context.tokens.get(context.nodes.get(id).tokenId).column
+	return column(stmtId) > column(literalId)
+}
+
+function startedRecordLiteral(stmtId: NodeId, state: CheckerState): boolean {
+	const ctx = currentBlockContext(state)
+	return ctx?.kind === 'RecordLiteral' && ctx.bindingNodeId === stmtId
+}
+
+/**
+ * Process one statement of an expression sequence. A record literal's
+ * fields follow it at a deeper indent; the literal is finalized by the
+ * first statement that is not one of them.
+ * Returns the record literal still open after the statement, if any.
+ */
+function processSequenceStatement(
+	child: { id: NodeId; kind: NodeKind },
+	literalId: NodeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): NodeId | null {
+	if (isRecordLiteralField(child.id, literalId, context)) {
+		processFieldInitInNestedContext(child.id, state, context)
+		return literalId
+	}
+	if (literalId !== null) finalizeRecordLiteral(state, context)
+	if (isStatementNode(child.kind)) emitStatementInLambdaBody(child.id, child.kind, state, context)
+	return startedRecordLiteral(child.id, state) ? child.id : null
+}
+
 /**
  * Process all non-last children in an expression sequence as statements.
  */
@@ -478,12 +589,11 @@ function processSequenceStatements(
 	state: CheckerState,
 	context: CompilationContext
 ): void {
-	for (let i = 0; i < children.length - 1; i++) {
-		const child = children[i]
-		if (child !== undefined && isStatementNode(child.kind)) {
-			emitStatementInLambdaBody(child.id, child.kind, state, context)
-		}
+	let literalId: NodeId | null = null
+	for (const child of children.slice(0, -1)) {
+		literalId = processSequenceStatement(child, literalId, state, context)
 	}
+	if (literalId !== null) finalizeRecordLiteral(state, context)
 }
 
 /**
@@ -532,6 +642,9 @@ function emitStatementInLambdaBody(
 			// Panic expression as statement - discard the result
 			checkExpression(stmtId, BuiltinTypeId.None, state, context)
 			break
+		case NodeKind.FuncCall:
+			handleCallStatement(stmtId, state, context)
+			break
 	}
 }
 
@@ -621,7 +734,10 @@ function processIndentedLineAsMatchArm(
 	return true
 }
 
-function processIndentedLineAsFieldDecl(
+/**
+ * Process a field or variant of the type declaration being collected.
+ */
+function processIndentedLineInTypeDecl(
 	lineId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
@@ -634,6 +750,12 @@ function processIndentedLineAsFieldDecl(
 		return true
 	}
 
+	const variantDecl = getVariantDeclFromLine(lineId, context)
+	if (variantDecl) {
+		processVariantDecl(variantDecl.id, state, context)
+		return true
+	}
+
 	return false
 }
 
@@ -720,7 +842,7 @@ function handleIndentedLine(
 	finalizeNestedContextsForIndent(state, context, lineIndentLevel)
 
 	if (processIndentedLineAsMatchArm(lineId, state, context)) return
-	if (processIndentedLineAsFieldDecl(lineId, state, context)) return
+	if (processIndentedLineInTypeDecl(lineId, state, context)) return
 	if (tryStartNestedRecordInit(lineId, lineIndentLevel, state, context)) return
 	if (processIndentedLineAsFieldInit(lineId, state, context)) return
 	context.emitAtNode('TWCHECK001' as DiagnosticCode, lineId)
@@ -896,6 +1018,7 @@ export function check(context: CompilationContext): CheckResult {
 	const state: CheckerState = {
 		blockContextStack: [],
 		currentScope: mainScope,
+		effectsAllowed: true,
 		insts,
 		matchContext: null,
 		scopes,
@@ -924,6 +1047,7 @@ export function check(context: CompilationContext): CheckResult {
 	}
 
 	finalizePendingContexts(state, context)
+	checkEffectfulValues(state, context)
 	flushUnreachableWarning(state, context)
 	assignCheckResultsToContext(context, insts, symbols, types, funcs)
 
@@ -4,6 +4,7 @@
  * This module handles:
  * - Type declaration detection from line nodes
  * - Field declaration processing within type declarations
+ * - Variant declaration processing for sum types
  * - Type finalization and registration
  */
 
@@ -15,7 +16,12 @@ import type { Token } from '../core/tokens.ts'
 import { TokenKind } from '../core/tokens.ts'
 import type { CheckerState, TypeDeclContext } from './state.ts'
 import { currentBlockContext, popBlockContext, pushBlockContext } from './state.ts'
-import { getTypeNameFromToken, resolveListType, resolveRefinementType } from './type-resolution.ts'
+import {
+	getTypeNameFromToken,
+	isTupleElementType,
+	resolveListType,
+	resolveRefinementType,
+} from './type-resolution.ts'
 import type { TypeId } from './types.ts'
 
 // ============================================================================
@@ -79,6 +85,7 @@ export function startTypeDecl(
 		nodeId: typeDeclId,
 		typeId: null, // Will be assigned after registration
 		typeName,
+		variants: [],
 	})
 }
 
@@ -245,19 +252,145 @@ export function processFieldDecl(
 	addFieldToTypeDeclContext(ctx, fieldName, fieldTypeId, fieldDeclId, context)
 }
 
+// ============================================================================
+// Variant Declaration Processing
+// ============================================================================
+
+type VariantDecl = TypeDeclContext['variants'][number]
+
+/**
+ * Get a variant declaration from a line: a VariantDecl, or a bare
+ * upper-case name (parsed as a TypeDecl) for a variant without fields.
+ */
+export function getVariantDeclFromLine(
+	lineId: NodeId,
+	context: CompilationContext
+): { id: NodeId; kind: NodeKind } | null {
+	for (const [childId, child] of context.nodes.iterateChildren(lineId)) {
+		if (child.kind === NodeKind.VariantDecl || child.kind === NodeKind.TypeDecl) {
+			return { id: childId, kind: child.kind }
+		}
+	}
+	return null
+}
+
+/**
+ * Resolve one field of a variant. Fields are tuple elements of the sum
+ * type's representation, so they must be single values.
+ */
+function resolveVariantField(
+	fieldDeclId: NodeId,
+	variant: VariantDecl,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const fieldToken = context.tokens.get(context.nodes.get(fieldDeclId).tokenId)
+	const fieldName = context.strings.get(fieldToken.payload as StringId)
+	const fieldTypeId = resolveFieldTypeFromNode(fieldDeclId, state, context)
+	if (!fieldTypeId) return
+
+	if (!isTupleElementType(fieldTypeId, state)) {
+		context.emitAtNode('TWCHECK007' as DiagnosticCode, fieldDeclId, {
+			name: fieldName,
+			type: state.types.typeName(fieldTypeId),
+		})
+		return
+	}
+	if (variant.fields.some((field) => field.name === fieldName)) {
+		context.emitAtNode('TWCHECK026' as DiagnosticCode, fieldDeclId, {
+			name: fieldName,
+			typeName: variant.name,
+		})
+		return
+	}
+	variant.fields.push({ name: fieldName, nodeId: fieldDeclId, typeId: fieldTypeId })
+}
+
+/**
+ * The type already declaring a variant name: this declaration, or an
+ * earlier sum type.
+ */
+function existingVariantOwner(
+	ctx: TypeDeclContext,
+	variantName: string,
+	state: CheckerState
+): string | null {
+	if (ctx.variants.some((variant) => variant.name === variantName)) return ctx.typeName
+	const existing = state.types.lookupVariant(variantName)
+	return existing ? state.types.typeName(existing.typeId) : null
+}
+
+/**
+ * Process a variant declaration within a type declaration.
+ * Variant names must be unique across all sum types.
+ */
+export function processVariantDecl(
+	variantDeclId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const ctx = currentBlockContext(state)
+	if (!ctx || ctx.kind !== 'TypeDecl') return
+
+	const variantToken = context.tokens.get(context.nodes.get(variantDeclId).tokenId)
+	const variantName = context.strings.get(variantToken.payload as StringId)
+	const owner = existingVariantOwner(ctx, variantName, state)
+	if (owner !== null) {
+		context.emitAtNode('TWCHECK002' as DiagnosticCode, variantDeclId, {
+			name: variantName,
+			typeName: owner,
+		})
+		return
+	}
+
+	const variant: VariantDecl = { fields: [], name: variantName, nodeId: variantDeclId }
+	// iterateChildren yields in reverse order; fields are declared in source order
+	const fieldDeclIds = [...context.nodes.iterateChildren(variantDeclId)].map(([id]) => id).reverse()
+	for (const fieldDeclId of fieldDeclIds) {
+		resolveVariantField(fieldDeclId, variant, state, context)
+	}
+	ctx.variants.push(variant)
+}
+
 // ============================================================================
 // Type Declaration Finalization
 // ============================================================================
 
+/**
+ * Register a sum type. A declaration that also lists record fields is
+ * reported, and its fields are ignored.
+ */
+function registerSumTypeDecl(
+	ctx: TypeDeclContext,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	if (ctx.fields.length > 0) {
+		context.emitAtNode('TWCHECK006' as DiagnosticCode, ctx.nodeId, { typeName: ctx.typeName })
+	}
+	const variants = ctx.variants.map((variant) => ({
+		fields: variant.fields.map((f, index) => ({ index, name: f.name, typeId: f.typeId })),
+		name: variant.name,
+		parseNodeId: variant.nodeId,
+	}))
+	state.types.registerSumType(ctx.typeName, variants, ctx.nodeId)
+}
+
 /**
  * Finalize a type declaration by registering it with the TypeStore.
+ * Declarations with variants are sum types; all others are records.
  */
-export function finalizeTypeDecl(state: CheckerState, _context: CompilationContext): void {
+export function finalizeTypeDecl(state: CheckerState, context: CompilationContext): void {
 	const ctx = currentBlockContext(state)
 	if (!ctx || ctx.kind !== 'TypeDecl') return
 
 	popBlockContext(state)
 
+	if (ctx.variants.length > 0) {
+		registerSumTypeDecl(ctx, state, context)
+		return
+	}
+
 	const { fields, nodeId, typeName } = ctx
 	if (!fields) return
 
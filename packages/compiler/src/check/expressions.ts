@@ -4,11 +4,14 @@
  * This module is the HUB for expression evaluation. It handles:
  * - Literal checking (int, float)
  * - Unary expressions (negate, bitwise not)
+ * - Numeric conversions (`x as i64`)
  * - Binary expressions (arithmetic, comparison, logical)
  * - Compare chains
+ * - Bounded expressions, which fit a refined type by their range
  * - Variable references
  * - Field and index access
  * - List literals
+ * - Tuple literals
  *
  * CRITICAL: This module exports checkExpression and checkExpressionInferred
  * which are used by higher-level modules (bindings, records, match).
@@ -19,13 +22,23 @@ import type { CompilationContext, StringId } from '../core/context.ts'
 import type { DiagnosticCode } from '../core/diagnostics.ts'
 import { type NodeId, NodeKind, offsetNodeId, type ParseNode, prevNodeId } from '../core/nodes.ts'
 import { type TokenId, TokenKind } from '../core/tokens.ts'
-import { handleFuncCall } from './funcs.ts'
+import { checkCheckedConversion, isCheckedConversion } from './checked.ts'
+import {
+	checkEffectAllowed,
+	collectCallChildren,
+	handleFuncCall,
+	handleLambdaExpr,
+} from './funcs.ts'
+import { instRange, instRangeType, isBoundedIntegerType } from './intervals.ts'
 import type { CheckerState, ExprResult } from './state.ts'
 import {
 	checkRefinementConstraints,
 	emitIntBoundsError,
 	emitIntConstInst,
+	isConvertible,
+	isTupleElementType,
 	parseIntegerLiteral,
+	resolveConversionType,
 } from './type-resolution.ts'
 import { BuiltinTypeId, type InstId, InstKind, type SymbolId, type TypeId } from './types.ts'
 import {
@@ -37,9 +50,11 @@ import {
 	isIntegerOnlyOperator,
 	isIntegerType,
 	isLogicalOperator,
+	isUnsignedType,
 	isValidExprResult,
 	isValidF32,
 } from './utils.ts'
+import { checkVariantConstruction, lookupCalledVariant, lookupVariantRef } from './variants.ts'
 
 // ============================================================================
 // Utility Functions
@@ -87,6 +102,27 @@ function emitF32OverflowError(
 	return { instId: null, typeId: BuiltinTypeId.Invalid }
 }
 
+/** A number literal where a bool is expected (TWCHECK104). */
+function emitBoolLiteralError(
+	nodeId: NodeId,
+	expectedType: TypeId,
+	found: string,
+	value: string,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	context.emitAtNode('TWCHECK104' as DiagnosticCode, nodeId, {
+		expected: state.types.typeName(expectedType),
+		found,
+		value,
+	})
+	return { instId: null, typeId: BuiltinTypeId.Invalid }
+}
+
+function isBoolType(typeId: TypeId, state: CheckerState): boolean {
+	return state.types.toWasmType(typeId) === BuiltinTypeId.Bool
+}
+
 function emitFloatTypeMismatchError(
 	nodeId: NodeId,
 	expected: string,
@@ -111,6 +147,10 @@ function checkFloatLiteral(
 	const literalText = context.strings.get(token.payload as StringId)
 	const value = applyNegation(Number.parseFloat(literalText), negate)
 
+	if (isBoolType(expectedType, state)) {
+		const display = formatDisplayValue(literalText, negate)
+		return emitBoolLiteralError(nodeId, expectedType, 'float literal', display, state, context)
+	}
 	if (!isFloatType(expectedType)) {
 		return emitFloatTypeMismatchError(nodeId, state.types.typeName(expectedType), context)
 	}
@@ -160,6 +200,10 @@ function checkIntLiteral(
 	const token = context.tokens.get(node.tokenId)
 	const literalText = context.strings.get(token.payload as StringId)
 
+	if (isBoolType(expectedType, state)) {
+		const display = formatDisplayValue(literalText, negate)
+		return emitBoolLiteralError(nodeId, expectedType, 'integer literal', display, state, context)
+	}
 	if (isFloatType(expectedType)) {
 		const expected = state.types.typeName(expectedType)
 		context.emitAtNode('TWCHECK016' as DiagnosticCode, nodeId, {
@@ -171,6 +215,29 @@ function checkIntLiteral(
 	return checkIntLiteralAsInt(nodeId, expectedType, literalText, negate, state, context)
 }
 
+// ============================================================================
+// Boolean Literal Checking
+// ============================================================================
+
+/** Check `true` or `false`, which are 1 and 0 of type bool. */
+function checkBoolLiteral(
+	nodeId: NodeId,
+	expectedType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	if (!state.types.isSubtype(BuiltinTypeId.Bool, expectedType)) {
+		context.emitAtNode('TWCHECK012' as DiagnosticCode, nodeId, {
+			expected: state.types.typeName(expectedType),
+			found: 'bool',
+		})
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+	const token = context.tokens.get(context.nodes.get(nodeId).tokenId)
+	const value = token.kind === TokenKind.True ? 1n : 0n
+	return emitIntConstInst(nodeId, BuiltinTypeId.Bool, value, state)
+}
+
 // ============================================================================
 // Variable Reference
 // ============================================================================
@@ -190,10 +257,13 @@ function checkVarRef(
 		context.emitAtNode('TWCHECK013' as DiagnosticCode, nodeId, { name })
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
+	if (!checkEffectAllowed(nodeId, name, state, context)) {
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
 
 	const symbol = state.symbols.get(symId)
 
-	if (!state.types.areEqual(symbol.typeId, expectedType)) {
+	if (!state.types.isSubtype(symbol.typeId, expectedType)) {
 		const expected = state.types.typeName(expectedType)
 		const found = state.types.typeName(symbol.typeId)
 		context.emitAtNode('TWCHECK012' as DiagnosticCode, nodeId, { expected, found })
@@ -208,7 +278,7 @@ function checkVarRef(
 		typeId: symbol.typeId,
 	})
 
-	return { instId, typeId: symbol.typeId }
+	return { instId, typeId: expectedType }
 }
 
 // ============================================================================
@@ -225,11 +295,7 @@ function checkBitwiseNot(
 	const childResult = checkExpressionInferred(childId, state, context)
 	if (!isValidExprResult(childResult)) return childResult
 
-	if (!isIntegerType(childResult.typeId)) {
-		context.emitAtNode('TWCHECK021' as DiagnosticCode, exprNodeId, {
-			op: '~',
-			type: state.types.typeName(childResult.typeId),
-		})
+	if (!validateOperandType(exprNodeId, TokenKind.Tilde, childResult.typeId, state, context)) {
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
 
@@ -251,6 +317,35 @@ function checkBitwiseNot(
 	return { instId, typeId: childResult.typeId }
 }
 
+/**
+ * Negate a checked operand. An unsigned value has no negative to become:
+ * negating one emits TWCHECK102. Neither has a boolean: TWCHECK103.
+ */
+function addNegate(
+	exprNodeId: NodeId,
+	operand: ExprResult,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	if (!validateOperandType(exprNodeId, TokenKind.Minus, operand.typeId, state, context)) {
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+	if (isUnsignedType(state.types.toWasmType(operand.typeId))) {
+		context.emitAtNode('TWCHECK102' as DiagnosticCode, exprNodeId, {
+			type: state.types.typeName(operand.typeId),
+		})
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+	const instId = state.insts.add({
+		arg0: operand.instId as number,
+		arg1: 0,
+		kind: InstKind.Negate,
+		parseNodeId: exprNodeId,
+		typeId: operand.typeId,
+	})
+	return { instId, typeId: operand.typeId }
+}
+
 function checkUnaryNegate(
 	exprNodeId: NodeId,
 	childId: NodeId,
@@ -268,15 +363,7 @@ function checkUnaryNegate(
 
 	const childResult = checkExpression(childId, expectedType, state, context)
 	if (!isValidExprResult(childResult)) return childResult
-
-	const instId = state.insts.add({
-		arg0: childResult.instId as number,
-		arg1: 0,
-		kind: InstKind.Negate,
-		parseNodeId: exprNodeId,
-		typeId: childResult.typeId,
-	})
-	return { instId, typeId: childResult.typeId }
+	return addNegate(exprNodeId, childResult, state, context)
 }
 
 function checkUnaryExpr(
@@ -309,11 +396,7 @@ function checkUnaryExprInferred(
 
 	const opToken = context.tokens.get(node.tokenId)
 	if (opToken.kind === TokenKind.Tilde) {
-		if (!isIntegerType(childResult.typeId)) {
-			context.emitAtNode('TWCHECK021' as DiagnosticCode, exprId, {
-				op: '~',
-				type: state.types.typeName(childResult.typeId),
-			})
+		if (!validateOperandType(exprId, TokenKind.Tilde, childResult.typeId, state, context)) {
 			return { instId: null, typeId: BuiltinTypeId.Invalid }
 		}
 		const instId = state.insts.add({
@@ -325,14 +408,7 @@ function checkUnaryExprInferred(
 		})
 		return { instId, typeId: childResult.typeId }
 	}
-	const instId = state.insts.add({
-		arg0: childResult.instId as number,
-		arg1: 0,
-		kind: InstKind.Negate,
-		parseNodeId: exprId,
-		typeId: childResult.typeId,
-	})
-	return { instId, typeId: childResult.typeId }
+	return addNegate(exprId, childResult, state, context)
 }
 
 function checkParenExpr(
@@ -345,6 +421,68 @@ function checkParenExpr(
 	return checkExpression(childId, expectedType, state, context)
 }
 
+// ============================================================================
+// Numeric Conversions
+// ============================================================================
+
+/**
+ * Check `x as T`, converting a number to the numeric type `T`. The
+ * conversion of a value that already has type `T` does nothing, which
+ * earns a warning.
+ */
+function checkConversionInferred(
+	exprId: NodeId,
+	node: ParseNode,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const operand = checkExpressionInferred(prevNodeId(exprId), state, context)
+	if (!isValidExprResult(operand)) return operand
+
+	const typeId = resolveConversionType(context.tokens.get(node.tokenId).kind)
+	if (!isConvertible(operand.typeId, typeId, state)) {
+		context.emitAtNode('TWCHECK101' as DiagnosticCode, exprId, {
+			from: state.types.typeName(operand.typeId),
+			to: state.types.typeName(typeId),
+		})
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+	if (state.types.unrefined(operand.typeId) === typeId) {
+		context.emitAtNode('TWCHECK053' as DiagnosticCode, exprId, {
+			type: state.types.typeName(typeId),
+		})
+		return { instId: operand.instId, typeId }
+	}
+
+	const instId = state.insts.add({
+		arg0: operand.instId as number,
+		arg1: 0,
+		kind: InstKind.Convert,
+		parseNodeId: exprId,
+		typeId,
+	})
+	return { instId, typeId }
+}
+
+function checkConversion(
+	exprId: NodeId,
+	expectedType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const result = checkConversionInferred(exprId, context.nodes.get(exprId), state, context)
+	if (!isValidExprResult(result)) return result
+
+	if (!state.types.isSubtype(result.typeId, expectedType)) {
+		const expected = state.types.typeName(expectedType)
+		const found = state.types.typeName(result.typeId)
+		context.emitAtNode('TWCHECK012' as DiagnosticCode, exprId, { expected, found })
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+
+	return { ...result, typeId: expectedType }
+}
+
 // ============================================================================
 // Binary Expressions
 // ============================================================================
@@ -370,7 +508,10 @@ function getBinaryOperands(
 	const rightResult = checkExpressionInferred(rightId, state, context)
 	if (!isValidExprResult(rightResult)) return rightResult
 
-	if (!state.types.areEqual(leftResult.typeId, rightResult.typeId)) {
+	// Refined operands are operated on as their base type: the result of
+	// an operation need not stay within their bounds.
+	const operandType = state.types.unrefined(leftResult.typeId)
+	if (!state.types.areEqual(operandType, state.types.unrefined(rightResult.typeId))) {
 		context.emitAtNode('TWCHECK022' as DiagnosticCode, exprNodeId, {
 			left: state.types.typeName(leftResult.typeId),
 			right: state.types.typeName(rightResult.typeId),
@@ -378,7 +519,7 @@ function getBinaryOperands(
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
 
-	return { leftResult, operandType: leftResult.typeId, rightResult }
+	return { leftResult, operandType, rightResult }
 }
 
 function isBinaryOperands(result: BinaryOperands | ExprResult): result is BinaryOperands {
@@ -393,15 +534,9 @@ function validateBinaryOperator(
 	state: CheckerState,
 	context: CompilationContext
 ): TypeId | null {
-	if (isIntegerOnlyOperator(operatorKind) && !isIntegerType(operandType)) {
-		context.emitAtNode('TWCHECK021' as DiagnosticCode, exprNodeId, {
-			op: getOperatorName(operatorKind),
-			type: state.types.typeName(operandType),
-		})
-		return null
-	}
+	if (!validateOperandType(exprNodeId, operatorKind, operandType, state, context)) return null
 
-	const resultType = isComparisonOperator(operatorKind) ? BuiltinTypeId.I32 : operandType
+	const resultType = isComparisonOperator(operatorKind) ? BuiltinTypeId.Bool : operandType
 
 	if (!state.types.areEqual(resultType, expectedType)) {
 		context.emitAtNode('TWCHECK012' as DiagnosticCode, exprNodeId, {
@@ -414,84 +549,73 @@ function validateBinaryOperator(
 	return resultType
 }
 
-function emitLogicalOp(
-	exprNodeId: NodeId,
-	operatorKind: TokenKind,
-	operands: BinaryOperands,
-	resultType: TypeId,
-	state: CheckerState,
-	context: CompilationContext
-): ExprResult {
-	if (!isIntegerType(operands.operandType)) {
-		const op = operatorKind === TokenKind.AmpersandAmpersand ? '&&' : '||'
-		context.emitAtNode('TWCHECK024' as DiagnosticCode, exprNodeId, {
-			op,
-			type: state.types.typeName(operands.operandType),
-		})
-		return { instId: null, typeId: BuiltinTypeId.Invalid }
-	}
-
-	const kind =
-		operatorKind === TokenKind.AmpersandAmpersand ? InstKind.LogicalAnd : InstKind.LogicalOr
-	const instId = state.insts.add({
-		arg0: operands.leftResult.instId as number,
-		arg1: operands.rightResult.instId as number,
-		kind,
-		parseNodeId: exprNodeId,
-		typeId: resultType,
-	})
-	return { instId, typeId: resultType }
+/** The operators booleans support: they compare for equality and combine. */
+const BOOL_OPERATORS: ReadonlySet<TokenKind> = new Set([
+	TokenKind.AmpersandAmpersand,
+	TokenKind.BangEqual,
+	TokenKind.EqualEqual,
+	TokenKind.PipePipe,
+])
+
+function numericOperatorError(opKind: TokenKind, operandType: TypeId): DiagnosticCode | null {
+	if (isLogicalOperator(opKind)) return 'TWCHECK024' as DiagnosticCode
+	return isIntegerOnlyOperator(opKind) && !isIntegerType(operandType)
+		? ('TWCHECK021' as DiagnosticCode)
+		: null
 }
 
-function emitLogicalOpInferred(
-	exprId: NodeId,
-	opKind: TokenKind,
-	leftResult: ExprResult,
-	rightResult: ExprResult,
-	operandType: TypeId,
-	state: CheckerState,
-	context: CompilationContext
-): ExprResult {
-	if (!isIntegerType(operandType)) {
-		context.emitAtNode('TWCHECK024' as DiagnosticCode, exprId, {
-			op: getOperatorName(opKind),
-			type: state.types.typeName(operandType),
-		})
-		return { instId: null, typeId: BuiltinTypeId.Invalid }
-	}
-	const kind = opKind === TokenKind.AmpersandAmpersand ? InstKind.LogicalAnd : InstKind.LogicalOr
-	const instId = state.insts.add({
-		arg0: leftResult.instId as number,
-		arg1: rightResult.instId as number,
-		kind,
-		parseNodeId: exprId,
-		typeId: BuiltinTypeId.I32,
-	})
-	return { instId, typeId: BuiltinTypeId.I32 }
+/** The diagnostic for an operator its operands' type does not support, or null if it does. */
+function operatorTypeError(opKind: TokenKind, operandType: TypeId): DiagnosticCode | null {
+	if (operandType !== BuiltinTypeId.Bool) return numericOperatorError(opKind, operandType)
+	return BOOL_OPERATORS.has(opKind) ? null : ('TWCHECK103' as DiagnosticCode)
 }
 
-function validateIntegerOnlyOperator(
+/**
+ * Check that an operator applies to its operands' type. Logical operators
+ * take booleans (TWCHECK024), and booleans take nothing but those and
+ * equality (TWCHECK103): `a & b` on booleans is a mistake for `a && b`.
+ * Integer-only operators take integers (TWCHECK021).
+ */
+function validateOperandType(
 	exprId: NodeId,
 	opKind: TokenKind,
 	operandType: TypeId,
 	state: CheckerState,
 	context: CompilationContext
 ): boolean {
-	if (!isIntegerOnlyOperator(opKind) || isIntegerType(operandType)) return true
-	context.emitAtNode('TWCHECK021' as DiagnosticCode, exprId, {
+	const code = operatorTypeError(opKind, operandType)
+	if (code === null) return true
+	context.emitAtNode(code, exprId, {
 		op: getOperatorName(opKind),
 		type: state.types.typeName(operandType),
 	})
 	return false
 }
 
+function emitLogicalOp(
+	exprId: NodeId,
+	opKind: TokenKind,
+	operands: BinaryOperands,
+	state: CheckerState
+): ExprResult {
+	const kind = opKind === TokenKind.AmpersandAmpersand ? InstKind.LogicalAnd : InstKind.LogicalOr
+	const instId = state.insts.add({
+		arg0: operands.leftResult.instId as number,
+		arg1: operands.rightResult.instId as number,
+		kind,
+		parseNodeId: exprId,
+		typeId: BuiltinTypeId.Bool,
+	})
+	return { instId, typeId: BuiltinTypeId.Bool }
+}
+
 function emitBinaryOpInferred(
 	exprId: NodeId,
 	opKind: TokenKind,
 	operands: BinaryOperands,
 	state: CheckerState
 ): ExprResult {
-	const resultType = isComparisonOperator(opKind) ? BuiltinTypeId.I32 : operands.operandType
+	const resultType = isComparisonOperator(opKind) ? BuiltinTypeId.Bool : operands.operandType
 	const instId = state.insts.add({
 		arg0: operands.leftResult.instId as number,
 		arg1: operands.rightResult.instId as number,
@@ -524,8 +648,8 @@ function checkBinaryExpr(
 	)
 	if (resultType === null) return { instId: null, typeId: BuiltinTypeId.Invalid }
 
-	if (operatorKind === TokenKind.AmpersandAmpersand || operatorKind === TokenKind.PipePipe) {
-		return emitLogicalOp(exprNodeId, operatorKind, operandsResult, resultType, state, context)
+	if (isLogicalOperator(operatorKind)) {
+		return emitLogicalOp(exprNodeId, operatorKind, operandsResult, state)
 	}
 
 	const instId = state.insts.add({
@@ -548,24 +672,11 @@ function checkBinaryExprInferred(
 	if (!isBinaryOperands(operandsResult)) return operandsResult
 
 	const opKind = context.tokens.get(node.tokenId).kind
-
-	if (isLogicalOperator(opKind)) {
-		const { leftResult, rightResult, operandType } = operandsResult
-		return emitLogicalOpInferred(
-			exprId,
-			opKind,
-			leftResult,
-			rightResult,
-			operandType,
-			state,
-			context
-		)
-	}
-
-	if (!validateIntegerOnlyOperator(exprId, opKind, operandsResult.operandType, state, context)) {
+	if (!validateOperandType(exprId, opKind, operandsResult.operandType, state, context)) {
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
 
+	if (isLogicalOperator(opKind)) return emitLogicalOp(exprId, opKind, operandsResult, state)
 	return emitBinaryOpInferred(exprId, opKind, operandsResult, state)
 }
 
@@ -605,7 +716,7 @@ function findTypeMismatch(
 	for (let i = 1; i < operandResults.length; i++) {
 		const result = operandResults[i]
 		const nodeId = operandNodes[i]
-		if (result && nodeId && !state.types.areEqual(result.typeId, firstType)) {
+		if (result && nodeId && state.types.unrefined(result.typeId) !== firstType) {
 			return { nodeId, resultType: result.typeId }
 		}
 	}
@@ -620,12 +731,12 @@ function validateCompareChainTypes(
 ): TypeId | null {
 	const firstResult = operandResults[0]
 	if (!firstResult) return null
-	const firstType = firstResult.typeId
+	const firstType = state.types.unrefined(firstResult.typeId)
 
 	const mismatch = findTypeMismatch(operandResults, operandNodes, firstType, state)
 	if (mismatch) {
 		context.emitAtNode('TWCHECK022' as DiagnosticCode, mismatch.nodeId, {
-			left: state.types.typeName(firstType),
+			left: state.types.typeName(firstResult.typeId),
 			right: state.types.typeName(mismatch.resultType),
 		})
 		return null
@@ -650,16 +761,16 @@ function checkCompareChainPrereqs(
 	return firstType !== null ? operandResults : null
 }
 
-function checkExpectedTypeI32(
+function checkExpectedTypeBool(
 	exprNodeId: NodeId,
 	expectedType: TypeId,
 	state: CheckerState,
 	context: CompilationContext
 ): boolean {
-	if (state.types.areEqual(BuiltinTypeId.I32, expectedType)) return true
+	if (state.types.areEqual(BuiltinTypeId.Bool, expectedType)) return true
 	context.emitAtNode('TWCHECK012' as DiagnosticCode, exprNodeId, {
 		expected: state.types.typeName(expectedType),
-		found: 'i32',
+		found: 'bool',
 	})
 	return false
 }
@@ -673,7 +784,7 @@ function validateCompareChain(
 	const operandNodes = collectCompareChainOperands(exprNodeId, context)
 	const operandResults = checkCompareChainPrereqs(operandNodes, state, context)
 	if (!operandResults) return null
-	if (!checkExpectedTypeI32(exprNodeId, expectedType, state, context)) return null
+	if (!checkExpectedTypeBool(exprNodeId, expectedType, state, context)) return null
 
 	const firstResult = operandResults[0]
 	const secondResult = operandResults[1]
@@ -694,9 +805,9 @@ function checkCompareChain(
 		arg1: validated.secondResult.instId as number,
 		kind: InstKind.BinaryOp,
 		parseNodeId: exprNodeId,
-		typeId: BuiltinTypeId.I32,
+		typeId: BuiltinTypeId.Bool,
 	})
-	return { instId, typeId: BuiltinTypeId.I32 }
+	return { instId, typeId: BuiltinTypeId.Bool }
 }
 
 // ============================================================================
@@ -717,6 +828,9 @@ function checkIdentifierInferred(
 		context.emitAtNode('TWCHECK013' as DiagnosticCode, exprId, { name })
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
+	if (!checkEffectAllowed(exprId, name, state, context)) {
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
 	const symbol = state.symbols.get(symId)
 	const instId = state.insts.add({
 		arg0: symId as number,
@@ -908,57 +1022,20 @@ function checkFieldAccess(
 	const result = checkFieldAccessInferred(exprId, state, context)
 	if (!isValidExprResult(result)) return result
 
-	if (!state.types.areEqual(result.typeId, expectedType)) {
+	if (!state.types.isSubtype(result.typeId, expectedType)) {
 		const expected = state.types.typeName(expectedType)
 		const found = state.types.typeName(result.typeId)
 		context.emitAtNode('TWCHECK012' as DiagnosticCode, exprId, { expected, found })
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
 
-	return result
+	return { ...result, typeId: expectedType }
 }
 
 // ============================================================================
 // Index Access
 // ============================================================================
 
-function tryResolveFlattenedListSymbol(
-	baseId: NodeId,
-	index: number,
-	state: CheckerState,
-	context: CompilationContext
-): SymbolId | null {
-	const basePath = buildFlattenedBasePath(baseId, context)
-	if (basePath === null) return null
-
-	const flattenedName = `${basePath}_${index}`
-	const flattenedNameId = context.strings.intern(flattenedName)
-	return state.symbols.lookupByName(flattenedNameId) ?? null
-}
-
-function checkListBindingBounds(
-	baseId: NodeId,
-	indexId: NodeId,
-	index: number,
-	state: CheckerState,
-	context: CompilationContext
-): { isListBinding: boolean; valid: boolean } {
-	const basePath = buildFlattenedBasePath(baseId, context)
-	if (basePath === null) return { isListBinding: false, valid: false }
-
-	const baseNameId = context.strings.intern(basePath)
-	const listTypeId = state.symbols.getListBinding(baseNameId)
-
-	if (listTypeId === undefined) return { isListBinding: false, valid: false }
-
-	const listSize = state.types.getListSize(listTypeId)
-	if (listSize !== undefined && !validateListIndexBounds(indexId, index, listSize, context)) {
-		return { isListBinding: true, valid: false }
-	}
-
-	return { isListBinding: true, valid: true }
-}
-
 function extractIndexValue(indexNode: { tokenId: TokenId }, context: CompilationContext): number {
 	const indexToken = context.tokens.get(indexNode.tokenId)
 	const indexText = context.strings.get(indexToken.payload as StringId)
@@ -982,83 +1059,94 @@ function validateListIndexBounds(
 	return true
 }
 
-function emitIndexAccessInst(
-	exprId: NodeId,
-	baseResult: ExprResult,
-	index: number,
-	elementTypeId: TypeId,
-	state: CheckerState
-): ExprResult {
-	const instId = state.insts.add({
-		arg0: baseResult.instId as number,
-		arg1: index,
-		kind: InstKind.FieldAccess,
-		parseNodeId: exprId,
-		typeId: elementTypeId,
-	})
-	return { instId, typeId: elementTypeId }
+/** Whether values of a type can index a list: i32, refined or not. */
+function isIndexType(typeId: TypeId, state: CheckerState): boolean {
+	if (typeId === BuiltinTypeId.I32) return true
+	return state.types.isRefinedType(typeId) && state.types.toWasmType(typeId) === BuiltinTypeId.I32
 }
 
-function extractValidatedIndex(
-	indexId: NodeId,
-	indexNode: { kind: NodeKind; tokenId: TokenId },
+/**
+ * Whether an index's range keeps it within a list, as an
+ * `i32<min=0, max=3>` or `i & 3` does for a list of four elements.
+ */
+function isProvenInBounds(
+	indexInstId: InstId,
+	listSize: number,
+	state: CheckerState,
 	context: CompilationContext
-): number | null {
-	if (indexNode.kind !== NodeKind.IntLiteral) {
-		context.emitAtNode('TWCHECK035' as DiagnosticCode, indexId)
-		return null
-	}
-	return extractIndexValue(indexNode, context)
+): boolean {
+	const range = instRange(indexInstId, state, context)
+	return range !== null && range.lo >= 0n && range.hi < BigInt(listSize)
 }
 
-function checkListBaseAndIndex(
-	exprId: NodeId,
+/**
+ * Check a constant index, which must be within the list's size.
+ */
+function checkConstantIndex(
 	indexId: NodeId,
-	baseResult: ExprResult,
-	index: number,
+	listSize: number,
 	state: CheckerState,
 	context: CompilationContext
 ): ExprResult {
-	if (!state.types.isListType(baseResult.typeId)) {
-		const typeName = state.types.typeName(baseResult.typeId)
-		context.emitAtNode('TWCHECK031' as DiagnosticCode, exprId, { name: `[${index}]`, typeName })
+	const index = extractIndexValue(context.nodes.get(indexId), context)
+	if (!validateListIndexBounds(indexId, index, listSize, context)) {
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
+	return checkExpression(indexId, BuiltinTypeId.I32, state, context)
+}
 
-	const listSize = state.types.getListSize(baseResult.typeId)
-	if (listSize !== undefined && !validateListIndexBounds(indexId, index, listSize, context)) {
+/**
+ * Check a computed index. It must be an i32, and is checked against the
+ * list's size when the program runs unless its type proves it in range.
+ */
+function checkComputedIndex(
+	indexId: NodeId,
+	listSize: number,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const result = checkExpressionInferred(indexId, state, context)
+	if (!isValidExprResult(result)) return result
+	if (!isIndexType(result.typeId, state)) {
+		context.emitAtNode('TWCHECK035' as DiagnosticCode, indexId, {
+			found: state.types.typeName(result.typeId),
+		})
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
+	if (isProvenInBounds(result.instId as InstId, listSize, state, context)) return result
 
-	const elementTypeId = state.types.getListElementType(baseResult.typeId)
-	if (elementTypeId === undefined) return { instId: null, typeId: BuiltinTypeId.Invalid }
-
-	return emitIndexAccessInst(exprId, baseResult, index, elementTypeId, state)
+	const instId = state.insts.add({
+		arg0: result.instId as number,
+		arg1: listSize,
+		kind: InstKind.BoundsCheck,
+		parseNodeId: indexId,
+		typeId: BuiltinTypeId.I32,
+	})
+	return { instId, typeId: BuiltinTypeId.I32 }
 }
 
-function tryEarlyIndexResolution(
-	exprId: NodeId,
-	baseId: NodeId,
+function checkListIndex(
 	indexId: NodeId,
-	index: number,
+	listSize: number,
 	state: CheckerState,
 	context: CompilationContext
-): ExprResult | null {
-	const symId = tryResolveFlattenedListSymbol(baseId, index, state, context)
-	if (symId !== null) return emitFlattenedVarRef(exprId, symId, state)
-
-	const listBoundsResult = checkListBindingBounds(baseId, indexId, index, state, context)
-	if (listBoundsResult.isListBinding) {
-		return { instId: null, typeId: BuiltinTypeId.Invalid }
-	}
-
-	if (!checkFlattenedBaseExists(baseId, state, context)) {
-		return { instId: null, typeId: BuiltinTypeId.Invalid }
-	}
+): ExprResult {
+	return context.nodes.get(indexId).kind === NodeKind.IntLiteral
+		? checkConstantIndex(indexId, listSize, state, context)
+		: checkComputedIndex(indexId, listSize, state, context)
+}
 
-	return null
+/** How an index reads in diagnostics: `[2]`, or `[]` when computed. */
+function indexDisplayName(indexId: NodeId, context: CompilationContext): string {
+	const indexNode = context.nodes.get(indexId)
+	if (indexNode.kind !== NodeKind.IntLiteral) return '[]'
+	return `[${extractIndexValue(indexNode, context)}]`
 }
 
+/**
+ * Check an index access: nums[i]
+ * The base must be a list; the element is read from linear memory.
+ */
 function checkIndexAccessInferred(
 	exprId: NodeId,
 	state: CheckerState,
@@ -1068,16 +1156,30 @@ function checkIndexAccessInferred(
 	const indexNode = context.nodes.get(indexId)
 	const baseId = offsetNodeId(indexId, -indexNode.subtreeSize)
 
-	const index = extractValidatedIndex(indexId, indexNode, context)
-	if (index === null) return { instId: null, typeId: BuiltinTypeId.Invalid }
-
-	const earlyResult = tryEarlyIndexResolution(exprId, baseId, indexId, index, state, context)
-	if (earlyResult !== null) return earlyResult
-
 	const baseResult = checkExpressionInferred(baseId, state, context)
 	if (!isValidExprResult(baseResult)) return baseResult
 
-	return checkListBaseAndIndex(exprId, indexId, baseResult, index, state, context)
+	const listSize = state.types.getListSize(baseResult.typeId)
+	const elementTypeId = state.types.getListElementType(baseResult.typeId)
+	if (listSize === undefined || elementTypeId === undefined) {
+		context.emitAtNode('TWCHECK031' as DiagnosticCode, exprId, {
+			name: indexDisplayName(indexId, context),
+			typeName: state.types.typeName(baseResult.typeId),
+		})
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+
+	const indexResult = checkListIndex(indexId, listSize, state, context)
+	if (!isValidExprResult(indexResult)) return indexResult
+
+	const instId = state.insts.add({
+		arg0: baseResult.instId as number,
+		arg1: indexResult.instId as number,
+		kind: InstKind.ListIndex,
+		parseNodeId: exprId,
+		typeId: elementTypeId,
+	})
+	return { instId, typeId: elementTypeId }
 }
 
 function checkIndexAccess(
@@ -1103,10 +1205,7 @@ function checkIndexAccess(
 // List Literals
 // ============================================================================
 
-export function collectListElementIds(
-	listLiteralId: NodeId,
-	context: CompilationContext
-): NodeId[] {
+function collectListElementIds(listLiteralId: NodeId, context: CompilationContext): NodeId[] {
 	const elementIds: NodeId[] = []
 	for (const [childId, child] of context.nodes.iterateChildren(listLiteralId)) {
 		if (isExpressionNode(child.kind)) {
@@ -1116,7 +1215,7 @@ export function collectListElementIds(
 	return elementIds.reverse()
 }
 
-export function validateListLiteralSize(
+function validateListLiteralSize(
 	exprId: NodeId,
 	actualCount: number,
 	expectedSize: number,
@@ -1132,7 +1231,7 @@ export function validateListLiteralSize(
 	return true
 }
 
-export function checkListElements(
+function checkListElements(
 	elementIds: NodeId[],
 	elementTypeId: TypeId,
 	state: CheckerState,
@@ -1169,6 +1268,34 @@ function validateListExpectedType(
 	return { elementTypeId, expectedSize }
 }
 
+/**
+ * Emit a ListMake preceded by one ListElement per element.
+ */
+function emitListMake(
+	exprId: NodeId,
+	elements: readonly InstId[],
+	typeId: TypeId,
+	state: CheckerState
+): ExprResult {
+	for (const elementInstId of elements) {
+		state.insts.add({
+			arg0: elementInstId as number,
+			arg1: 0,
+			kind: InstKind.ListElement,
+			parseNodeId: exprId,
+			typeId: BuiltinTypeId.None,
+		})
+	}
+	const instId = state.insts.add({
+		arg0: elements.length,
+		arg1: 0,
+		kind: InstKind.ListMake,
+		parseNodeId: exprId,
+		typeId,
+	})
+	return { instId, typeId }
+}
+
 function checkListLiteral(
 	exprId: NodeId,
 	expectedType: TypeId,
@@ -1188,7 +1315,120 @@ function checkListLiteral(
 	const { hasError, results } = checkListElements(elementIds, elementTypeId, state, context)
 	if (hasError) return { instId: null, typeId: BuiltinTypeId.Invalid }
 
-	return { instId: results[0]?.instId ?? null, typeId: expectedType }
+	const elements = results.map((result) => result.instId as InstId)
+	return emitListMake(exprId, elements, expectedType, state)
+}
+
+// ============================================================================
+// Tuple Literals
+// ============================================================================
+
+/**
+ * The element types a tuple literal must have, or nulls when they are
+ * inferred. Emits TWCHECK012 when a tuple of this arity is not expected.
+ */
+function expectedTupleElementTypes(
+	exprId: NodeId,
+	elementCount: number,
+	expectedType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): readonly (TypeId | null)[] | null {
+	if (expectedType === BuiltinTypeId.None) return Array(elementCount).fill(null)
+	const elementTypes = state.types.getTupleElementTypes(expectedType)
+	if (elementTypes?.length === elementCount) return elementTypes
+
+	context.emitAtNode('TWCHECK012' as DiagnosticCode, exprId, {
+		expected: state.types.typeName(expectedType),
+		found: `tuple literal with ${elementCount} elements`,
+	})
+	return null
+}
+
+/**
+ * Check one element of a tuple literal. Inferred elements must still
+ * be single values, so nested tuples are rejected.
+ */
+function checkTupleElement(
+	elementId: NodeId,
+	elementTypeId: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	if (elementTypeId !== null) return checkExpression(elementId, elementTypeId, state, context)
+
+	const result = checkExpressionInferred(elementId, state, context)
+	if (!isValidExprResult(result) || isTupleElementType(result.typeId, state)) return result
+	context.emitAtNode('TWCHECK045' as DiagnosticCode, elementId, {
+		type: state.types.typeName(result.typeId),
+	})
+	return { instId: null, typeId: BuiltinTypeId.Invalid }
+}
+
+/**
+ * Emit a TupleMake preceded by one TupleElement per element.
+ */
+function emitTupleMake(
+	exprId: NodeId,
+	elements: readonly InstId[],
+	typeId: TypeId,
+	state: CheckerState
+): ExprResult {
+	for (const elementInstId of elements) {
+		state.insts.add({
+			arg0: elementInstId as number,
+			arg1: 0,
+			kind: InstKind.TupleElement,
+			parseNodeId: exprId,
+			typeId: BuiltinTypeId.None,
+		})
+	}
+	const instId = state.insts.add({
+		arg0: elements.length,
+		arg1: 0,
+		kind: InstKind.TupleMake,
+		parseNodeId: exprId,
+		typeId,
+	})
+	return { instId, typeId }
+}
+
+/**
+ * Check a tuple literal: {a / b, a % b}
+ * Elements take their types from the expected tuple type, or are inferred
+ * when no type is expected.
+ */
+function checkTupleLiteral(
+	exprId: NodeId,
+	expectedType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const elementIds = collectListElementIds(exprId, context)
+	const elementTypes = expectedTupleElementTypes(
+		exprId,
+		elementIds.length,
+		expectedType,
+		state,
+		context
+	)
+	if (!elementTypes) return { instId: null, typeId: BuiltinTypeId.Invalid }
+
+	const results = elementIds.map((id, i) =>
+		checkTupleElement(id, elementTypes[i] ?? null, state, context)
+	)
+	const valid = results.filter(isValidExprResult)
+	if (valid.length !== results.length) return { instId: null, typeId: BuiltinTypeId.Invalid }
+
+	const typeId = state.types.isTupleType(expectedType)
+		? expectedType
+		: state.types.registerTupleType(valid.map((result) => result.typeId))
+	return emitTupleMake(
+		exprId,
+		valid.map((result) => result.instId),
+		typeId,
+		state
+	)
 }
 
 // ============================================================================
@@ -1215,6 +1455,140 @@ function checkPanicExpr(
 	return { instId, typeId: BuiltinTypeId.None }
 }
 
+// ============================================================================
+// Lambda Expression
+// ============================================================================
+
+/**
+ * Check a lambda used as a value against the function type it is expected
+ * to have. With no expected type, as for `f = (x: i32): i32 -> x`, the
+ * lambda's own type is inferred.
+ */
+function checkLambdaExpr(
+	exprId: NodeId,
+	expectedType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const result = handleLambdaExpr(exprId, expectedType, state, context, checkExpression)
+	if (result.instId === null || expectedType === BuiltinTypeId.None) return result
+	if (state.types.areEqual(result.typeId, expectedType)) return result
+
+	context.emitAtNode('TWCHECK012' as DiagnosticCode, exprId, {
+		expected: state.types.typeName(expectedType),
+		found: state.types.typeName(result.typeId),
+	})
+	return { instId: null, typeId: BuiltinTypeId.Invalid }
+}
+
+// ============================================================================
+// Calls and Identifiers
+// ============================================================================
+
+/**
+ * Check a call. Calling a variant's name constructs the variant, and
+ * calling `checked` converts a value. A null expected type infers the
+ * result.
+ */
+function checkCall(
+	exprId: NodeId,
+	expectedType: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	if (isCheckedConversion(exprId, state, context)) {
+		return checkCheckedConversion(
+			exprId,
+			expectedType,
+			state,
+			context,
+			checkExpression,
+			checkExpressionInferred
+		)
+	}
+	const ref = lookupCalledVariant(exprId, state, context)
+	if (!ref) return handleFuncCall(exprId, state, context, checkExpressionInferred, checkExpression)
+	const { argIds } = collectCallChildren(exprId, context)
+	return checkVariantConstruction(
+		exprId,
+		ref,
+		argIds,
+		expectedType,
+		state,
+		context,
+		checkExpression
+	)
+}
+
+/**
+ * Check an identifier. An unbound name of a variant without fields
+ * constructs the variant. A null expected type infers the result.
+ */
+function checkIdentifier(
+	exprId: NodeId,
+	expectedType: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const ref = lookupVariantRef(exprId, state, context)
+	if (ref) {
+		return checkVariantConstruction(exprId, ref, [], expectedType, state, context, checkExpression)
+	}
+	if (expectedType === null) {
+		return checkIdentifierInferred(exprId, context.nodes.get(exprId), state, context)
+	}
+	return checkVarRef(exprId, expectedType, state, context)
+}
+
+// ============================================================================
+// Bounded Expressions
+// ============================================================================
+
+/**
+ * Whether an expression meets a refined integer type by the range of its
+ * value, rather than as written. Literals and variables carry their own
+ * bounds, and a checked conversion checks its value when the program runs.
+ */
+function isRangeChecked(exprId: NodeId, state: CheckerState, context: CompilationContext): boolean {
+	switch (context.nodes.get(exprId).kind) {
+		case NodeKind.BinaryExpr:
+		case NodeKind.CompareChain:
+		case NodeKind.ConversionExpr:
+		case NodeKind.IndexAccess:
+			return true
+		case NodeKind.FuncCall:
+			return !isCheckedConversion(exprId, state, context)
+		case NodeKind.UnaryExpr:
+			return context.nodes.get(prevNodeId(exprId)).kind !== NodeKind.IntLiteral
+		default:
+			return false
+	}
+}
+
+/**
+ * Check an expression against a refined integer type: as the type it
+ * refines, then its range must fit the bounds. `n % 10` fits
+ * `i32<min=0, max=9>` when `n` is never negative.
+ */
+function checkBoundedExpression(
+	exprId: NodeId,
+	expectedType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const result = checkExpression(exprId, state.types.unrefined(expectedType), state, context)
+	if (!isValidExprResult(result)) return result
+	const foundType = instRangeType(result.instId as InstId, state, context)
+	if (!state.types.isSubtype(foundType, expectedType)) {
+		context.emitAtNode('TWCHECK012' as DiagnosticCode, exprId, {
+			expected: state.types.typeName(expectedType),
+			found: state.types.typeName(foundType),
+		})
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+	return { instId: result.instId, typeId: expectedType }
+}
+
 // ============================================================================
 // Main Expression Dispatch
 // ============================================================================
@@ -1235,22 +1609,30 @@ export function checkExpressionInferred(
 			return checkIntLiteral(exprId, BuiltinTypeId.I32, state, context)
 		case NodeKind.FloatLiteral:
 			return checkFloatLiteral(exprId, BuiltinTypeId.F64, state, context)
+		case NodeKind.BoolLiteral:
+			return checkBoolLiteral(exprId, BuiltinTypeId.Bool, state, context)
 		case NodeKind.UnaryExpr:
 			return checkUnaryExprInferred(exprId, node, state, context)
+		case NodeKind.ConversionExpr:
+			return checkConversionInferred(exprId, node, state, context)
 		case NodeKind.Identifier:
-			return checkIdentifierInferred(exprId, node, state, context)
+			return checkIdentifier(exprId, null, state, context)
 		case NodeKind.ParenExpr:
 			return checkExpressionInferred(prevNodeId(exprId), state, context)
 		case NodeKind.BinaryExpr:
 			return checkBinaryExprInferred(exprId, node, state, context)
 		case NodeKind.CompareChain:
-			return checkCompareChain(exprId, BuiltinTypeId.I32, state, context)
+			return checkCompareChain(exprId, BuiltinTypeId.Bool, state, context)
 		case NodeKind.FieldAccess:
 			return checkFieldAccessInferred(exprId, state, context)
 		case NodeKind.IndexAccess:
 			return checkIndexAccessInferred(exprId, state, context)
+		case NodeKind.TupleLiteral:
+			return checkTupleLiteral(exprId, BuiltinTypeId.None, state, context)
 		case NodeKind.FuncCall:
-			return handleFuncCall(exprId, state, context, checkExpressionInferred)
+			return checkCall(exprId, null, state, context)
+		case NodeKind.Lambda:
+			return handleLambdaExpr(exprId, null, state, context, checkExpression)
 		case NodeKind.PanicExpr:
 			return checkPanicExpr(exprId, state, context)
 		default:
@@ -1268,6 +1650,9 @@ export function checkExpression(
 	state: CheckerState,
 	context: CompilationContext
 ): ExprResult {
+	if (isBoundedIntegerType(expectedType, state) && isRangeChecked(exprId, state, context)) {
+		return checkBoundedExpression(exprId, expectedType, state, context)
+	}
 	const node = context.nodes.get(exprId)
 
 	switch (node.kind) {
@@ -1275,10 +1660,14 @@ export function checkExpression(
 			return checkIntLiteral(exprId, expectedType, state, context)
 		case NodeKind.FloatLiteral:
 			return checkFloatLiteral(exprId, expectedType, state, context)
+		case NodeKind.BoolLiteral:
+			return checkBoolLiteral(exprId, expectedType, state, context)
 		case NodeKind.UnaryExpr:
 			return checkUnaryExpr(exprId, expectedType, state, context)
+		case NodeKind.ConversionExpr:
+			return checkConversion(exprId, expectedType, state, context)
 		case NodeKind.Identifier:
-			return checkVarRef(exprId, expectedType, state, context)
+			return checkIdentifier(exprId, expectedType, state, context)
 		case NodeKind.ParenExpr:
 			return checkParenExpr(exprId, expectedType, state, context)
 		case NodeKind.BinaryExpr:
@@ -1291,8 +1680,12 @@ export function checkExpression(
 			return checkIndexAccess(exprId, expectedType, state, context)
 		case NodeKind.ListLiteral:
 			return checkListLiteral(exprId, expectedType, state, context)
+		case NodeKind.TupleLiteral:
+			return checkTupleLiteral(exprId, expectedType, state, context)
 		case NodeKind.FuncCall:
-			return handleFuncCall(exprId, state, context, checkExpressionInferred)
+			return checkCall(exprId, expectedType, state, context)
+		case NodeKind.Lambda:
+			return checkLambdaExpr(exprId, expectedType, state, context)
 		case NodeKind.PanicExpr:
 			return checkPanicExpr(exprId, state, context)
 		default:
@@ -3,150 +3,125 @@
  *
  * This module handles:
  * - Forward declarations (FuncDecl)
- * - Function bindings (FuncBinding with Lambda)
+ * - Function bindings (FuncBinding with Lambda), `tailrec` ones included
+ * - Lambdas as expressions (anonymous functions passed as values)
+ * - Closure conversion (bindings a lambda captures from enclosing scopes)
+ * - Extern bindings (functions implemented by a wasm intrinsic or the host)
+ * - Effects (`@` functions used only where effects are allowed)
  * - Function calls (FuncCall)
  */
 
 import type { CompilationContext, StringId } from '../core/context.ts'
 import type { DiagnosticCode } from '../core/diagnostics.ts'
-import { type NodeId, NodeKind } from '../core/nodes.ts'
-import { TokenKind } from '../core/tokens.ts'
-import type { CheckerState } from './state.ts'
-import type { FuncId, FuncStore } from './stores.ts'
-import { resolveTypeFromAnnotation } from './type-resolution.ts'
+import { type NodeId, NodeKind, prevNodeId } from '../core/nodes.ts'
+import { offsetTokenId, TokenKind } from '../core/tokens.ts'
+import { isBoundedIntegerType } from './intervals.ts'
+import { type Intrinsic, lookupIntrinsic } from './intrinsics.ts'
+import { recordArgument } from './record-values.ts'
+import type { CheckerState, ExprResult } from './state.ts'
+import type { FuncId, FuncStore, HostExtern } from './stores.ts'
+import { nonTailSelfCalls } from './tail-calls.ts'
+import { rejectTupleType, resolveFuncType, resolveTypeFromAnnotation } from './type-resolution.ts'
 import {
 	BuiltinTypeId,
+	type FuncTypeInfo,
+	getVarRefSymbolId,
+	type Inst,
 	type InstId,
 	InstKind,
 	instId,
 	type SymbolId,
 	type TypeId,
 } from './types.ts'
+import { isValidExprResult } from './utils.ts'
 
-// ============================================================================
-// Type Resolution Helpers
-// ============================================================================
-
-const PRIMITIVE_TYPE_MAP: ReadonlyMap<TokenKind, TypeId> = new Map([
-	[TokenKind.I32, BuiltinTypeId.I32],
-	[TokenKind.I64, BuiltinTypeId.I64],
-	[TokenKind.F32, BuiltinTypeId.F32],
-	[TokenKind.F64, BuiltinTypeId.F64],
-])
-
-function resolvePrimitiveType(tokenKind: TokenKind): TypeId | null {
-	return PRIMITIVE_TYPE_MAP.get(tokenKind) ?? null
-}
-
-function resolveUserType(
-	tokenKind: TokenKind,
-	payload: StringId,
+export type CheckExpr = (
+	exprId: NodeId,
+	expectedType: TypeId,
 	state: CheckerState,
 	context: CompilationContext
-): TypeId | null {
-	if (tokenKind !== TokenKind.Identifier) return null
-	const typeName = context.strings.get(payload)
-	return state.types.lookup(typeName) ?? null
-}
+) => ExprResult
 
-function resolveTypeRef(
-	nodeId: NodeId,
-	kind: NodeKind,
+export type CheckExprInferred = (
+	exprId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
-): TypeId | null {
-	if (kind === NodeKind.TypeAnnotation) {
-		const resolved = resolveTypeFromAnnotation(nodeId, state, context)
-		return resolved?.typeId ?? null
-	}
-
-	const node = context.nodes.get(nodeId)
-	const token = context.tokens.get(node.tokenId)
-
-	return (
-		resolvePrimitiveType(token.kind) ??
-		resolveUserType(token.kind, token.payload as StringId, state, context)
-	)
-}
+) => ExprResult
 
 // ============================================================================
-// TypeList Resolution
+// Effect Checking
 // ============================================================================
 
-function collectTypeListParams(
-	typeListId: NodeId,
-	state: CheckerState,
-	context: CompilationContext
-): TypeId[] {
-	const paramTypes: TypeId[] = []
-	for (const [typeId, typeNode] of context.nodes.iterateChildren(typeListId)) {
-		const resolved = resolveTypeRef(typeId, typeNode.kind, state, context)
-		if (resolved !== null) {
-			paramTypes.unshift(resolved)
-		}
-	}
-	return paramTypes
+/** Whether a name is spelled as an effectful function's: `@log`. */
+export function isEffectfulName(name: string): boolean {
+	return name.startsWith('@')
 }
 
-function resolveReturnTypeFromChild(
-	childId: NodeId,
-	childKind: NodeKind,
+/**
+ * Check a reference to a name where it is used. Effectful names can only
+ * be used at the top level and in `@` functions; emits TWCHECK048 and
+ * returns false anywhere else.
+ */
+export function checkEffectAllowed(
+	nodeId: NodeId,
+	name: string,
 	state: CheckerState,
 	context: CompilationContext
-): TypeId | null {
-	if (childKind === NodeKind.TypeAnnotation) {
-		const resolved = resolveTypeFromAnnotation(childId, state, context)
-		return resolved?.typeId ?? null
-	}
-	return resolveTypeRef(childId, childKind, state, context)
+): boolean {
+	if (state.effectsAllowed || !isEffectfulName(name)) return true
+	context.emitAtNode('TWCHECK048' as DiagnosticCode, nodeId, { name })
+	return false
 }
 
-function extractFuncTypeParams(
-	funcTypeId: NodeId,
-	state: CheckerState,
-	context: CompilationContext
-): TypeId[] {
-	for (const [childId, child] of context.nodes.iterateChildren(funcTypeId)) {
-		if (child.kind === NodeKind.TypeList) {
-			return collectTypeListParams(childId, state, context)
-		}
+/**
+ * Instructions an effectful function value may flow into: the callee of
+ * a call, or the value of a binding with an `@` name.
+ */
+function effectfulSinks(state: CheckerState, context: CompilationContext): Set<number> {
+	const sinks = new Set<number>()
+	for (const [, inst] of state.insts) {
+		const sink = effectfulSink(inst, state, context)
+		if (sink !== null) sinks.add(sink)
 	}
-	return []
+	return sinks
 }
 
-function tryExtractReturnType(
-	childId: NodeId,
-	childKind: NodeKind,
+function effectfulSink(
+	inst: Inst,
 	state: CheckerState,
 	context: CompilationContext
-): TypeId | null {
-	if (childKind === NodeKind.TypeList) return null
-	return resolveReturnTypeFromChild(childId, childKind, state, context)
+): number | null {
+	if (inst.kind === InstKind.Call) return inst.arg0
+	if (inst.kind !== InstKind.Bind) return null
+	return isEffectfulSymbol(inst.arg0 as SymbolId, state, context) ? inst.arg1 : null
+}
+
+function isEffectfulFuncRef(inst: Inst, state: CheckerState, context: CompilationContext): boolean {
+	if (inst.kind !== InstKind.VarRef || !state.types.getFuncInfo(inst.typeId)) return false
+	return isEffectfulSymbol(getVarRefSymbolId(inst), state, context)
 }
 
-function extractFuncTypeReturn(
-	funcTypeId: NodeId,
+function isEffectfulSymbol(
+	symId: SymbolId,
 	state: CheckerState,
 	context: CompilationContext
-): TypeId {
-	for (const [childId, child] of context.nodes.iterateChildren(funcTypeId)) {
-		const resolved = tryExtractReturnType(childId, child.kind, state, context)
-		if (resolved !== null) return resolved
-	}
-	return BuiltinTypeId.None
+): boolean {
+	return isEffectfulName(context.strings.get(state.symbols.get(symId).nameId))
 }
 
 /**
- * Resolve a FuncType node to a TypeId.
+ * Check that effectful functions are only called or bound to `@` names;
+ * emits TWCHECK054 for any other use as a value. Passed to a pure
+ * function, as in `apply(@log, 5)`, a function would carry its effects
+ * into code that TWCHECK048 keeps pure.
  */
-export function resolveFuncType(
-	funcTypeId: NodeId,
-	state: CheckerState,
-	context: CompilationContext
-): TypeId {
-	const paramTypes = extractFuncTypeParams(funcTypeId, state, context)
-	const returnType = extractFuncTypeReturn(funcTypeId, state, context)
-	return state.types.registerFuncType(paramTypes, returnType)
+export function checkEffectfulValues(state: CheckerState, context: CompilationContext): void {
+	const sinks = effectfulSinks(state, context)
+	for (const [id, inst] of state.insts) {
+		if (sinks.has(id) || !isEffectfulFuncRef(inst, state, context)) continue
+		const name = context.strings.get(state.symbols.get(getVarRefSymbolId(inst)).nameId)
+		context.emitAtNode('TWCHECK054' as DiagnosticCode, inst.parseNodeId, { name })
+	}
 }
 
 // ============================================================================
@@ -192,14 +167,14 @@ export function handleFuncDecl(
 
 	if (funcTypeId === BuiltinTypeId.Invalid) return
 
-	const funcId = funcs.declareForward(nameId, funcTypeId, declId)
-
-	state.symbols.add({
+	const symbolId = state.symbols.add({
 		nameId,
 		parseNodeId: declId,
 		typeId: funcTypeId,
 	})
 
+	const funcId = funcs.declareForward(nameId, funcTypeId, declId, symbolId)
+
 	state.insts.add({
 		arg0: funcId as number,
 		arg1: 0,
@@ -220,19 +195,6 @@ function extractIdentifierPayload(childId: NodeId, context: CompilationContext):
 	return token.payload as StringId
 }
 
-function resolveParameterType(
-	childId: NodeId,
-	childKind: NodeKind,
-	state: CheckerState,
-	context: CompilationContext
-): TypeId | null {
-	if (childKind === NodeKind.TypeAnnotation) {
-		const resolved = resolveTypeFromAnnotation(childId, state, context)
-		return resolved?.typeId ?? null
-	}
-	return resolveTypeRef(childId, childKind, state, context)
-}
-
 function findParameterName(paramId: NodeId, context: CompilationContext): StringId | null {
 	for (const [childId] of context.nodes.iterateChildren(paramId)) {
 		const payload = extractIdentifierPayload(childId, context)
@@ -241,23 +203,41 @@ function findParameterName(paramId: NodeId, context: CompilationContext): String
 	return null
 }
 
+/**
+ * Resolve a parameter's annotation. Parameters are single values, so
+ * tuples are rejected.
+ */
+function resolveParameterAnnotation(
+	typeAnnotationId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId {
+	const resolved = resolveTypeFromAnnotation(typeAnnotationId, state, context)
+	if (!resolved) return BuiltinTypeId.Invalid
+	return rejectTupleType(resolved.typeId, typeAnnotationId, state, context)
+}
+
+/**
+ * The annotated type of a parameter, or null when it has no annotation.
+ */
 function findParameterType(
 	paramId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
-): TypeId {
+): TypeId | null {
 	for (const [childId, child] of context.nodes.iterateChildren(paramId)) {
-		const resolved = resolveParameterType(childId, child.kind, state, context)
-		if (resolved !== null) return resolved
+		if (child.kind === NodeKind.TypeAnnotation) {
+			return resolveParameterAnnotation(childId, state, context)
+		}
 	}
-	return BuiltinTypeId.Invalid
+	return null
 }
 
 function parseParameter(
 	paramId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
-): { nameId: StringId; typeId: TypeId } {
+): { nameId: StringId; typeId: TypeId | null } {
 	const nameId = findParameterName(paramId, context)
 	if (nameId === null) throw new Error('Parameter missing identifier')
 	const typeId = findParameterType(paramId, state, context)
@@ -268,10 +248,14 @@ function parseParameter(
 // Lambda Signature Parsing
 // ============================================================================
 
+/**
+ * A lambda's signature as written. Types left out are null until they
+ * are inferred from the function type the lambda is expected to have.
+ */
 interface LambdaSignature {
 	paramNames: StringId[]
-	paramTypes: TypeId[]
-	returnType: TypeId
+	paramTypes: (TypeId | null)[]
+	returnType: TypeId | null
 	bodyExprId: NodeId | null
 }
 
@@ -280,7 +264,7 @@ function processParameterListChild(
 	state: CheckerState,
 	context: CompilationContext,
 	paramNames: StringId[],
-	paramTypes: TypeId[]
+	paramTypes: (TypeId | null)[]
 ): void {
 	for (const [paramId, paramNode] of context.nodes.iterateChildren(childId)) {
 		if (paramNode.kind === NodeKind.Parameter) {
@@ -296,7 +280,7 @@ function processDirectParameter(
 	state: CheckerState,
 	context: CompilationContext,
 	paramNames: StringId[],
-	paramTypes: TypeId[]
+	paramTypes: (TypeId | null)[]
 ): void {
 	const { nameId, typeId } = parseParameter(childId, state, context)
 	paramNames.unshift(nameId)
@@ -309,7 +293,7 @@ function processLambdaParamChild(
 	state: CheckerState,
 	context: CompilationContext,
 	paramNames: StringId[],
-	paramTypes: TypeId[]
+	paramTypes: (TypeId | null)[]
 ): void {
 	if (childKind === NodeKind.ParameterList) {
 		processParameterListChild(childId, state, context, paramNames, paramTypes)
@@ -322,9 +306,9 @@ function extractLambdaParams(
 	lambdaId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
-): { paramNames: StringId[]; paramTypes: TypeId[] } {
+): { paramNames: StringId[]; paramTypes: (TypeId | null)[] } {
 	const paramNames: StringId[] = []
-	const paramTypes: TypeId[] = []
+	const paramTypes: (TypeId | null)[] = []
 	for (const [childId, child] of context.nodes.iterateChildren(lambdaId)) {
 		processLambdaParamChild(childId, child.kind, state, context, paramNames, paramTypes)
 	}
@@ -346,12 +330,12 @@ function extractLambdaReturnType(
 	lambdaId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
-): TypeId {
+): TypeId | null {
 	for (const [childId, child] of context.nodes.iterateChildren(lambdaId)) {
 		const typeId = tryExtractLambdaReturnType(childId, child.kind, state, context)
 		if (typeId !== null) return typeId
 	}
-	return BuiltinTypeId.I32
+	return null
 }
 
 function isLambdaMetadataKind(kind: NodeKind): boolean {
@@ -380,27 +364,98 @@ function parseLambdaSignature(
 	return { bodyExprId, paramNames, paramTypes, returnType }
 }
 
+function hasBody(
+	signature: LambdaSignature
+): signature is LambdaSignature & { bodyExprId: NodeId } {
+	return signature.bodyExprId !== null
+}
+
 // ============================================================================
-// Lambda Binding Handling
+// Lambda Type Inference
+// ============================================================================
+
+interface LambdaTypes {
+	paramTypes: TypeId[]
+	returnType: TypeId
+}
+
+/**
+ * Unify a lambda's signature with the function type it is expected to have.
+ * Unannotated parameters take the expected parameter type at their position,
+ * and a missing return type takes the expected return type (i32 when nothing
+ * is expected). Emits TWCHECK039 for each parameter that stays unknown.
+ */
+function inferLambdaTypes(
+	lambdaId: NodeId,
+	signature: LambdaSignature,
+	expected: FuncTypeInfo | undefined,
+	context: CompilationContext
+): LambdaTypes | null {
+	const paramTypes = signature.paramTypes.map(
+		(typeId, i) => typeId ?? expected?.paramTypes[i] ?? null
+	)
+	const uninferred = signature.paramNames.filter((_, i) => paramTypes[i] === null)
+	for (const nameId of uninferred) {
+		context.emitAtNode('TWCHECK039' as DiagnosticCode, lambdaId, {
+			name: context.strings.get(nameId),
+		})
+	}
+	if (uninferred.length > 0) return null
+
+	return {
+		paramTypes: paramTypes.filter((typeId) => typeId !== null),
+		returnType: signature.returnType ?? expected?.returnType ?? BuiltinTypeId.I32,
+	}
+}
+
+function expectedFuncInfo(
+	expectedType: TypeId | null,
+	state: CheckerState
+): FuncTypeInfo | undefined {
+	return expectedType === null ? undefined : state.types.getFuncInfo(expectedType)
+}
+
+// ============================================================================
+// Lambda Body Definition
 // ============================================================================
 
+/**
+ * Declare the symbols of one parameter. A record parameter is one
+ * parameter per flattened field, with a symbol for the record as a whole.
+ */
+function registerParamSymbol(
+	paramNameId: StringId,
+	paramTypeId: TypeId,
+	ownerId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): readonly SymbolId[] {
+	if (state.types.isRecordType(paramTypeId)) {
+		const recordSymId = state.symbols.declareFlattenedRecord(
+			context.strings.get(paramNameId),
+			paramTypeId,
+			ownerId,
+			(name) => context.strings.intern(name),
+			state.types
+		)
+		return state.symbols.getRecordFields(recordSymId) ?? []
+	}
+	return [state.symbols.add({ nameId: paramNameId, parseNodeId: ownerId, typeId: paramTypeId })]
+}
+
 function registerParamSymbols(
 	paramNames: StringId[],
 	paramTypes: TypeId[],
-	bindingId: NodeId,
-	state: CheckerState
+	ownerId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
 ): SymbolId[] {
 	const paramSymbols: SymbolId[] = []
 	for (let i = 0; i < paramNames.length; i++) {
 		const paramNameId = paramNames[i]
 		const paramTypeId = paramTypes[i]
 		if (paramNameId === undefined || paramTypeId === undefined) continue
-		const symId = state.symbols.add({
-			nameId: paramNameId,
-			parseNodeId: bindingId,
-			typeId: paramTypeId,
-		})
-		paramSymbols.push(symId)
+		paramSymbols.push(...registerParamSymbol(paramNameId, paramTypeId, ownerId, state, context))
 	}
 	return paramSymbols
 }
@@ -420,6 +475,92 @@ function emitTypeMismatchIfNeeded(
 	}
 }
 
+/**
+ * Bindings of enclosing scopes that a lambda body refers to: symbols
+ * declared before the lambda's own parameters, other than functions.
+ * Nested lambdas are part of the body, so whatever they capture is
+ * captured here too. A record is captured one field at a time.
+ */
+function collectCaptures(
+	bodyInstIds: InstId[],
+	firstOwnSymbol: number,
+	funcs: FuncStore,
+	state: CheckerState
+): SymbolId[] {
+	const captured = bodyInstIds
+		.map((id) => state.insts.get(id))
+		.filter((inst) => inst.kind === InstKind.VarRef)
+		.flatMap((inst) => {
+			const symId = getVarRefSymbolId(inst)
+			return state.symbols.getRecordFields(symId) ?? [symId]
+		})
+		.filter((symId) => symId < firstOwnSymbol && funcs.getBySymbol(symId) === undefined)
+	return [...new Set(captured)]
+}
+
+/**
+ * Check a lambda body and record it as the definition of a function.
+ * Parameter symbols are declared at the owner node: the binding for
+ * named functions, the lambda itself for anonymous ones. Only `@`
+ * functions may use effects in their body.
+ *
+ * Returns the bindings the body captures from enclosing scopes.
+ */
+function defineLambdaBody(
+	funcId: FuncId,
+	signature: LambdaSignature & { bodyExprId: NodeId },
+	types: LambdaTypes,
+	ownerId: NodeId,
+	funcs: FuncStore,
+	state: CheckerState,
+	context: CompilationContext,
+	checkExpr: CheckExpr
+): SymbolId[] {
+	state.symbols.pushScope()
+	const firstOwnSymbol = state.symbols.count()
+	const paramSymbols = registerParamSymbols(
+		signature.paramNames,
+		types.paramTypes,
+		ownerId,
+		state,
+		context
+	)
+
+	const enclosingEffects = state.effectsAllowed
+	state.effectsAllowed = isEffectfulName(context.strings.get(funcs.get(funcId).nameId))
+	const startInstCount = state.insts.count()
+	const bodyResult = checkExpr(signature.bodyExprId, types.returnType, state, context)
+	const endInstCount = state.insts.count()
+	state.effectsAllowed = enclosingEffects
+
+	state.symbols.popScope()
+
+	if (bodyResult.instId === null) return []
+
+	const bodyInstIds: InstId[] = []
+	for (let i = startInstCount; i < endInstCount; i++) {
+		bodyInstIds.push(instId(i))
+	}
+
+	emitTypeMismatchIfNeeded(bodyResult.typeId, types.returnType, ownerId, state, context)
+
+	state.insts.add({
+		arg0: funcId as number,
+		arg1: bodyResult.instId as number,
+		kind: InstKind.FuncDef,
+		parseNodeId: ownerId,
+		typeId: BuiltinTypeId.None,
+	})
+
+	const captureSymbols = collectCaptures(bodyInstIds, firstOwnSymbol, funcs, state)
+	funcs.defineFunc(funcId, bodyResult.instId, bodyInstIds, paramSymbols, captureSymbols)
+	return captureSymbols
+}
+
+// ============================================================================
+// Lambda Binding Handling
+// ============================================================================
+
 function ensureFuncDeclared(
 	nameId: StringId,
 	funcTypeId: TypeId,
@@ -429,9 +570,8 @@ function ensureFuncDeclared(
 ): FuncId {
 	const existing = funcs.getByName(nameId)
 	if (existing !== undefined) return existing
-	const funcId = funcs.declareForward(nameId, funcTypeId, bindingId)
-	state.symbols.add({ nameId, parseNodeId: bindingId, typeId: funcTypeId })
-	return funcId
+	const symbolId = state.symbols.add({ nameId, parseNodeId: bindingId, typeId: funcTypeId })
+	return funcs.declareForward(nameId, funcTypeId, bindingId, symbolId)
 }
 
 function checkFuncTypeConsistency(
@@ -449,77 +589,348 @@ function checkFuncTypeConsistency(
 	})
 }
 
+function checkDeclaredFuncType(
+	declaredTypeId: TypeId | null,
+	funcTypeId: TypeId,
+	bindingId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	if (declaredTypeId === null || declaredTypeId === funcTypeId) return
+	context.emitAtNode('TWCHECK012' as DiagnosticCode, bindingId, {
+		expected: state.types.typeName(declaredTypeId),
+		found: state.types.typeName(funcTypeId),
+	})
+}
+
+/**
+ * The type a lambda binding is expected to have: its annotation, or the
+ * type of an earlier forward declaration of the same name.
+ */
+function bindingExpectedType(
+	nameId: StringId,
+	declaredTypeId: TypeId | null,
+	funcs: FuncStore
+): TypeId | null {
+	if (declaredTypeId !== null) return declaredTypeId
+	const forwardId = funcs.getByName(nameId)
+	return forwardId === undefined ? null : funcs.get(forwardId).typeId
+}
+
+/**
+ * Top-level functions are exported and can be called from outside the
+ * program, where no enclosing binding exists. Lambdas used as values,
+ * local bindings among them, capture instead.
+ */
+function emitCaptureError(
+	nameId: StringId,
+	capturedId: SymbolId,
+	bindingId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	context.emitAtNode('TWCHECK043' as DiagnosticCode, bindingId, {
+		captured: context.strings.get(state.symbols.get(capturedId).nameId),
+		name: context.strings.get(nameId),
+	})
+}
+
+/** Whether a lambda is marked `tailrec`: the keyword is the token before it. */
+function isTailrecLambda(lambdaId: NodeId, context: CompilationContext): boolean {
+	const { tokenId } = context.nodes.get(lambdaId)
+	return tokenId > 0 && context.tokens.get(offsetTokenId(tokenId, -1)).kind === TokenKind.Tailrec
+}
+
+/**
+ * A `tailrec` function calls itself only in tail position, so that with
+ * tail calls its recursion runs as a loop.
+ */
+function checkTailRecursion(
+	funcId: FuncId,
+	lambdaId: NodeId,
+	funcs: FuncStore,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const { bodyInstId, bodyInstIds, nameId, symbolId } = funcs.get(funcId)
+	if (!isTailrecLambda(lambdaId, context) || bodyInstId === null || symbolId === null) return
+	for (const callId of nonTailSelfCalls(symbolId, bodyInstId, bodyInstIds, state.insts)) {
+		context.emitAtNode('TWCHECK009' as DiagnosticCode, state.insts.get(callId).parseNodeId, {
+			name: context.strings.get(nameId),
+		})
+	}
+}
+
 /**
  * Handle a Lambda expression in a BindingExpr context.
  * Pattern: name = (params): ReturnType -> body
  *
- * This is called from handleBindingExpr when the RHS is a Lambda node.
+ * This is called from handleBindingExpr when the RHS of a top-level
+ * binding is a Lambda node.
+ * declaredTypeId is the binding's type annotation, if it has one.
  */
 export function handleLambdaBinding(
 	bindingId: NodeId,
 	lambdaId: NodeId,
 	nameId: StringId,
+	declaredTypeId: TypeId | null,
 	state: CheckerState,
 	context: CompilationContext,
-	checkExpr: (
-		exprId: NodeId,
-		expectedType: TypeId,
-		state: CheckerState,
-		context: CompilationContext
-	) => { instId: InstId | null; typeId: TypeId }
+	checkExpr: CheckExpr
 ): void {
 	const funcs = context.funcs
 	if (!funcs) return
 
-	const { paramNames, paramTypes, returnType, bodyExprId } = parseLambdaSignature(
+	const signature = parseLambdaSignature(lambdaId, state, context)
+
+	if (!hasBody(signature)) {
+		context.emitAtNode('TWCHECK010' as DiagnosticCode, bindingId, { found: 'lambda without body' })
+		return
+	}
+
+	const expectedType = bindingExpectedType(nameId, declaredTypeId, funcs)
+	const types = inferLambdaTypes(
 		lambdaId,
-		state,
+		signature,
+		expectedFuncInfo(expectedType, state),
 		context
 	)
+	if (!types) return
 
-	if (bodyExprId === null) {
-		context.emitAtNode('TWCHECK010' as DiagnosticCode, bindingId, { found: 'lambda without body' })
+	const funcTypeId = state.types.registerFuncType(types.paramTypes, types.returnType)
+	checkDeclaredFuncType(declaredTypeId, funcTypeId, bindingId, state, context)
+	const funcId = ensureFuncDeclared(nameId, funcTypeId, bindingId, funcs, state)
+	checkFuncTypeConsistency(funcId, funcTypeId, bindingId, funcs, state, context)
+
+	const captures = defineLambdaBody(
+		funcId,
+		signature,
+		types,
+		bindingId,
+		funcs,
+		state,
+		context,
+		checkExpr
+	)
+	for (const symId of captures) {
+		emitCaptureError(nameId, symId, bindingId, state, context)
+	}
+	checkTailRecursion(funcId, lambdaId, funcs, state, context)
+}
+
+// ============================================================================
+// Extern Binding Handling
+// ============================================================================
+
+/** The opcode string of an ExternWasm node, without its quotes. */
+function externOpcode(externId: NodeId, context: CompilationContext): string {
+	const opcodeNode = context.nodes.get(prevNodeId(externId))
+	return context.strings.get(context.tokens.get(opcodeNode.tokenId).payload as StringId)
+}
+
+function intrinsicFuncType(intrinsic: Intrinsic, state: CheckerState): TypeId {
+	const paramTypes = Array.from({ length: intrinsic.arity }, () => intrinsic.typeId)
+	return state.types.registerFuncType(paramTypes, intrinsic.resultTypeId)
+}
+
+function matchesExpectedType(
+	expectedTypeId: TypeId | null,
+	funcTypeId: TypeId,
+	bindingId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	if (expectedTypeId === null || expectedTypeId === funcTypeId) return true
+	context.emitAtNode('TWCHECK012' as DiagnosticCode, bindingId, {
+		expected: state.types.typeName(expectedTypeId),
+		found: state.types.typeName(funcTypeId),
+	})
+	return false
+}
+
+/**
+ * Handle an ExternWasm expression in a BindingExpr context.
+ * Pattern: clz = extern wasm "i32.clz"
+ *
+ * The function has the intrinsic's type. A declared type, from the
+ * binding's annotation or an earlier forward declaration, must match it.
+ */
+export function handleExternWasmBinding(
+	bindingId: NodeId,
+	externId: NodeId,
+	nameId: StringId,
+	declaredTypeId: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const funcs = context.funcs
+	if (!funcs) return
+
+	const opcode = externOpcode(externId, context)
+	const intrinsic = lookupIntrinsic(opcode)
+	if (!intrinsic) {
+		context.emitAtNode('TWCHECK046' as DiagnosticCode, prevNodeId(externId), { opcode })
 		return
 	}
 
-	const funcTypeId = state.types.registerFuncType(paramTypes, returnType)
+	const funcTypeId = intrinsicFuncType(intrinsic, state)
+	const expectedType = bindingExpectedType(nameId, declaredTypeId, funcs)
+	if (!matchesExpectedType(expectedType, funcTypeId, bindingId, state, context)) return
+
 	const funcId = ensureFuncDeclared(nameId, funcTypeId, bindingId, funcs, state)
-	checkFuncTypeConsistency(funcId, funcTypeId, bindingId, funcs, state, context)
+	funcs.defineExtern(funcId, { kind: 'wasm', opcode })
+}
 
-	state.symbols.pushScope()
-	const paramSymbols = registerParamSymbols(paramNames, paramTypes, bindingId, state)
+/** The module and function names of an ExternHost node, without their quotes. */
+function externHostNames(externId: NodeId, context: CompilationContext): Omit<HostExtern, 'kind'> {
+	const nameId = prevNodeId(externId)
+	const moduleId = prevNodeId(nameId)
+	const text = (id: NodeId) =>
+		context.strings.get(context.tokens.get(context.nodes.get(id).tokenId).payload as StringId)
+	return { module: text(moduleId), name: text(nameId) }
+}
 
-	const startInstCount = state.insts.count()
-	const bodyResult = checkExpr(bodyExprId, returnType, state, context)
-	const endInstCount = state.insts.count()
+function isFuncType(
+	typeId: TypeId,
+	bindingId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	if (state.types.getFuncInfo(typeId)) return true
+	context.emitAtNode('TWCHECK016' as DiagnosticCode, bindingId, {
+		expected: 'function',
+		found: state.types.typeName(typeId),
+	})
+	return false
+}
 
-	state.symbols.popScope()
+/**
+ * Handle an ExternHost expression in a BindingExpr context.
+ * Pattern: @log = extern host "env" "log"
+ *
+ * Host functions can have effects, so the name must start with `@`. The
+ * program cannot see the host's signature: the type comes from the
+ * binding's annotation or an earlier forward declaration.
+ */
+export function handleExternHostBinding(
+	bindingId: NodeId,
+	externId: NodeId,
+	nameId: StringId,
+	declaredTypeId: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const funcs = context.funcs
+	if (!funcs) return
 
-	if (bodyResult.instId === null) return
+	const name = context.strings.get(nameId)
+	if (!isEffectfulName(name)) {
+		context.emitAtNode('TWCHECK047' as DiagnosticCode, bindingId, { name })
+		return
+	}
 
-	const bodyInstIds: InstId[] = []
-	for (let i = startInstCount; i < endInstCount; i++) {
-		bodyInstIds.push(instId(i))
+	const funcTypeId = bindingExpectedType(nameId, declaredTypeId, funcs)
+	if (funcTypeId === null) {
+		context.emitAtNode('TWCHECK049' as DiagnosticCode, bindingId, { name })
+		return
 	}
+	if (!isFuncType(funcTypeId, bindingId, state, context)) return
+
+	const funcId = ensureFuncDeclared(nameId, funcTypeId, bindingId, funcs, state)
+	funcs.defineExtern(funcId, { kind: 'host', ...externHostNames(externId, context) })
+}
 
-	emitTypeMismatchIfNeeded(bodyResult.typeId, returnType, bindingId, state, context)
+// ============================================================================
+// Lambda Expression Handling
+// ============================================================================
 
-	state.insts.add({
+/**
+ * Closure records hold one value per capture, so multi-values such as
+ * tuples cannot be captured. Returns true if any capture was one.
+ */
+function emitTupleCaptureErrors(
+	captures: SymbolId[],
+	lambdaId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	const tupleTypes = captures
+		.map((symId) => state.symbols.get(symId).typeId)
+		.filter((typeId) => state.types.isMultiValueType(typeId))
+	for (const typeId of tupleTypes) {
+		context.emitAtNode('TWCHECK045' as DiagnosticCode, lambdaId, {
+			type: state.types.typeName(typeId),
+		})
+	}
+	return tupleTypes.length > 0
+}
+
+/**
+ * Anonymous lambdas are stored under a name no identifier can spell.
+ */
+function anonymousLambdaName(lambdaId: NodeId, context: CompilationContext): StringId {
+	return context.strings.intern(`lambda$${lambdaId}`)
+}
+
+/**
+ * Handle a Lambda in expression position, such as an argument: apply((n) -> n + 1, 5)
+ *
+ * The lambda becomes an anonymous function, and the expression evaluates to a
+ * FuncRef to it. expectedType, when it is a function type, supplies the types
+ * of unannotated parameters and of a missing return type.
+ */
+export function handleLambdaExpr(
+	lambdaId: NodeId,
+	expectedType: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext,
+	checkExpr: CheckExpr
+): ExprResult {
+	const funcs = context.funcs
+	const signature = parseLambdaSignature(lambdaId, state, context)
+	if (!funcs || !hasBody(signature)) return { instId: null, typeId: BuiltinTypeId.Invalid }
+
+	const types = inferLambdaTypes(
+		lambdaId,
+		signature,
+		expectedFuncInfo(expectedType, state),
+		context
+	)
+	if (!types) return { instId: null, typeId: BuiltinTypeId.Invalid }
+
+	const funcTypeId = state.types.registerFuncType(types.paramTypes, types.returnType)
+	const nameId = anonymousLambdaName(lambdaId, context)
+	const funcId = funcs.declareForward(nameId, funcTypeId, lambdaId, null)
+
+	const captures = defineLambdaBody(
+		funcId,
+		signature,
+		types,
+		lambdaId,
+		funcs,
+		state,
+		context,
+		checkExpr
+	)
+	if (emitTupleCaptureErrors(captures, lambdaId, state, context)) {
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+
+	const instId = state.insts.add({
 		arg0: funcId as number,
-		arg1: bodyResult.instId as number,
-		kind: InstKind.FuncDef,
-		parseNodeId: bindingId,
-		typeId: BuiltinTypeId.None,
+		arg1: 0,
+		kind: InstKind.FuncRef,
+		parseNodeId: lambdaId,
+		typeId: funcTypeId,
 	})
-
-	funcs.defineFunc(funcId, bodyResult.instId, bodyInstIds, paramSymbols)
+	return { instId, typeId: funcTypeId }
 }
 
 // ============================================================================
 // FuncCall Handling
 // ============================================================================
 
-function collectCallChildren(
+export function collectCallChildren(
 	callId: NodeId,
 	context: CompilationContext
 ): { calleeId: NodeId | null; argIds: NodeId[] } {
@@ -530,35 +941,67 @@ function collectCallChildren(
 	}
 
 	// Children are in reverse postorder. The callee was emitted first,
-	// so it's the LAST item in the iteration. Arguments follow in reverse order.
+	// so it's the LAST item in the iteration. Arguments precede it in reverse
+	// order; they are returned in source order.
 	if (children.length === 0) {
 		return { argIds: [], calleeId: null }
 	}
 
 	const calleeId = children[children.length - 1] ?? null
-	const argIds = children.slice(0, -1)
+	const argIds = children.slice(0, -1).reverse()
 
 	return { argIds, calleeId }
 }
 
+/**
+ * Check one argument. A lambda argument is checked against its parameter's
+ * type so that its own parameter types can be inferred from it.
+ */
+/**
+ * Whether an argument is checked against its parameter's type rather
+ * than inferred: a lambda takes its parameter types from it, and a value
+ * for a bounded parameter must be proven within the bounds.
+ */
+function isCheckedAsParam(
+	argId: NodeId,
+	paramType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	return context.nodes.get(argId).kind === NodeKind.Lambda || isBoundedIntegerType(paramType, state)
+}
+
+function checkCallArgument(
+	argId: NodeId,
+	paramType: TypeId | undefined,
+	state: CheckerState,
+	context: CompilationContext,
+	checkExpr: CheckExprInferred,
+	checkExprExpected: CheckExpr
+): ExprResult {
+	if (paramType !== undefined && isCheckedAsParam(argId, paramType, state, context)) {
+		return checkExprExpected(argId, paramType, state, context)
+	}
+	return checkExpr(argId, state, context)
+}
+
 function checkCallArguments(
 	argIds: NodeId[],
+	paramTypes: readonly TypeId[],
 	state: CheckerState,
 	context: CompilationContext,
-	checkExpr: (
-		exprId: NodeId,
-		state: CheckerState,
-		context: CompilationContext
-	) => { instId: InstId | null; typeId: TypeId }
-): InstId[] {
-	const args: InstId[] = []
-	for (const argId of argIds) {
-		const argResult = checkExpr(argId, state, context)
-		if (argResult.instId !== null) {
-			args.unshift(argResult.instId)
-		}
-	}
-	return args
+	checkExpr: CheckExprInferred,
+	checkExprExpected: CheckExpr
+): { instId: InstId; typeId: TypeId }[] {
+	return argIds
+		.map((argId, i) =>
+			checkCallArgument(argId, paramTypes[i], state, context, checkExpr, checkExprExpected)
+		)
+		.filter(isValidExprResult)
+		.map((arg) => ({
+			instId: recordArgument(arg.instId, state, context),
+			typeId: arg.typeId,
+		}))
 }
 
 function emitArgCountError(
@@ -573,22 +1016,21 @@ function emitArgCountError(
 }
 
 function validateSingleArgType(
-	argInstId: InstId,
+	arg: ExprResult,
 	expectedType: TypeId,
 	callId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
 ): void {
-	const argInst = state.insts.get(argInstId)
-	if (argInst.typeId === expectedType) return
+	if (state.types.isSubtype(arg.typeId, expectedType)) return
 	context.emitAtNode('TWCHECK016' as DiagnosticCode, callId, {
 		expected: state.types.typeName(expectedType),
-		found: state.types.typeName(argInst.typeId),
+		found: state.types.typeName(arg.typeId),
 	})
 }
 
 function validateArgTypes(
-	args: InstId[],
+	args: ExprResult[],
 	paramTypes: readonly TypeId[],
 	callId: NodeId,
 	state: CheckerState,
@@ -596,26 +1038,40 @@ function validateArgTypes(
 ): void {
 	const checkCount = Math.min(args.length, paramTypes.length)
 	for (let i = 0; i < checkCount; i++) {
-		const argInstId = args[i]
+		const arg = args[i]
 		const expectedType = paramTypes[i]
-		if (argInstId === undefined || expectedType === undefined) continue
-		validateSingleArgType(argInstId, expectedType, callId, state, context)
+		if (arg === undefined || expectedType === undefined) continue
+		validateSingleArgType(arg, expectedType, callId, state, context)
+	}
+}
+
+/**
+ * Emit a CallArg for each argument, in order, right before the Call.
+ * An argument can span many instructions; the CallArg names its value.
+ */
+function emitCallArgs(args: InstId[], callId: NodeId, state: CheckerState): void {
+	for (const argInstId of args) {
+		state.insts.add({
+			arg0: argInstId as number,
+			arg1: 0,
+			kind: InstKind.CallArg,
+			parseNodeId: callId,
+			typeId: state.insts.get(argInstId).typeId,
+		})
 	}
 }
 
 /**
  * Handle a function call expression.
+ * The callee is a function or any other function-typed value, such as a parameter.
  */
 export function handleFuncCall(
 	callId: NodeId,
 	state: CheckerState,
 	context: CompilationContext,
-	checkExpr: (
-		exprId: NodeId,
-		state: CheckerState,
-		context: CompilationContext
-	) => { instId: InstId | null; typeId: TypeId }
-): { instId: InstId | null; typeId: TypeId } {
+	checkExpr: CheckExprInferred,
+	checkExprExpected: CheckExpr
+): ExprResult {
 	const { argIds, calleeId } = collectCallChildren(callId, context)
 
 	if (calleeId === null) {
@@ -636,21 +1092,27 @@ export function handleFuncCall(
 		return { instId: null, typeId: BuiltinTypeId.Invalid }
 	}
 
-	const args = checkCallArguments(argIds, state, context, checkExpr)
+	const { paramTypes, returnType } = funcInfo
+	const args = checkCallArguments(argIds, paramTypes, state, context, checkExpr, checkExprExpected)
 
-	if (args.length !== funcInfo.paramTypes.length) {
-		emitArgCountError(args.length, funcInfo.paramTypes.length, callId, context)
+	if (argIds.length !== paramTypes.length) {
+		emitArgCountError(argIds.length, paramTypes.length, callId, context)
 	}
 
-	validateArgTypes(args, funcInfo.paramTypes, callId, state, context)
+	validateArgTypes(args, paramTypes, callId, state, context)
+	emitCallArgs(
+		args.map((arg) => arg.instId),
+		callId,
+		state
+	)
 
 	const instId = state.insts.add({
 		arg0: calleeResult.instId as number,
 		arg1: args.length,
 		kind: InstKind.Call,
 		parseNodeId: callId,
-		typeId: funcInfo.returnType,
+		typeId: returnType,
 	})
 
-	return { instId, typeId: funcInfo.returnType }
+	return { instId, typeId: returnType }
 }
@@ -0,0 +1,269 @@
+/**
+ * Interval analysis for the Check phase.
+ *
+ * The range of an integer instruction is the interval its values fall
+ * in: a constant's value, the bounds of a variable's type, or what an
+ * operator makes of its operands' ranges. A value whose range fits the
+ * bounds of a refined type has that type, however it was computed:
+ * `n % 10` is an `i32<min=0, max=9>` when `n` is never negative. A range
+ * that would overflow its type wraps, so it widens to the whole type.
+ */
+
+import type { CompilationContext } from '../core/context.ts'
+import { TokenKind } from '../core/tokens.ts'
+import type { CheckerState } from './state.ts'
+import {
+	BuiltinTypeId,
+	getBinaryOpLeftId,
+	getBinaryOpRightId,
+	getBitwiseNotOperandId,
+	getConvertOperandId,
+	getIntConstHigh,
+	getIntConstLow,
+	getNegateOperandId,
+	type Inst,
+	type InstId,
+	InstKind,
+	type TypeConstraints,
+	type TypeId,
+} from './types.ts'
+import { INTEGER_TYPE_BOUNDS, isIntegerType } from './utils.ts'
+
+/** An interval of integers, inclusive at both ends. */
+export interface IntegerRange {
+	lo: bigint
+	hi: bigint
+}
+
+/** The values of an integer type, within its bounds if it is refined. */
+export function integerDomain(typeId: TypeId, state: CheckerState): IntegerRange | null {
+	const typeBounds = INTEGER_TYPE_BOUNDS.get(state.types.unrefined(typeId))
+	if (!typeBounds) return null
+	const { max, min } = state.types.getConstraints(typeId) ?? {}
+	return { hi: max ?? typeBounds.max, lo: min ?? typeBounds.min }
+}
+
+/** Whether a type is an integer type with min/max bounds. */
+export function isBoundedIntegerType(typeId: TypeId, state: CheckerState): boolean {
+	return (
+		state.types.getConstraints(typeId) !== undefined && isIntegerType(state.types.unrefined(typeId))
+	)
+}
+
+/**
+ * The bounds a range puts on an integer type, leaving out any end the
+ * type reaches anyway.
+ */
+export function rangeBounds(range: IntegerRange, baseTypeId: TypeId): TypeConstraints {
+	const typeBounds = INTEGER_TYPE_BOUNDS.get(baseTypeId)
+	const bounds: { min?: bigint; max?: bigint } = {}
+	if (range.lo !== typeBounds?.min) bounds.min = range.lo
+	if (range.hi !== typeBounds?.max) bounds.max = range.hi
+	return bounds
+}
+
+function minOf(values: readonly bigint[]): bigint {
+	return values.reduce((a, b) => (b < a ? b : a))
+}
+
+function maxOf(values: readonly bigint[]): bigint {
+	return values.reduce((a, b) => (b > a ? b : a))
+}
+
+/** The smallest range holding all of `ranges`. */
+export function hull(ranges: readonly IntegerRange[]): IntegerRange {
+	return {
+		hi: maxOf(ranges.map((range) => range.hi)),
+		lo: minOf(ranges.map((range) => range.lo)),
+	}
+}
+
+function point(value: bigint): IntegerRange {
+	return { hi: value, lo: value }
+}
+
+function abs(value: bigint): bigint {
+	return value < 0n ? -value : value
+}
+
+function contains(range: IntegerRange, value: bigint): boolean {
+	return range.lo <= value && value <= range.hi
+}
+
+/** The value of an integer constant, reading its bits as its type does. */
+function intConstValue(inst: Inst, state: CheckerState): bigint {
+	const low = BigInt(getIntConstLow(inst))
+	switch (state.types.unrefined(inst.typeId)) {
+		case BuiltinTypeId.I64:
+			return (BigInt(getIntConstHigh(inst)) << 32n) | BigInt.asUintN(32, low)
+		case BuiltinTypeId.U64:
+			return BigInt.asUintN(64, (BigInt(getIntConstHigh(inst)) << 32n) | BigInt.asUintN(32, low))
+		case BuiltinTypeId.U32:
+			return BigInt.asUintN(32, low)
+		default:
+			return low
+	}
+}
+
+/** Every product of an end of `a` with an end of `b`. */
+function cornerRange(
+	a: IntegerRange,
+	b: IntegerRange,
+	op: (x: bigint, y: bigint) => bigint
+): IntegerRange {
+	return hull([
+		point(op(a.lo, b.lo)),
+		point(op(a.lo, b.hi)),
+		point(op(a.hi, b.lo)),
+		point(op(a.hi, b.hi)),
+	])
+}
+
+/** Division truncates toward zero, as bigint division does. */
+function quotientRange(a: IntegerRange, b: IntegerRange): IntegerRange | null {
+	if (contains(b, 0n)) return null
+	return cornerRange(a, b, (x, y) => x / y)
+}
+
+/** The largest remainder a divisor leaves, or null when it can only be 0. */
+function largestRemainder(b: IntegerRange): bigint | null {
+	const largest = maxOf([abs(b.lo), abs(b.hi)]) - 1n
+	return largest < 0n ? null : largest
+}
+
+/**
+ * `%` keeps the dividend's sign and stays smaller than the divisor:
+ * `n % 10` is within -9..9, and within 0..9 when `n` is never negative.
+ */
+function remainderRange(a: IntegerRange, b: IntegerRange): IntegerRange | null {
+	const largest = largestRemainder(b)
+	if (largest === null) return null
+	return {
+		hi: a.hi <= 0n ? 0n : minOf([a.hi, largest]),
+		lo: a.lo >= 0n ? 0n : maxOf([a.lo, -largest]),
+	}
+}
+
+/** `%%` is never negative and stays smaller than the divisor. */
+function euclideanRemainderRange(a: IntegerRange, b: IntegerRange): IntegerRange | null {
+	const largest = largestRemainder(b)
+	if (largest === null) return null
+	return { hi: a.lo >= 0n ? minOf([a.hi, largest]) : largest, lo: 0n }
+}
+
+/** Masking with a value that is never negative keeps at most its bits. */
+function maskRange(a: IntegerRange, b: IntegerRange): IntegerRange | null {
+	const masks = [a, b].filter((range) => range.lo >= 0n)
+	if (masks.length === 0) return null
+	return { hi: minOf(masks.map((range) => range.hi)), lo: 0n }
+}
+
+function arithmeticRange(op: TokenKind, a: IntegerRange, b: IntegerRange): IntegerRange | null {
+	switch (op) {
+		case TokenKind.Plus:
+			return { hi: a.hi + b.hi, lo: a.lo + b.lo }
+		case TokenKind.Minus:
+			return { hi: a.hi - b.lo, lo: a.lo - b.hi }
+		case TokenKind.Star:
+			return cornerRange(a, b, (x, y) => x * y)
+		case TokenKind.Slash:
+			return quotientRange(a, b)
+		default:
+			return null
+	}
+}
+
+function binaryRange(op: TokenKind, a: IntegerRange, b: IntegerRange): IntegerRange | null {
+	switch (op) {
+		case TokenKind.Percent:
+			return remainderRange(a, b)
+		case TokenKind.PercentPercent:
+			return euclideanRemainderRange(a, b)
+		case TokenKind.Ampersand:
+			return maskRange(a, b)
+		default:
+			return arithmeticRange(op, a, b)
+	}
+}
+
+function binaryOpRange(
+	inst: Inst,
+	state: CheckerState,
+	context: CompilationContext
+): IntegerRange | null {
+	const op = context.tokens.get(context.nodes.get(inst.parseNodeId).tokenId).kind
+	const left = instRange(getBinaryOpLeftId(inst), state, context)
+	const right = instRange(getBinaryOpRightId(inst), state, context)
+	if (!left || !right) return null
+	return binaryRange(op, left, right)
+}
+
+function negatedRange(range: IntegerRange | null): IntegerRange | null {
+	return range && { hi: -range.lo, lo: -range.hi }
+}
+
+function complementRange(range: IntegerRange | null): IntegerRange | null {
+	return range && { hi: -range.lo - 1n, lo: -range.hi - 1n }
+}
+
+/**
+ * The range an operation computes from its operands, or null when it
+ * can compute any value of its type. Converting an integer keeps its
+ * value when it fits.
+ */
+function operationRange(
+	inst: Inst,
+	state: CheckerState,
+	context: CompilationContext
+): IntegerRange | null {
+	switch (inst.kind) {
+		case InstKind.IntConst:
+			return point(intConstValue(inst, state))
+		case InstKind.BinaryOp:
+			return binaryOpRange(inst, state, context)
+		case InstKind.Negate:
+			return negatedRange(instRange(getNegateOperandId(inst), state, context))
+		case InstKind.BitwiseNot:
+			return complementRange(instRange(getBitwiseNotOperandId(inst), state, context))
+		case InstKind.Convert:
+			return instRange(getConvertOperandId(inst), state, context)
+		default:
+			return null
+	}
+}
+
+/**
+ * The range of an integer instruction's values, or null when its type
+ * is not an integer type. Its type bounds it when nothing tighter is
+ * known.
+ */
+export function instRange(
+	instId: InstId,
+	state: CheckerState,
+	context: CompilationContext
+): IntegerRange | null {
+	const inst = state.insts.get(instId)
+	const domain = integerDomain(inst.typeId, state)
+	if (!domain) return null
+	const range = operationRange(inst, state, context)
+	if (!range || !contains(domain, range.lo) || !contains(domain, range.hi)) return domain
+	return range
+}
+
+/**
+ * The type of an instruction's values, refined to their range: `n % 10`
+ * for an `i32` `n` is an `i32<min=-9, max=9>`.
+ */
+export function instRangeType(
+	instId: InstId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId {
+	const typeId = state.insts.get(instId).typeId
+	const range = instRange(instId, state, context)
+	if (!range) return typeId
+	const baseTypeId = state.types.unrefined(typeId)
+	const bounds = rangeBounds(range, baseTypeId)
+	if (bounds.min === undefined && bounds.max === undefined) return baseTypeId
+	return state.types.registerRefinedType(baseTypeId, bounds)
+}
@@ -0,0 +1,91 @@
+/**
+ * WebAssembly intrinsics that `extern wasm` can bind.
+ *
+ * Each intrinsic is one pure instruction, named the way WebAssembly text
+ * names it: `i32.clz`, `f64.sqrt`. Unary intrinsics on a value type have
+ * type `(T) -> T` and binary ones `(T, T) -> T`. Conversions take one
+ * type to another, as signed or unsigned integers: `i64.extend_i32_u` has
+ * type `(i32) -> i64`, and `i32.trunc_sat_f64_s` saturates where
+ * `i32.trunc_f64_s` traps.
+ */
+
+import { BuiltinTypeId, type TypeId } from './types.ts'
+
+/** The signature of an intrinsic. */
+export interface Intrinsic {
+	/** Type of every operand */
+	readonly typeId: TypeId
+	/** Number of operands */
+	readonly arity: 1 | 2
+	/** Type of the result */
+	readonly resultTypeId: TypeId
+}
+
+const INTEGER_TYPES: ReadonlyMap<string, TypeId> = new Map([
+	['i32', BuiltinTypeId.I32],
+	['i64', BuiltinTypeId.I64],
+])
+
+const FLOAT_TYPES: ReadonlyMap<string, TypeId> = new Map([
+	['f32', BuiltinTypeId.F32],
+	['f64', BuiltinTypeId.F64],
+])
+
+function intrinsicsFor(
+	types: ReadonlyMap<string, TypeId>,
+	names: readonly string[],
+	arity: 1 | 2
+): [string, Intrinsic][] {
+	return [...types].flatMap(([prefix, typeId]) =>
+		names.map((name): [string, Intrinsic] => [
+			`${prefix}.${name}`,
+			{ arity, resultTypeId: typeId, typeId },
+		])
+	)
+}
+
+/**
+ * Conversions named `to.op_from` followed by each suffix, from each of
+ * `sources` to each of `targets`: `f64.convert_i32_s`.
+ */
+function conversionsFor(
+	targets: ReadonlyMap<string, TypeId>,
+	op: string,
+	sources: ReadonlyMap<string, TypeId>,
+	suffixes: readonly string[]
+): [string, Intrinsic][] {
+	return [...targets].flatMap(([to, resultTypeId]) =>
+		[...sources].flatMap(([from, typeId]) =>
+			suffixes.map((suffix): [string, Intrinsic] => [
+				`${to}.${op}_${from}${suffix}`,
+				{ arity: 1, resultTypeId, typeId },
+			])
+		)
+	)
+}
+
+const SIGNED_AND_UNSIGNED = ['_s', '_u']
+
+const I32: ReadonlyMap<string, TypeId> = new Map([['i32', BuiltinTypeId.I32]])
+const I64: ReadonlyMap<string, TypeId> = new Map([['i64', BuiltinTypeId.I64]])
+const F32: ReadonlyMap<string, TypeId> = new Map([['f32', BuiltinTypeId.F32]])
+const F64: ReadonlyMap<string, TypeId> = new Map([['f64', BuiltinTypeId.F64]])
+
+const INTRINSICS: ReadonlyMap<string, Intrinsic> = new Map([
+	...intrinsicsFor(INTEGER_TYPES, ['clz', 'ctz', 'popcnt'], 1),
+	...intrinsicsFor(INTEGER_TYPES, ['rotl', 'rotr'], 2),
+	...intrinsicsFor(FLOAT_TYPES, ['abs', 'ceil', 'floor', 'nearest', 'sqrt', 'trunc'], 1),
+	...intrinsicsFor(FLOAT_TYPES, ['copysign', 'max', 'min'], 2),
+	...conversionsFor(I64, 'extend', I32, SIGNED_AND_UNSIGNED),
+	...conversionsFor(I32, 'wrap', I64, ['']),
+	...conversionsFor(F64, 'promote', F32, ['']),
+	...conversionsFor(F32, 'demote', F64, ['']),
+	...conversionsFor(FLOAT_TYPES, 'convert', INTEGER_TYPES, SIGNED_AND_UNSIGNED),
+	...conversionsFor(INTEGER_TYPES, 'trunc', FLOAT_TYPES, SIGNED_AND_UNSIGNED),
+	...conversionsFor(INTEGER_TYPES, 'trunc_sat', FLOAT_TYPES, SIGNED_AND_UNSIGNED),
+])
+
+/** The intrinsic an opcode names, if it is one `extern wasm` can bind. */
+export function lookupIntrinsic(opcode: string): Intrinsic | undefined {
+	return INTRINSICS.get(opcode)
+}
@@ -3,20 +3,41 @@
  *
  * This module handles:
  * - Match arm detection and processing
- * - Pattern validation (literal, or, wildcard, binding)
+ * - Pattern validation (literal, range, or, wildcard, binding, variant)
+ * - Guards, which narrow the binding they test
+ * - Narrowing a variable scrutinee within literal and range arms
  * - Catch-all pattern detection
- * - Match exhaustiveness checking
+ * - Match exhaustiveness checking, including variant and integer coverage
  * - Match finalization and binding creation
  */
 
 import type { CompilationContext, StringId } from '../core/context.ts'
 import type { DiagnosticCode } from '../core/diagnostics.ts'
 import { type NodeId, NodeKind, offsetNodeId, prevNodeId } from '../core/nodes.ts'
-import { checkExpression } from './expressions.ts'
-import type { CheckerState, MatchContext } from './state.ts'
-import { getTypeNameFromToken } from './type-resolution.ts'
-import { BuiltinTypeId, type InstId, InstKind, type TypeId } from './types.ts'
-import { isExpressionNode, isIntegerType, isPatternNode, isValidExprResult } from './utils.ts'
+import { nextTokenId, TokenKind } from '../core/tokens.ts'
+import { checkExpression, checkExpressionInferred } from './expressions.ts'
+import { hull, type IntegerRange, integerDomain, rangeBounds } from './intervals.ts'
+import { guardBounds, narrowedType } from './narrowing.ts'
+import { bindValue } from './record-values.ts'
+import type { CheckerState, ExprResult, MatchContext } from './state.ts'
+import { emitIntBoundsError, getTypeNameFromToken, parseIntegerLiteral } from './type-resolution.ts'
+import {
+	BuiltinTypeId,
+	type FieldInfo,
+	getVarRefSymbolId,
+	type InstId,
+	InstKind,
+	type SymbolId,
+	type TypeId,
+	type VariantInfo,
+} from './types.ts'
+import {
+	fitsInBaseBounds,
+	isExpressionNode,
+	isIntegerType,
+	isPatternNode,
+	isValidExprResult,
+} from './utils.ts'
 
 // ============================================================================
 // Match Arm Detection
@@ -41,8 +62,32 @@ export function getMatchArmFromLine(
 // Pattern Validation
 // ============================================================================
 
+/** The values of `true` and `false` patterns. */
+const BOOL_PATTERN_VALUES: ReadonlyMap<TokenKind, bigint> = new Map([
+	[TokenKind.True, 1n],
+	[TokenKind.False, 0n],
+])
+
+/**
+ * The kind of literal a pattern is, if it cannot match values of a
+ * type: `true` and `false` match booleans, other literals integers.
+ */
+function literalPatternMismatch(
+	patternId: NodeId,
+	baseTypeId: TypeId,
+	context: CompilationContext
+): string | null {
+	const token = context.tokens.get(context.nodes.get(patternId).tokenId)
+	if (BOOL_PATTERN_VALUES.has(token.kind)) {
+		return baseTypeId === BuiltinTypeId.Bool ? null : 'bool literal'
+	}
+	return isIntegerType(baseTypeId) ? null : 'integer literal'
+}
+
 /**
- * Validate a literal pattern against the scrutinee type.
+ * Validate a literal pattern against the scrutinee type: it matches
+ * integers or booleans, and only values of the scrutinee's type
+ * (TWCHECK014).
  */
 function validateLiteralPattern(
 	patternId: NodeId,
@@ -50,11 +95,73 @@ function validateLiteralPattern(
 	state: CheckerState,
 	context: CompilationContext
 ): void {
-	if (!isIntegerType(scrutineeType)) {
+	const baseTypeId = state.types.unrefined(scrutineeType)
+	const patternType = literalPatternMismatch(patternId, baseTypeId, context)
+	if (patternType !== null) {
 		context.emitAtNode('TWCHECK018' as DiagnosticCode, patternId, {
-			patternType: 'integer literal',
+			patternType,
 			scrutineeType: state.types.typeName(scrutineeType),
 		})
+		return
+	}
+	const value = literalPatternValue(patternId, context)
+	if (baseTypeId !== BuiltinTypeId.Bool && !fitsInBaseBounds(value, baseTypeId)) {
+		emitIntBoundsError(patternId, state.types.typeName(scrutineeType), `${value}`, context)
+	}
+}
+
+/** The value of a literal pattern, such as `-1`; `true` and `false` are 1 and 0. */
+function literalPatternValue(patternId: NodeId, context: CompilationContext): bigint {
+	const token = context.tokens.get(context.nodes.get(patternId).tokenId)
+	const boolValue = BOOL_PATTERN_VALUES.get(token.kind)
+	if (boolValue !== undefined) return boolValue
+	if (token.kind !== TokenKind.Minus) {
+		return parseIntegerLiteral(context.strings.get(token.payload as StringId))
+	}
+	const literal = context.tokens.get(nextTokenId(context.nodes.get(patternId).tokenId))
+	return -parseIntegerLiteral(context.strings.get(literal.payload as StringId))
+}
+
+/**
+ * The ends of a range pattern, inclusive; an open end is undefined. A
+ * range with only an upper end starts with its `..` token.
+ */
+function rangePatternEnds(
+	patternId: NodeId,
+	context: CompilationContext
+): { lo: bigint | undefined; hi: bigint | undefined } {
+	const [first, second] = [...context.nodes.iterateChildren(patternId)]
+		.map(([id]) => literalPatternValue(id, context))
+		.reverse()
+	if (second !== undefined) return { hi: second, lo: first }
+	const upTo = context.tokens.get(context.nodes.get(patternId).tokenId).kind === TokenKind.DotDot
+	return upTo ? { hi: first, lo: undefined } : { hi: undefined, lo: first }
+}
+
+/**
+ * Validate a range pattern against the scrutinee type: it matches
+ * integers, its ends are values of the type, and it must match at
+ * least one.
+ */
+function validateRangePattern(
+	patternId: NodeId,
+	scrutineeType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	if (!isIntegerType(state.types.unrefined(scrutineeType))) {
+		context.emitAtNode('TWCHECK018' as DiagnosticCode, patternId, {
+			patternType: 'range',
+			scrutineeType: state.types.typeName(scrutineeType),
+		})
+		return
+	}
+	for (const [endId] of context.nodes.iterateChildren(patternId)) {
+		validateLiteralPattern(endId, scrutineeType, state, context)
+	}
+	const { hi, lo } = rangePatternEnds(patternId, context)
+	if (lo !== undefined && hi !== undefined && lo > hi) {
+		context.emitAtNode('TWCHECK011' as DiagnosticCode, patternId, { hi: `${hi}`, lo: `${lo}` })
 	}
 }
 
@@ -68,19 +175,36 @@ function checkOrPatternChildren(
 	context: CompilationContext
 ): void {
 	for (const [childId, child] of context.nodes.iterateChildren(patternId)) {
-		if (isPatternNode(child.kind)) {
-			checkPattern(childId, scrutineeType, state, context)
-		}
+		checkOrPatternChild(childId, child.kind, scrutineeType, state, context)
+	}
+}
+
+/**
+ * Check one alternative of an or-pattern. Variant alternatives are
+ * told they are in an or-pattern, where they cannot bind fields.
+ */
+function checkOrPatternChild(
+	childId: NodeId,
+	kind: NodeKind,
+	scrutineeType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	if (kind === NodeKind.VariantPattern) {
+		checkVariantPattern(childId, scrutineeType, true, state, context)
+	} else if (isPatternNode(kind)) {
+		checkPattern(childId, scrutineeType, state, context)
 	}
 }
 
 /**
- * Create a symbol for a binding pattern variable.
- * The pattern variable is bound to the scrutinee value.
+ * Create a symbol for a binding pattern variable, bound to a value:
+ * the scrutinee, or a field of the variant it holds.
  */
 function createPatternBindingSymbol(
 	patternId: NodeId,
-	scrutineeType: TypeId,
+	typeId: TypeId,
+	valueInstId: InstId | null | undefined,
 	state: CheckerState,
 	context: CompilationContext
 ): void {
@@ -92,20 +216,144 @@ function createPatternBindingSymbol(
 	const symId = state.symbols.add({
 		nameId,
 		parseNodeId: patternId,
-		typeId: scrutineeType,
+		typeId,
 	})
 
-	// Emit PatternBind instruction if we have a valid scrutinee
-	const scrutineeInstId = state.matchContext?.scrutinee.instId
-	if (scrutineeInstId !== null && scrutineeInstId !== undefined) {
+	// Emit PatternBind instruction if we have a valid value
+	if (valueInstId !== null && valueInstId !== undefined) {
 		state.insts.add({
 			arg0: symId as number,
-			arg1: scrutineeInstId as number,
+			arg1: valueInstId as number,
 			kind: InstKind.PatternBind,
 			parseNodeId: patternId,
-			typeId: scrutineeType,
+			typeId,
+		})
+	}
+}
+
+// ============================================================================
+// Variant Patterns
+// ============================================================================
+
+/** Name of the variant a pattern matches. */
+function variantPatternName(patternId: NodeId, context: CompilationContext): string {
+	const token = context.tokens.get(context.nodes.get(patternId).tokenId)
+	return context.strings.get(token.payload as StringId)
+}
+
+/** Field patterns of a VariantPattern, in source order. */
+function variantFieldPatterns(patternId: NodeId, context: CompilationContext): NodeId[] {
+	return [...context.nodes.iterateChildren(patternId)].map(([id]) => id).reverse()
+}
+
+/**
+ * The scrutinee, read afresh when it is a binding so that each field is
+ * extracted from its own read of the local. The read stays at the
+ * scrutinee's node, so it is not mistaken for the pattern's own symbol.
+ */
+function readScrutinee(state: CheckerState): InstId | null {
+	const scrutineeInstId = state.matchContext?.scrutinee.instId ?? null
+	if (scrutineeInstId === null) return null
+	const scrutineeInst = state.insts.get(scrutineeInstId)
+	if (scrutineeInst.kind !== InstKind.VarRef) return scrutineeInstId
+	return state.insts.add({ ...scrutineeInst })
+}
+
+/**
+ * Bind a field of the matched variant. The field is read from its slot
+ * of the scrutinee's tuple.
+ */
+function bindVariantField(
+	fieldPatternId: NodeId,
+	field: FieldInfo,
+	slot: number,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const scrutineeInstId = readScrutinee(state)
+	const valueInstId =
+		scrutineeInstId === null
+			? null
+			: state.insts.add({
+					arg0: scrutineeInstId as number,
+					arg1: slot,
+					kind: InstKind.TupleExtract,
+					parseNodeId: fieldPatternId,
+					typeId: field.typeId,
+				})
+	createPatternBindingSymbol(fieldPatternId, field.typeId, valueInstId, state, context)
+}
+
+/**
+ * Bind the fields a variant pattern names. Alternatives of an or-pattern
+ * match different variants, so they cannot bind fields.
+ */
+function bindVariantFields(
+	patternId: NodeId,
+	variant: VariantInfo,
+	inOrPattern: boolean,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	variantFieldPatterns(patternId, context).forEach((fieldPatternId, i) => {
+		bindVariantFieldPattern(fieldPatternId, variant, i, inOrPattern, state, context)
+	})
+}
+
+/**
+ * Bind the i-th field pattern of a variant pattern, if it is a binding.
+ */
+function bindVariantFieldPattern(
+	fieldPatternId: NodeId,
+	variant: VariantInfo,
+	i: number,
+	inOrPattern: boolean,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const field = variant.fields[i]
+	if (!field || context.nodes.get(fieldPatternId).kind !== NodeKind.BindingPattern) return
+	if (inOrPattern) {
+		context.emitAtNode('TWCHECK008' as DiagnosticCode, fieldPatternId, { name: variant.name })
+		return
+	}
+	bindVariantField(fieldPatternId, field, variant.firstSlot + i, state, context)
+}
+
+/**
+ * Check a variant pattern against the scrutinee type: the variant must
+ * belong to it, and the pattern must name each of the variant's fields.
+ */
+function checkVariantPattern(
+	patternId: NodeId,
+	scrutineeType: TypeId,
+	inOrPattern: boolean,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const name = variantPatternName(patternId, context)
+	const ref = state.types.lookupVariant(name)
+	if (!ref) {
+		context.emitAtNode('TWCHECK003' as DiagnosticCode, patternId, { name })
+		return
+	}
+	if (!state.types.areEqual(ref.typeId, scrutineeType)) {
+		context.emitAtNode('TWCHECK018' as DiagnosticCode, patternId, {
+			patternType: state.types.typeName(ref.typeId),
+			scrutineeType: state.types.typeName(scrutineeType),
+		})
+		return
+	}
+	const found = variantFieldPatterns(patternId, context).length
+	if (found !== ref.variant.fields.length) {
+		context.emitAtNode('TWCHECK004' as DiagnosticCode, patternId, {
+			expected: ref.variant.fields.length,
+			found,
+			name,
 		})
+		return
 	}
+	bindVariantFields(patternId, ref.variant, inOrPattern, state, context)
 }
 
 /**
@@ -123,11 +371,23 @@ export function checkPattern(
 		case NodeKind.LiteralPattern:
 			validateLiteralPattern(patternId, scrutineeType, state, context)
 			break
+		case NodeKind.RangePattern:
+			validateRangePattern(patternId, scrutineeType, state, context)
+			break
 		case NodeKind.OrPattern:
 			checkOrPatternChildren(patternId, scrutineeType, state, context)
 			break
 		case NodeKind.BindingPattern:
-			createPatternBindingSymbol(patternId, scrutineeType, state, context)
+			createPatternBindingSymbol(
+				patternId,
+				scrutineeType,
+				state.matchContext?.scrutinee.instId,
+				state,
+				context
+			)
+			break
+		case NodeKind.VariantPattern:
+			checkVariantPattern(patternId, scrutineeType, false, state, context)
 			break
 	}
 
@@ -139,53 +399,162 @@ export function checkPattern(
 // ============================================================================
 
 /**
- * Process a MatchArm node.
- * In postorder: [Pattern..., Expression..., MatchArm]
+ * The nodes of a match arm. In postorder: [Pattern..., MatchGuard..., Expression..., MatchArm],
+ * where the guard is optional.
  */
-export function processMatchArm(
+function matchArmNodes(
 	armId: NodeId,
-	state: CheckerState,
 	context: CompilationContext
-): void {
-	if (!state.matchContext) {
-		context.emitAtNode('TWCHECK019' as DiagnosticCode, armId)
-		return
-	}
-
-	// In postorder, children are before parent. We need to find the pattern and expression.
+): { patternId: NodeId; guardId: NodeId | null; exprId: NodeId } | null {
 	// The expression is the last child (closest to MatchArm).
-	// Pattern(s) come before the expression.
 	const exprId = prevNodeId(armId)
 	const exprNode = context.nodes.get(exprId)
+	if (!isExpressionNode(exprNode.kind)) return null
 
-	if (!isExpressionNode(exprNode.kind)) {
-		return
-	}
+	// The guard, if any, is before the expression's subtree, and the pattern before that.
+	const beforeExprId = offsetNodeId(exprId, -exprNode.subtreeSize)
+	const beforeExpr = context.nodes.get(beforeExprId)
+	const guardId = beforeExpr.kind === NodeKind.MatchGuard ? beforeExprId : null
+	const patternId = guardId === null ? beforeExprId : offsetNodeId(guardId, -beforeExpr.subtreeSize)
+	if (!isPatternNode(context.nodes.get(patternId).kind)) return null
 
-	// Pattern is before the expression's subtree
-	const patternId = offsetNodeId(exprId, -exprNode.subtreeSize)
-	const patternNode = context.nodes.get(patternId)
+	return { exprId, guardId, patternId }
+}
 
-	if (!isPatternNode(patternNode.kind)) {
-		return
+/**
+ * Narrow a binding pattern's symbol to the bounds its guard proves, for
+ * the arm's body.
+ */
+function narrowGuardedBinding(
+	patternId: NodeId,
+	guardExprId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const pattern = context.nodes.get(patternId)
+	if (pattern.kind !== NodeKind.BindingPattern) return
+	const nameId = context.tokens.get(pattern.tokenId).payload as StringId
+	const symId = state.symbols.lookupByName(nameId)
+	if (symId === undefined) return
+	const typeId = state.symbols.get(symId).typeId
+	if (!isIntegerType(state.types.unrefined(typeId))) return
+	const bounds = guardBounds(guardExprId, nameId, context)
+	state.symbols.narrow(symId, narrowedType(typeId, bounds, state.types))
+}
+
+/** Whether a pattern matches only the integers it spells out, as literals or ranges. */
+function isIntegerPattern(patternId: NodeId, context: CompilationContext): boolean {
+	switch (context.nodes.get(patternId).kind) {
+		case NodeKind.LiteralPattern:
+		case NodeKind.RangePattern:
+			return true
+		case NodeKind.OrPattern:
+			return [...context.nodes.iterateChildren(patternId)].every(([childId]) =>
+				isIntegerPattern(childId, context)
+			)
+		default:
+			return false
 	}
+}
 
-	// Push scope for this arm's bindings
-	state.symbols.pushScope()
+interface NarrowedScrutinee {
+	symId: SymbolId
+	typeId: TypeId
+}
 
-	checkPattern(patternId, state.matchContext.scrutinee.typeId, state, context)
+/**
+ * Narrow a variable scrutinee to the values an arm's literal or range
+ * pattern matches, for the arm's guard and body: under `0..9 ->`, `x`
+ * in `match x` is an `i32<min=0, max=9>`. Returns the type to restore
+ * once the arm is checked, or null when nothing narrows.
+ */
+function narrowScrutinee(
+	patternId: NodeId,
+	scrutinee: ExprResult,
+	state: CheckerState,
+	context: CompilationContext
+): NarrowedScrutinee | null {
+	if (scrutinee.instId === null || !isIntegerPattern(patternId, context)) return null
+	const inst = state.insts.get(scrutinee.instId)
+	if (inst.kind !== InstKind.VarRef) return null
+	const symId = getVarRefSymbolId(inst)
+	const typeId = state.symbols.get(symId).typeId
+	const domain = integerDomain(typeId, state)
+	if (!domain) return null
+	const bounds = rangeBounds(
+		hull(coveredRanges(patternId, domain, context)),
+		state.types.unrefined(typeId)
+	)
+	state.symbols.narrow(symId, narrowedType(typeId, bounds, state.types))
+	return { symId, typeId }
+}
 
-	const bodyResult = checkExpression(exprId, state.matchContext.expectedType, state, context)
+function restoreScrutinee(narrowed: NarrowedScrutinee | null, state: CheckerState): void {
+	if (narrowed) state.symbols.narrow(narrowed.symId, narrowed.typeId)
+}
 
-	// Pop scope - arm bindings no longer visible
+/**
+ * Check a match arm's guard, a bool condition, and narrow the binding it
+ * tests.
+ */
+function checkMatchGuard(
+	patternId: NodeId,
+	guardId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): InstId | null {
+	const guardExprId = prevNodeId(guardId)
+	const result = checkExpression(guardExprId, BuiltinTypeId.Bool, state, context)
+	if (!isValidExprResult(result)) return null
+	narrowGuardedBinding(patternId, guardExprId, state, context)
+	return result.instId
+}
+
+/**
+ * Check a match arm's pattern, guard and body, in a scope that holds the
+ * arm's bindings.
+ */
+function checkMatchArm(
+	nodes: { patternId: NodeId; guardId: NodeId | null; exprId: NodeId },
+	matchContext: MatchContext,
+	state: CheckerState,
+	context: CompilationContext
+): MatchContext['arms'][number] | null {
+	state.symbols.pushScope()
+
+	checkPattern(nodes.patternId, matchContext.scrutinee.typeId, state, context)
+	const narrowed = narrowScrutinee(nodes.patternId, matchContext.scrutinee, state, context)
+	const guardInstId =
+		nodes.guardId === null ? null : checkMatchGuard(nodes.patternId, nodes.guardId, state, context)
+	const bodyResult = checkExpression(nodes.exprId, matchContext.expectedType, state, context)
+	restoreScrutinee(narrowed, state)
+
+	// Arm bindings are no longer visible
 	state.symbols.popScope()
 
-	if (isValidExprResult(bodyResult)) {
-		state.matchContext.arms.push({
-			bodyInstId: bodyResult.instId,
-			patternNodeId: patternId,
-		})
+	if (!isValidExprResult(bodyResult) || (nodes.guardId !== null && guardInstId === null))
+		return null
+	return { bodyInstId: bodyResult.instId, guardInstId, patternNodeId: nodes.patternId }
+}
+
+/**
+ * Process a MatchArm node.
+ */
+export function processMatchArm(
+	armId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	if (!state.matchContext) {
+		context.emitAtNode('TWCHECK019' as DiagnosticCode, armId)
+		return
 	}
+
+	const nodes = matchArmNodes(armId, context)
+	if (!nodes) return
+
+	const arm = checkMatchArm(nodes, state.matchContext, state, context)
+	if (arm) state.matchContext.arms.push(arm)
 }
 
 // ============================================================================
@@ -228,17 +597,122 @@ function isCatchAllPattern(patternId: NodeId, context: CompilationContext): bool
 // ============================================================================
 
 /**
- * Check if a match is exhaustive (has a catch-all in the last arm).
+ * Names of the variants a pattern matches: its own, or its alternatives'.
  */
-function checkMatchExhaustiveness(
+function coveredVariantNames(patternId: NodeId, context: CompilationContext): string[] {
+	const pattern = context.nodes.get(patternId)
+	if (pattern.kind === NodeKind.VariantPattern) return [variantPatternName(patternId, context)]
+	if (pattern.kind !== NodeKind.OrPattern) return []
+	return [...context.nodes.iterateChildren(patternId)].flatMap(([childId]) =>
+		coveredVariantNames(childId, context)
+	)
+}
+
+/**
+ * Check that the arms of a match on a sum type cover every variant.
+ */
+function checkVariantCoverage(
 	arms: MatchContext['arms'],
 	matchNodeId: NodeId,
+	scrutineeType: TypeId,
+	state: CheckerState,
 	context: CompilationContext
 ): void {
+	const covered = new Set(arms.flatMap((arm) => coveredVariantNames(arm.patternNodeId, context)))
+	const missing = state.types
+		.getVariants(scrutineeType)
+		.filter((variant) => !covered.has(variant.name))
+	if (missing.length === 0) return
+	context.emitAtNode('TWCHECK005' as DiagnosticCode, matchNodeId, {
+		type: state.types.typeName(scrutineeType),
+		variants: missing.map((variant) => `\`${variant.name}\``).join(', '),
+	})
+}
+
+/**
+ * The integers a pattern matches: a literal's value, a range, or its
+ * alternatives'. Open ends of a range reach the end of the domain.
+ */
+function coveredRanges(
+	patternId: NodeId,
+	domain: IntegerRange,
+	context: CompilationContext
+): IntegerRange[] {
+	switch (context.nodes.get(patternId).kind) {
+		case NodeKind.LiteralPattern: {
+			const value = literalPatternValue(patternId, context)
+			return [{ hi: value, lo: value }]
+		}
+		case NodeKind.RangePattern: {
+			const { hi, lo } = rangePatternEnds(patternId, context)
+			return [{ hi: hi ?? domain.hi, lo: lo ?? domain.lo }]
+		}
+		case NodeKind.OrPattern:
+			return [...context.nodes.iterateChildren(patternId)].flatMap(([childId]) =>
+				coveredRanges(childId, domain, context)
+			)
+		default:
+			return []
+	}
+}
+
+/** The values literal patterns match of a type: an integer type's, or a boolean's 0 and 1. */
+function patternDomain(typeId: TypeId, state: CheckerState): IntegerRange | null {
+	return typeId === BuiltinTypeId.Bool ? { hi: 1n, lo: 0n } : integerDomain(typeId, state)
+}
+
+/**
+ * Whether the literal and range patterns of a match's arms cover every
+ * value of its integer or boolean scrutinee, as `..-1 | 0 | 1..` covers
+ * an i32 and `true | false` a bool.
+ */
+function coversIntegers(
+	arms: MatchContext['arms'],
+	scrutineeType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	const domain = patternDomain(scrutineeType, state)
+	if (!domain) return false
+	const ranges = arms
+		.flatMap((arm) => coveredRanges(arm.patternNodeId, domain, context))
+		.sort((a, b) => Number(a.lo - b.lo))
+	// The first value not yet covered, sweeping up from the bottom of the domain.
+	const uncovered = ranges.reduce(
+		(next, range) => (range.lo <= next && range.hi >= next ? range.hi + 1n : next),
+		domain.lo
+	)
+	return uncovered > domain.hi
+}
+
+/** Whether the last arm is an unguarded catch-all. */
+function endsWithCatchAll(arms: MatchContext['arms'], context: CompilationContext): boolean {
 	const lastArm = arms[arms.length - 1]
-	if (!lastArm || !isCatchAllPattern(lastArm.patternNodeId, context)) {
-		context.emitAtNode('TWCHECK020' as DiagnosticCode, matchNodeId)
+	if (!lastArm || lastArm.guardInstId !== null) return false
+	return isCatchAllPattern(lastArm.patternNodeId, context)
+}
+
+/**
+ * Check if a match is exhaustive: it has a catch-all in the last arm, it
+ * matches a sum type and covers every variant, or it matches an integer or bool
+ * and covers every value. Guarded arms may not match, so they cover
+ * nothing.
+ */
+function checkMatchExhaustiveness(
+	arms: MatchContext['arms'],
+	matchNodeId: NodeId,
+	scrutineeType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	if (endsWithCatchAll(arms, context)) return
+	const unguarded = arms.filter((arm) => arm.guardInstId === null)
+	if (state.types.isSumType(scrutineeType)) {
+		checkVariantCoverage(unguarded, matchNodeId, scrutineeType, state, context)
+		return
 	}
+	if (coversIntegers(unguarded, scrutineeType, state, context)) return
+	context.emitAtNode('TWCHECK020' as DiagnosticCode, matchNodeId)
 }
 
 // ============================================================================
@@ -246,7 +720,7 @@ function checkMatchExhaustiveness(
 // ============================================================================
 
 /**
- * Emit instructions for all match arms.
+ * Emit instructions for all match arms, each guarded arm after its guard.
  */
 function emitMatchArmInsts(
 	arms: MatchContext['arms'],
@@ -255,6 +729,15 @@ function emitMatchArmInsts(
 	state: CheckerState
 ): void {
 	for (const arm of arms) {
+		if (arm.guardInstId !== null) {
+			state.insts.add({
+				arg0: arm.guardInstId as number,
+				arg1: 0,
+				kind: InstKind.MatchGuard,
+				parseNodeId: matchNodeId,
+				typeId: BuiltinTypeId.Bool,
+			})
+		}
 		state.insts.add({
 			arg0: arm.patternNodeId as number,
 			arg1: arm.bodyInstId as number,
@@ -271,20 +754,11 @@ function emitMatchArmInsts(
 function createMatchBinding(
 	matchCtx: MatchContext,
 	matchInstId: InstId,
-	state: CheckerState
+	state: CheckerState,
+	context: CompilationContext
 ): void {
-	const symId = state.symbols.add({
-		nameId: matchCtx.bindingNameId,
-		parseNodeId: matchCtx.bindingNodeId,
-		typeId: matchCtx.expectedType,
-	})
-	state.insts.add({
-		arg0: symId as number,
-		arg1: matchInstId as number,
-		kind: InstKind.Bind,
-		parseNodeId: matchCtx.bindingNodeId,
-		typeId: matchCtx.expectedType,
-	})
+	const { bindingNameId, bindingNodeId, expectedType } = matchCtx
+	bindValue(bindingNameId, expectedType, matchInstId, bindingNodeId, state, context)
 }
 
 /**
@@ -295,7 +769,7 @@ export function finalizeMatch(state: CheckerState, context: CompilationContext):
 
 	const { arms, expectedType, matchNodeId, scrutinee } = state.matchContext
 
-	checkMatchExhaustiveness(arms, matchNodeId, context)
+	checkMatchExhaustiveness(arms, matchNodeId, scrutinee.typeId, state, context)
 
 	// scrutinee.instId null check (matchContext only set after valid typeId check)
 	if (scrutinee.instId === null) return
@@ -310,7 +784,7 @@ export function finalizeMatch(state: CheckerState, context: CompilationContext):
 		typeId: expectedType,
 	})
 
-	createMatchBinding(state.matchContext, matchInstId, state)
+	createMatchBinding(state.matchContext, matchInstId, state, context)
 	state.matchContext = null
 }
 
@@ -378,6 +852,25 @@ function extractMatchBindingNodes(
 	return { bindingNameId, expectedType: typeInfo.typeId, identId, scrutineeId, typeAnnotationId }
 }
 
+/**
+ * Check a scrutinee. Its type is inferred from the expression and need
+ * not be the type of the match, as in `b: bool = match n`. An integer
+ * literal has no type of its own and takes the match's when it is an
+ * integer type.
+ */
+function checkScrutinee(
+	scrutineeId: NodeId,
+	expectedType: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const isLiteral = context.nodes.get(scrutineeId).kind === NodeKind.IntLiteral
+	if (isLiteral && isIntegerType(state.types.unrefined(expectedType))) {
+		return checkExpression(scrutineeId, expectedType, state, context)
+	}
+	return checkExpressionInferred(scrutineeId, state, context)
+}
+
 /**
  * Start processing a match binding.
  * If the binding is not a match expression, falls back to the provided handler.
@@ -394,7 +887,7 @@ export function startMatchBinding(
 		return
 	}
 
-	const scrutineeResult = checkExpression(nodes.scrutineeId, nodes.expectedType, state, context)
+	const scrutineeResult = checkScrutinee(nodes.scrutineeId, nodes.expectedType, state, context)
 	if (scrutineeResult.typeId === BuiltinTypeId.Invalid) return
 
 	state.matchContext = {
@@ -440,7 +933,7 @@ export function startMatchFromBindingExpr(
 		return
 	}
 
-	const scrutineeResult = checkExpression(scrutineeId, expectedType, state, context)
+	const scrutineeResult = checkScrutinee(scrutineeId, expectedType, state, context)
 	if (scrutineeResult.typeId === BuiltinTypeId.Invalid) return
 
 	state.matchContext = {
@@ -0,0 +1,143 @@
+/**
+ * Guard narrowing for the Check phase.
+ *
+ * A match guard that compares a binding with integer literals, alone or
+ * joined by `&&`, bounds the binding's value in the arm it guards: under
+ * `n if n > 100 && n < 200`, `n` is an `i32<min=101, max=199>`. Other
+ * guards still decide whether the arm matches, but narrow nothing.
+ */
+
+import type { CompilationContext, StringId } from '../core/context.ts'
+import { type NodeId, NodeKind, offsetNodeId, prevNodeId } from '../core/nodes.ts'
+import { TokenKind } from '../core/tokens.ts'
+import type { TypeStore } from './stores.ts'
+import { parseIntegerLiteral } from './type-resolution.ts'
+import type { TypeConstraints, TypeId } from './types.ts'
+
+/** A comparison read with its operands swapped: `0 < n` is `n > 0`. */
+const SWAPPED_COMPARISONS: Partial<Record<TokenKind, TokenKind>> = {
+	[TokenKind.EqualEqual]: TokenKind.EqualEqual,
+	[TokenKind.GreaterEqual]: TokenKind.LessEqual,
+	[TokenKind.GreaterThan]: TokenKind.LessThan,
+	[TokenKind.LessEqual]: TokenKind.GreaterEqual,
+	[TokenKind.LessThan]: TokenKind.GreaterThan,
+}
+
+/** Bounds on `n` where `n <op> value` holds. */
+function comparisonBounds(op: TokenKind, value: bigint): TypeConstraints {
+	switch (op) {
+		case TokenKind.EqualEqual:
+			return { max: value, min: value }
+		case TokenKind.GreaterEqual:
+			return { min: value }
+		case TokenKind.GreaterThan:
+			return { min: value + 1n }
+		case TokenKind.LessEqual:
+			return { max: value }
+		case TokenKind.LessThan:
+			return { max: value - 1n }
+		default:
+			return {}
+	}
+}
+
+function tighterMin(a: bigint | undefined, b: bigint | undefined): bigint | undefined {
+	if (a === undefined) return b
+	return b !== undefined && b > a ? b : a
+}
+
+function tighterMax(a: bigint | undefined, b: bigint | undefined): bigint | undefined {
+	if (a === undefined) return b
+	return b !== undefined && b < a ? b : a
+}
+
+/** Bounds that hold where both `a` and `b` hold. */
+function intersectBounds(a: TypeConstraints, b: TypeConstraints): TypeConstraints {
+	const bounds: { min?: bigint; max?: bigint } = {}
+	const min = tighterMin(a.min, b.min)
+	const max = tighterMax(a.max, b.max)
+	if (min !== undefined) bounds.min = min
+	if (max !== undefined) bounds.max = max
+	return bounds
+}
+
+/** The value of an integer literal, negated or not, or null for any other expression. */
+function integerLiteralValue(exprId: NodeId, context: CompilationContext): bigint | null {
+	const node = context.nodes.get(exprId)
+	if (node.kind === NodeKind.IntLiteral) {
+		const text = context.strings.get(context.tokens.get(node.tokenId).payload as StringId)
+		return parseIntegerLiteral(text)
+	}
+	if (node.kind !== NodeKind.UnaryExpr) return null
+	if (context.tokens.get(node.tokenId).kind !== TokenKind.Minus) return null
+	const operand = integerLiteralValue(prevNodeId(exprId), context)
+	return operand === null ? null : -operand
+}
+
+function isNamed(exprId: NodeId, nameId: StringId, context: CompilationContext): boolean {
+	const node = context.nodes.get(exprId)
+	return node.kind === NodeKind.Identifier && context.tokens.get(node.tokenId).payload === nameId
+}
+
+/** Bounds from comparing the binding with a literal, on either side. */
+function comparisonGuardBounds(
+	op: TokenKind,
+	leftId: NodeId,
+	rightId: NodeId,
+	nameId: StringId,
+	context: CompilationContext
+): TypeConstraints {
+	const right = integerLiteralValue(rightId, context)
+	if (right !== null && isNamed(leftId, nameId, context)) return comparisonBounds(op, right)
+	const left = integerLiteralValue(leftId, context)
+	const swapped = SWAPPED_COMPARISONS[op]
+	if (left === null || swapped === undefined || !isNamed(rightId, nameId, context)) return {}
+	return comparisonBounds(swapped, left)
+}
+
+function binaryGuardBounds(
+	exprId: NodeId,
+	nameId: StringId,
+	context: CompilationContext
+): TypeConstraints {
+	const op = context.tokens.get(context.nodes.get(exprId).tokenId).kind
+	const rightId = prevNodeId(exprId)
+	const leftId = offsetNodeId(rightId, -context.nodes.get(rightId).subtreeSize)
+	if (op !== TokenKind.AmpersandAmpersand) {
+		return comparisonGuardBounds(op, leftId, rightId, nameId, context)
+	}
+	return intersectBounds(
+		guardBounds(leftId, nameId, context),
+		guardBounds(rightId, nameId, context)
+	)
+}
+
+/**
+ * Bounds that a guard proves for the binding named `nameId` wherever
+ * it holds.
+ */
+export function guardBounds(
+	guardExprId: NodeId,
+	nameId: StringId,
+	context: CompilationContext
+): TypeConstraints {
+	switch (context.nodes.get(guardExprId).kind) {
+		case NodeKind.BinaryExpr:
+			return binaryGuardBounds(guardExprId, nameId, context)
+		case NodeKind.ParenExpr:
+			return guardBounds(prevNodeId(guardExprId), nameId, context)
+		default:
+			return {}
+	}
+}
+
+/**
+ * An integer type narrowed to the bounds a guard proves, on top of any
+ * it already has; the type itself when the guard proves nothing new.
+ */
+export function narrowedType(typeId: TypeId, bounds: TypeConstraints, types: TypeStore): TypeId {
+	const current = types.getConstraints(typeId) ?? {}
+	const narrowed = intersectBounds(current, bounds)
+	if (narrowed.min === current.min && narrowed.max === current.max) return typeId
+	return types.registerRefinedType(types.unrefined(typeId), narrowed)
+}
@@ -0,0 +1,152 @@
+/**
+ * Whole record values for the Check phase.
+ *
+ * Records are flattened to primitive locals, p: Point -> $p_x, $p_y, and
+ * a symbol for the record as a whole stands for them. Records are passed
+ * to functions one field at a time and returned as a multi-value, so a
+ * record computed by an expression, such as a call, is bound to a hidden
+ * local and its fields read out of it into flattened locals of their own.
+ */
+
+import type { CompilationContext, StringId } from '../core/context.ts'
+import type { NodeId } from '../core/nodes.ts'
+import type { CheckerState } from './state.ts'
+import { getVarRefSymbolId, type InstId, InstKind, type SymbolId, type TypeId } from './types.ts'
+
+/**
+ * Read one field of a record held in a hidden local.
+ */
+function emitFieldExtract(
+	valueSymId: SymbolId,
+	index: number,
+	fieldTypeId: TypeId,
+	nodeId: NodeId,
+	state: CheckerState
+): InstId {
+	const valueTypeId = state.symbols.get(valueSymId).typeId
+	const valueInstId = state.insts.add({
+		arg0: valueSymId as number,
+		arg1: 0,
+		kind: InstKind.VarRef,
+		parseNodeId: nodeId,
+		typeId: valueTypeId,
+	})
+	return state.insts.add({
+		arg0: valueInstId as number,
+		arg1: index,
+		kind: InstKind.TupleExtract,
+		parseNodeId: nodeId,
+		typeId: fieldTypeId,
+	})
+}
+
+function emitBind(symId: SymbolId, valueInstId: InstId, nodeId: NodeId, state: CheckerState): void {
+	state.insts.add({
+		arg0: symId as number,
+		arg1: valueInstId as number,
+		kind: InstKind.Bind,
+		parseNodeId: nodeId,
+		typeId: state.symbols.get(symId).typeId,
+	})
+}
+
+/**
+ * Bind each flattened field to its element of a record value. A record
+ * of one field is that field's value.
+ */
+function bindRecordFields(
+	fieldIds: readonly SymbolId[],
+	typeId: TypeId,
+	valueInstId: InstId,
+	nodeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	const [onlyFieldId] = fieldIds
+	if (fieldIds.length === 1 && onlyFieldId !== undefined) {
+		emitBind(onlyFieldId, valueInstId, nodeId, state)
+		return
+	}
+	const valueSymId = state.symbols.add({
+		nameId: context.strings.intern(`value$${nodeId}`),
+		parseNodeId: nodeId,
+		typeId,
+	})
+	emitBind(valueSymId, valueInstId, nodeId, state)
+	fieldIds.forEach((fieldId, i) => {
+		const fieldTypeId = state.symbols.get(fieldId).typeId
+		const extractInstId = emitFieldExtract(valueSymId, i, fieldTypeId, nodeId, state)
+		emitBind(fieldId, extractInstId, nodeId, state)
+	})
+}
+
+/**
+ * Bind a record value to flattened locals under a name, with a symbol
+ * for the record as a whole.
+ */
+function bindRecordValue(
+	baseName: string,
+	typeId: TypeId,
+	valueInstId: InstId,
+	nodeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): SymbolId {
+	const recordSymId = state.symbols.declareFlattenedRecord(
+		baseName,
+		typeId,
+		nodeId,
+		(name) => context.strings.intern(name),
+		state.types
+	)
+	const fieldIds = state.symbols.getRecordFields(recordSymId) ?? []
+	bindRecordFields(fieldIds, typeId, valueInstId, nodeId, state, context)
+	return recordSymId
+}
+
+/**
+ * Bind a name to a value. Records are flattened into a local per field.
+ */
+export function bindValue(
+	nameId: StringId,
+	typeId: TypeId,
+	valueInstId: InstId,
+	bindingId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): SymbolId {
+	if (state.types.isRecordType(typeId)) {
+		const name = context.strings.get(nameId)
+		return bindRecordValue(name, typeId, valueInstId, bindingId, state, context)
+	}
+	const symId = state.symbols.add({ nameId, parseNodeId: bindingId, typeId })
+	emitBind(symId, valueInstId, bindingId, state)
+	return symId
+}
+
+/**
+ * A record argument as a reference to a record in scope, whose fields
+ * are passed one at a time. A record computed by the argument is bound
+ * to flattened locals first, under a name no identifier can spell.
+ */
+export function recordArgument(
+	argInstId: InstId,
+	state: CheckerState,
+	context: CompilationContext
+): InstId {
+	const inst = state.insts.get(argInstId)
+	if (!state.types.isRecordType(inst.typeId)) return argInstId
+	if (inst.kind === InstKind.VarRef && state.symbols.getRecordFields(getVarRefSymbolId(inst))) {
+		return argInstId
+	}
+	const nodeId = inst.parseNodeId
+	const name = `record$${nodeId}`
+	const recordSymId = bindRecordValue(name, inst.typeId, argInstId, nodeId, state, context)
+	return state.insts.add({
+		arg0: recordSymId as number,
+		arg1: 0,
+		kind: InstKind.VarRef,
+		parseNodeId: nodeId,
+		typeId: inst.typeId,
+	})
+}
@@ -17,6 +17,7 @@ import type { NodeId } from '../core/nodes.ts'
 import { NodeKind, prevNodeId } from '../core/nodes.ts'
 import { TokenKind } from '../core/tokens.ts'
 import { checkExpression } from './expressions.ts'
+import { bindValue } from './record-values.ts'
 import {
 	type BlockContext,
 	type CheckerState,
@@ -222,6 +223,50 @@ function checkMissingRecordFields(
 	}
 }
 
+/**
+ * Flatten the fields of nested record types that are initialized with a
+ * record value, `start = p`, rather than a nested block of their own.
+ */
+function bindRecordFieldValues(
+	baseName: string,
+	fields: readonly FieldInfo[],
+	fieldInits: RecordLiteralContext['fieldInits'],
+	bindingNodeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): void {
+	for (const fieldInit of fieldInits) {
+		const field = fields.find((f) => f.name === fieldInit.name)
+		const { instId } = fieldInit.exprResult
+		if (field && instId !== null && state.types.isRecordType(field.typeId)) {
+			const nameId = context.strings.intern(`${baseName}_${field.name}`)
+			bindValue(nameId, field.typeId, instId, bindingNodeId, state, context)
+		}
+	}
+}
+
+/**
+ * Emit the Bind instruction of one flattened record field symbol.
+ * Nested records are bound through their own fields.
+ */
+function emitRecordFieldBinding(
+	symId: SymbolId,
+	field: FieldInfo,
+	fieldInits: RecordLiteralContext['fieldInits'],
+	bindingNodeId: NodeId,
+	state: CheckerState
+): void {
+	const fieldInit = fieldInits.find((fi: { name: string }) => fi.name === field.name)
+	if (fieldInit?.exprResult.instId === undefined || state.symbols.getRecordFields(symId)) return
+	state.insts.add({
+		arg0: symId as number,
+		arg1: fieldInit.exprResult.instId as number,
+		kind: InstKind.Bind,
+		parseNodeId: bindingNodeId,
+		typeId: field.typeId,
+	})
+}
+
 /**
  * Emit Bind instructions for flattened record field symbols.
  */
@@ -235,16 +280,8 @@ function emitRecordFieldBindings(
 	for (let i = 0; i < fieldSymbolIds.length; i++) {
 		const symId = fieldSymbolIds[i]
 		const field = fields[i]
-		const fieldInit = fieldInits.find((fi: { name: string }) => fi.name === field?.name)
-
-		if (symId !== undefined && fieldInit?.exprResult.instId !== undefined && field) {
-			state.insts.add({
-				arg0: symId as number,
-				arg1: fieldInit.exprResult.instId as number,
-				kind: InstKind.Bind,
-				parseNodeId: bindingNodeId,
-				typeId: field.typeId,
-			})
+		if (symId !== undefined && field) {
+			emitRecordFieldBinding(symId, field, fieldInits, bindingNodeId, state)
 		}
 	}
 }
@@ -262,13 +299,22 @@ function emitFinalizedRecordLiteral(
 ): void {
 	const baseName = context.strings.get(bindingNameId)
 	const fields = state.types.getFields(recordTypeId)
+	bindRecordFieldValues(baseName, fields, fieldInits, bindingNodeId, state, context)
 	const fieldSymbolIds = state.symbols.declareRecordBinding(
 		baseName,
 		fields,
 		bindingNodeId,
-		(name) => context.strings.intern(name)
+		(name) => context.strings.intern(name),
+		state.types
 	)
 	emitRecordFieldBindings(fieldSymbolIds, fields, fieldInits, bindingNodeId, state)
+	state.symbols.declareRecordValue(
+		baseName,
+		recordTypeId,
+		bindingNodeId,
+		(name) => context.strings.intern(name),
+		state.types
+	)
 }
 
 /**
@@ -461,11 +507,13 @@ function emitFinalizedNestedRecordInit(
 	context: CompilationContext
 ): void {
 	const fields = state.types.getFields(ctx.typeId)
+	bindRecordFieldValues(ctx.parentPath, fields, ctx.fieldInits, ctx.nodeId, state, context)
 	const fieldSymbolIds = state.symbols.declareRecordBinding(
 		ctx.parentPath,
 		fields,
 		ctx.nodeId,
-		(name) => context.strings.intern(name)
+		(name) => context.strings.intern(name),
+		state.types
 	)
 	emitRecordFieldBindings(fieldSymbolIds, fields, ctx.fieldInits, ctx.nodeId, state)
 }
@@ -41,8 +41,8 @@ export interface MatchContext {
 	scrutineeNodeId: NodeId
 	/** Expected result type of the match */
 	expectedType: TypeId
-	/** Collected arms (pattern + body) */
-	arms: Array<{ patternNodeId: NodeId; bodyInstId: InstId }>
+	/** Collected arms (pattern + guard + body); guardInstId is null for unguarded arms */
+	arms: Array<{ patternNodeId: NodeId; guardInstId: InstId | null; bodyInstId: InstId }>
 	/** The node ID of the match binding/expr for diagnostics */
 	matchNodeId: NodeId
 	/** Binding name for variable creation after finalization */
@@ -70,6 +70,12 @@ interface BlockContextBase {
 export interface TypeDeclContext extends BlockContextBase {
 	kind: 'TypeDecl'
 	fields: Array<{ name: string; typeId: TypeId; nodeId: NodeId }>
+	/** Variants, when the declaration is a sum type */
+	variants: Array<{
+		name: string
+		nodeId: NodeId
+		fields: Array<{ name: string; typeId: TypeId; nodeId: NodeId }>
+	}>
 }
 
 /**
@@ -128,6 +134,8 @@ export interface CheckerState {
 	unreachableRange: UnreachableRange | null
 	matchContext: MatchContext | null
 	blockContextStack: BlockContext[]
+	/** Whether effectful (`@`) functions may be used: at the top level and in `@` functions */
+	effectsAllowed: boolean
 }
 
 /**
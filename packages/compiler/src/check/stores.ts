@@ -26,7 +26,9 @@ import {
 	type TypeInfo,
 	TypeKind,
 	typeId,
+	type VariantInfo,
 } from './types.ts'
+import { INTEGER_TYPE_BOUNDS } from './utils.ts'
 
 export type FuncId = number & { readonly __brand: 'FuncId' }
 
@@ -34,6 +36,25 @@ export function funcId(n: number): FuncId {
 	return n as FuncId
 }
 
+/** A function implemented by a wasm intrinsic: `extern wasm "i32.clz"` */
+export interface WasmExtern {
+	readonly kind: 'wasm'
+	/** The intrinsic instruction, such as `i32.clz` */
+	readonly opcode: string
+}
+
+/** A function the host provides: `extern host "env" "log"` */
+export interface HostExtern {
+	readonly kind: 'host'
+	/** The module the function is imported from, such as `env` */
+	readonly module: string
+	/** The host's name for the function */
+	readonly name: string
+}
+
+/** A function implemented outside the program rather than by a body. */
+export type ExternFunc = WasmExtern | HostExtern
+
 /**
  * Information about a function stored in FuncStore.
  */
@@ -44,14 +65,20 @@ export interface FuncInfo {
 	readonly typeId: TypeId
 	/** Parse node of the declaration/definition */
 	readonly parseNodeId: NodeId
+	/** Symbol that names the function (null for anonymous lambdas) */
+	readonly symbolId: SymbolId | null
 	/** Body instruction ID (null for forward declarations until defined) */
 	bodyInstId: InstId | null
 	/** All instruction IDs in the body (for expression sequences in multi-line bodies) */
 	bodyInstIds: InstId[]
 	/** Parameter symbols (populated when function is defined) */
 	paramSymbols: SymbolId[]
-	/** Whether the function has been defined (has a body) */
+	/** Bindings of enclosing scopes the body refers to, in capture slot order */
+	captureSymbols: SymbolId[]
+	/** Whether the function has been defined (has a body or is extern) */
 	isDefined: boolean
+	/** What implements the function when it has no body */
+	extern: ExternFunc | null
 }
 
 /**
@@ -149,7 +176,7 @@ export class SymbolStore {
 	private readonly symbols: SymbolEntry[] = []
 	private readonly scopeStack: ScopeFrame[] = []
 	private nextLocalIndex = 0
-	private readonly listBindings: Map<StringId, TypeId> = new Map()
+	private readonly recordFields: Map<SymbolId, readonly SymbolId[]> = new Map()
 
 	constructor() {
 		// Push global scope - never popped
@@ -206,6 +233,11 @@ export class SymbolStore {
 		this.scopeStack.pop()
 	}
 
+	/** Whether bindings added now are top-level: no scope has been pushed. */
+	isGlobalScope(): boolean {
+		return this.scopeStack.length === 1
+	}
+
 	get(id: SymbolId): SymbolEntry {
 		const entry = this.symbols[id]
 		if (entry === undefined) {
@@ -214,6 +246,15 @@ export class SymbolStore {
 		return entry
 	}
 
+	/**
+	 * Give a symbol a narrower type from here on, as a match guard does for
+	 * the binding it tests and a match arm for its scrutinee. Instructions
+	 * already checked keep their types.
+	 */
+	narrow(id: SymbolId, typeId: TypeId): void {
+		this.symbols[id] = { ...this.get(id), typeId }
+	}
+
 	count(): number {
 		return this.symbols.length
 	}
@@ -226,17 +267,22 @@ export class SymbolStore {
 	 * Create flattened symbols for a record binding.
 	 * For p: Point with fields x, y creates $p_x, $p_y locals.
 	 *
+	 * Fields of nested record types must already be flattened; their
+	 * symbols stand for the nested record as a whole.
+	 *
 	 * @param baseName - The variable name (e.g., "p")
 	 * @param fields - Field definitions from the record type
 	 * @param parseNodeId - Parse node of the binding for diagnostics
 	 * @param intern - Function to intern strings (e.g., context.strings.intern)
+	 * @param types - TypeStore to find nested record fields
 	 * @returns Array of SymbolIds for the flattened locals
 	 */
 	declareRecordBinding(
 		baseName: string,
 		fields: readonly FieldInfo[],
 		parseNodeId: NodeId,
-		intern: (name: string) => StringId
+		intern: (name: string) => StringId,
+		types: TypeStore
 	): SymbolId[] {
 		const symbolIds: SymbolId[] = []
 		for (const field of fields) {
@@ -247,55 +293,94 @@ export class SymbolStore {
 				parseNodeId,
 				typeId: field.typeId,
 			})
+			this.linkRecordField(symId, flatName, field, intern, types)
 			symbolIds.push(symId)
 		}
 		return symbolIds
 	}
 
 	/**
-	 * Create flattened symbols for a list binding.
-	 * For arr: [i32; 3] creates $arr_0, $arr_1, $arr_2 locals.
-	 *
-	 * @param baseName - The variable name (e.g., "arr")
-	 * @param listTypeId - The list type ID
-	 * @param parseNodeId - Parse node of the binding for diagnostics
-	 * @param intern - Function to intern strings (e.g., context.strings.intern)
-	 * @param types - TypeStore to resolve list metadata
-	 * @returns Array of SymbolIds for the flattened locals
+	 * Make the symbol of a nested record field stand for its own flattened
+	 * fields, as declared before it.
 	 */
-	declareListBinding(
+	private linkRecordField(
+		symId: SymbolId,
+		flatName: string,
+		field: FieldInfo,
+		intern: (name: string) => StringId,
+		types: TypeStore
+	): void {
+		if (!types.isRecordType(field.typeId)) return
+		this.recordFields.set(symId, this.recordLeaves(flatName, field.typeId, intern, types))
+	}
+
+	/**
+	 * The flattened primitive symbols of a record in scope, in field order:
+	 * $p_x, $p_y for p: Point.
+	 */
+	private recordLeaves(
 		baseName: string,
-		listTypeId: TypeId,
-		parseNodeId: NodeId,
+		recordTypeId: TypeId,
 		intern: (name: string) => StringId,
 		types: TypeStore
 	): SymbolId[] {
-		const size = types.getListSize(listTypeId)
-		const elementTypeId = types.getListElementType(listTypeId)
-
-		if (size === undefined || elementTypeId === undefined) {
-			return []
-		}
+		return types.getFields(recordTypeId).flatMap((field) => {
+			const flatName = `${baseName}_${field.name}`
+			if (types.isRecordType(field.typeId)) {
+				return this.recordLeaves(flatName, field.typeId, intern, types)
+			}
+			const symId = this.lookupByName(intern(flatName))
+			return symId === undefined ? [] : [symId]
+		})
+	}
 
-		const baseNameId = intern(baseName)
-		this.listBindings.set(baseNameId, listTypeId)
+	/**
+	 * Declare a symbol for a record as a whole, standing for its flattened
+	 * fields, which must already be in scope. A reference to it reads every
+	 * field, so records can be passed to and returned from functions.
+	 */
+	declareRecordValue(
+		baseName: string,
+		recordTypeId: TypeId,
+		parseNodeId: NodeId,
+		intern: (name: string) => StringId,
+		types: TypeStore
+	): SymbolId {
+		const leafIds = this.recordLeaves(baseName, recordTypeId, intern, types)
+		const symId = this.add({ nameId: intern(baseName), parseNodeId, typeId: recordTypeId })
+		this.recordFields.set(symId, leafIds)
+		return symId
+	}
 
-		const symbolIds: SymbolId[] = []
-		for (let i = 0; i < size; i++) {
-			const flatName = `${baseName}_${i}`
-			const nameId = intern(flatName)
-			const symId = this.add({
-				nameId,
-				parseNodeId,
-				typeId: elementTypeId,
-			})
-			symbolIds.push(symId)
+	/**
+	 * Declare a record's flattened fields, nested records included, and
+	 * the symbol for the record as a whole. For parameters and records
+	 * bound from a call, whose fields have no initializers of their own.
+	 */
+	declareFlattenedRecord(
+		baseName: string,
+		recordTypeId: TypeId,
+		parseNodeId: NodeId,
+		intern: (name: string) => StringId,
+		types: TypeStore
+	): SymbolId {
+		for (const field of types.getFields(recordTypeId)) {
+			const flatName = `${baseName}_${field.name}`
+			if (types.isRecordType(field.typeId)) {
+				this.declareFlattenedRecord(flatName, field.typeId, parseNodeId, intern, types)
+			} else {
+				this.add({ nameId: intern(flatName), parseNodeId, typeId: field.typeId })
+			}
 		}
-		return symbolIds
+		return this.declareRecordValue(baseName, recordTypeId, parseNodeId, intern, types)
 	}
 
-	getListBinding(nameId: StringId): TypeId | undefined {
-		return this.listBindings.get(nameId)
+	/**
+	 * The flattened primitive symbols a record symbol stands for, or
+	 * undefined for a symbol that is not a record as a whole.
+	 */
+	getRecordFields(id: SymbolId): readonly SymbolId[] | undefined {
+		return this.recordFields.get(id)
 	}
 
 	*[Symbol.iterator](): Generator<[SymbolId, SymbolEntry]> {
@@ -306,13 +391,51 @@ export class SymbolStore {
 	}
 }
 
+/**
+ * Whether every value within `inner` bounds is within `outer` bounds.
+ * An end `inner` leaves open is the base type's own limit, so
+ * `i32<min=0>` fits `i32<min=0, max=2147483647>`.
+ */
+function boundsContain(
+	outer: TypeConstraints | undefined,
+	inner: TypeConstraints,
+	baseTypeId: TypeId
+): boolean {
+	const limits = INTEGER_TYPE_BOUNDS.get(baseTypeId)
+	return (
+		lowerBoundHolds(outer?.min, inner.min ?? limits?.min) &&
+		upperBoundHolds(outer?.max, inner.max ?? limits?.max)
+	)
+}
+
+function lowerBoundHolds(outer: bigint | undefined, inner: bigint | undefined): boolean {
+	if (outer === undefined) return true
+	return inner !== undefined && inner >= outer
+}
+
+function upperBoundHolds(outer: bigint | undefined, inner: bigint | undefined): boolean {
+	if (outer === undefined) return true
+	return inner !== undefined && inner <= outer
+}
+
+/** Kinds represented by the type they wrap. */
+const WRAPPING_KINDS: ReadonlySet<TypeKind> = new Set([
+	TypeKind.Distinct,
+	TypeKind.Refined,
+	TypeKind.Record,
+	TypeKind.Sum,
+])
+
+/** Kinds represented by an address in linear memory. */
+const ADDRESS_KINDS: ReadonlySet<TypeKind> = new Set([TypeKind.Func, TypeKind.List])
+
 /**
  * Dense array storage for types.
  * Bootstrapped with primitive types at indices 0-4.
  * Append-only during the check phase.
  *
  * TinyWhale uses nominal types:
- * - Primitives (i32, i64, f32, f64) are first-class structural types
+ * - Primitives (i32, i64, u32, u64, f32, f64, bool) are first-class structural types
  * - All `type X = T` declarations create distinct (incompatible) types
  * - Type checking is O(1) via integer comparison
  */
@@ -330,6 +453,11 @@ export class TypeStore {
 		this.addBuiltin(TypeKind.I64, 'i64')
 		this.addBuiltin(TypeKind.F32, 'f32')
 		this.addBuiltin(TypeKind.F64, 'f64')
+		this.addBuiltin(TypeKind.U32, 'u32')
+		this.addBuiltin(TypeKind.U64, 'u64')
+		this.addBuiltin(TypeKind.Bool, 'bool')
+		// Source spells the result of functions that return nothing `None`
+		this.addAlias('None', BuiltinTypeId.None)
 	}
 
 	private addBuiltin(kind: TypeKind, name: string): void {
@@ -391,11 +519,24 @@ export class TypeStore {
 
 	/**
 	 * Check if subType is a subtype of superType.
-	 * None (bottom/Never type) is a subtype of all types.
+	 * None (bottom/Never type) is a subtype of all types. A refined type is
+	 * a subtype of its base, and of refinements of its base whose bounds
+	 * contain its own: `i32<min=1>` widens to `i32<min=0>` and `i32`.
 	 */
 	isSubtype(subType: TypeId, superType: TypeId): boolean {
 		if (subType === BuiltinTypeId.None) return true // Never <: T for all T
-		return subType === superType
+		if (subType === superType) return true
+		const constraints = this.getConstraints(subType)
+		if (constraints === undefined) return false
+		const baseTypeId = this.unrefined(subType)
+		if (baseTypeId !== this.unrefined(superType)) return false
+		return boundsContain(this.getConstraints(superType), constraints, baseTypeId)
+	}
+
+	/** The type a refined type refines; any other type is its own. */
+	unrefined(id: TypeId): TypeId {
+		const info = this.types[id]
+		return info?.kind === TypeKind.Refined ? info.underlying : id
 	}
 
 	typeName(id: TypeId): string {
@@ -406,18 +547,24 @@ export class TypeStore {
 		return info?.name ?? `<unknown type ${id}>`
 	}
 
+	/**
+	 * The type that represents values of a type in WebAssembly.
+	 * Function values are addresses of closure records in linear memory,
+	 * and lists are addresses of their elements there.
+	 * Tuples are their own representation: a WebAssembly multi-value.
+	 * Sum types are a tag and their variants' fields, or just the tag.
+	 * Records are their fields, nested records expanded in place.
+	 */
 	toWasmType(id: TypeId): TypeId {
-		if (id === BuiltinTypeId.Invalid) {
-			return BuiltinTypeId.Invalid
-		}
+		// Invalid (-1) has no entry
 		const info = this.types[id]
 		if (!info) {
 			return BuiltinTypeId.Invalid
 		}
-		if (info.kind === TypeKind.Distinct || info.kind === TypeKind.Refined) {
+		if (WRAPPING_KINDS.has(info.kind)) {
 			return this.toWasmType(info.underlying)
 		}
-		return id
+		return ADDRESS_KINDS.has(info.kind) ? BuiltinTypeId.I32 : id
 	}
 
 	count(): number {
@@ -428,14 +575,29 @@ export class TypeStore {
 		return id >= 0 && id < this.types.length
 	}
 
+	/**
+	 * The WebAssembly values of a type, one per element of a multi-value.
+	 */
+	private wasmSlotTypes(id: TypeId): readonly TypeId[] {
+		const wasmType = this.toWasmType(id)
+		return this.getTupleElementTypes(wasmType) ?? [wasmType]
+	}
+
+	/**
+	 * Register a record type. Its values are its fields, one after
+	 * another, as a WebAssembly multi-value when there is more than one.
+	 */
 	registerRecordType(name: string, fields: FieldInfo[], parseNodeId: NodeId | null): TypeId {
+		const slotTypes = fields.flatMap((field) => this.wasmSlotTypes(field.typeId))
+		const underlying =
+			slotTypes.length === 1 ? (slotTypes[0] as TypeId) : this.registerTupleType(slotTypes)
 		const id = typeId(this.types.length)
 		const info: TypeInfo = {
 			fields,
 			kind: TypeKind.Record,
 			name,
 			parseNodeId,
-			underlying: id,
+			underlying,
 		}
 		this.types.push(info)
 		this.nameToId.set(name, id)
@@ -619,6 +781,103 @@ export class TypeStore {
 		return info.funcInfo
 	}
 
+	private readonly tupleTypeCache: Map<string, TypeId> = new Map()
+
+	/**
+	 * Register a tuple type.
+	 * Tuple types are interned - same element types = same TypeId.
+	 */
+	registerTupleType(elementTypeIds: readonly TypeId[]): TypeId {
+		const cacheKey = elementTypeIds.join(',')
+		const existing = this.tupleTypeCache.get(cacheKey)
+		if (existing !== undefined) {
+			return existing
+		}
+
+		const elementNames = elementTypeIds.map((t) => this.typeName(t)).join(', ')
+		const id = typeId(this.types.length)
+		const info: TypeInfo = {
+			elementTypeIds,
+			kind: TypeKind.Tuple,
+			name: `{${elementNames}}`,
+			parseNodeId: null,
+			underlying: id,
+		}
+		this.types.push(info)
+		this.tupleTypeCache.set(cacheKey, id)
+		return id
+	}
+
+	isTupleType(id: TypeId): boolean {
+		const info = this.types[id]
+		return info?.kind === TypeKind.Tuple
+	}
+
+	/** Whether values of a type are WebAssembly multi-values, like tuples. */
+	isMultiValueType(id: TypeId): boolean {
+		return this.isTupleType(this.toWasmType(id))
+	}
+
+	getTupleElementTypes(id: TypeId): readonly TypeId[] | undefined {
+		const info = this.types[id]
+		if (info?.kind !== TypeKind.Tuple) {
+			return undefined
+		}
+		return info.elementTypeIds
+	}
+
+	private readonly variantToType: Map<string, TypeId> = new Map()
+
+	/**
+	 * Register a sum type. Variants are tagged in declaration order and
+	 * their fields laid out one after another after the tag.
+	 */
+	registerSumType(
+		name: string,
+		variants: readonly Omit<VariantInfo, 'tag' | 'firstSlot'>[],
+		parseNodeId: NodeId | null
+	): TypeId {
+		const slotTypes: TypeId[] = [BuiltinTypeId.I32]
+		const variantInfos = variants.map((variant, tag): VariantInfo => {
+			const firstSlot = slotTypes.length
+			slotTypes.push(...variant.fields.map((field) => this.toWasmType(field.typeId)))
+			return { ...variant, firstSlot, tag }
+		})
+		const underlying =
+			slotTypes.length === 1 ? BuiltinTypeId.I32 : this.registerTupleType(slotTypes)
+
+		const id = typeId(this.types.length)
+		const info: TypeInfo = {
+			kind: TypeKind.Sum,
+			name,
+			parseNodeId,
+			underlying,
+			variants: variantInfos,
+		}
+		this.types.push(info)
+		this.nameToId.set(name, id)
+		for (const variant of variantInfos) this.variantToType.set(variant.name, id)
+		return id
+	}
+
+	isSumType(id: TypeId): boolean {
+		const info = this.types[id]
+		return info?.kind === TypeKind.Sum
+	}
+
+	getVariants(id: TypeId): readonly VariantInfo[] {
+		const info = this.types[id]
+		return info?.variants ?? []
+	}
+
+	/** The sum type that declares a variant, and the variant itself. */
+	lookupVariant(name: string): { typeId: TypeId; variant: VariantInfo } | undefined {
+		const id = this.variantToType.get(name)
+		if (id === undefined) return undefined
+		const variant = this.getVariants(id).find((v) => v.name === name)
+		return variant && { typeId: id, variant }
+	}
+
 	*[Symbol.iterator](): Generator<[TypeId, TypeInfo]> {
 		for (let i = 0; i < this.types.length; i++) {
 			const info = this.types[i]
@@ -634,12 +893,18 @@ export class TypeStore {
 export class FuncStore {
 	private readonly funcs: FuncInfo[] = []
 	private readonly byName: Map<StringId, FuncId> = new Map()
+	private readonly bySymbol: Map<SymbolId, FuncId> = new Map()
 
 	/**
 	 * Declare a forward function (type only, no body yet).
 	 * If the function already exists, returns the existing FuncId.
 	 */
-	declareForward(nameId: StringId, typeId: TypeId, parseNodeId: NodeId): FuncId {
+	declareForward(
+		nameId: StringId,
+		typeId: TypeId,
+		parseNodeId: NodeId,
+		symbolId: SymbolId | null
+	): FuncId {
 		const existing = this.byName.get(nameId)
 		if (existing !== undefined) {
 			return existing
@@ -649,13 +914,17 @@ export class FuncStore {
 		this.funcs.push({
 			bodyInstId: null,
 			bodyInstIds: [],
+			captureSymbols: [],
+			extern: null,
 			isDefined: false,
 			nameId,
 			paramSymbols: [],
 			parseNodeId,
+			symbolId,
 			typeId,
 		})
 		this.byName.set(nameId, id)
+		if (symbolId !== null) this.bySymbol.set(symbolId, id)
 		return id
 	}
 
@@ -667,7 +936,8 @@ export class FuncStore {
 		id: FuncId,
 		bodyInstId: InstId,
 		bodyInstIds: InstId[],
-		paramSymbols: SymbolId[]
+		paramSymbols: SymbolId[],
+		captureSymbols: SymbolId[]
 	): void {
 		const func = this.funcs[id]
 		if (func === undefined) {
@@ -676,6 +946,17 @@ export class FuncStore {
 		func.bodyInstId = bodyInstId
 		func.bodyInstIds = bodyInstIds
 		func.paramSymbols = paramSymbols
+		func.captureSymbols = captureSymbols
+		func.isDefined = true
+	}
+
+	/**
+	 * Define a function as extern: calls go to the extern instead of a body.
+	 * Must have been declared first via declareForward.
+	 */
+	defineExtern(id: FuncId, extern: ExternFunc): void {
+		const func = this.get(id)
+		func.extern = extern
 		func.isDefined = true
 	}
 
@@ -683,6 +964,11 @@ export class FuncStore {
 		return this.byName.get(nameId)
 	}
 
+	/** The function a symbol names, if it names one. */
+	getBySymbol(symbolId: SymbolId): FuncId | undefined {
+		return this.bySymbol.get(symbolId)
+	}
+
 	get(id: FuncId): FuncInfo {
 		const func = this.funcs[id]
 		if (func === undefined) {
@@ -0,0 +1,60 @@
+/**
+ * Tail calls for the Check and Emit phases.
+ *
+ * A call is in tail position when its value is the value of the function
+ * making it: the body's result, or the right operand of a `&&` or `||`
+ * there, which the operator passes through unchanged. A tail call can
+ * reuse the caller's frame, so recursion through tail calls runs in
+ * constant stack space.
+ */
+
+import type { InstStore } from './stores.ts'
+import {
+	getCallCalleeId,
+	getLogicalAndRightId,
+	getLogicalOrRightId,
+	getVarRefSymbolId,
+	type Inst,
+	type InstId,
+	InstKind,
+	type SymbolId,
+} from './types.ts'
+
+/**
+ * The calls in tail position of a function whose body's value is
+ * `resultInstId`.
+ */
+export function tailCalls(resultInstId: InstId, insts: InstStore): InstId[] {
+	const inst = insts.get(resultInstId)
+	switch (inst.kind) {
+		case InstKind.Call:
+			return [resultInstId]
+		case InstKind.LogicalAnd:
+			return tailCalls(getLogicalAndRightId(inst), insts)
+		case InstKind.LogicalOr:
+			return tailCalls(getLogicalOrRightId(inst), insts)
+		default:
+			return []
+	}
+}
+
+function callsSymbol(inst: Inst, symbolId: SymbolId, insts: InstStore): boolean {
+	if (inst.kind !== InstKind.Call) return false
+	const callee = insts.get(getCallCalleeId(inst))
+	return callee.kind === InstKind.VarRef && getVarRefSymbolId(callee) === symbolId
+}
+
+/**
+ * The calls among a function's body instructions that call the function
+ * itself, through its symbol, outside tail position. Calls from lambdas
+ * nested in the body count: they run in frames of their own.
+ */
+export function nonTailSelfCalls(
+	symbolId: SymbolId,
+	resultInstId: InstId,
+	bodyInstIds: readonly InstId[],
+	insts: InstStore
+): InstId[] {
+	const tail = new Set(tailCalls(resultInstId, insts))
+	return bodyInstIds.filter((id) => !tail.has(id) && callsSymbol(insts.get(id), symbolId, insts))
+}
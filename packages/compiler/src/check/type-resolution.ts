@@ -6,6 +6,9 @@
  * - List type resolution with size validation
  * - User-defined type resolution
  * - Bounded primitive resolution (type bounds like `i32<min=0, max=100>`)
+ * - Function type resolution (`(i32, i32) -> i32`)
+ * - Tuple type resolution (`{i32, f64}`)
+ * - Numeric conversion rules (`x as i64`)
  * - Refinement constraint checking
  * - Integer constant emission helpers
  */
@@ -34,10 +37,16 @@ export function getTypeNameFromToken(
 			return { name: 'i32', typeId: BuiltinTypeId.I32 }
 		case TokenKind.I64:
 			return { name: 'i64', typeId: BuiltinTypeId.I64 }
+		case TokenKind.U32:
+			return { name: 'u32', typeId: BuiltinTypeId.U32 }
+		case TokenKind.U64:
+			return { name: 'u64', typeId: BuiltinTypeId.U64 }
 		case TokenKind.F32:
 			return { name: 'f32', typeId: BuiltinTypeId.F32 }
 		case TokenKind.F64:
 			return { name: 'f64', typeId: BuiltinTypeId.F64 }
+		case TokenKind.Bool:
+			return { name: 'bool', typeId: BuiltinTypeId.Bool }
 		default:
 			return null
 	}
@@ -144,7 +153,8 @@ function resolveListElementTypeForList(
 // ============================================================================
 
 /**
- * Resolve a list type from a ListType node.
+ * Resolve a list type from a ListType node. Elements are stored in
+ * linear memory, so they must be single values.
  */
 export function resolveListType(
 	listTypeId: NodeId,
@@ -164,6 +174,11 @@ export function resolveListType(
 		emitListElementTypeError(listTypeId, context)
 		return null
 	}
+	if (!isTupleElementType(elementTypeId, state)) {
+		const type = state.types.typeName(elementTypeId)
+		context.emitAtNode('TWCHECK045' as DiagnosticCode, listTypeId, { type })
+		return null
+	}
 
 	const typeId = state.types.registerListType(elementTypeId, size)
 	return { name: state.types.typeName(typeId), typeId }
@@ -313,19 +328,259 @@ export function resolveRefinementType(
 	return applyRefinementConstraints(baseType, constraints, refinementTypeId, state, context)
 }
 
+// ============================================================================
+// Function Type Resolution
+// ============================================================================
+
+const PRIMITIVE_TYPE_MAP: ReadonlyMap<TokenKind, TypeId> = new Map([
+	[TokenKind.I32, BuiltinTypeId.I32],
+	[TokenKind.I64, BuiltinTypeId.I64],
+	[TokenKind.U32, BuiltinTypeId.U32],
+	[TokenKind.U64, BuiltinTypeId.U64],
+	[TokenKind.F32, BuiltinTypeId.F32],
+	[TokenKind.F64, BuiltinTypeId.F64],
+	[TokenKind.Bool, BuiltinTypeId.Bool],
+])
+
+function resolvePrimitiveType(tokenKind: TokenKind): TypeId | null {
+	return PRIMITIVE_TYPE_MAP.get(tokenKind) ?? null
+}
+
+function resolveUserType(
+	tokenKind: TokenKind,
+	payload: StringId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId | null {
+	if (tokenKind !== TokenKind.Identifier) return null
+	const typeName = context.strings.get(payload)
+	return state.types.lookup(typeName) ?? null
+}
+
+function resolveTypeRef(
+	nodeId: NodeId,
+	kind: NodeKind,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId | null {
+	if (kind === NodeKind.TypeAnnotation) {
+		const resolved = resolveTypeFromAnnotation(nodeId, state, context)
+		return resolved?.typeId ?? null
+	}
+
+	const node = context.nodes.get(nodeId)
+	const token = context.tokens.get(node.tokenId)
+
+	return (
+		resolvePrimitiveType(token.kind) ??
+		resolveUserType(token.kind, token.payload as StringId, state, context)
+	)
+}
+
+function collectTypeListParams(
+	typeListId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId[] {
+	const paramTypes: TypeId[] = []
+	for (const [typeId, typeNode] of context.nodes.iterateChildren(typeListId)) {
+		const resolved = resolveTypeRef(typeId, typeNode.kind, state, context)
+		if (resolved !== null) {
+			paramTypes.unshift(rejectTupleType(resolved, typeId, state, context))
+		}
+	}
+	return paramTypes
+}
+
+function resolveReturnTypeFromChild(
+	childId: NodeId,
+	childKind: NodeKind,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId | null {
+	if (childKind === NodeKind.TypeAnnotation) {
+		const resolved = resolveTypeFromAnnotation(childId, state, context)
+		return resolved?.typeId ?? null
+	}
+	return resolveTypeRef(childId, childKind, state, context)
+}
+
+function extractFuncTypeParams(
+	funcTypeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId[] {
+	for (const [childId, child] of context.nodes.iterateChildren(funcTypeId)) {
+		if (child.kind === NodeKind.TypeList) {
+			return collectTypeListParams(childId, state, context)
+		}
+	}
+	return []
+}
+
+function tryExtractReturnType(
+	childId: NodeId,
+	childKind: NodeKind,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId | null {
+	if (childKind === NodeKind.TypeList) return null
+	return resolveReturnTypeFromChild(childId, childKind, state, context)
+}
+
+function extractFuncTypeReturn(
+	funcTypeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId {
+	for (const [childId, child] of context.nodes.iterateChildren(funcTypeId)) {
+		const resolved = tryExtractReturnType(childId, child.kind, state, context)
+		if (resolved !== null) return resolved
+	}
+	return BuiltinTypeId.None
+}
+
+/**
+ * Resolve a FuncType node to a TypeId.
+ */
+export function resolveFuncType(
+	funcTypeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId {
+	const paramTypes = extractFuncTypeParams(funcTypeId, state, context)
+	const returnType = extractFuncTypeReturn(funcTypeId, state, context)
+	return state.types.registerFuncType(paramTypes, returnType)
+}
+
+// ============================================================================
+// Tuple Type Resolution
+// ============================================================================
+
+/**
+ * Whether a type can be a tuple element: anything represented by a single
+ * WebAssembly value. Nested tuples, records and lists cannot.
+ */
+export function isTupleElementType(typeId: TypeId, state: CheckerState): boolean {
+	if (state.types.isRecordType(typeId)) return false
+	const wasmTypeId = state.types.toWasmType(typeId)
+	return (
+		wasmTypeId === BuiltinTypeId.I32 ||
+		wasmTypeId === BuiltinTypeId.I64 ||
+		wasmTypeId === BuiltinTypeId.U32 ||
+		wasmTypeId === BuiltinTypeId.U64 ||
+		wasmTypeId === BuiltinTypeId.F32 ||
+		wasmTypeId === BuiltinTypeId.F64 ||
+		wasmTypeId === BuiltinTypeId.Bool
+	)
+}
+
+/**
+ * Reject a tuple, or a sum type with fields, where a single value is
+ * required, such as a parameter. Records are passed one field at a time.
+ * Returns the type unchanged, or Invalid after emitting TWCHECK045.
+ */
+export function rejectTupleType(
+	typeId: TypeId,
+	nodeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId {
+	if (!state.types.isMultiValueType(typeId) || state.types.isRecordType(typeId)) return typeId
+	context.emitAtNode('TWCHECK045' as DiagnosticCode, nodeId, { type: state.types.typeName(typeId) })
+	return BuiltinTypeId.Invalid
+}
+
+function resolveTupleElement(
+	elementId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId | null {
+	const resolved = resolveTypeFromAnnotation(elementId, state, context)
+	if (!resolved) return null
+	if (isTupleElementType(resolved.typeId, state)) return resolved.typeId
+	context.emitAtNode('TWCHECK045' as DiagnosticCode, elementId, { type: resolved.name })
+	return null
+}
+
+/**
+ * Resolve a TupleType node to a TypeId, or null if an element does not resolve.
+ */
+export function resolveTupleType(
+	tupleTypeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): TypeId | null {
+	const elementTypeIds: TypeId[] = []
+	for (const [elementId] of context.nodes.iterateChildren(tupleTypeId)) {
+		const elementTypeId = resolveTupleElement(elementId, state, context)
+		if (elementTypeId === null) return null
+		elementTypeIds.unshift(elementTypeId)
+	}
+	return state.types.registerTupleType(elementTypeIds)
+}
+
 // ============================================================================
 // Main Type Resolution
 // ============================================================================
 
+/**
+ * Resolve a type named by the annotation's token: a primitive or a user-defined type.
+ */
+function resolveNamedType(
+	typeAnnotationId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): { name: string; typeId: TypeId } | null {
+	const typeAnnotationNode = context.nodes.get(typeAnnotationId)
+	const typeToken = context.tokens.get(typeAnnotationNode.tokenId)
+
+	const primitiveType = getTypeNameFromToken(typeToken.kind)
+	if (primitiveType) return primitiveType
+
+	if (typeToken.kind === TokenKind.Identifier) {
+		const typeName = context.strings.get(typeToken.payload as StringId)
+		return resolveUserDefinedType(typeName, state)
+	}
+
+	return null
+}
+
+/**
+ * Resolve a tuple type written in an annotation, if it is one.
+ */
+function resolveTupleTypeChild(
+	typeAnnotationId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): { name: string; typeId: TypeId } | null | undefined {
+	const tupleTypeChildId = findChildByKind(typeAnnotationId, NodeKind.TupleType, context)
+	if (tupleTypeChildId === null) return undefined
+	const tupleTypeId = resolveTupleType(tupleTypeChildId, state, context)
+	return tupleTypeId === null
+		? null
+		: { name: state.types.typeName(tupleTypeId), typeId: tupleTypeId }
+}
+
 /**
  * Resolve a type from a TypeAnnotation node.
- * Handles list types, refinement types, primitive types, and user-defined types.
+ * Handles function types, tuple types, list types, refinement types, primitive types,
+ * and user-defined types.
  */
 export function resolveTypeFromAnnotation(
 	typeAnnotationId: NodeId,
 	state: CheckerState,
 	context: CompilationContext
 ): { name: string; typeId: TypeId } | null {
+	const tupleType = resolveTupleTypeChild(typeAnnotationId, state, context)
+	if (tupleType !== undefined) return tupleType
+
+	const funcTypeChildId = findChildByKind(typeAnnotationId, NodeKind.FuncType, context)
+	if (funcTypeChildId !== null) {
+		const funcTypeId = resolveFuncType(funcTypeChildId, state, context)
+		return { name: state.types.typeName(funcTypeId), typeId: funcTypeId }
+	}
+
 	const listTypeChildId = findListTypeChild(typeAnnotationId, context)
 	if (listTypeChildId !== null) {
 		return resolveListType(listTypeChildId, state, context)
@@ -336,18 +591,115 @@ export function resolveTypeFromAnnotation(
 		return resolveRefinementType(refinementTypeId, state, context)
 	}
 
-	const typeAnnotationNode = context.nodes.get(typeAnnotationId)
-	const typeToken = context.tokens.get(typeAnnotationNode.tokenId)
+	return resolveNamedType(typeAnnotationId, state, context)
+}
 
-	const primitiveType = getTypeNameFromToken(typeToken.kind)
-	if (primitiveType) return primitiveType
+// ============================================================================
+// Numeric Conversions
+// ============================================================================
 
-	if (typeToken.kind === TokenKind.Identifier) {
-		const typeName = context.strings.get(typeToken.payload as StringId)
-		return resolveUserDefinedType(typeName, state)
-	}
+/**
+ * The type a conversion's type keyword names: `i64` in `x as i64`.
+ */
+export function resolveConversionType(tokenKind: TokenKind): TypeId {
+	return resolvePrimitiveType(tokenKind) ?? BuiltinTypeId.Invalid
+}
 
-	return null
+/**
+ * The instruction `as` converts with, from one numeric type to another,
+ * named the way `extern wasm` names it. Integers extend as signed or
+ * unsigned, as the type converted from is, or wrap. Floats truncate
+ * toward zero, trapping when the result does not fit the integer type.
+ */
+const CONVERSIONS: ReadonlyMap<TypeId, ReadonlyMap<TypeId, string>> = new Map([
+	[
+		BuiltinTypeId.I32,
+		new Map([
+			[BuiltinTypeId.I64, 'i64.extend_i32_s'],
+			[BuiltinTypeId.U64, 'i64.extend_i32_s'],
+			[BuiltinTypeId.F32, 'f32.convert_i32_s'],
+			[BuiltinTypeId.F64, 'f64.convert_i32_s'],
+		]),
+	],
+	[
+		BuiltinTypeId.U32,
+		new Map([
+			[BuiltinTypeId.I64, 'i64.extend_i32_u'],
+			[BuiltinTypeId.U64, 'i64.extend_i32_u'],
+			[BuiltinTypeId.F32, 'f32.convert_i32_u'],
+			[BuiltinTypeId.F64, 'f64.convert_i32_u'],
+		]),
+	],
+	[
+		BuiltinTypeId.I64,
+		new Map([
+			[BuiltinTypeId.I32, 'i32.wrap_i64'],
+			[BuiltinTypeId.U32, 'i32.wrap_i64'],
+			[BuiltinTypeId.F32, 'f32.convert_i64_s'],
+			[BuiltinTypeId.F64, 'f64.convert_i64_s'],
+		]),
+	],
+	[
+		BuiltinTypeId.U64,
+		new Map([
+			[BuiltinTypeId.I32, 'i32.wrap_i64'],
+			[BuiltinTypeId.U32, 'i32.wrap_i64'],
+			[BuiltinTypeId.F32, 'f32.convert_i64_u'],
+			[BuiltinTypeId.F64, 'f64.convert_i64_u'],
+		]),
+	],
+	[
+		BuiltinTypeId.F32,
+		new Map([
+			[BuiltinTypeId.I32, 'i32.trunc_f32_s'],
+			[BuiltinTypeId.I64, 'i64.trunc_f32_s'],
+			[BuiltinTypeId.U32, 'i32.trunc_f32_u'],
+			[BuiltinTypeId.U64, 'i64.trunc_f32_u'],
+			[BuiltinTypeId.F64, 'f64.promote_f32'],
+		]),
+	],
+	[
+		BuiltinTypeId.F64,
+		new Map([
+			[BuiltinTypeId.I32, 'i32.trunc_f64_s'],
+			[BuiltinTypeId.I64, 'i64.trunc_f64_s'],
+			[BuiltinTypeId.U32, 'i32.trunc_f64_u'],
+			[BuiltinTypeId.U64, 'i64.trunc_f64_u'],
+			[BuiltinTypeId.F32, 'f32.demote_f64'],
+		]),
+	],
+])
+
+/** The instruction converting `fromTypeId` to `toTypeId`, or null when none does. */
+export function conversionOpcode(fromTypeId: TypeId, toTypeId: TypeId): string | null {
+	return CONVERSIONS.get(fromTypeId)?.get(toTypeId) ?? null
+}
+
+/** Signed and unsigned integer types of the same width, each paired with the other. */
+const SAME_WIDTH_INTEGERS: ReadonlyMap<TypeId, TypeId> = new Map([
+	[BuiltinTypeId.I32, BuiltinTypeId.U32],
+	[BuiltinTypeId.U32, BuiltinTypeId.I32],
+	[BuiltinTypeId.I64, BuiltinTypeId.U64],
+	[BuiltinTypeId.U64, BuiltinTypeId.I64],
+])
+
+/**
+ * Whether converting `fromTypeId` to `toTypeId` keeps the bits of the
+ * value and only reads them differently: `-1 as u32` is 4294967295.
+ */
+export function isReinterpretation(fromTypeId: TypeId, toTypeId: TypeId): boolean {
+	return SAME_WIDTH_INTEGERS.get(fromTypeId) === toTypeId
+}
+
+/**
+ * Whether `as` converts a value of one type to another. Every numeric
+ * type converts to every other, and to itself, which does nothing. A
+ * bounded value converts as the type it refines.
+ */
+export function isConvertible(fromTypeId: TypeId, toTypeId: TypeId, state: CheckerState): boolean {
+	const from = state.types.unrefined(fromTypeId)
+	if (from === toTypeId) return CONVERSIONS.has(from)
+	return isReinterpretation(from, toTypeId) || conversionOpcode(from, toTypeId) !== null
 }
 
 // ============================================================================
@@ -49,8 +49,16 @@ export const InstKind = {
 	Bind: 20,
 	/** Bitwise NOT: arg0 = operand InstId */
 	BitwiseNot: 31,
-	/** Function call: arg0 = callee InstId, arg1 = argument count */
+	/** List bounds check: arg0 = index InstId, arg1 = list size. Traps unless 0 <= index < size. */
+	BoundsCheck: 60,
+	/** Function call: arg0 = callee InstId, arg1 = argument count. Preceded by its CallArgs. */
 	Call: 52,
+	/** Call argument: arg0 = argument InstId. A Call's arguments immediately precede it. */
+	CallArg: 54,
+	/** Numeric conversion: arg0 = operand InstId, converted to the instruction's type */
+	Convert: 35,
+	/** Call run for its effects: arg0 = call InstId. Its value, if any, is dropped. */
+	Discard: 59,
 	/** Field access: arg0 = base InstId, arg1 = field index */
 	FieldAccess: 22,
 	/** Float constant: arg0 = FloatId (index into FloatStore) */
@@ -59,8 +67,16 @@ export const InstKind = {
 	FuncDecl: 50,
 	/** Function definition: arg0 = FuncId, arg1 = body InstId */
 	FuncDef: 51,
+	/** Function value: arg0 = FuncId */
+	FuncRef: 55,
 	/** Integer constant: arg0 = low 32 bits, arg1 = high 32 bits (for i64) */
 	IntConst: 10,
+	/** List element: arg0 = element InstId. A ListMake's elements immediately precede it. */
+	ListElement: 61,
+	/** List element read: arg0 = list InstId, arg1 = index InstId */
+	ListIndex: 62,
+	/** List construction in linear memory: arg0 = element count. Preceded by its ListElements. */
+	ListMake: 63,
 	/** Logical AND (short-circuit): arg0 = left InstId, arg1 = right InstId */
 	LogicalAnd: 33,
 	/** Logical OR (short-circuit): arg0 = left InstId, arg1 = right InstId */
@@ -69,12 +85,22 @@ export const InstKind = {
 	Match: 40,
 	/** Match arm: arg0 = pattern InstId, arg1 = body InstId */
 	MatchArm: 41,
+	/** Match arm guard: arg0 = condition InstId. Immediately precedes its MatchArm. */
+	MatchGuard: 43,
 	/** Unary negation: arg0 = operand InstId */
 	Negate: 30,
 	/** Parameter reference: arg0 = parameter index */
 	Param: 53,
 	/** Pattern binding: arg0 = SymbolId, arg1 = scrutinee InstId */
 	PatternBind: 42,
+	/** Checked conversion: arg0 = value InstId. Traps unless the value fits the instruction's type. */
+	RefinementCheck: 64,
+	/** Tuple element: arg0 = element InstId. A TupleMake's elements immediately precede it. */
+	TupleElement: 56,
+	/** Tuple element read: arg0 = tuple InstId, arg1 = element index */
+	TupleExtract: 58,
+	/** Tuple construction: arg0 = element count. Preceded by its TupleElements. */
+	TupleMake: 57,
 	/** panic - unconditional trap, terminates control flow */
 	Unreachable: 0,
 	/** Variable reference: arg0 = SymbolId */
@@ -87,11 +113,13 @@ export type InstKind = (typeof InstKind)[keyof typeof InstKind]
  * Type kinds for the type system.
  *
  * TinyWhale uses nominal types:
- * - Primitives (i32, i64, f32, f64) are first-class types
+ * - Primitives (i32, i64, u32, u64, f32, f64, bool) are first-class types
  * - All `type X = T` declarations create distinct (incompatible) types
  * - No aliases exist - every type declaration is nominal
  */
 export const TypeKind = {
+	/** Boolean: true or false */
+	Bool: 14,
 	/** Distinct type - every `type` declaration creates one of these */
 	Distinct: 5,
 	/** 32-bit IEEE 754 float */
@@ -112,6 +140,14 @@ export const TypeKind = {
 	Record: 6,
 	/** Refined type with constraints (min/max) */
 	Refined: 8,
+	/** Sum type: one of several named variants */
+	Sum: 11,
+	/** Tuple type: {T1, T2, ...} */
+	Tuple: 10,
+	/** 32-bit unsigned integer */
+	U32: 12,
+	/** 64-bit unsigned integer */
+	U64: 13,
 } as const
 
 export type TypeKind = (typeof TypeKind)[keyof typeof TypeKind]
@@ -121,6 +157,8 @@ export type TypeKind = (typeof TypeKind)[keyof typeof TypeKind]
  * These are pre-populated in TypeStore at construction.
  */
 export const BuiltinTypeId = {
+	/** Boolean: true or false */
+	Bool: typeId(7),
 	/** 32-bit IEEE 754 float */
 	F32: typeId(3),
 	/** 64-bit IEEE 754 float */
@@ -133,6 +171,10 @@ export const BuiltinTypeId = {
 	Invalid: typeId(-1),
 	/** No value (for instructions that don't produce a result, like panic) */
 	None: typeId(0),
+	/** 32-bit unsigned integer */
+	U32: typeId(5),
+	/** 64-bit unsigned integer */
+	U64: typeId(6),
 } as const
 
 /**
@@ -144,6 +186,24 @@ export interface FieldInfo {
 	readonly index: number
 }
 
+/**
+ * Information about a variant of a sum type.
+ *
+ * A sum type value is a tuple: an i32 tag, then one element per field of
+ * every variant, in declaration order. Only the selected variant's
+ * elements are meaningful; the rest hold zero.
+ */
+export interface VariantInfo {
+	readonly name: string
+	/** Tag value that selects this variant */
+	readonly tag: number
+	readonly fields: readonly FieldInfo[]
+	/** Tuple element that holds the first field */
+	readonly firstSlot: number
+	/** Parse node that declared this variant */
+	readonly parseNodeId: NodeId
+}
+
 /**
  * Constraints for refined types (min/max bounds).
  * Uses bigint to support both i32 and i64 ranges.
@@ -183,6 +243,10 @@ export interface TypeInfo {
 	readonly constraints?: TypeConstraints
 	/** For Func types: parameter and return type info */
 	readonly funcInfo?: FuncTypeInfo
+	/** For Tuple types: element types in order */
+	readonly elementTypeIds?: readonly TypeId[]
+	/** For Sum types: variants in tag order */
+	readonly variants?: readonly VariantInfo[]
 }
 
 /**
@@ -284,6 +348,10 @@ export function getMatchArmBodyId(inst: Inst): InstId {
 	return inst.arg1 as InstId
 }
 
+export function getMatchGuardConditionId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
 export function getPatternBindSymbolId(inst: Inst): SymbolId {
 	return inst.arg0 as SymbolId
 }
@@ -340,6 +408,66 @@ export function getCallArgCount(inst: Inst): number {
 	return inst.arg1
 }
 
+export function getCallArgValueId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getDiscardValueId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getFuncRefFuncId(inst: Inst): number {
+	return inst.arg0
+}
+
+export function getTupleElementValueId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getTupleMakeCount(inst: Inst): number {
+	return inst.arg0
+}
+
+export function getTupleExtractTupleId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getTupleExtractIndex(inst: Inst): number {
+	return inst.arg1
+}
+
+export function getListElementValueId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getListMakeCount(inst: Inst): number {
+	return inst.arg0
+}
+
+export function getListIndexListId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getListIndexIndexId(inst: Inst): InstId {
+	return inst.arg1 as InstId
+}
+
+export function getBoundsCheckIndexId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getBoundsCheckSize(inst: Inst): number {
+	return inst.arg1
+}
+
+export function getRefinementCheckValueId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
+export function getConvertOperandId(inst: Inst): InstId {
+	return inst.arg0 as InstId
+}
+
 export function getParamIndex(inst: Inst): number {
 	return inst.arg0
 }
@@ -33,10 +33,16 @@ export function isTerminator(kind: NodeKind): boolean {
  * Checks if a node kind represents a statement.
  * Statement kinds are in range 10-99.
  * BindingExpr (117) and PanicExpr (118) are included because they can appear
- * at statement position in the "everything is expression" design.
+ * at statement position in the "everything is expression" design, and
+ * FuncCall (114) because a call can stand alone for its effects.
  */
 export function isStatementNode(kind: NodeKind): boolean {
-	return (kind >= 10 && kind < 100) || kind === NodeKind.BindingExpr || kind === NodeKind.PanicExpr
+	return (
+		(kind >= 10 && kind < 100) ||
+		kind === NodeKind.BindingExpr ||
+		kind === NodeKind.PanicExpr ||
+		kind === NodeKind.FuncCall
+	)
 }
 
 /**
@@ -56,24 +62,29 @@ export function isPatternNode(kind: NodeKind): boolean {
 }
 
 /**
- * Integer bounds for i32 and i64 types.
+ * Integer bounds for i32, i64, u32 and u64 types.
  */
 export const INT_BOUNDS = {
 	i32: { max: BigInt(2147483647), min: BigInt(-2147483648) },
 	i64: { max: BigInt('9223372036854775807'), min: BigInt('-9223372036854775808') },
+	u32: { max: BigInt(4294967295), min: 0n },
+	u64: { max: BigInt('18446744073709551615'), min: 0n },
 }
 
+/** The bounds of each integer type, by type. */
+export const INTEGER_TYPE_BOUNDS: ReadonlyMap<TypeId, { min: bigint; max: bigint }> = new Map([
+	[BuiltinTypeId.I32, INT_BOUNDS.i32],
+	[BuiltinTypeId.I64, INT_BOUNDS.i64],
+	[BuiltinTypeId.U32, INT_BOUNDS.u32],
+	[BuiltinTypeId.U64, INT_BOUNDS.u64],
+])
+
 /**
  * Checks if a value fits within the base type bounds.
  */
 export function fitsInBaseBounds(value: bigint, baseTypeId: TypeId): boolean {
-	if (baseTypeId === BuiltinTypeId.I32) {
-		return value >= INT_BOUNDS.i32.min && value <= INT_BOUNDS.i32.max
-	}
-	if (baseTypeId === BuiltinTypeId.I64) {
-		return value >= INT_BOUNDS.i64.min && value <= INT_BOUNDS.i64.max
-	}
-	return false
+	const bounds = INTEGER_TYPE_BOUNDS.get(baseTypeId)
+	return bounds !== undefined && value >= bounds.min && value <= bounds.max
 }
 
 /**
@@ -96,7 +107,7 @@ export function splitBigIntTo32BitParts(
 	value: bigint,
 	typeId: TypeId
 ): { low: number; high: number } {
-	if (typeId === BuiltinTypeId.I32) {
+	if (typeId === BuiltinTypeId.I32 || typeId === BuiltinTypeId.U32) {
 		return { high: 0, low: Number(BigInt.asIntN(32, value)) }
 	}
 	const low = Number(BigInt.asIntN(32, value))
@@ -120,10 +131,17 @@ export function isFloatType(typeId: TypeId): boolean {
 }
 
 /**
- * Checks if a type is an integer type (i32 or i64).
+ * Checks if a type is an integer type (i32, i64, u32 or u64).
  */
 export function isIntegerType(typeId: TypeId): boolean {
-	return typeId === BuiltinTypeId.I32 || typeId === BuiltinTypeId.I64
+	return INTEGER_TYPE_BOUNDS.has(typeId)
+}
+
+/**
+ * Checks if a type is an unsigned integer type (u32 or u64).
+ */
+export function isUnsignedType(typeId: TypeId): boolean {
+	return typeId === BuiltinTypeId.U32 || typeId === BuiltinTypeId.U64
 }
 
 /**
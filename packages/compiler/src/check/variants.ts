@@ -0,0 +1,213 @@
+/**
+ * Sum type variant construction for the Check phase.
+ *
+ * A variant is constructed by calling its name with one value per field,
+ * `Circle(2.0)`, or by naming it when it has no fields, `Empty`. The
+ * value is a tuple of the variant's tag and every variant's fields, with
+ * the fields of the other variants set to zero. A sum type none of whose
+ * variants have fields is just the tag.
+ */
+
+import type { CompilationContext, StringId } from '../core/context.ts'
+import type { DiagnosticCode } from '../core/diagnostics.ts'
+import { type NodeId, NodeKind } from '../core/nodes.ts'
+import { type CheckExpr, collectCallChildren } from './funcs.ts'
+import type { CheckerState, ExprResult } from './state.ts'
+import { emitIntConstInst } from './type-resolution.ts'
+import { BuiltinTypeId, type InstId, InstKind, type TypeId, type VariantInfo } from './types.ts'
+import { isValidExprResult } from './utils.ts'
+
+/** A variant and the sum type that declares it. */
+export interface VariantRef {
+	readonly typeId: TypeId
+	readonly variant: VariantInfo
+}
+
+// ============================================================================
+// Variant Lookup
+// ============================================================================
+
+/**
+ * The variant an identifier names. Bindings shadow variants, so a name
+ * bound in scope is never a variant.
+ */
+export function lookupVariantRef(
+	nodeId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): VariantRef | undefined {
+	const node = context.nodes.get(nodeId)
+	if (node.kind !== NodeKind.Identifier) return undefined
+	const nameId = context.tokens.get(node.tokenId).payload as StringId
+	if (state.symbols.lookupByName(nameId) !== undefined) return undefined
+	return state.types.lookupVariant(context.strings.get(nameId))
+}
+
+/**
+ * The variant a call constructs, if its callee names one.
+ */
+export function lookupCalledVariant(
+	callId: NodeId,
+	state: CheckerState,
+	context: CompilationContext
+): VariantRef | undefined {
+	const { calleeId } = collectCallChildren(callId, context)
+	return calleeId === null ? undefined : lookupVariantRef(calleeId, state, context)
+}
+
+// ============================================================================
+// Variant Construction
+// ============================================================================
+
+/**
+ * A zero of a representation slot's type, for the fields of the
+ * variants not being constructed.
+ */
+function emitZeroSlot(
+	exprId: NodeId,
+	slotTypeId: TypeId,
+	state: CheckerState,
+	context: CompilationContext
+): InstId {
+	if (slotTypeId === BuiltinTypeId.F32 || slotTypeId === BuiltinTypeId.F64) {
+		return state.insts.add({
+			arg0: context.floats.add(0) as number,
+			arg1: 0,
+			kind: InstKind.FloatConst,
+			parseNodeId: exprId,
+			typeId: slotTypeId,
+		})
+	}
+	return emitIntConstInst(exprId, slotTypeId, 0n, state).instId as InstId
+}
+
+/**
+ * The value of one representation slot: the tag, one of the variant's
+ * fields, or a zero.
+ */
+function emitSlot(
+	exprId: NodeId,
+	ref: VariantRef,
+	fieldInstIds: readonly InstId[],
+	slotTypeId: TypeId,
+	slot: number,
+	state: CheckerState,
+	context: CompilationContext
+): InstId {
+	const { firstSlot, tag } = ref.variant
+	if (slot === 0)
+		return emitIntConstInst(exprId, BuiltinTypeId.I32, BigInt(tag), state).instId as InstId
+	const fieldInstId = slot >= firstSlot ? fieldInstIds[slot - firstSlot] : undefined
+	return fieldInstId ?? emitZeroSlot(exprId, slotTypeId, state, context)
+}
+
+/**
+ * Emit the tuple for a variant: its tag, its fields in their slots, and
+ * zero in every other slot.
+ */
+function emitVariantTuple(
+	exprId: NodeId,
+	ref: VariantRef,
+	fieldInstIds: readonly InstId[],
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	const slotTypes = state.types.getTupleElementTypes(state.types.toWasmType(ref.typeId)) ?? []
+	const slots = slotTypes.map((slotTypeId, slot) =>
+		emitSlot(exprId, ref, fieldInstIds, slotTypeId, slot, state, context)
+	)
+	for (const slotInstId of slots) {
+		state.insts.add({
+			arg0: slotInstId as number,
+			arg1: 0,
+			kind: InstKind.TupleElement,
+			parseNodeId: exprId,
+			typeId: BuiltinTypeId.None,
+		})
+	}
+	const instId = state.insts.add({
+		arg0: slots.length,
+		arg1: 0,
+		kind: InstKind.TupleMake,
+		parseNodeId: exprId,
+		typeId: ref.typeId,
+	})
+	return { instId, typeId: ref.typeId }
+}
+
+/**
+ * Emit a variant value. Sum types without fields are just the tag.
+ */
+function emitVariantValue(
+	exprId: NodeId,
+	ref: VariantRef,
+	fieldInstIds: readonly InstId[],
+	state: CheckerState,
+	context: CompilationContext
+): ExprResult {
+	if (!state.types.isMultiValueType(ref.typeId)) {
+		return emitIntConstInst(exprId, ref.typeId, BigInt(ref.variant.tag), state)
+	}
+	return emitVariantTuple(exprId, ref, fieldInstIds, state, context)
+}
+
+/**
+ * Check that a variant is constructed where its sum type is expected.
+ * A null or None expected type accepts any type.
+ */
+function checkVariantType(
+	exprId: NodeId,
+	ref: VariantRef,
+	expectedType: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext
+): boolean {
+	if (expectedType === null || expectedType === BuiltinTypeId.None) return true
+	if (state.types.areEqual(ref.typeId, expectedType)) return true
+	context.emitAtNode('TWCHECK012' as DiagnosticCode, exprId, {
+		expected: state.types.typeName(expectedType),
+		found: state.types.typeName(ref.typeId),
+	})
+	return false
+}
+
+/**
+ * Check a variant construction: `Circle(2.0)` with its argument nodes,
+ * or `Empty` with none. Each argument is checked against its field.
+ */
+export function checkVariantConstruction(
+	exprId: NodeId,
+	ref: VariantRef,
+	argIds: readonly NodeId[],
+	expectedType: TypeId | null,
+	state: CheckerState,
+	context: CompilationContext,
+	checkExpr: CheckExpr
+): ExprResult {
+	const { fields, name } = ref.variant
+	if (argIds.length !== fields.length) {
+		context.emitAtNode('TWCHECK004' as DiagnosticCode, exprId, {
+			expected: fields.length,
+			found: argIds.length,
+			name,
+		})
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+	if (!checkVariantType(exprId, ref, expectedType, state, context)) {
+		return { instId: null, typeId: BuiltinTypeId.Invalid }
+	}
+
+	const results = argIds.map((argId, i) =>
+		checkExpr(argId, fields[i]?.typeId ?? BuiltinTypeId.Invalid, state, context)
+	)
+	const valid = results.filter(isValidExprResult)
+	if (valid.length !== results.length) return { instId: null, typeId: BuiltinTypeId.Invalid }
+
+	return emitVariantValue(
+		exprId,
+		ref,
+		valid.map((result) => result.instId),
+		state,
+		context
+	)
+}
@@ -1,20 +1,33 @@
 import binaryen from 'binaryen'
 
-import type { FuncId } from '../check/stores.ts'
+import type { FuncId, FuncInfo, HostExtern } from '../check/stores.ts'
+import { tailCalls } from '../check/tail-calls.ts'
+import { conversionOpcode, isReinterpretation } from '../check/type-resolution.ts'
 import {
 	BuiltinTypeId,
+	type FuncTypeInfo,
 	getBinaryOpLeftId,
 	getBinaryOpRightId,
 	getBindInitId,
 	getBindSymbolId,
 	getBitwiseNotOperandId,
+	getBoundsCheckIndexId,
+	getBoundsCheckSize,
 	getCallArgCount,
+	getCallArgValueId,
 	getCallCalleeId,
+	getConvertOperandId,
+	getDiscardValueId,
 	getFloatConstId,
 	getFuncDefBodyId,
 	getFuncDefFuncId,
+	getFuncRefFuncId,
 	getIntConstHigh,
 	getIntConstLow,
+	getListElementValueId,
+	getListIndexIndexId,
+	getListIndexListId,
+	getListMakeCount,
 	getLogicalAndLeftId,
 	getLogicalAndRightId,
 	getLogicalOrLeftId,
@@ -22,10 +35,16 @@ import {
 	getMatchArmBodyId,
 	getMatchArmCount,
 	getMatchArmPatternNodeId,
+	getMatchGuardConditionId,
 	getMatchScrutineeId,
 	getNegateOperandId,
 	getPatternBindScrutineeId,
 	getPatternBindSymbolId,
+	getRefinementCheckValueId,
+	getTupleElementValueId,
+	getTupleExtractIndex,
+	getTupleExtractTupleId,
+	getTupleMakeCount,
 	getVarRefSymbolId,
 	type Inst,
 	type InstId,
@@ -35,6 +54,7 @@ import {
 	type SymbolId,
 	type TypeId,
 } from '../check/types.ts'
+import { INT_BOUNDS, INTEGER_TYPE_BOUNDS } from '../check/utils.ts'
 import { type CompilationContext, DiagnosticSeverity, type StringId } from '../core/context.ts'
 import type { DiagnosticCode } from '../core/diagnostics.ts'
 import { type NodeId, NodeKind } from '../core/nodes.ts'
@@ -49,6 +69,8 @@ export class CompileError extends Error {
 
 export interface EmitOptions {
 	optimize?: boolean
+	/** Compile calls in tail position to `return_call`, which needs the tail-call feature */
+	tailCalls?: boolean
 }
 
 export interface CompileWarning {
@@ -59,20 +81,74 @@ export interface CompileWarning {
 	formattedMessage: string
 }
 
+/** A WebAssembly value type that crosses the module boundary. */
+export type WasmValueType = 'f32' | 'f64' | 'i32' | 'i64'
+
+/**
+ * A value type in a host-visible signature. Unsigned integers cross the
+ * boundary as i32 and i64, and booleans as an i32 of 0 or 1; the host
+ * reinterprets them.
+ */
+export type HostValueType = WasmValueType | 'bool' | 'u32' | 'u64'
+
+/**
+ * Signature of an exported user function, as the host sees it.
+ * A null result means the function returns nothing; a function returning
+ * a tuple has one result per element.
+ */
+export interface ExportedFunction {
+	name: string
+	params: HostValueType[]
+	result: HostValueType | HostValueType[] | null
+}
+
+/** Signature of a host function the module imports, bound with `extern host`. */
+export interface ImportedFunction extends ExportedFunction {
+	/** The module the function is imported from */
+	module: string
+}
+
 export interface CompileResult {
 	binary: Uint8Array
 	text: string
 	valid: boolean
 	warnings: CompileWarning[]
+	/** User functions exported from the module, in definition order */
+	functions: ExportedFunction[]
+	/** Host functions the module imports, in declaration order */
+	imports: ImportedFunction[]
 }
 
+/**
+ * The Binaryen type of a type's values. Tuples become multi-value types.
+ */
 function toBinaryenType(typeId: TypeId, context: CompilationContext): binaryen.Type {
 	const wasmTypeId = context.types?.toWasmType(typeId) ?? typeId
+	const elementTypeIds = context.types?.getTupleElementTypes(wasmTypeId)
+	if (elementTypeIds) {
+		return binaryen.createType(elementTypeIds.map((t) => toPrimitiveBinaryenType(t, context)))
+	}
+	return toPrimitiveBinaryenType(wasmTypeId, context)
+}
+
+/** The WebAssembly parameters of a function: one per value, records one per field. */
+function toBinaryenParamTypes(
+	paramTypes: readonly TypeId[],
+	context: CompilationContext
+): binaryen.Type[] {
+	return paramTypes.flatMap((t) => binaryen.expandType(toBinaryenType(t, context)))
+}
+
+function toPrimitiveBinaryenType(typeId: TypeId, context: CompilationContext): binaryen.Type {
+	const wasmTypeId = context.types?.toWasmType(typeId) ?? typeId
 
 	switch (wasmTypeId) {
 		case BuiltinTypeId.I32:
+		case BuiltinTypeId.U32:
+		case BuiltinTypeId.Bool:
 			return binaryen.i32
 		case BuiltinTypeId.I64:
+		case BuiltinTypeId.U64:
 			return binaryen.i64
 		case BuiltinTypeId.F32:
 			return binaryen.f32
@@ -83,6 +159,36 @@ function toBinaryenType(typeId: TypeId, context: CompilationContext): binaryen.T
 	}
 }
 
+const HOST_VALUE_TYPES: ReadonlyMap<TypeId, HostValueType> = new Map([
+	[BuiltinTypeId.F32, 'f32'],
+	[BuiltinTypeId.F64, 'f64'],
+	[BuiltinTypeId.I32, 'i32'],
+	[BuiltinTypeId.I64, 'i64'],
+	[BuiltinTypeId.U32, 'u32'],
+	[BuiltinTypeId.U64, 'u64'],
+	[BuiltinTypeId.Bool, 'bool'],
+])
+
+function toHostValueType(typeId: TypeId, context: CompilationContext): HostValueType | null {
+	return HOST_VALUE_TYPES.get(context.types?.toWasmType(typeId) ?? typeId) ?? null
+}
+
+/** The host-visible values of a type: one, one per multi-value element, or none. */
+function toHostValueTypes(typeId: TypeId, context: CompilationContext): HostValueType[] {
+	const result = toHostResult(typeId, context)
+	return result === null ? [] : [result].flat()
+}
+
+/** The host-visible result of a function: one value, one per multi-value element, or none. */
+function toHostResult(
+	typeId: TypeId,
+	context: CompilationContext
+): HostValueType | HostValueType[] | null {
+	const elementTypeIds = context.types?.getTupleElementTypes(context.types.toWasmType(typeId))
+	if (!elementTypeIds) return toHostValueType(typeId, context)
+	return elementTypeIds.map((t) => toHostValueType(t, context)).filter((t) => t !== null)
+}
+
 /**
  * Build the locals array for the function.
  * Each symbol becomes a WASM local at its localIndex.
@@ -139,24 +245,66 @@ function emitFloatConst(
  */
 let currentParamMap: Map<SymbolId, number> | null = null
 
+/**
+ * Captured bindings of the closure being emitted, mapped to their slots
+ * in its environment record. Null outside closures.
+ */
+let currentCaptureMap: Map<SymbolId, number> | null = null
+
 function emitVarRef(
 	mod: binaryen.Module,
 	inst: Inst,
 	context: CompilationContext
 ): binaryen.ExpressionRef | null {
 	const symId = getVarRefSymbolId(inst)
+	const funcId = context.funcs?.getBySymbol(symId)
+	if (funcId !== undefined) return emitFuncRef(mod, funcId, context)
+	return emitSymbolRef(mod, symId, context)
+}
 
-	if (currentParamMap) {
-		const paramIndex = currentParamMap.get(symId)
-		if (paramIndex !== undefined) {
-			const binaryenType = toBinaryenType(inst.typeId, context)
-			return mod.local.get(paramIndex, binaryenType)
-		}
-	}
+/**
+ * Read a record as a whole: each of its flattened fields, as a multi-value
+ * when there is more than one.
+ */
+function emitRecordRef(
+	mod: binaryen.Module,
+	fieldIds: readonly SymbolId[],
+	context: CompilationContext
+): binaryen.ExpressionRef {
+	const fieldExprs = emitRecordFieldRefs(mod, fieldIds, context)
+	return fieldExprs.length === 1
+		? (fieldExprs[0] as binaryen.ExpressionRef)
+		: mod.tuple.make(fieldExprs)
+}
 
+function emitRecordFieldRefs(
+	mod: binaryen.Module,
+	fieldIds: readonly SymbolId[],
+	context: CompilationContext
+): binaryen.ExpressionRef[] {
+	return fieldIds
+		.map((fieldId) => emitSymbolRef(mod, fieldId, context))
+		.filter((fieldExpr) => fieldExpr !== null)
+}
+
+/**
+ * Read a binding: a parameter, a captured binding, a local, or a record
+ * as a whole.
+ */
+function emitSymbolRef(
+	mod: binaryen.Module,
+	symId: SymbolId,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
 	const symbol = context.symbols?.get(symId)
 	if (!symbol) return null
+	const fieldIds = context.symbols?.getRecordFields(symId)
+	if (fieldIds) return emitRecordRef(mod, fieldIds, context)
 	const binaryenType = toBinaryenType(symbol.typeId, context)
+	const paramIndex = currentParamMap?.get(symId)
+	if (paramIndex !== undefined) return mod.local.get(paramIndex, binaryenType)
+	const slot = currentCaptureMap?.get(symId)
+	if (slot !== undefined) return emitCaptureLoad(mod, slot, binaryenType)
 	return mod.local.get(symbol.localIndex, binaryenType)
 }
 
@@ -284,9 +432,15 @@ type BinaryEmitter = (
 	right: binaryen.ExpressionRef
 ) => binaryen.ExpressionRef
 
+/**
+ * An operator's instruction for each type. Unsigned integers use the
+ * signed integers' instruction unless they have their own.
+ */
 type TypeOps = {
 	i32: (l: binaryen.ExpressionRef, r: binaryen.ExpressionRef) => binaryen.ExpressionRef
 	i64: (l: binaryen.ExpressionRef, r: binaryen.ExpressionRef) => binaryen.ExpressionRef
+	u32?: (l: binaryen.ExpressionRef, r: binaryen.ExpressionRef) => binaryen.ExpressionRef
+	u64?: (l: binaryen.ExpressionRef, r: binaryen.ExpressionRef) => binaryen.ExpressionRef
 	f32?: (l: binaryen.ExpressionRef, r: binaryen.ExpressionRef) => binaryen.ExpressionRef
 	f64?: (l: binaryen.ExpressionRef, r: binaryen.ExpressionRef) => binaryen.ExpressionRef
 }
@@ -298,9 +452,19 @@ function createArithmeticOps(mod: binaryen.Module): Map<TokenKind, TypeOps> {
 		[TokenKind.Star, { f32: mod.f32.mul, f64: mod.f64.mul, i32: mod.i32.mul, i64: mod.i64.mul }],
 		[
 			TokenKind.Slash,
-			{ f32: mod.f32.div, f64: mod.f64.div, i32: mod.i32.div_s, i64: mod.i64.div_s },
+			{
+				f32: mod.f32.div,
+				f64: mod.f64.div,
+				i32: mod.i32.div_s,
+				i64: mod.i64.div_s,
+				u32: mod.i32.div_u,
+				u64: mod.i64.div_u,
+			},
+		],
+		[
+			TokenKind.Percent,
+			{ i32: mod.i32.rem_s, i64: mod.i64.rem_s, u32: mod.i32.rem_u, u64: mod.i64.rem_u },
 		],
-		[TokenKind.Percent, { i32: mod.i32.rem_s, i64: mod.i64.rem_s }],
 	])
 }
 
@@ -310,7 +474,10 @@ function createBitwiseOps(mod: binaryen.Module): Map<TokenKind, TypeOps> {
 		[TokenKind.Pipe, { i32: mod.i32.or, i64: mod.i64.or }],
 		[TokenKind.Caret, { i32: mod.i32.xor, i64: mod.i64.xor }],
 		[TokenKind.LessLess, { i32: mod.i32.shl, i64: mod.i64.shl }],
-		[TokenKind.GreaterGreater, { i32: mod.i32.shr_s, i64: mod.i64.shr_s }],
+		[
+			TokenKind.GreaterGreater,
+			{ i32: mod.i32.shr_s, i64: mod.i64.shr_s, u32: mod.i32.shr_u, u64: mod.i64.shr_u },
+		],
 		[TokenKind.GreaterGreaterGreater, { i32: mod.i32.shr_u, i64: mod.i64.shr_u }],
 	])
 }
@@ -319,62 +486,221 @@ function createComparisonOps(mod: binaryen.Module): Map<TokenKind, TypeOps> {
 	return new Map([
 		[
 			TokenKind.LessThan,
-			{ f32: mod.f32.lt, f64: mod.f64.lt, i32: mod.i32.lt_s, i64: mod.i64.lt_s },
+			{
+				f32: mod.f32.lt,
+				f64: mod.f64.lt,
+				i32: mod.i32.lt_s,
+				i64: mod.i64.lt_s,
+				u32: mod.i32.lt_u,
+				u64: mod.i64.lt_u,
+			},
 		],
 		[
 			TokenKind.LessEqual,
-			{ f32: mod.f32.le, f64: mod.f64.le, i32: mod.i32.le_s, i64: mod.i64.le_s },
+			{
+				f32: mod.f32.le,
+				f64: mod.f64.le,
+				i32: mod.i32.le_s,
+				i64: mod.i64.le_s,
+				u32: mod.i32.le_u,
+				u64: mod.i64.le_u,
+			},
 		],
 		[
 			TokenKind.GreaterThan,
-			{ f32: mod.f32.gt, f64: mod.f64.gt, i32: mod.i32.gt_s, i64: mod.i64.gt_s },
+			{
+				f32: mod.f32.gt,
+				f64: mod.f64.gt,
+				i32: mod.i32.gt_s,
+				i64: mod.i64.gt_s,
+				u32: mod.i32.gt_u,
+				u64: mod.i64.gt_u,
+			},
 		],
 		[
 			TokenKind.GreaterEqual,
-			{ f32: mod.f32.ge, f64: mod.f64.ge, i32: mod.i32.ge_s, i64: mod.i64.ge_s },
+			{
+				f32: mod.f32.ge,
+				f64: mod.f64.ge,
+				i32: mod.i32.ge_s,
+				i64: mod.i64.ge_s,
+				u32: mod.i32.ge_u,
+				u64: mod.i64.ge_u,
+			},
 		],
 		[TokenKind.EqualEqual, { f32: mod.f32.eq, f64: mod.f64.eq, i32: mod.i32.eq, i64: mod.i64.eq }],
 		[TokenKind.BangEqual, { f32: mod.f32.ne, f64: mod.f64.ne, i32: mod.i32.ne, i64: mod.i64.ne }],
 	])
 }
 
-type TypeKey = 'i32' | 'i64' | 'f32' | 'f64'
+type IntrinsicEmitter = (operands: binaryen.ExpressionRef[]) => binaryen.ExpressionRef
 
-const BINARYEN_TYPE_KEYS: Map<number, TypeKey> = new Map([
-	[binaryen.i32, 'i32'],
-	[binaryen.i64, 'i64'],
-	[binaryen.f32, 'f32'],
-	[binaryen.f64, 'f64'],
+function unary(op: (value: binaryen.ExpressionRef) => binaryen.ExpressionRef): IntrinsicEmitter {
+	return ([value]) => op(value as binaryen.ExpressionRef)
+}
+
+function binary(op: BinaryEmitter): IntrinsicEmitter {
+	return ([left, right]) => op(left as binaryen.ExpressionRef, right as binaryen.ExpressionRef)
+}
+
+const INTEGER_KEYS = ['i32', 'i64'] as const
+const FLOAT_KEYS = ['f32', 'f64'] as const
+const SIGNS = ['s', 'u'] as const
+
+/** Emitters for the conversions between integers and floats, signed and unsigned. */
+function intFloatConversionOps(mod: binaryen.Module): [string, IntrinsicEmitter][] {
+	return INTEGER_KEYS.flatMap((int) =>
+		FLOAT_KEYS.flatMap((float) =>
+			SIGNS.flatMap((sign): [string, IntrinsicEmitter][] => [
+				[`${float}.convert_${int}_${sign}`, unary(mod[float][`convert_${sign}`][int])],
+				[`${int}.trunc_${float}_${sign}`, unary(mod[int][`trunc_${sign}`][float])],
+				[`${int}.trunc_sat_${float}_${sign}`, unary(mod[int][`trunc_${sign}_sat`][float])],
+			])
+		)
+	)
+}
+
+/** Emitters for the intrinsics `extern wasm` can bind, by opcode. */
+function createIntrinsicOps(mod: binaryen.Module): Map<string, IntrinsicEmitter> {
+	return new Map([
+		...intFloatConversionOps(mod),
+		['i64.extend_i32_s', unary(mod.i64.extend_s)],
+		['i64.extend_i32_u', unary(mod.i64.extend_u)],
+		['i32.wrap_i64', unary(mod.i32.wrap)],
+		['f64.promote_f32', unary(mod.f64.promote)],
+		['f32.demote_f64', unary(mod.f32.demote)],
+		['i32.clz', unary(mod.i32.clz)],
+		['i32.ctz', unary(mod.i32.ctz)],
+		['i32.popcnt', unary(mod.i32.popcnt)],
+		['i32.rotl', binary(mod.i32.rotl)],
+		['i32.rotr', binary(mod.i32.rotr)],
+		['i64.clz', unary(mod.i64.clz)],
+		['i64.ctz', unary(mod.i64.ctz)],
+		['i64.popcnt', unary(mod.i64.popcnt)],
+		['i64.rotl', binary(mod.i64.rotl)],
+		['i64.rotr', binary(mod.i64.rotr)],
+		['f32.abs', unary(mod.f32.abs)],
+		['f32.ceil', unary(mod.f32.ceil)],
+		['f32.floor', unary(mod.f32.floor)],
+		['f32.nearest', unary(mod.f32.nearest)],
+		['f32.sqrt', unary(mod.f32.sqrt)],
+		['f32.trunc', unary(mod.f32.trunc)],
+		['f32.copysign', binary(mod.f32.copysign)],
+		['f32.max', binary(mod.f32.max)],
+		['f32.min', binary(mod.f32.min)],
+		['f64.abs', unary(mod.f64.abs)],
+		['f64.ceil', unary(mod.f64.ceil)],
+		['f64.floor', unary(mod.f64.floor)],
+		['f64.nearest', unary(mod.f64.nearest)],
+		['f64.sqrt', unary(mod.f64.sqrt)],
+		['f64.trunc', unary(mod.f64.trunc)],
+		['f64.copysign', binary(mod.f64.copysign)],
+		['f64.max', binary(mod.f64.max)],
+		['f64.min', binary(mod.f64.min)],
+	])
+}
+
+/**
+ * Emit a call to a function bound with `extern wasm` as its instruction,
+ * inline. Returns null if the function is not a wasm extern.
+ */
+function emitIntrinsic(
+	mod: binaryen.Module,
+	funcId: FuncId,
+	operands: binaryen.ExpressionRef[],
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const extern = context.funcs?.get(funcId).extern
+	const emitter = extern?.kind === 'wasm' && createIntrinsicOps(mod).get(extern.opcode)
+	return emitter ? emitter(operands) : null
+}
+
+/**
+ * The emitter converting one numeric type to another. A signed integer
+ * and an unsigned one of the same width share their bits, so converting
+ * between them emits nothing.
+ */
+function conversionEmitter(
+	mod: binaryen.Module,
+	fromTypeId: TypeId,
+	toTypeId: TypeId
+): IntrinsicEmitter | undefined {
+	if (isReinterpretation(fromTypeId, toTypeId)) return ([value]) => value as binaryen.ExpressionRef
+	const opcode = conversionOpcode(fromTypeId, toTypeId)
+	return opcode === null ? undefined : createIntrinsicOps(mod).get(opcode)
+}
+
+/**
+ * Emit an `as` conversion as the instruction that converts its operand's
+ * type to its own.
+ */
+function emitConvert(
+	mod: binaryen.Module,
+	inst: Inst,
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const operandId = getConvertOperandId(inst)
+	const operand = valueMap.get(operandId)
+	const operandType = context.insts?.get(operandId).typeId
+	if (operand === undefined || operandType === undefined || !context.types) return null
+	const emitter = conversionEmitter(mod, context.types.unrefined(operandType), inst.typeId)
+	return emitter ? emitter([operand]) : null
+}
+
+type TypeKey = keyof TypeOps
+
+const TYPE_KEYS: ReadonlyMap<TypeId, TypeKey> = new Map([
+	[BuiltinTypeId.I32, 'i32'],
+	[BuiltinTypeId.I64, 'i64'],
+	[BuiltinTypeId.U32, 'u32'],
+	[BuiltinTypeId.U64, 'u64'],
+	[BuiltinTypeId.F32, 'f32'],
+	[BuiltinTypeId.F64, 'f64'],
+	// Booleans are 0 or 1 in an i32, so they compare as one
+	[BuiltinTypeId.Bool, 'i32'],
 ])
 
-function getEmitterFromTypeOps(
-	typeOps: TypeOps,
-	binaryenType: binaryen.Type
-): BinaryEmitter | null {
-	const key = BINARYEN_TYPE_KEYS.get(binaryenType)
+/** The signed integers an unsigned integer shares instructions with. */
+const SIGNED_KEYS: ReadonlyMap<TypeKey, TypeKey> = new Map([
+	['u32', 'i32'],
+	['u64', 'i64'],
+])
+
+function isUnsignedKey(key: TypeKey | undefined): boolean {
+	return key !== undefined && SIGNED_KEYS.has(key)
+}
+
+/** The key of the primitive type a type's values are, or undefined for other types. */
+function toTypeKey(typeId: TypeId, context: CompilationContext): TypeKey | undefined {
+	return TYPE_KEYS.get(context.types?.toWasmType(typeId) ?? typeId)
+}
+
+function getEmitterFromTypeOps(typeOps: TypeOps, key: TypeKey | undefined): BinaryEmitter | null {
 	if (!key) return null
-	return typeOps[key] ?? null
+	const signedKey = SIGNED_KEYS.get(key)
+	return typeOps[key] ?? (signedKey && typeOps[signedKey]) ?? null
 }
 
 function lookupEmitter(
 	ops: Map<TokenKind, TypeOps>,
 	opKind: TokenKind,
-	binaryenType: binaryen.Type
+	key: TypeKey | undefined
 ): BinaryEmitter | null {
 	const typeOps = ops.get(opKind)
-	return typeOps ? getEmitterFromTypeOps(typeOps, binaryenType) : null
+	return typeOps ? getEmitterFromTypeOps(typeOps, key) : null
 }
 
 function findBinaryEmitter(
 	mod: binaryen.Module,
 	opKind: TokenKind,
-	binaryenType: binaryen.Type,
-	operandType: binaryen.Type
+	resultKey: TypeKey | undefined,
+	operandKey: TypeKey | undefined
 ): BinaryEmitter | null {
 	return (
-		lookupEmitter(createArithmeticOps(mod), opKind, binaryenType) ??
-		lookupEmitter(createBitwiseOps(mod), opKind, binaryenType) ??
-		lookupEmitter(createComparisonOps(mod), opKind, operandType)
+		lookupEmitter(createArithmeticOps(mod), opKind, resultKey) ??
+		lookupEmitter(createBitwiseOps(mod), opKind, resultKey) ??
+		lookupEmitter(createComparisonOps(mod), opKind, operandKey)
 	)
 }
 
@@ -396,6 +722,13 @@ function getBinaryOpValues(
 	return { left, leftId, right }
 }
 
+/** The operator a binary op emits: an unsigned remainder is never negative, so `%%` is `%`. */
+function emittedOperator(opKind: TokenKind, resultKey: TypeKey | undefined): TokenKind {
+	return opKind === TokenKind.PercentPercent && isUnsignedKey(resultKey)
+		? TokenKind.Percent
+		: opKind
+}
+
 function emitBinaryOp(
 	mod: binaryen.Module,
 	inst: Inst,
@@ -406,16 +739,16 @@ function emitBinaryOp(
 	if (!values) return null
 
 	const parseNode = context.nodes.get(inst.parseNodeId)
-	const opKind = context.tokens.get(parseNode.tokenId).kind
-	const binaryenType = toBinaryenType(inst.typeId, context)
+	const resultKey = toTypeKey(inst.typeId, context)
+	const opKind = emittedOperator(context.tokens.get(parseNode.tokenId).kind, resultKey)
 
 	if (opKind === TokenKind.PercentPercent) {
-		return emitEuclideanMod(mod, values.left, values.right, binaryenType)
+		return emitEuclideanMod(mod, values.left, values.right, toBinaryenType(inst.typeId, context))
 	}
 
 	const leftInst = context.insts?.get(values.leftId)
-	const operandType = leftInst ? toBinaryenType(leftInst.typeId, context) : binaryenType
-	const emitter = findBinaryEmitter(mod, opKind, binaryenType, operandType)
+	const operandKey = leftInst ? toTypeKey(leftInst.typeId, context) : resultKey
+	const emitter = findBinaryEmitter(mod, opKind, resultKey, operandKey)
 	return emitter ? emitter(values.left, values.right) : null
 }
 
@@ -453,10 +786,16 @@ function emitLogicalOr(
 	return mod.if(left, mod.i32.const(1), right)
 }
 
+const BOOL_PATTERN_VALUES: ReadonlyMap<TokenKind, bigint> = new Map([
+	[TokenKind.True, 1n],
+	[TokenKind.False, 0n],
+])
+
 /**
  * Extract integer literal value from a LiteralPattern node.
  * For `-N` patterns, tokenId points to Minus, and IntLiteral is at tokenId+1.
  * For `N` patterns, tokenId points directly to IntLiteral.
+ * `true` and `false` patterns are 1 and 0.
  */
 function extractLiteralValue(
 	patternNodeId: NodeId,
@@ -466,6 +805,8 @@ function extractLiteralValue(
 	if (patternNode.kind !== NodeKind.LiteralPattern) return null
 
 	const firstToken = context.tokens.get(patternNode.tokenId)
+	const boolValue = BOOL_PATTERN_VALUES.get(firstToken.kind)
+	if (boolValue !== undefined) return { isNegated: false, value: boolValue }
 
 	if (firstToken.kind === 5) {
 		const literalTokenId = nextTokenId(patternNode.tokenId)
@@ -498,7 +839,7 @@ function emitLiteralComparison(
 		return mod.i64.eq(scrutineeExpr, mod.i64.const(low, high))
 	}
 
-	return mod.i32.eq(scrutineeExpr, mod.i32.const(Number(value)))
+	return mod.i32.eq(scrutineeExpr, mod.i32.const(Number(BigInt.asIntN(32, value))))
 }
 
 function isPatternKind(kind: NodeKind): boolean {
@@ -570,6 +911,96 @@ function emitOrPatternComparison(
 	return combineComparisonsWithOr(mod, comparisons)
 }
 
+/**
+ * Emit comparison for a variant pattern: the scrutinee's tag equals the
+ * variant's. The tag is the first element of a sum type's tuple, or the
+ * whole value when none of its variants have fields. Each comparison
+ * extracts from its own copy of the scrutinee: Binaryen cannot write one
+ * expression under several tuple extracts.
+ */
+function emitVariantPatternComparison(
+	mod: binaryen.Module,
+	scrutineeExpr: binaryen.ExpressionRef,
+	patternNodeId: NodeId,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const token = context.tokens.get(context.nodes.get(patternNodeId).tokenId)
+	const ref = context.types?.lookupVariant(context.strings.get(token.payload as StringId))
+	if (!ref) return null
+	const tag = context.types?.isMultiValueType(ref.typeId)
+		? mod.tuple.extract(mod.copyExpression(scrutineeExpr), 0)
+		: scrutineeExpr
+	return mod.i32.eq(tag, mod.i32.const(ref.variant.tag))
+}
+
+/**
+ * The value of a literal pattern as a constant of the scrutinee's type.
+ */
+function emitLiteralPatternConst(
+	mod: binaryen.Module,
+	patternNodeId: NodeId,
+	typeId: TypeId,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const literal = extractLiteralValue(patternNodeId, context)
+	if (!literal) return null
+	const value = literal.isNegated ? -literal.value : literal.value
+	if (toBinaryenType(typeId, context) === binaryen.i64) {
+		const low = Number(BigInt.asIntN(32, value))
+		const high = Number(BigInt.asIntN(32, value >> 32n))
+		return mod.i64.const(low, high)
+	}
+	return mod.i32.const(Number(BigInt.asIntN(32, value)))
+}
+
+/**
+ * Emit one end of a range comparison: scrutinee >= lo, or scrutinee <= hi.
+ */
+function emitRangeEndComparison(
+	mod: binaryen.Module,
+	scrutineeExpr: binaryen.ExpressionRef,
+	endNodeId: NodeId,
+	isLower: boolean,
+	typeId: TypeId,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const end = emitLiteralPatternConst(mod, endNodeId, typeId, context)
+	if (end === null) return null
+	const ops = toBinaryenType(typeId, context) === binaryen.i64 ? mod.i64 : mod.i32
+	const [ge, le] = isUnsignedKey(toTypeKey(typeId, context))
+		? [ops.ge_u, ops.le_u]
+		: [ops.ge_s, ops.le_s]
+	return isLower ? ge(scrutineeExpr, end) : le(scrutineeExpr, end)
+}
+
+/**
+ * Emit comparison for a range pattern (lo..hi, lo.., ..hi), inclusive at
+ * both ends. A range with only an upper end starts with its `..` token.
+ */
+function emitRangePatternComparison(
+	mod: binaryen.Module,
+	scrutineeExpr: binaryen.ExpressionRef,
+	patternNodeId: NodeId,
+	typeId: TypeId,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const ends = collectPatternChildren(patternNodeId, context).reverse()
+	const upTo =
+		context.tokens.get(context.nodes.get(patternNodeId).tokenId).kind === TokenKind.DotDot
+	const comparisons = ends.map((endId, i) =>
+		emitRangeEndComparison(
+			mod,
+			mod.copyExpression(scrutineeExpr),
+			endId,
+			i === 0 && !upTo,
+			typeId,
+			context
+		)
+	)
+	if (comparisons.some((cmp) => cmp === null)) return null
+	return (comparisons as binaryen.ExpressionRef[]).reduce((acc, cmp) => mod.i32.and(acc, cmp))
+}
+
 /**
  * Emit pattern comparison for a single pattern.
  * Returns null if the pattern is a catch-all (wildcard/binding).
@@ -589,8 +1020,12 @@ function emitPatternComparison(
 			return null
 		case NodeKind.LiteralPattern:
 			return emitLiteralPatternComparison(mod, scrutineeExpr, patternNodeId, typeId, context)
+		case NodeKind.RangePattern:
+			return emitRangePatternComparison(mod, scrutineeExpr, patternNodeId, typeId, context)
 		case NodeKind.OrPattern:
 			return emitOrPatternComparison(mod, scrutineeExpr, patternNodeId, typeId, context)
+		case NodeKind.VariantPattern:
+			return emitVariantPatternComparison(mod, scrutineeExpr, patternNodeId, context)
 		default:
 			return null
 	}
@@ -598,11 +1033,35 @@ function emitPatternComparison(
 
 interface MatchArm {
 	patternNodeId: NodeId
+	guardInstId: InstId | null
 	bodyInstId: InstId
 }
 
+/** The guard of the match arm instruction at `armInstId`, if it has one. */
+function matchArmGuardId(armInstId: InstId, context: CompilationContext): InstId | null {
+	const guardInst = context.insts?.get(instId((armInstId as number) - 1))
+	return guardInst?.kind === InstKind.MatchGuard ? getMatchGuardConditionId(guardInst) : null
+}
+
+/** The match arm whose instruction is at `armInstId`, if one is. */
+function matchArmAt(armInstId: InstId, context: CompilationContext): MatchArm | null {
+	const armInst = context.insts?.get(armInstId)
+	if (armInst?.kind !== InstKind.MatchArm) return null
+	return {
+		bodyInstId: getMatchArmBodyId(armInst),
+		guardInstId: matchArmGuardId(armInstId, context),
+		patternNodeId: getMatchArmPatternNodeId(armInst),
+	}
+}
+
+/** The instruction before a match arm's own, and before its guard's. */
+function instBeforeArm(armInstId: InstId, arm: MatchArm): InstId {
+	return instId((armInstId as number) - (arm.guardInstId === null ? 1 : 2))
+}
+
 /**
- * Collect match arm instructions that precede the Match instruction.
+ * Collect match arm instructions that precede the Match instruction,
+ * each guarded arm preceded by its guard.
  */
 function collectMatchArms(
 	currentInstId: InstId,
@@ -610,19 +1069,31 @@ function collectMatchArms(
 	context: CompilationContext
 ): MatchArm[] {
 	const arms: MatchArm[] = []
-	for (let i = armCount; i >= 1; i--) {
-		const armInstId = instId((currentInstId as number) - i)
-		const armInst = context.insts?.get(armInstId)
-		if (armInst?.kind === InstKind.MatchArm) {
-			arms.push({
-				bodyInstId: getMatchArmBodyId(armInst),
-				patternNodeId: getMatchArmPatternNodeId(armInst),
-			})
-		}
+	let armInstId = instId((currentInstId as number) - 1)
+	let arm = matchArmAt(armInstId, context)
+	while (arm && arms.length < armCount) {
+		arms.unshift(arm)
+		armInstId = instBeforeArm(armInstId, arm)
+		arm = matchArmAt(armInstId, context)
 	}
 	return arms
 }
 
+/**
+ * The condition of a match arm: its pattern's comparison, then its guard,
+ * which is only evaluated once the pattern matches. Null if the arm
+ * always matches.
+ */
+function armCondition(
+	mod: binaryen.Module,
+	comparison: binaryen.ExpressionRef | null,
+	guard: binaryen.ExpressionRef | undefined
+): binaryen.ExpressionRef | null {
+	if (guard === undefined) return comparison
+	if (comparison === null) return guard
+	return mod.if(comparison, guard, mod.i32.const(0))
+}
+
 function buildArmResult(
 	mod: binaryen.Module,
 	comparison: binaryen.ExpressionRef | null,
@@ -647,7 +1118,8 @@ function processMatchArm(
 	const bodyExpr = valueMap.get(arm.bodyInstId)
 	if (bodyExpr === undefined) return currentResult
 	const comparison = emitPatternComparison(mod, scrutineeExpr, arm.patternNodeId, typeId, context)
-	return buildArmResult(mod, comparison, bodyExpr, currentResult)
+	const guard = arm.guardInstId === null ? undefined : valueMap.get(arm.guardInstId)
+	return buildArmResult(mod, armCondition(mod, comparison, guard), bodyExpr, currentResult)
 }
 
 function buildMatchChain(
@@ -684,59 +1156,683 @@ function emitMatch(
 	const arms = collectMatchArms(currentInstId, armCount, context)
 	if (arms.length === 0) return null
 
-	return buildMatchChain(mod, scrutineeExpr, arms, inst.typeId, valueMap, context)
+	// Patterns compare as the scrutinee's type: a bool scrutinee's is not the match's
+	const scrutineeTypeId = context.insts?.get(scrutineeId).typeId ?? inst.typeId
+	return buildMatchChain(mod, scrutineeExpr, arms, scrutineeTypeId, valueMap, context)
+}
+
+/*
+ * Closure records and lists live in one linear memory, the heap. Nothing
+ * is freed: each is allocated past the last, and memory grows as needed.
+ *
+ * Function values are closures: pointers to a record in linear memory.
+ * Slot 0 of the record holds the function's index in the function table,
+ * and slot k + 1 holds its k-th captured binding. Functions without
+ * captures share static records at the start of memory; closures that
+ * capture are allocated from a bump heap when they are created.
+ *
+ * Every table entry takes the record as a leading environment parameter.
+ * Anonymous lambdas take it directly; named functions, which keep their
+ * plain signature for direct calls and exports, get an adapter that
+ * drops it.
+ */
+
+/** Name of the table holding every user function, for indirect calls. */
+const FUNCTION_TABLE = 'functions'
+
+/** Linear memory holding closure records and lists. */
+const HEAP_MEMORY = 'heap'
+
+/** Global holding the address of the next free heap byte. */
+const HEAP_TOP = 'heap_top'
+
+/** Bytes per closure record slot; wide enough for any value type. */
+const CLOSURE_SLOT_SIZE = 8
+
+const WASM_PAGE_SIZE = 65536
+
+/**
+ * Whether a closure was allocated or a function value called. Only modules
+ * that do either get a table, memory and closure helpers.
+ */
+let closuresUsed = false
+
+/**
+ * Whether a list was created or read. Only modules that do either get a
+ * heap without closures.
+ */
+let listsUsed = false
+
+/** Function types called through the function table. */
+const indirectCallTypes = new Set<TypeId>()
+
+/** Defined user functions, in function table order. */
+function tableFunctions(context: CompilationContext): FuncId[] {
+	return [...(context.funcs ?? [])].filter(([, func]) => func.isDefined).map(([id]) => id)
+}
+
+function isAnonymous(funcId: FuncId, context: CompilationContext): boolean {
+	return context.funcs?.get(funcId).symbolId === null
+}
+
+function funcName(funcId: FuncId, context: CompilationContext): string {
+	const funcs = context.funcs
+	return funcs ? context.strings.get(funcs.get(funcId).nameId) : ''
+}
+
+/** Name of the table entry for a function. */
+function tableEntryName(funcId: FuncId, context: CompilationContext): string {
+	const name = funcName(funcId, context)
+	return isAnonymous(funcId, context) ? name : `${name}$closure`
+}
+
+function captureOffset(slot: number): number {
+	return CLOSURE_SLOT_SIZE * (slot + 1)
+}
+
+/** Read a value of a WebAssembly type from the heap. */
+function emitHeapLoad(
+	mod: binaryen.Module,
+	offset: number,
+	address: binaryen.ExpressionRef,
+	binaryenType: binaryen.Type
+): binaryen.ExpressionRef {
+	switch (binaryenType) {
+		case binaryen.i64:
+			return mod.i64.load(offset, 8, address, HEAP_MEMORY)
+		case binaryen.f32:
+			return mod.f32.load(offset, 4, address, HEAP_MEMORY)
+		case binaryen.f64:
+			return mod.f64.load(offset, 8, address, HEAP_MEMORY)
+		default:
+			return mod.i32.load(offset, 4, address, HEAP_MEMORY)
+	}
+}
+
+function emitHeapStore(
+	mod: binaryen.Module,
+	offset: number,
+	address: binaryen.ExpressionRef,
+	value: binaryen.ExpressionRef,
+	binaryenType: binaryen.Type
+): binaryen.ExpressionRef {
+	switch (binaryenType) {
+		case binaryen.i64:
+			return mod.i64.store(offset, 8, address, value, HEAP_MEMORY)
+		case binaryen.f32:
+			return mod.f32.store(offset, 4, address, value, HEAP_MEMORY)
+		case binaryen.f64:
+			return mod.f64.store(offset, 8, address, value, HEAP_MEMORY)
+		default:
+			return mod.i32.store(offset, 4, address, value, HEAP_MEMORY)
+	}
 }
 
-function resolveCalleeInfo(
+/**
+ * Allocate bytes from the heap into a local, growing memory by as many
+ * pages as the allocation runs past its end.
+ */
+function emitHeapAlloc(
+	mod: binaryen.Module,
+	local: number,
+	size: number
+): binaryen.ExpressionRef[] {
+	const top = () => mod.global.get(HEAP_TOP, binaryen.i32)
+	const memoryEnd = () => mod.i32.shl(mod.memory.size(HEAP_MEMORY), mod.i32.const(16))
+	const overrun = mod.i32.add(mod.i32.sub(top(), memoryEnd()), mod.i32.const(WASM_PAGE_SIZE - 1))
+	const pages = mod.i32.shr_u(overrun, mod.i32.const(16))
+	return [
+		mod.local.set(local, top()),
+		mod.global.set(HEAP_TOP, mod.i32.add(mod.local.get(local, binaryen.i32), mod.i32.const(size))),
+		mod.if(mod.i32.gt_u(top(), memoryEnd()), mod.drop(mod.memory.grow(pages, HEAP_MEMORY))),
+	]
+}
+
+/** Read a captured binding from the environment parameter. */
+function emitCaptureLoad(
+	mod: binaryen.Module,
+	slot: number,
+	binaryenType: binaryen.Type
+): binaryen.ExpressionRef {
+	const env = mod.local.get(0, binaryen.i32)
+	return emitHeapLoad(mod, captureOffset(slot), env, binaryenType)
+}
+
+/**
+ * Emit a function value. A function without captures is the address of
+ * its static record; a closure is allocated with the current values of
+ * the bindings it captures.
+ */
+function emitFuncRef(
+	mod: binaryen.Module,
+	funcId: FuncId,
+	context: CompilationContext
+): binaryen.ExpressionRef {
+	const captures = context.funcs?.get(funcId).captureSymbols ?? []
+	if (captures.length === 0) {
+		return mod.i32.const(tableFunctions(context).indexOf(funcId) * CLOSURE_SLOT_SIZE)
+	}
+	closuresUsed = true
+	const values = captures
+		.map((symId) => emitSymbolRef(mod, symId, context))
+		.filter((value) => value !== null)
+	return mod.call(`${funcName(funcId, context)}$make`, values, binaryen.i32)
+}
+
+/**
+ * Add the allocator of a capturing closure: it takes the captured values
+ * and returns a new record holding them.
+ */
+function addClosureMaker(
+	mod: binaryen.Module,
+	funcId: FuncId,
+	tableIndex: number,
+	context: CompilationContext
+): void {
+	const captures = context.funcs?.get(funcId).captureSymbols ?? []
+	const types = captures.map((symId) => toBinaryenType(symbolType(symId, context), context))
+	const record = types.length
+	const recordRef = () => mod.local.get(record, binaryen.i32)
+	const body = mod.block(
+		null,
+		[
+			...emitHeapAlloc(mod, record, captureOffset(types.length)),
+			mod.i32.store(0, 4, recordRef(), mod.i32.const(tableIndex), HEAP_MEMORY),
+			...types.map((type, slot) =>
+				emitHeapStore(mod, captureOffset(slot), recordRef(), mod.local.get(slot, type), type)
+			),
+			recordRef(),
+		],
+		binaryen.i32
+	)
+	const name = `${funcName(funcId, context)}$make`
+	mod.addFunction(name, binaryen.createType(types), binaryen.i32, [binaryen.i32], body)
+}
+
+function symbolType(symId: SymbolId, context: CompilationContext): TypeId {
+	return context.symbols?.get(symId).typeId ?? BuiltinTypeId.Invalid
+}
+
+function funcSignature(
+	funcId: FuncId,
+	context: CompilationContext
+): { params: binaryen.Type[]; result: binaryen.Type } {
+	const funcs = context.funcs
+	const typeInfo = funcs && context.types?.getFuncInfo(funcs.get(funcId).typeId)
+	return {
+		params: toBinaryenParamTypes(typeInfo?.paramTypes ?? [], context),
+		result: toBinaryenType(typeInfo?.returnType ?? BuiltinTypeId.None, context),
+	}
+}
+
+/**
+ * Add the table entry of a named function: an adapter that drops the
+ * environment parameter and calls the function directly, or runs its
+ * intrinsic when it is an extern.
+ */
+function addNamedFunctionAdapter(
+	mod: binaryen.Module,
+	funcId: FuncId,
+	context: CompilationContext
+): void {
+	const { params, result } = funcSignature(funcId, context)
+	const args = params.map((type, i) => mod.local.get(i + 1, type))
+	const body =
+		emitIntrinsic(mod, funcId, args, context) ??
+		emitCallTo(mod, funcName(funcId, context), args, result, tailCallsEnabled)
+	const adapterParams = binaryen.createType([binaryen.i32, ...params])
+	mod.addFunction(tableEntryName(funcId, context), adapterParams, result, [], body)
+}
+
+function addTableEntry(
+	mod: binaryen.Module,
+	funcId: FuncId,
+	tableIndex: number,
+	context: CompilationContext
+): void {
+	if (!isAnonymous(funcId, context)) addNamedFunctionAdapter(mod, funcId, context)
+	const captures = context.funcs?.get(funcId).captureSymbols ?? []
+	if (captures.length > 0) addClosureMaker(mod, funcId, tableIndex, context)
+}
+
+function indirectCallName(typeId: TypeId): string {
+	return `closure$call$${typeId}`
+}
+
+/**
+ * Add the helper that calls closures of one function type: it loads the
+ * table index from the record and passes the record as the environment.
+ */
+function addIndirectCallHelper(
+	mod: binaryen.Module,
+	typeId: TypeId,
+	context: CompilationContext
+): void {
+	const typeInfo = context.types?.getFuncInfo(typeId)
+	if (!typeInfo) return
+	const params = toBinaryenParamTypes(typeInfo.paramTypes, context)
+	const result = toBinaryenType(typeInfo.returnType, context)
+	const entryParams = binaryen.createType([binaryen.i32, ...params])
+	const operands = [binaryen.i32, ...params].map((type, i) => mod.local.get(i, type))
+	const target = mod.i32.load(0, 4, mod.local.get(0, binaryen.i32), HEAP_MEMORY)
+	const body = tailCallsEnabled
+		? mod.return_call_indirect(FUNCTION_TABLE, target, operands, entryParams, result)
+		: mod.call_indirect(FUNCTION_TABLE, target, operands, entryParams, result)
+	mod.addFunction(indirectCallName(typeId), entryParams, result, [], body)
+}
+
+/**
+ * Static records for functions without captures: slot 0 of record i
+ * holds table index i.
+ */
+function staticRecords(count: number): Uint8Array {
+	const data = new Uint8Array(count * CLOSURE_SLOT_SIZE)
+	const view = new DataView(data.buffer)
+	for (let i = 0; i < count; i++) view.setInt32(i * CLOSURE_SLOT_SIZE, i, true)
+	return data
+}
+
+/**
+ * Add the heap, starting with the static closure records when closures
+ * are used.
+ */
+function addHeapIfUsed(mod: binaryen.Module, context: CompilationContext): void {
+	if (!closuresUsed && !listsUsed) return
+	const data = staticRecords(closuresUsed ? tableFunctions(context).length : 0)
+	const pages = Math.max(1, Math.ceil(data.length / WASM_PAGE_SIZE))
+	const segments = data.length === 0 ? [] : [{ data, offset: mod.i32.const(0), passive: false }]
+	mod.setMemory(pages, WASM_PAGE_SIZE, null, segments, false, false, HEAP_MEMORY)
+	mod.addGlobal(HEAP_TOP, binaryen.i32, true, mod.i32.const(data.length))
+}
+
+function addClosureSupportIfUsed(mod: binaryen.Module, context: CompilationContext): void {
+	if (!closuresUsed) return
+	const entries = tableFunctions(context)
+	entries.forEach((funcId, i) => {
+		addTableEntry(mod, funcId, i, context)
+	})
+	for (const typeId of indirectCallTypes) addIndirectCallHelper(mod, typeId, context)
+	const names = entries.map((funcId) => tableEntryName(funcId, context))
+	mod.addTable(FUNCTION_TABLE, names.length, names.length)
+	mod.addActiveElementSegment(FUNCTION_TABLE, 'function_elements', names, mod.i32.const(0))
+}
+
+/*
+ * A list is the address of its elements, stored one after another on the
+ * heap. Each list type gets a maker that takes the elements and returns
+ * a new list. Indices the checker could not prove in range go through a
+ * helper that traps unless they are.
+ */
+
+/** Name of the helper that returns an index in range or traps. */
+const BOUNDS_CHECK = 'list$check'
+
+/** List types created by the program, each of which gets a maker. */
+const listTypes = new Set<TypeId>()
+
+/** Whether an index was checked against a list's size. */
+let boundsChecked = false
+
+function listMakerName(typeId: TypeId): string {
+	return `list$make$${typeId}`
+}
+
+/** Bytes per list element: eight for 64-bit values, four otherwise. */
+function listElementSize(binaryenType: binaryen.Type): number {
+	return binaryenType === binaryen.i64 || binaryenType === binaryen.f64 ? 8 : 4
+}
+
+function isListElement(inst: Inst | undefined): inst is Inst {
+	return inst?.kind === InstKind.ListElement
+}
+
+/**
+ * Emit a list: a call to its type's maker with the values of the
+ * ListElement instructions immediately before this ListMake.
+ */
+function emitListMake(
+	mod: binaryen.Module,
 	inst: Inst,
+	currentInstId: InstId,
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
 	context: CompilationContext
-): { calleeInstId: InstId; funcName: string } | null {
-	const calleeInstId = getCallCalleeId(inst)
-	const calleeInst = context.insts?.get(calleeInstId)
-	if (!calleeInst) return null
-	if (calleeInst.kind !== InstKind.VarRef) return null
+): binaryen.ExpressionRef {
+	const count = getListMakeCount(inst)
+	const firstElementId = (currentInstId as number) - count
+	const elementExprs = Array.from({ length: count }, (_, i) =>
+		context.insts?.get(instId(firstElementId + i))
+	)
+		.filter(isListElement)
+		.map((elementInst) => valueMap.get(getListElementValueId(elementInst)))
+		.filter((elementExpr) => elementExpr !== undefined)
+	listsUsed = true
+	listTypes.add(inst.typeId)
+	return mod.call(listMakerName(inst.typeId), elementExprs, binaryen.i32)
+}
 
-	const symId = getVarRefSymbolId(calleeInst)
-	const symbol = context.symbols?.get(symId)
-	if (!symbol) return null
+/** Read a list element: the index scales by the element size. */
+function emitListIndex(
+	mod: binaryen.Module,
+	inst: Inst,
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const list = valueMap.get(getListIndexListId(inst))
+	const index = valueMap.get(getListIndexIndexId(inst))
+	if (list === undefined || index === undefined) return null
+	listsUsed = true
+	const elementType = toBinaryenType(inst.typeId, context)
+	const offset = mod.i32.mul(index, mod.i32.const(listElementSize(elementType)))
+	return emitHeapLoad(mod, 0, mod.i32.add(list, offset), elementType)
+}
+
+function emitBoundsCheck(
+	mod: binaryen.Module,
+	inst: Inst,
+	valueMap: Map<InstId, binaryen.ExpressionRef>
+): binaryen.ExpressionRef | null {
+	const index = valueMap.get(getBoundsCheckIndexId(inst))
+	if (index === undefined) return null
+	boundsChecked = true
+	const size = mod.i32.const(getBoundsCheckSize(inst))
+	return mod.call(BOUNDS_CHECK, [index, size], binaryen.i32)
+}
+
+/**
+ * Add the maker of a list type: it allocates the list, eight-byte
+ * aligned, and stores the elements it takes.
+ */
+function addListMaker(mod: binaryen.Module, typeId: TypeId, context: CompilationContext): void {
+	const size = context.types?.getListSize(typeId) ?? 0
+	const elementTypeId = context.types?.getListElementType(typeId) ?? BuiltinTypeId.Invalid
+	const elementType = toBinaryenType(elementTypeId, context)
+	const elementSize = listElementSize(elementType)
+	const list = size
+	const listRef = () => mod.local.get(list, binaryen.i32)
+	const body = mod.block(
+		null,
+		[
+			...emitHeapAlloc(mod, list, Math.ceil((size * elementSize) / 8) * 8),
+			...Array.from({ length: size }, (_, i) =>
+				emitHeapStore(mod, i * elementSize, listRef(), mod.local.get(i, elementType), elementType)
+			),
+			listRef(),
+		],
+		binaryen.i32
+	)
+	const params = binaryen.createType(Array(size).fill(elementType))
+	mod.addFunction(listMakerName(typeId), params, binaryen.i32, [binaryen.i32], body)
+}
+
+/**
+ * Add the bounds check helper: it returns its index, trapping when the
+ * index is negative or not below the size.
+ */
+function addBoundsCheck(mod: binaryen.Module): void {
+	const index = () => mod.local.get(0, binaryen.i32)
+	const size = mod.local.get(1, binaryen.i32)
+	const body = mod.block(
+		null,
+		[mod.if(mod.i32.ge_u(index(), size), mod.unreachable()), index()],
+		binaryen.i32
+	)
+	const params = binaryen.createType([binaryen.i32, binaryen.i32])
+	mod.addFunction(BOUNDS_CHECK, params, binaryen.i32, [], body)
+}
+
+function addListSupportIfUsed(mod: binaryen.Module, context: CompilationContext): void {
+	for (const typeId of listTypes) addListMaker(mod, typeId, context)
+	if (boundsChecked) addBoundsCheck(mod)
+}
+
+/*
+ * A checked conversion passes its value through a helper for its integer
+ * type, with the bounds of the type it converts to. The helper returns
+ * the value, trapping unless it is within the bounds.
+ */
+
+/** Integer types whose values went through a checked conversion. */
+const refinementCheckTypes = new Set<TypeId>()
+
+function refinementCheckName(baseTypeId: TypeId): string {
+	return `refine$check$${TYPE_KEYS.get(baseTypeId)}`
+}
+
+function emitBigIntConst(
+	mod: binaryen.Module,
+	value: bigint,
+	binaryenType: binaryen.Type
+): binaryen.ExpressionRef {
+	const low = Number(BigInt.asIntN(32, value))
+	if (binaryenType !== binaryen.i64) return mod.i32.const(low)
+	return mod.i64.const(low, Number(BigInt.asIntN(32, value >> 32n)))
+}
+
+/** The bounds of a refined integer type; an open end is the end of its base type. */
+function refinementBounds(
+	typeId: TypeId,
+	baseTypeId: TypeId,
+	context: CompilationContext
+): { min: bigint; max: bigint } {
+	const typeBounds = INTEGER_TYPE_BOUNDS.get(baseTypeId) ?? INT_BOUNDS.i32
+	const { max, min } = context.types?.getConstraints(typeId) ?? {}
+	return { max: max ?? typeBounds.max, min: min ?? typeBounds.min }
+}
+
+function emitRefinementCheck(
+	mod: binaryen.Module,
+	inst: Inst,
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const value = valueMap.get(getRefinementCheckValueId(inst))
+	if (value === undefined) return null
+	const baseTypeId = context.types?.toWasmType(inst.typeId) ?? BuiltinTypeId.I32
+	const binaryenType = toBinaryenType(inst.typeId, context)
+	const { max, min } = refinementBounds(inst.typeId, baseTypeId, context)
+	refinementCheckTypes.add(baseTypeId)
+	return mod.call(
+		refinementCheckName(baseTypeId),
+		[value, emitBigIntConst(mod, min, binaryenType), emitBigIntConst(mod, max, binaryenType)],
+		binaryenType
+	)
+}
+
+/**
+ * Add the checked conversion helper for an integer type: it returns its
+ * value, trapping when the value is below its min or above its max.
+ */
+function addRefinementCheck(mod: binaryen.Module, baseTypeId: TypeId): void {
+	const is64 = baseTypeId === BuiltinTypeId.I64 || baseTypeId === BuiltinTypeId.U64
+	const [binaryenType, ops] = is64 ? [binaryen.i64, mod.i64] : [binaryen.i32, mod.i32]
+	const [lt, gt] = isUnsignedKey(TYPE_KEYS.get(baseTypeId))
+		? [ops.lt_u, ops.gt_u]
+		: [ops.lt_s, ops.gt_s]
+	const value = () => mod.local.get(0, binaryenType)
+	const outOfBounds = mod.i32.or(
+		lt(value(), mod.local.get(1, binaryenType)),
+		gt(value(), mod.local.get(2, binaryenType))
+	)
+	const body = mod.block(null, [mod.if(outOfBounds, mod.unreachable()), value()], binaryenType)
+	const params = binaryen.createType([binaryenType, binaryenType, binaryenType])
+	mod.addFunction(refinementCheckName(baseTypeId), params, binaryenType, [], body)
+}
+
+function addRefinementChecksIfUsed(mod: binaryen.Module): void {
+	for (const baseTypeId of refinementCheckTypes) addRefinementCheck(mod, baseTypeId)
+}
+
+/**
+ * The function a callee names, or null when the callee is a function value
+ * such as a parameter.
+ */
+function directCallee(calleeInst: Inst | undefined, context: CompilationContext): FuncId | null {
+	if (calleeInst?.kind !== InstKind.VarRef) return null
+	return context.funcs?.getBySymbol(getVarRefSymbolId(calleeInst)) ?? null
+}
 
-	return { calleeInstId, funcName: context.strings.get(symbol.nameId) }
+function isCallArg(inst: Inst | undefined): inst is Inst {
+	return inst?.kind === InstKind.CallArg
 }
 
+/**
+ * The operands an argument passes: its value, or each field of a record.
+ */
+function callArgOperands(
+	mod: binaryen.Module,
+	argInst: Inst,
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
+	context: CompilationContext
+): binaryen.ExpressionRef[] {
+	const valueId = getCallArgValueId(argInst)
+	const valueInst = context.insts?.get(valueId)
+	const fieldIds =
+		valueInst?.kind === InstKind.VarRef
+			? context.symbols?.getRecordFields(getVarRefSymbolId(valueInst))
+			: undefined
+	if (fieldIds) return emitRecordFieldRefs(mod, fieldIds, context)
+	const argExpr = valueMap.get(valueId)
+	return argExpr === undefined ? [] : [argExpr]
+}
+
+/**
+ * Collect argument values from the CallArg instructions preceding the Call.
+ */
 function collectCallArgExprs(
-	calleeInstId: InstId,
+	mod: binaryen.Module,
+	currentInstId: InstId,
 	argCount: number,
-	valueMap: Map<InstId, binaryen.ExpressionRef>
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
+	context: CompilationContext
 ): binaryen.ExpressionRef[] {
-	const argExprs: binaryen.ExpressionRef[] = []
-	for (let i = 1; i <= argCount; i++) {
-		const argInstId = instId((calleeInstId as number) + i)
-		const argExpr = valueMap.get(argInstId)
-		if (argExpr !== undefined) argExprs.push(argExpr)
-	}
-	return argExprs
+	const firstArgId = (currentInstId as number) - argCount
+	return Array.from({ length: argCount }, (_, i) => context.insts?.get(instId(firstArgId + i)))
+		.filter(isCallArg)
+		.flatMap((argInst) => callArgOperands(mod, argInst, valueMap, context))
+}
+
+// ============================================================================
+// Tail Calls
+// ============================================================================
+
+/** Whether calls in tail position replace the caller's frame. */
+let tailCallsEnabled = false
+
+/** Calls in tail position of the function bodies emitted so far. */
+const tailCallInsts = new Set<InstId>()
+
+/** A call, or a tail call that returns the callee's results directly. */
+function emitCallTo(
+	mod: binaryen.Module,
+	target: string,
+	operands: binaryen.ExpressionRef[],
+	type: binaryen.Type,
+	tail: boolean
+): binaryen.ExpressionRef {
+	return tail ? mod.return_call(target, operands, type) : mod.call(target, operands, type)
+}
+
+/**
+ * Call a function value through the call helper of its type.
+ */
+function emitIndirectCall(
+	mod: binaryen.Module,
+	calleeInstId: InstId,
+	argExprs: binaryen.ExpressionRef[],
+	tail: boolean,
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
+	context: CompilationContext
+): binaryen.ExpressionRef | null {
+	const closure = valueMap.get(calleeInstId)
+	const calleeInst = context.insts?.get(calleeInstId)
+	const typeInfo = calleeInst && context.types?.getFuncInfo(calleeInst.typeId)
+	if (closure === undefined || !typeInfo) return null
+
+	closuresUsed = true
+	indirectCallTypes.add(calleeInst.typeId)
+	const results = toBinaryenType(typeInfo.returnType, context)
+	return emitCallTo(mod, indirectCallName(calleeInst.typeId), [closure, ...argExprs], results, tail)
 }
 
 /**
  * Emit a function call.
- * arg0 = callee InstId (VarRef to function symbol)
+ * arg0 = callee InstId
  * arg1 = argument count
- * Arguments are the instructions immediately after the callee, before this Call.
+ * Arguments are the CallArg instructions immediately before this Call.
+ * A callee that names a function is called directly, or inlined when it
+ * is an extern; any other function value is called through the function
+ * table. Calls in tail position are tail calls when those are enabled.
  */
 function emitCall(
 	mod: binaryen.Module,
 	inst: Inst,
-	_currentInstId: InstId,
+	currentInstId: InstId,
 	valueMap: Map<InstId, binaryen.ExpressionRef>,
 	context: CompilationContext
 ): binaryen.ExpressionRef | null {
-	const calleeInfo = resolveCalleeInfo(inst, context)
-	if (!calleeInfo) return null
+	const calleeInstId = getCallCalleeId(inst)
+	const argExprs = collectCallArgExprs(mod, currentInstId, getCallArgCount(inst), valueMap, context)
+	const calleeId = directCallee(context.insts?.get(calleeInstId), context)
+	const tail = tailCallInsts.has(currentInstId)
+	if (calleeId === null) {
+		return emitIndirectCall(mod, calleeInstId, argExprs, tail, valueMap, context)
+	}
+	const type = toBinaryenType(inst.typeId, context)
+	return (
+		emitIntrinsic(mod, calleeId, argExprs, context) ??
+		emitCallTo(mod, funcName(calleeId, context), argExprs, type, tail)
+	)
+}
+
+/**
+ * Emit a call made for its effects. Calls that return nothing are
+ * statements already; any other value is dropped.
+ */
+function emitDiscard(
+	mod: binaryen.Module,
+	inst: Inst,
+	valueMap: Map<InstId, binaryen.ExpressionRef>
+): binaryen.ExpressionRef | null {
+	const value = valueMap.get(getDiscardValueId(inst))
+	if (value === undefined) return null
+	return binaryen.getExpressionType(value) === binaryen.none ? value : mod.drop(value)
+}
+
+function isTupleElement(inst: Inst | undefined): inst is Inst {
+	return inst?.kind === InstKind.TupleElement
+}
 
-	const argCount = getCallArgCount(inst)
-	const argExprs = collectCallArgExprs(calleeInfo.calleeInstId, argCount, valueMap)
-	const returnType = toBinaryenType(inst.typeId, context)
-	return mod.call(calleeInfo.funcName, argExprs, returnType)
+/**
+ * Emit a tuple as a multi-value.
+ * arg0 = element count
+ * Elements are the TupleElement instructions immediately before this TupleMake.
+ */
+function emitTupleMake(
+	mod: binaryen.Module,
+	inst: Inst,
+	currentInstId: InstId,
+	valueMap: Map<InstId, binaryen.ExpressionRef>,
+	context: CompilationContext
+): binaryen.ExpressionRef {
+	const count = getTupleMakeCount(inst)
+	const firstElementId = (currentInstId as number) - count
+	const elementExprs = Array.from({ length: count }, (_, i) =>
+		context.insts?.get(instId(firstElementId + i))
+	)
+		.filter(isTupleElement)
+		.map((elementInst) => valueMap.get(getTupleElementValueId(elementInst)))
+		.filter((elementExpr) => elementExpr !== undefined)
+	return mod.tuple.make(elementExprs)
+}
+
+function emitTupleExtract(
+	mod: binaryen.Module,
+	inst: Inst,
+	valueMap: Map<InstId, binaryen.ExpressionRef>
+): binaryen.ExpressionRef | null {
+	const tuple = valueMap.get(getTupleExtractTupleId(inst))
+	if (tuple === undefined) return null
+	return mod.tuple.extract(tuple, getTupleExtractIndex(inst))
 }
 
 /**
@@ -773,6 +1869,9 @@ function markExpressionTree(
 		case InstKind.BitwiseNot:
 			markExpressionTree(getBitwiseNotOperandId(inst), context, marked)
 			break
+		case InstKind.Convert:
+			markExpressionTree(getConvertOperandId(inst), context, marked)
+			break
 		case InstKind.LogicalAnd:
 			markExpressionTree(getLogicalAndLeftId(inst), context, marked)
 			markExpressionTree(getLogicalAndRightId(inst), context, marked)
@@ -789,16 +1888,31 @@ function emitBodyInstruction(
 	id: InstId,
 	valueMap: Map<InstId, binaryen.ExpressionRef>,
 	context: CompilationContext
-): void {
+): binaryen.ExpressionRef | null {
 	const inst = context.insts?.get(id)
-	if (!inst) return
+	if (!inst) return null
 	const expr = emitInstruction(mod, inst, id, valueMap, context)
 	if (expr !== null) valueMap.set(id, expr)
+	return expr
+}
+
+/**
+ * Instructions of the lambdas nested in a function body. They are
+ * emitted as functions of their own, so their bindings are not
+ * statements of the enclosing body.
+ */
+function nestedFuncInsts(bodyInstIds: readonly InstId[], context: CompilationContext): Set<InstId> {
+	const nested = bodyInstIds
+		.map((id) => context.insts?.get(id))
+		.filter((inst) => inst?.kind === InstKind.FuncDef)
+		.flatMap((inst) => context.funcs?.get(getFuncDefFuncId(inst as Inst) as FuncId).bodyInstIds)
+	return new Set(nested.filter((id) => id !== undefined))
 }
 
 /**
  * Emit the body of a user-defined function, processing instructions with param context.
- * For multi-line bodies (expression sequences), bodyInstIds contains all instructions.
+ * For multi-line bodies (expression sequences), bodyInstIds contains all instructions;
+ * their bindings and discarded calls run in order before the body's value is computed.
  */
 function emitFuncBody(
 	mod: binaryen.Module,
@@ -808,6 +1922,7 @@ function emitFuncBody(
 ): binaryen.ExpressionRef {
 	const valueMap = new Map<InstId, binaryen.ExpressionRef>()
 	const bodyInsts = new Set<InstId>()
+	markTailCalls(bodyInstId, context)
 
 	// Mark all body instructions and their dependencies
 	for (const id of bodyInstIds) {
@@ -815,18 +1930,34 @@ function emitFuncBody(
 	}
 
 	const sortedInsts = Array.from(bodyInsts).sort((a, b) => (a as number) - (b as number))
-	for (const id of sortedInsts) {
-		emitBodyInstruction(mod, id, valueMap, context)
-	}
+	const nested = nestedFuncInsts(bodyInstIds, context)
+	const statements = sortedInsts
+		.map((id) => ({ expr: emitBodyInstruction(mod, id, valueMap, context), id }))
+		.filter(({ expr, id }) => expr !== null && isBodyStatement(id, nested, context))
+		.map(({ expr }) => expr as binaryen.ExpressionRef)
+
+	const result = valueMap.get(bodyInstId) ?? mod.unreachable()
+	return statements.length === 0 ? result : mod.block(null, [...statements, result], binaryen.auto)
+}
+
+function markTailCalls(bodyInstId: InstId, context: CompilationContext): void {
+	if (!tailCallsEnabled || !context.insts) return
+	for (const id of tailCalls(bodyInstId, context.insts)) tailCallInsts.add(id)
+}
 
-	return valueMap.get(bodyInstId) ?? mod.unreachable()
+function isBodyStatement(id: InstId, nested: Set<InstId>, context: CompilationContext): boolean {
+	const kind = context.insts?.get(id).kind
+	return (kind === InstKind.Bind || kind === InstKind.Discard) && !nested.has(id)
 }
 
-function setupParamSymbolMap(paramSymbols: readonly SymbolId[]): Map<SymbolId, number> {
+function setupParamSymbolMap(
+	paramSymbols: readonly SymbolId[],
+	firstIndex: number
+): Map<SymbolId, number> {
 	const map = new Map<SymbolId, number>()
 	for (let i = 0; i < paramSymbols.length; i++) {
 		const symId = paramSymbols[i]
-		if (symId !== undefined) map.set(symId, i)
+		if (symId !== undefined) map.set(symId, firstIndex + i)
 	}
 	return map
 }
@@ -895,35 +2026,63 @@ function buildFuncLocals(
 	return locals
 }
 
+function exportedFunction(
+	name: string,
+	typeInfo: FuncTypeInfo,
+	context: CompilationContext
+): ExportedFunction {
+	return {
+		name,
+		params: typeInfo.paramTypes.flatMap((t) => toHostValueTypes(t, context)),
+		result: toHostResult(typeInfo.returnType, context),
+	}
+}
+
+/** Anonymous lambdas take their closure record before their own parameters. */
+function envParamTypes(funcInfo: FuncInfo): binaryen.Type[] {
+	return funcInfo.symbolId === null ? [binaryen.i32] : []
+}
+
 /**
- * Emit a user-defined function definition.
+ * Emit a user-defined function definition and export it.
+ * Anonymous lambdas are emitted but not exported; they take their closure
+ * record as a leading environment parameter.
  */
-function emitFuncDef(mod: binaryen.Module, inst: Inst, context: CompilationContext): void {
+function emitFuncDef(
+	mod: binaryen.Module,
+	inst: Inst,
+	context: CompilationContext
+): ExportedFunction | null {
 	const funcIdNum = getFuncDefFuncId(inst)
 	const bodyInstId = getFuncDefBodyId(inst)
 
 	const funcInfo = context.funcs?.get(funcIdNum as FuncId)
-	if (!funcInfo) return
+	if (!funcInfo) return null
 
 	const typeInfo = context.types?.getFuncInfo(funcInfo.typeId)
-	if (!typeInfo) return
+	if (!typeInfo) return null
 
-	const paramTypes = typeInfo.paramTypes.map((t) => toBinaryenType(t, context))
+	const envParams = envParamTypes(funcInfo)
+	const paramTypes = [...envParams, ...toBinaryenParamTypes(typeInfo.paramTypes, context)]
 	const returnType = toBinaryenType(typeInfo.returnType, context)
 	const paramCount = paramTypes.length
 	const locals = buildFuncLocals(funcInfo.bodyInstIds, paramCount, context)
 
-	currentParamMap = setupParamSymbolMap(funcInfo.paramSymbols)
+	currentParamMap = setupParamSymbolMap(funcInfo.paramSymbols, envParams.length)
+	currentCaptureMap = setupParamSymbolMap(funcInfo.captureSymbols, 0)
 	// Mark all body instructions for proper scoping
 	for (const id of funcInfo.bodyInstIds) {
 		markExpressionTree(id, context, funcBodyInsts)
 	}
 	const bodyExpr = emitFuncBody(mod, bodyInstId, funcInfo.bodyInstIds, context)
 	currentParamMap = null
+	currentCaptureMap = null
 
 	const name = context.strings.get(funcInfo.nameId)
 	mod.addFunction(name, binaryen.createType(paramTypes), returnType, locals, bodyExpr)
+	if (envParams.length > 0) return null
 	mod.addFunctionExport(name, name)
+	return exportedFunction(name, typeInfo, context)
 }
 
 /**
@@ -953,6 +2112,8 @@ function emitInstruction(
 			return emitNegate(mod, inst, valueMap, context)
 		case InstKind.BitwiseNot:
 			return emitBitwiseNot(mod, inst, valueMap, context)
+		case InstKind.Convert:
+			return emitConvert(mod, inst, valueMap, context)
 		case InstKind.BinaryOp:
 			return emitBinaryOp(mod, inst, valueMap, context)
 		case InstKind.LogicalAnd:
@@ -962,6 +2123,7 @@ function emitInstruction(
 		case InstKind.Match:
 			return emitMatch(mod, inst, currentInstId, valueMap, context)
 		case InstKind.MatchArm:
+		case InstKind.MatchGuard:
 			return null
 		case InstKind.FieldAccess:
 			// Field access on flattened records is resolved to VarRef by the checker.
@@ -974,6 +2136,28 @@ function emitInstruction(
 			return null
 		case InstKind.Call:
 			return emitCall(mod, inst, currentInstId, valueMap, context)
+		case InstKind.CallArg:
+			return null
+		case InstKind.Discard:
+			return emitDiscard(mod, inst, valueMap)
+		case InstKind.FuncRef:
+			return emitFuncRef(mod, getFuncRefFuncId(inst) as FuncId, context)
+		case InstKind.TupleMake:
+			return emitTupleMake(mod, inst, currentInstId, valueMap, context)
+		case InstKind.TupleElement:
+			return null
+		case InstKind.TupleExtract:
+			return emitTupleExtract(mod, inst, valueMap)
+		case InstKind.ListMake:
+			return emitListMake(mod, inst, currentInstId, valueMap, context)
+		case InstKind.ListElement:
+			return null
+		case InstKind.ListIndex:
+			return emitListIndex(mod, inst, valueMap, context)
+		case InstKind.BoundsCheck:
+			return emitBoundsCheck(mod, inst, valueMap)
+		case InstKind.RefinementCheck:
+			return emitRefinementCheck(mod, inst, valueMap, context)
 		default:
 			return null
 	}
@@ -986,16 +2170,29 @@ function isValueProducer(kind: InstKind): boolean {
 		kind === InstKind.VarRef ||
 		kind === InstKind.Negate ||
 		kind === InstKind.BitwiseNot ||
+		kind === InstKind.Convert ||
 		kind === InstKind.BinaryOp ||
 		kind === InstKind.LogicalAnd ||
 		kind === InstKind.LogicalOr ||
 		kind === InstKind.Match ||
-		kind === InstKind.Call
+		kind === InstKind.Call ||
+		kind === InstKind.FuncRef ||
+		kind === InstKind.TupleMake ||
+		kind === InstKind.TupleExtract ||
+		kind === InstKind.ListMake ||
+		kind === InstKind.ListIndex ||
+		kind === InstKind.BoundsCheck ||
+		kind === InstKind.RefinementCheck
 	)
 }
 
 function isStatement(kind: InstKind): boolean {
-	return kind === InstKind.Unreachable || kind === InstKind.Bind || kind === InstKind.PatternBind
+	return (
+		kind === InstKind.Unreachable ||
+		kind === InstKind.Bind ||
+		kind === InstKind.PatternBind ||
+		kind === InstKind.Discard
+	)
 }
 
 function processInstruction(
@@ -1023,14 +2220,39 @@ function processInstruction(
  * Emit all user-defined functions.
  * This must be called before collectExpressions to mark function body instructions.
  */
-function emitUserFunctions(mod: binaryen.Module, context: CompilationContext): void {
-	if (!context.insts) return
+function emitUserFunctions(mod: binaryen.Module, context: CompilationContext): ExportedFunction[] {
+	if (!context.insts) return []
 
-	for (const [_instId, inst] of context.insts) {
-		if (inst.kind === InstKind.FuncDef) {
-			emitFuncDef(mod, inst, context)
-		}
-	}
+	return [...context.insts]
+		.filter(([, inst]) => inst.kind === InstKind.FuncDef)
+		.map(([, inst]) => emitFuncDef(mod, inst, context))
+		.filter((exported) => exported !== null)
+}
+
+function addHostImport(
+	mod: binaryen.Module,
+	funcId: FuncId,
+	func: FuncInfo,
+	extern: HostExtern,
+	context: CompilationContext
+): ImportedFunction | null {
+	const typeInfo = context.types?.getFuncInfo(func.typeId)
+	if (!typeInfo) return null
+	const { params, result } = funcSignature(funcId, context)
+	const name = funcName(funcId, context)
+	mod.addFunctionImport(name, extern.module, extern.name, binaryen.createType(params), result)
+	return { module: extern.module, ...exportedFunction(extern.name, typeInfo, context) }
+}
+
+/**
+ * Import the functions bound with `extern host`.
+ */
+function addHostImports(mod: binaryen.Module, context: CompilationContext): ImportedFunction[] {
+	return [...(context.funcs ?? [])]
+		.map(([id, func]) =>
+			func.extern?.kind === 'host' ? addHostImport(mod, id, func, func.extern, context) : null
+		)
+		.filter((imported) => imported !== null)
 }
 
 function collectExpressions(
@@ -1071,12 +2293,17 @@ function setupStartFunction(
 	}
 }
 
-function emitResult(mod: binaryen.Module, warnings: CompileWarning[]): CompileResult {
+function emitResult(
+	mod: binaryen.Module,
+	warnings: CompileWarning[],
+	functions: ExportedFunction[],
+	imports: ImportedFunction[]
+): CompileResult {
 	const valid = mod.validate() === 1
 	const binary = mod.emitBinary()
 	const text = mod.emitText()
 	mod.dispose()
-	return { binary, text, valid, warnings }
+	return { binary, functions, imports, text, valid, warnings }
 }
 
 function extractWarnings(context: CompilationContext): CompileWarning[] {
@@ -1092,6 +2319,14 @@ function extractWarnings(context: CompilationContext): CompileWarning[] {
 		}))
 }
 
+function setFeatures(mod: binaryen.Module): void {
+	// Tuples are returned and stored as multi-values, and the `trunc_sat`
+	// intrinsics are non-trapping float-to-int conversions
+	const features =
+		mod.getFeatures() | binaryen.Features.Multivalue | binaryen.Features.NontrappingFPToInt
+	mod.setFeatures(tailCallsEnabled ? features | binaryen.Features.TailCall : features)
+}
+
 /**
  * Emit WebAssembly from a compiled program.
  *
@@ -1099,12 +2334,26 @@ function extractWarnings(context: CompilationContext): CompileWarning[] {
  */
 export function emit(context: CompilationContext, options: EmitOptions = {}): CompileResult {
 	const mod = new binaryen.Module()
+	tailCallsEnabled = options.tailCalls === true
+	setFeatures(mod)
 
 	funcBodyInsts.clear()
-	emitUserFunctions(mod, context)
+	tailCallInsts.clear()
+	closuresUsed = false
+	listsUsed = false
+	boundsChecked = false
+	refinementCheckTypes.clear()
+	indirectCallTypes.clear()
+	listTypes.clear()
+	const imports = addHostImports(mod, context)
+	const functions = emitUserFunctions(mod, context)
 
 	const locals = buildLocals(context)
 	const expressions = collectExpressions(mod, context)
+	addClosureSupportIfUsed(mod, context)
+	addListSupportIfUsed(mod, context)
+	addRefinementChecksIfUsed(mod)
+	addHeapIfUsed(mod, context)
 
 	if (expressions.length === 0 && !context.funcs?.count()) {
 		mod.dispose()
@@ -1122,5 +2371,5 @@ export function emit(context: CompilationContext, options: EmitOptions = {}): Co
 	}
 
 	const warnings = extractWarnings(context)
-	return emitResult(mod, warnings)
+	return emitResult(mod, warnings, functions, imports)
 }
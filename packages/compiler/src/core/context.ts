@@ -14,6 +14,7 @@ import {
 } from './diagnostics.ts'
 import { type NodeId, NodeStore } from './nodes.ts'
 import { type TokenId, TokenStore } from './tokens.ts'
+import { TriviaStore } from './trivia.ts'
 
 export { DiagnosticSeverity } from './diagnostics.ts'
 
@@ -39,6 +40,21 @@ export interface Diagnostic {
 	readonly suggestionOverride?: string
 }
 
+/** A 1-indexed line and column in the source. */
+export interface SourcePosition {
+	readonly line: number
+	readonly column: number
+}
+
+const WORD_PATTERN = /^[\w$]+/
+
+/** Length of the word starting at a 0-indexed column, or 1 for any other character. */
+function spanLength(sourceLine: string, start: number): number {
+	if (start >= sourceLine.length) return 0
+	const match = WORD_PATTERN.exec(sourceLine.slice(start))
+	return match ? match[0].length : 1
+}
+
 /**
  * Branded type for string IDs.
  * Used for identifier names interned in StringStore.
@@ -146,6 +162,9 @@ export class CompilationContext {
 	/** Token storage (populated by tokenizer) */
 	readonly tokens: TokenStore
 
+	/** Comments, whitespace and other untokenized text (populated by tokenizer) */
+	readonly trivia: TriviaStore
+
 	/** Parse node storage (populated by parser) */
 	readonly nodes: NodeStore
 
@@ -175,6 +194,7 @@ export class CompilationContext {
 		this.filename = filename
 		this.strings = new StringStore()
 		this.tokens = new TokenStore()
+		this.trivia = new TriviaStore()
 		this.nodes = new NodeStore()
 		this.floats = new FloatStore()
 	}
@@ -293,6 +313,23 @@ export class CompilationContext {
 		return lines[line - 1]
 	}
 
+	/** Suggestion text for a diagnostic, with its arguments interpolated. */
+	getSuggestion(diagnostic: Diagnostic): string | undefined {
+		const text = diagnostic.suggestionOverride ?? diagnostic.def.suggestion
+		return text === undefined ? undefined : interpolateMessage(text, diagnostic.args)
+	}
+
+	/**
+	 * End of a diagnostic's span (1-indexed, exclusive). Diagnostics only
+	 * record where they start, so the span extends over the word at that
+	 * position, or one character when no word starts there.
+	 */
+	getDiagnosticEnd(diagnostic: Diagnostic): SourcePosition {
+		const start = Math.max(diagnostic.column - 1, 0)
+		const sourceLine = this.getSourceLine(diagnostic.line) ?? ''
+		return { column: start + 1 + spanLength(sourceLine, start), line: diagnostic.line }
+	}
+
 	// ===========================================================================
 	// ===========================================================================
 
@@ -350,9 +387,8 @@ export class CompilationContext {
 		const { emptyPrefix, lines: contextLines } = this.buildSourceContext(diagnostic, sourceLine)
 		const lines = [header, location, ...contextLines]
 
-		const suggestionText = diagnostic.suggestionOverride ?? def.suggestion
-		if (suggestionText) {
-			const suggestion = interpolateMessage(suggestionText, diagnostic.args)
+		const suggestion = this.getSuggestion(diagnostic)
+		if (suggestion) {
 			lines.push(emptyPrefix, `   = help: ${suggestion}`)
 		}
 
@@ -12,7 +12,16 @@ export {
 	DiagnosticSeverity,
 	interpolateMessage,
 	TWCHECK001,
+	TWCHECK002,
+	TWCHECK003,
+	TWCHECK004,
+	TWCHECK005,
+	TWCHECK006,
+	TWCHECK007,
+	TWCHECK008,
+	TWCHECK009,
 	TWCHECK010,
+	TWCHECK011,
 	TWCHECK012,
 	TWCHECK013,
 	TWCHECK014,
@@ -36,14 +45,31 @@ export {
 	TWCHECK032,
 	TWCHECK033,
 	TWCHECK038,
+	TWCHECK039,
+	TWCHECK043,
+	TWCHECK044,
+	TWCHECK045,
+	TWCHECK046,
+	TWCHECK047,
+	TWCHECK048,
+	TWCHECK049,
 	TWCHECK050,
 	TWCHECK051,
+	TWCHECK052,
+	TWCHECK053,
+	TWCHECK054,
+	TWCHECK100,
+	TWCHECK101,
+	TWCHECK102,
+	TWCHECK103,
+	TWCHECK104,
 	TWGEN001,
 	TWLEX001,
 	TWLEX002,
 	TWLEX003,
 	TWLEX004,
 	TWLEX005,
+	TWLEX006,
 	TWPARSE001,
 } from '@tinywhale/diagnostics'
 
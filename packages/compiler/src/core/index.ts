@@ -26,3 +26,4 @@ export {
 	type ParseNode,
 } from './nodes.ts'
 export { type Token, type TokenId, TokenKind, TokenStore, tokenId } from './tokens.ts'
+export { type Trivia, type TriviaId, TriviaKind, TriviaStore } from './trivia.ts'
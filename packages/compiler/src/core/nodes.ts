@@ -15,12 +15,16 @@ export const NodeKind = {
 
 	// Patterns (200-249)
 	BindingPattern: 202,
+	BoolLiteral: 125,
 	Bound: 153,
 	CompareChain: 106,
+	ConversionExpr: 124,
 
 	// Structure (0-9, 255)
 	DedentLine: 1,
 	ExpressionSequence: 116,
+	ExternHost: 123,
+	ExternWasm: 121,
 	FieldAccess: 109,
 
 	// Type/Field declarations (50-59)
@@ -44,15 +48,21 @@ export const NodeKind = {
 	LiteralPattern: 201,
 	MatchArm: 13,
 	MatchExpr: 119, // Moved to expression range (100-149)
+	MatchGuard: 14,
 	OrPattern: 203,
 	PanicExpr: 118,
 	Parameter: 52,
 	ParameterList: 53,
 	ParenExpr: 105,
 	Program: 255,
+	RangePattern: 206,
 	RecordLiteral: 107,
 	RefinementType: 154,
 	RootLine: 2,
+	StringLiteral: 122,
+	TupleLiteral: 120,
+	TuplePattern: 204,
+	TupleType: 158,
 	TypeAlias: 18,
 	TypeAnnotation: 150,
 	TypeBounds: 155,
@@ -60,6 +70,8 @@ export const NodeKind = {
 	TypeList: 157,
 	UnaryExpr: 102,
 	VariableBinding: 11,
+	VariantDecl: 54,
+	VariantPattern: 205,
 	WildcardPattern: 200,
 } as const
 
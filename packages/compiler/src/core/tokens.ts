@@ -8,19 +8,24 @@ export const TokenKind = {
 	Ampersand: 24,
 	AmpersandAmpersand: 38,
 	Arrow: 6,
+	As: 9,
 	Bang: 29,
 	BangEqual: 37,
+	Bool: 51,
 	Caret: 25,
 	Colon: 3,
 	Comma: 43,
 	Dedent: 1,
 	Dot: 42,
+	DotDot: 48,
 
 	Eof: 255,
 	EqualEqual: 36,
 	Equals: 4,
+	Extern: 17,
 	F32: 13,
 	F64: 14,
+	False: 53,
 	FloatLiteral: 102,
 	GreaterEqual: 35,
 	GreaterGreater: 32,
@@ -30,8 +35,10 @@ export const TokenKind = {
 	I64: 12,
 
 	Identifier: 100,
+	If: 19,
 	Indent: 0,
 	IntLiteral: 101,
+	LBrace: 46,
 	LBracket: 44,
 	LessEqual: 34,
 	LessLess: 31,
@@ -49,12 +56,18 @@ export const TokenKind = {
 	PipePipe: 39,
 
 	Plus: 20,
+	RBrace: 47,
 	RBracket: 45,
 	RParen: 41,
 	Slash: 22,
 	Star: 21,
+	StringLiteral: 103,
+	Tailrec: 18,
 	Tilde: 26,
+	True: 52,
 	Type: 16,
+	U32: 49,
+	U64: 50,
 	Underscore: 7,
 } as const
 
@@ -78,8 +91,8 @@ export function offsetTokenId(id: TokenId, offset: number): TokenId {
  * A single token - fixed size, no pointers.
  * Payload meaning depends on kind:
  * - Indent/Dedent: indent level
- * - Future identifiers: index into string table
- * - Future literals: index into literal table
+ * - Identifiers and numeric literals: index into string table
+ * - String literals: index into string table, without the quotes
  */
 export interface Token {
 	readonly kind: TokenKind
@@ -0,0 +1,64 @@
+/**
+ * Trivia storage: the source text that produces no tokens.
+ *
+ * The parser never sees trivia, but tools that rewrite source do. Together
+ * with the tokens, trivia covers every character of every line, so the
+ * original text can be rebuilt from the token and trivia stores alone.
+ */
+
+/** Trivia kinds - small integer discriminant. */
+export const TriviaKind = {
+	/** A `#` comment, from the `#` to the end of the line */
+	Comment: 0,
+	/** A `"use spaces"` indentation directive line */
+	Directive: 1,
+	/** A character the tokenizer does not recognize */
+	Skipped: 2,
+	/** Indentation or spacing between tokens */
+	Whitespace: 3,
+} as const
+
+export type TriviaKind = (typeof TriviaKind)[keyof typeof TriviaKind]
+
+export type TriviaId = number & { readonly __brand: 'TriviaId' }
+
+/** A run of trivia on one line. Line and column are 1-indexed. */
+export interface Trivia {
+	readonly kind: TriviaKind
+	readonly line: number
+	readonly column: number
+	readonly length: number
+}
+
+/**
+ * Dense array storage for trivia.
+ * Append-only during tokenization phase.
+ */
+export class TriviaStore {
+	private readonly trivia: Trivia[] = []
+
+	add(trivia: Trivia): TriviaId {
+		const id = this.trivia.length as TriviaId
+		this.trivia.push(trivia)
+		return id
+	}
+
+	get(id: TriviaId): Trivia {
+		const trivia = this.trivia[id]
+		if (trivia === undefined) {
+			throw new Error(`Invalid TriviaId: ${id}`)
+		}
+		return trivia
+	}
+
+	count(): number {
+		return this.trivia.length
+	}
+
+	*[Symbol.iterator](): Generator<[TriviaId, Trivia]> {
+		for (let i = 0; i < this.trivia.length; i++) {
+			const trivia = this.trivia[i]
+			if (trivia !== undefined) yield [i as TriviaId, trivia]
+		}
+	}
+}
@@ -0,0 +1,489 @@
+/**
+ * Source formatter.
+ *
+ * Formatting works line by line on the token and trivia stores: every
+ * statement fits on one line, so reprinting a line's tokens with
+ * normalized spacing and its indentation level in the file's own unit is
+ * enough. Comments come from trivia and are kept verbatim. The parse tree
+ * is not needed beyond confirming that the source parses; formatting
+ * broken code would only guess at what the user meant.
+ */
+
+import { CompilationContext } from '../core/context.ts'
+import { type Token, TokenKind } from '../core/tokens.ts'
+import { TriviaKind } from '../core/trivia.ts'
+import { type Indentation, tokenize } from '../lex/tokenizer.ts'
+import { parse } from '../parse/parser.ts'
+
+export interface FormatResult {
+	/** Whether the source could be formatted: it must tokenize and parse */
+	readonly succeeded: boolean
+	/** The formatted source, or the original source if formatting failed */
+	readonly text: string
+	/** The analysis of the original source, for reporting diagnostics */
+	readonly context: CompilationContext
+}
+
+/** A token as written. */
+interface RawToken {
+	readonly kind: TokenKind
+	readonly text: string
+}
+
+/** A token as written, with its role in spacing decided. */
+interface LineToken extends RawToken {
+	/** A prefix `-`, `!` or `~` */
+	readonly unary: boolean
+	/** The `<` of a bound list such as `i32<min=0>` */
+	readonly opensBounds: boolean
+	/** Inside a bound list, where `=` binds tightly */
+	readonly inBounds: boolean
+}
+
+/** One source line, reduced to what the formatter reprints. */
+interface SourceLine {
+	readonly level: number
+	readonly tokens: readonly LineToken[]
+	readonly comment: string | null
+	readonly directive: string | null
+}
+
+/** One output line before blank lines are normalized. */
+interface OutputLine {
+	readonly level: number
+	readonly code: string
+	readonly comment: string | null
+	/** Opens a record type declaration at the top level */
+	readonly declaresType: boolean
+}
+
+const LAYOUT_TOKENS: ReadonlySet<TokenKind> = new Set([
+	TokenKind.Dedent,
+	TokenKind.Eof,
+	TokenKind.Indent,
+	TokenKind.Newline,
+])
+
+const TYPE_KEYWORDS: ReadonlySet<TokenKind> = new Set([
+	TokenKind.Bool,
+	TokenKind.F32,
+	TokenKind.F64,
+	TokenKind.I32,
+	TokenKind.I64,
+	TokenKind.U32,
+	TokenKind.U64,
+])
+
+/** Tokens after which a `-` is binary subtraction rather than negation. */
+const OPERAND_ENDS: ReadonlySet<TokenKind> = new Set([
+	...TYPE_KEYWORDS,
+	TokenKind.False,
+	TokenKind.FloatLiteral,
+	TokenKind.Identifier,
+	TokenKind.IntLiteral,
+	TokenKind.RBrace,
+	TokenKind.RBracket,
+	TokenKind.RParen,
+	TokenKind.True,
+	TokenKind.Underscore,
+])
+
+/** Tokens a call or index attaches to: `f(x)`, `l[0]`, `i32[]`. */
+const CALLEES: ReadonlySet<TokenKind> = new Set([
+	...TYPE_KEYWORDS,
+	TokenKind.Identifier,
+	TokenKind.RBracket,
+	TokenKind.RParen,
+])
+
+const NO_SPACE_BEFORE: ReadonlySet<TokenKind> = new Set([
+	TokenKind.Colon,
+	TokenKind.Comma,
+	TokenKind.Dot,
+	TokenKind.DotDot,
+	TokenKind.RBrace,
+	TokenKind.RBracket,
+	TokenKind.RParen,
+])
+
+const NO_SPACE_AFTER: ReadonlySet<TokenKind> = new Set([
+	TokenKind.Dot,
+	TokenKind.LBrace,
+	TokenKind.LBracket,
+	TokenKind.LParen,
+])
+
+/** Tokens that start the upper end of a range pattern: `0..9`, `..-1`. */
+const RANGE_ENDS: ReadonlySet<TokenKind> = new Set([TokenKind.IntLiteral, TokenKind.Minus])
+
+/** Spaces between code and a trailing comment. */
+const COMMENT_GAP = 2
+
+const PREFIX_OPERATORS: ReadonlySet<TokenKind> = new Set([TokenKind.Bang, TokenKind.Tilde])
+
+type SpacingRule = (previous: LineToken, next: LineToken) => boolean
+
+/** Pairs of tokens written without a space between them. */
+const TIGHT_PAIRS: readonly SpacingRule[] = [
+	(previous, next) => NO_SPACE_AFTER.has(previous.kind) || NO_SPACE_BEFORE.has(next.kind),
+	(previous) => previous.unary,
+	(previous, next) => previous.opensBounds || next.opensBounds,
+	(_, next) => next.inBounds && next.kind === TokenKind.GreaterThan,
+	(previous, next) => isBoundEquals(previous) || isBoundEquals(next),
+	(previous, next) => previous.kind === TokenKind.DotDot && RANGE_ENDS.has(next.kind),
+	(previous, next) =>
+		(next.kind === TokenKind.LParen || next.kind === TokenKind.LBracket) &&
+		CALLEES.has(previous.kind),
+]
+
+function isBoundEquals(token: LineToken): boolean {
+	return token.inBounds && token.kind === TokenKind.Equals
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function pushToMap<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+	const existing = map.get(key)
+	if (existing) existing.push(value)
+	else map.set(key, [value])
+}
+
+interface LineElement {
+	readonly column: number
+	readonly kind: TokenKind | null
+	readonly trivia: TriviaKind | null
+	/** Indentation level carried by an Indent token */
+	readonly level: number
+}
+
+function tokenElement(token: Token): LineElement {
+	const level = token.kind === TokenKind.Indent ? token.payload : 0
+	return { column: token.column, kind: token.kind, level, trivia: null }
+}
+
+/**
+ * Group tokens and trivia by line. A token's text runs up to whatever
+ * starts next on its line, since tokens and trivia cover every character.
+ */
+function collectElements(context: CompilationContext): Map<number, LineElement[]> {
+	const byLine = new Map<number, LineElement[]>()
+	for (const [, token] of context.tokens) pushToMap(byLine, token.line, tokenElement(token))
+	for (const [, trivia] of context.trivia) {
+		const element = { column: trivia.column, kind: null, level: 0, trivia: trivia.kind }
+		pushToMap(byLine, trivia.line, element)
+	}
+	for (const elements of byLine.values()) elements.sort((a, b) => a.column - b.column)
+	return byLine
+}
+
+function elementText(text: string, elements: readonly LineElement[], i: number): string {
+	const start = (elements[i]?.column ?? 1) - 1
+	const next = elements.slice(i + 1).find((element) => element.column - 1 > start)
+	return text.slice(start, next === undefined ? text.length : next.column - 1)
+}
+
+function leadingWhitespace(text: string): number {
+	return text.length - text.trimStart().length
+}
+
+/** Level of a line without tokens, from its leading whitespace. */
+function triviaLevel(text: string, indentation: Indentation | null): number {
+	return indentation === null ? 0 : Math.floor(leadingWhitespace(text) / indentation.unit)
+}
+
+function readLine(
+	text: string,
+	elements: readonly LineElement[],
+	indentation: Indentation | null
+): SourceLine {
+	const texts = elements.map((_, i) => elementText(text, elements, i))
+	const triviaText = (kind: TriviaKind): string | null => {
+		const i = elements.findIndex((element) => element.trivia === kind)
+		return i === -1 ? null : (texts[i] ?? '').trimEnd()
+	}
+	const tokens = elements.flatMap((element, i) =>
+		element.kind === null || LAYOUT_TOKENS.has(element.kind)
+			? []
+			: [{ kind: element.kind, text: texts[i] ?? '' }]
+	)
+	const indent = elements.find((element) => element.kind === TokenKind.Indent)
+	return {
+		comment: triviaText(TriviaKind.Comment),
+		directive: triviaText(TriviaKind.Directive),
+		level: tokens.length > 0 ? (indent?.level ?? 0) : triviaLevel(text, indentation),
+		tokens: annotateTokens(splitBoundsClose(tokens)),
+	}
+}
+
+function readLines(context: CompilationContext, indentation: Indentation | null): SourceLine[] {
+	const byLine = collectElements(context)
+	return context.source
+		.split('\n')
+		.map((text, i) => readLine(text, byLine.get(i + 1) ?? [], indentation))
+}
+
+// ============================================================================
+// Spacing
+// ============================================================================
+
+/**
+ * `i32<`, `f64<` and `i32[]<` open bound lists; any other `<` compares,
+ * including one after a conversion: `x as i32 < 5`.
+ */
+function opensBounds(tokens: readonly RawToken[], i: number): boolean {
+	if (tokens[i]?.kind !== TokenKind.LessThan) return false
+	const previous = tokens[i - 1]?.kind
+	if (previous !== undefined && TYPE_KEYWORDS.has(previous)) {
+		return tokens[i - 2]?.kind !== TokenKind.As
+	}
+	return previous === TokenKind.RBracket && tokens[i - 2]?.kind === TokenKind.LBracket
+}
+
+function isUnary(kind: TokenKind, previous: TokenKind | undefined): boolean {
+	if (PREFIX_OPERATORS.has(kind)) return true
+	return kind === TokenKind.Minus && (previous === undefined || !OPERAND_ENDS.has(previous))
+}
+
+/** Whether each token lies inside a bound list, its closing `>` included. */
+function boundsMembership(tokens: readonly RawToken[]): boolean[] {
+	let inside = false
+	return tokens.map((token, i) => {
+		const member = inside
+		inside = opensBounds(tokens, i) || (inside && token.kind !== TokenKind.GreaterThan)
+		return member
+	})
+}
+
+/**
+ * `i32<max=5>= 3` lexes its `>=` as one token, though the grammar reads
+ * it as the end of the bound list and the binding's `=`. Split it so it
+ * is printed as `i32<max=5> = 3`.
+ */
+function splitBoundsClose(tokens: readonly RawToken[]): RawToken[] {
+	const inBounds = boundsMembership(tokens)
+	return tokens.flatMap((token, i) =>
+		inBounds[i] && token.kind === TokenKind.GreaterEqual
+			? [
+					{ kind: TokenKind.GreaterThan, text: '>' },
+					{ kind: TokenKind.Equals, text: '=' },
+				]
+			: [token]
+	)
+}
+
+function annotateTokens(tokens: readonly RawToken[]): LineToken[] {
+	const inBounds = boundsMembership(tokens)
+	return tokens.map((token, i) => ({
+		...token,
+		inBounds: inBounds[i] ?? false,
+		opensBounds: opensBounds(tokens, i),
+		unary: isUnary(token.kind, tokens[i - 1]?.kind),
+	}))
+}
+
+function printTokens(tokens: readonly LineToken[]): string {
+	return tokens
+		.map((token, i) => {
+			const previous = tokens[i - 1]
+			const tight = previous === undefined || TIGHT_PAIRS.some((rule) => rule(previous, token))
+			return tight ? token.text : ` ${token.text}`
+		})
+		.join('')
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function isTypeDeclaration(line: SourceLine, next: SourceLine | undefined): boolean {
+	const [name, ...rest] = line.tokens
+	const isTypeName = name?.kind === TokenKind.Identifier && /^[A-Z]/.test(name.text)
+	return line.level === 0 && isTypeName && rest.length === 0 && (next?.level ?? 0) > 0
+}
+
+function nextCodeLine(lines: readonly SourceLine[], i: number): SourceLine | undefined {
+	return lines.slice(i + 1).find((line) => line.tokens.length > 0)
+}
+
+function isBlank(line: SourceLine): boolean {
+	return line.tokens.length === 0 && line.comment === null && line.directive === null
+}
+
+/** Blank lines become null; runs of them are collapsed when joining. */
+function toOutputLine(line: SourceLine, next: SourceLine | undefined): OutputLine | null {
+	if (isBlank(line)) return null
+	if (line.directive !== null) {
+		return { code: line.directive, comment: null, declaresType: false, level: 0 }
+	}
+	return {
+		code: printTokens(line.tokens),
+		comment: line.comment,
+		declaresType: isTypeDeclaration(line, next),
+		level: line.level,
+	}
+}
+
+function indentText(level: number, indentation: Indentation | null): string {
+	if (indentation === null || level === 0) return ''
+	return indentation.type === 'tab' ? '\t'.repeat(level) : ' '.repeat(level * indentation.unit)
+}
+
+/**
+ * Where a top-level type declaration needs a blank line: before it (and
+ * the comments directly above it) and after its indented block.
+ */
+function typeDeclarationBreaks(lines: readonly (OutputLine | null)[]): Set<number> {
+	const breaks = new Set<number>()
+	lines.forEach((line, i) => {
+		if (!line?.declaresType) return
+		breaks.add(attachedCommentsStart(lines, i))
+		breaks.add(blockEnd(lines, i))
+	})
+	return breaks
+}
+
+function isTopLevelComment(line: OutputLine | null | undefined): boolean {
+	return line?.code === '' && line.level === 0
+}
+
+function attachedCommentsStart(lines: readonly (OutputLine | null)[], i: number): number {
+	let start = i
+	while (isTopLevelComment(lines[start - 1])) start--
+	return start
+}
+
+/** The index of the first top-level line after a declaration's block. */
+function blockEnd(lines: readonly (OutputLine | null)[], i: number): number {
+	let end = i + 1
+	while (end < lines.length && (lines[end] ?? null)?.level !== 0) end++
+	return end
+}
+
+/** Whether a blank line at this index would follow a non-blank one. */
+function isAfterContent(lines: readonly (OutputLine | null)[], i: number): boolean {
+	return i > 0 && lines[i - 1] !== null
+}
+
+/**
+ * Place blank lines: at most one in a row, none at the ends, and exactly
+ * one around type declarations. Between other top-level declarations,
+ * such as bindings and function definitions, a blank line is kept where
+ * the source has one and none is added, so related bindings can stay
+ * grouped.
+ */
+function placeBlankLines(lines: readonly (OutputLine | null)[]): (OutputLine | null)[] {
+	const breaks = typeDeclarationBreaks(lines)
+	const spaced = lines.flatMap((line, i) =>
+		line !== null && breaks.has(i) ? [null, line] : [line]
+	)
+	const output = spaced.filter((line, i) => line !== null || isAfterContent(spaced, i))
+	while (output.length > 0 && output.at(-1) === null) output.pop()
+	return output
+}
+
+/** Width of a line's code when it has a trailing comment, else null. */
+function commentedWidth(line: OutputLine | null, indentation: Indentation | null): number | null {
+	if (line?.comment == null || line.code === '') return null
+	return indentText(line.level, indentation).length + line.code.length
+}
+
+/** Indices of consecutive lines that all have trailing comments. */
+function commentGroups(widths: readonly (number | null)[]): number[][] {
+	const groups: number[][] = [[]]
+	widths.forEach((width, i) => {
+		if (width === null) groups.push([])
+		else groups.at(-1)?.push(i)
+	})
+	return groups.filter((group) => group.length > 0)
+}
+
+/**
+ * Trailing comments on consecutive lines start in the same column, two
+ * spaces after the longest line of code among them.
+ */
+function commentOffsets(
+	lines: readonly (OutputLine | null)[],
+	indentation: Indentation | null
+): Map<number, number> {
+	const widths = lines.map((line) => commentedWidth(line, indentation))
+	const offsets = new Map<number, number>()
+	for (const group of commentGroups(widths)) {
+		const offset = Math.max(...group.map((i) => widths[i] ?? 0)) + COMMENT_GAP
+		for (const i of group) offsets.set(i, offset)
+	}
+	return offsets
+}
+
+function renderLine(
+	line: OutputLine,
+	offset: number | undefined,
+	indentation: Indentation | null
+): string {
+	const code = `${indentText(line.level, indentation)}${line.code}`
+	if (line.comment === null) return code
+	if (line.code === '') return `${code}${line.comment}`
+	return `${code.padEnd(offset ?? code.length + COMMENT_GAP)}${line.comment}`
+}
+
+/** Comments are aligned after blank lines are placed, since those end a group. */
+function render(lines: readonly (OutputLine | null)[], indentation: Indentation | null): string {
+	const placed = placeBlankLines(lines)
+	const offsets = commentOffsets(placed, indentation)
+	const rendered = placed.map((line, i) =>
+		line === null ? '' : renderLine(line, offsets.get(i), indentation)
+	)
+	return rendered.length === 0 ? '' : `${rendered.join('\n')}\n`
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** What formatting must preserve: each line's level, tokens and comment. */
+function signature(lines: readonly SourceLine[]): string[] {
+	return lines
+		.filter((line) => line.tokens.length > 0 || line.comment !== null || line.directive !== null)
+		.map((line) =>
+			JSON.stringify([
+				line.level,
+				line.tokens.map((token) => token.text),
+				line.comment,
+				line.directive,
+			])
+		)
+}
+
+function analyzeSource(source: string, filename: string) {
+	const context = new CompilationContext(source, filename)
+	const { indentation, succeeded } = tokenize(context)
+	return { context, indentation, succeeded: succeeded && parse(context).succeeded }
+}
+
+/**
+ * Format TinyWhale source. Indentation is normalized to the unit the
+ * file already uses; spacing, blank lines and trailing comment
+ * alignment follow one fixed style. Type declarations are set apart by
+ * blank lines; other declarations keep the grouping the source gives
+ * them. Every comment is kept.
+ *
+ * @throws {Error} If the formatted source would not mean the same thing;
+ *   that is a formatter bug, never a problem with the input
+ */
+export function format(source: string, filename = '<input>'): FormatResult {
+	const { context, indentation, succeeded } = analyzeSource(source, filename)
+	if (!succeeded) return { context, succeeded: false, text: source }
+
+	const lines = readLines(context, indentation)
+	const output = lines.map((line, i) => toOutputLine(line, nextCodeLine(lines, i)))
+	const text = render(output, indentation)
+
+	const formatted = analyzeSource(text, filename)
+	const preserved =
+		formatted.succeeded &&
+		signature(readLines(formatted.context, formatted.indentation)).join('\n') ===
+			signature(lines).join('\n')
+	if (!preserved) throw new Error(`formatting ${filename} would change its meaning`)
+	return { context, succeeded: true, text }
+}
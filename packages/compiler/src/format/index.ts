@@ -0,0 +1,6 @@
+/**
+ * Formatting module.
+ * Reprints source in the canonical TinyWhale style.
+ */
+
+export { type FormatResult, format } from './formatter.ts'
@@ -8,11 +8,40 @@
  */
 
 import { check } from './check/checker.ts'
-import { CompileError, emit } from './codegen/index.ts'
-import { CompilationContext } from './core/context.ts'
+import { CompileError, type CompileResult, type EmitOptions, emit } from './codegen/index.ts'
+import { CompilationContext, type Diagnostic, DiagnosticSeverity } from './core/context.ts'
 import { tokenize } from './lex/tokenizer.ts'
 import { parse } from './parse/parser.ts'
 
+export {
+	applyTextEdits,
+	type CompletionItem,
+	type CompletionKind,
+	declaredType,
+	findDefinition,
+	findReferences,
+	flattenedOrigin,
+	getCompletions,
+	getHover,
+	getSemanticTokens,
+	type HoverInfo,
+	type HoverRole,
+	type Occurrence,
+	prepareRename,
+	ReferenceIndex,
+	type RenameResult,
+	type RenameTarget,
+	type Resolution,
+	rename,
+	resolveNode,
+	resolveToken,
+	SemanticIndex,
+	type SemanticToken,
+	type SemanticTokenModifier,
+	type SemanticTokenType,
+	type SourceSpan,
+	type TextEdit,
+} from './analysis/index.ts'
 export {
 	BuiltinTypeId,
 	type CheckResult,
@@ -37,7 +66,11 @@ export {
 	type CompileResult,
 	type CompileWarning,
 	type EmitOptions,
+	type ExportedFunction,
 	emit,
+	type HostValueType,
+	type ImportedFunction,
+	type WasmValueType,
 } from './codegen/index.ts'
 // CompileOptions is exported from the compile function definition below
 export {
@@ -47,7 +80,14 @@ export {
 } from './core/context.ts'
 export { type NodeId, NodeKind, NodeStore, nodeId, type ParseNode } from './core/nodes.ts'
 export { type Token, type TokenId, TokenKind, TokenStore, tokenId } from './core/tokens.ts'
-export { type TokenizeOptions, type TokenizeResult, tokenize } from './lex/tokenizer.ts'
+export { type Trivia, type TriviaId, TriviaKind, TriviaStore } from './core/trivia.ts'
+export { type FormatResult, format } from './format/index.ts'
+export {
+	type Indentation,
+	type TokenizeOptions,
+	type TokenizeResult,
+	tokenize,
+} from './lex/tokenizer.ts'
 export { matchOnly, type ParseResult, parse } from './parse/parser.ts'
 
 /**
@@ -58,34 +98,98 @@ export interface CompileOptions {
 	filename?: string
 	/** Run optimization passes on the output */
 	optimize?: boolean
+	/** Compile calls in tail position to WebAssembly tail calls */
+	tailCalls?: boolean
 }
 
 /**
- * Get the formatted error message from the first diagnostic.
+ * A diagnostic as plain data, for tools that present diagnostics
+ * themselves. Lines and columns are 1-indexed; the end is exclusive.
  */
-function getFormattedError(context: CompilationContext, fallback: string): string {
-	const error = context.getErrors()[0]
-	if (!error) return fallback
-	return context.formatDiagnostic(error)
+export interface CompileDiagnostic {
+	code: string
+	severity: DiagnosticSeverity
+	message: string
+	suggestion?: string
+	line: number
+	column: number
+	endLine: number
+	endColumn: number
+	/** Rust-style rendering with the source line, as printed by the CLI */
+	formattedMessage: string
 }
 
 /**
- * Run the emission phase with proper error formatting.
+ * Outcome of compileToResult: every diagnostic reported, and the module
+ * when compilation succeeded.
  */
-function runEmitPhase(
+export interface CompileReport {
+	/** null when any phase reported an error */
+	result: CompileResult | null
+	diagnostics: CompileDiagnostic[]
+}
+
+function toCompileDiagnostic(
 	context: CompilationContext,
-	optimize: boolean
-): import('./codegen/index.ts').CompileResult {
+	diagnostic: Diagnostic
+): CompileDiagnostic {
+	const end = context.getDiagnosticEnd(diagnostic)
+	const suggestion = context.getSuggestion(diagnostic)
+	return {
+		code: diagnostic.def.code,
+		column: diagnostic.column,
+		endColumn: end.column,
+		endLine: end.line,
+		formattedMessage: context.formatDiagnostic(diagnostic),
+		line: diagnostic.line,
+		message: diagnostic.message,
+		severity: diagnostic.def.severity,
+		...(suggestion === undefined ? {} : { suggestion }),
+	}
+}
+
+/**
+ * Run the front end, stopping at the first phase that fails: later
+ * phases depend on the output of earlier ones, so running them after a
+ * failure would only produce cascading noise.
+ */
+function analyzeProgram(context: CompilationContext): boolean {
+	return tokenize(context).succeeded && parse(context).succeeded && check(context).succeeded
+}
+
+/**
+ * Run the emission phase. An empty program reports a diagnostic and
+ * throws; any other emission failure is a compiler bug.
+ */
+function runEmitPhase(context: CompilationContext, options: EmitOptions): CompileResult | null {
 	try {
-		return emit(context, { optimize })
+		return emit(context, options)
 	} catch {
-		if (context.hasErrors()) {
-			throw new CompileError(getFormattedError(context, 'Emission failed'))
-		}
+		if (context.hasErrors()) return null
 		throw new CompileError('Emission failed')
 	}
 }
 
+/**
+ * Compile TinyWhale source to WebAssembly without throwing on errors.
+ *
+ * Runs the same phases as compile() but collects every diagnostic the
+ * failing phase reports instead of stopping at the first one.
+ *
+ * @param source - TinyWhale source code
+ * @param options - Compilation options
+ * @returns The compiled module (if any) and all errors and warnings
+ * @throws {CompileError} Only if emission fails without a diagnostic,
+ *   which is a compiler bug
+ */
+export function compileToResult(source: string, options: CompileOptions = {}): CompileReport {
+	const context = new CompilationContext(source, options.filename)
+	const emitOptions = { optimize: options.optimize ?? false, tailCalls: options.tailCalls ?? false }
+	const result = analyzeProgram(context) ? runEmitPhase(context, emitOptions) : null
+	const diagnostics = context.getDiagnostics().map((d) => toCompileDiagnostic(context, d))
+	return { diagnostics, result }
+}
+
 /**
  * Compile TinyWhale source to WebAssembly.
  *
@@ -98,28 +202,11 @@ function runEmitPhase(
  * @param source - TinyWhale source code
  * @param options - Compilation options
  * @returns Compilation result with binary, text, and validation status
- * @throws {CompileError} If compilation fails
+ * @throws {CompileError} With the first error if compilation fails
  */
-export function compile(
-	source: string,
-	options: CompileOptions = {}
-): import('./codegen/index.ts').CompileResult {
-	const context = new CompilationContext(source, options.filename)
-
-	const tokenResult = tokenize(context)
-	if (!tokenResult.succeeded) {
-		throw new CompileError(getFormattedError(context, 'Tokenization failed'))
-	}
-
-	const parseResult = parse(context)
-	if (!parseResult.succeeded) {
-		throw new CompileError(getFormattedError(context, 'Parse failed'))
-	}
-
-	const checkResult = check(context)
-	if (!checkResult.succeeded) {
-		throw new CompileError(getFormattedError(context, 'Check failed'))
-	}
-
-	return runEmitPhase(context, options.optimize ?? false)
+export function compile(source: string, options: CompileOptions = {}): CompileResult {
+	const { diagnostics, result } = compileToResult(source, options)
+	if (result) return result
+	const error = diagnostics.find((d) => d.severity === DiagnosticSeverity.Error)
+	throw new CompileError(error?.formattedMessage ?? 'Compilation failed')
 }
@@ -3,4 +3,9 @@
  * Tokenizes source code into a flat array of tokens.
  */
 
-export { type TokenizeOptions, type TokenizeResult, tokenize } from './tokenizer.ts'
+export {
+	type Indentation,
+	type TokenizeOptions,
+	type TokenizeResult,
+	tokenize,
+} from './tokenizer.ts'
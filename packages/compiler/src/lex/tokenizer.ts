@@ -1,11 +1,21 @@
 import type { CompilationContext } from '../core/context.ts'
 import type { DiagnosticCode } from '../core/diagnostics.ts'
 import { TokenKind } from '../core/tokens.ts'
+import { TriviaKind } from '../core/trivia.ts'
 
 type IndentType = 'tab' | 'space'
 
+/** How a source file indents its blocks. */
+export interface Indentation {
+	readonly type: IndentType
+	/** Characters per level: 1 for tabs, the detected unit for spaces */
+	readonly unit: number
+}
+
 export interface TokenizeResult {
 	succeeded: boolean
+	/** The indentation the source uses, or null if no line is indented */
+	indentation: Indentation | null
 }
 
 export interface TokenizeOptions {
@@ -177,22 +187,32 @@ function calculateIndentLevel(
  * Type keywords are reserved and cannot be used as identifiers.
  */
 const KEYWORDS: Record<string, (typeof TokenKind)[keyof typeof TokenKind]> = {
+	as: TokenKind.As,
+	bool: TokenKind.Bool,
+	extern: TokenKind.Extern,
 	f32: TokenKind.F32,
 	f64: TokenKind.F64,
+	false: TokenKind.False,
 	i32: TokenKind.I32,
 	i64: TokenKind.I64,
+	if: TokenKind.If,
 	match: TokenKind.Match,
 	panic: TokenKind.Panic,
+	tailrec: TokenKind.Tailrec,
+	true: TokenKind.True,
+	u32: TokenKind.U32,
+	u64: TokenKind.U64,
 }
 
 const SIMPLE_OPERATORS: Record<string, TokenKind | undefined> = {
 	',': TokenKind.Comma,
 	':': TokenKind.Colon,
-	'.': TokenKind.Dot,
 	'(': TokenKind.LParen,
 	')': TokenKind.RParen,
 	'[': TokenKind.LBracket,
 	']': TokenKind.RBracket,
+	'{': TokenKind.LBrace,
+	'}': TokenKind.RBrace,
 	'*': TokenKind.Star,
 	'/': TokenKind.Slash,
 	'^': TokenKind.Caret,
@@ -200,6 +220,11 @@ const SIMPLE_OPERATORS: Record<string, TokenKind | undefined> = {
 	'~': TokenKind.Tilde,
 }
 
+/** Whether a word is reserved and can never be an identifier. */
+export function isKeyword(text: string): boolean {
+	return Object.hasOwn(KEYWORDS, text)
+}
+
 function getTokenKindForText(text: string): TokenKind | null {
 	if (text === '_') return TokenKind.Underscore
 	return KEYWORDS[text] ?? null
@@ -209,6 +234,11 @@ function isIdentifierStart(char: string): boolean {
 	return /[a-zA-Z_]/.test(char)
 }
 
+/** Effectful function names start with `@`, as in `@log`. */
+function isEffectfulIdentifierStart(content: string, pos: number): boolean {
+	return content[pos] === '@' && isIdentifierStart(content[pos + 1] ?? '')
+}
+
 function isIdentifierPart(char: string): boolean {
 	return /[a-zA-Z0-9_]/.test(char)
 }
@@ -274,10 +304,19 @@ function emitDedentTokens(
 	}
 }
 
+function identifierEnd(content: string, start: number): number {
+	let pos = start
+	while (pos < content.length && isIdentifierPart(content[pos] as string)) {
+		pos++
+	}
+	return pos
+}
+
 /**
  * Tokenize identifier or keyword at position.
  * Returns the end position after the identifier.
  * Special case: standalone '_' is tokenized as Underscore (wildcard pattern).
+ * An identifier may start with `@`, which is part of its name.
  */
 function tokenizeIdentifierOrKeyword(
 	content: string,
@@ -286,10 +325,7 @@ function tokenizeIdentifierOrKeyword(
 	lineNumber: number,
 	context: CompilationContext
 ): number {
-	let pos = startPos
-	while (pos < content.length && isIdentifierPart(content[pos] as string)) {
-		pos++
-	}
+	const pos = identifierEnd(content, content[startPos] === '@' ? startPos + 1 : startPos)
 	const text = content.slice(startPos, pos)
 	const column = indentCount + startPos + 1
 	const tokenKind = getTokenKindForText(text)
@@ -373,6 +409,29 @@ function tokenizeNumericLiteral(
 	return pos
 }
 
+/**
+ * Tokenize a string literal at position. Strings end on the same line and
+ * have no escapes. Returns the end position after the closing quote, or
+ * null if the string is unterminated.
+ */
+function tokenizeStringLiteral(
+	content: string,
+	startPos: number,
+	indentCount: number,
+	lineNumber: number,
+	context: CompilationContext
+): number | null {
+	const closing = content.indexOf('"', startPos + 1)
+	const column = indentCount + startPos + 1
+	if (closing === -1) {
+		context.emit('TWLEX006' as DiagnosticCode, lineNumber, column, {})
+		return null
+	}
+	const stringId = context.strings.intern(content.slice(startPos + 1, closing))
+	context.tokens.add({ column, kind: TokenKind.StringLiteral, line: lineNumber, payload: stringId })
+	return closing + 1
+}
+
 function peek(content: string, pos: number, offset: number): string | undefined {
 	return content[pos + offset]
 }
@@ -382,6 +441,7 @@ type OpResult = { kind: TokenKind; advance: number }
 const MULTI_CHAR_FALLBACKS: Record<string, OpResult> = {
 	'-': { advance: 1, kind: TokenKind.Minus },
 	'!': { advance: 1, kind: TokenKind.Bang },
+	'.': { advance: 1, kind: TokenKind.Dot },
 	'&': { advance: 1, kind: TokenKind.Ampersand },
 	'%': { advance: 1, kind: TokenKind.Percent },
 	'<': { advance: 1, kind: TokenKind.LessThan },
@@ -393,6 +453,7 @@ const MULTI_CHAR_FALLBACKS: Record<string, OpResult> = {
 const TWO_CHAR_OPS: Record<string, OpResult> = {
 	'->': { advance: 2, kind: TokenKind.Arrow },
 	'!=': { advance: 2, kind: TokenKind.BangEqual },
+	'..': { advance: 2, kind: TokenKind.DotDot },
 	'&&': { advance: 2, kind: TokenKind.AmpersandAmpersand },
 	'%%': { advance: 2, kind: TokenKind.PercentPercent },
 	'<<': { advance: 2, kind: TokenKind.LessLess },
@@ -453,19 +514,38 @@ function isWhitespace(char: string): boolean {
 
 function handleKnownToken(char: string, pos: number, state: TokenizeState): number | null {
 	const { content, context, indentCount, lineNumber } = state
-	if (isIdentifierStart(char)) {
+	if (isIdentifierStart(char) || isEffectfulIdentifierStart(content, pos)) {
 		return tokenizeIdentifierOrKeyword(content, pos, indentCount, lineNumber, context)
 	}
 	if (isDigit(char)) {
 		return tokenizeNumericLiteral(content, pos, indentCount, lineNumber, context)
 	}
+	if (char === '"') {
+		return tokenizeStringLiteral(content, pos, indentCount, lineNumber, context)
+	}
 	return tokenizeOperator(char, pos, indentCount, lineNumber, context, content)
 }
 
+/** Record the text between two content positions as trivia; returns the end. */
+function addTrivia(state: TokenizeState, kind: TriviaKind, start: number, end: number): number {
+	state.context.trivia.add({
+		column: state.indentCount + start + 1,
+		kind,
+		length: end - start,
+		line: state.lineNumber,
+	})
+	return end
+}
+
 function tokenizeSingleToken(char: string, pos: number, state: TokenizeState): number | 'break' {
-	if (isWhitespace(char)) return skipWhitespace(state.content, pos)
-	if (char === '#') return 'break'
-	return handleKnownToken(char, pos, state) ?? pos + 1
+	if (isWhitespace(char)) {
+		return addTrivia(state, TriviaKind.Whitespace, pos, skipWhitespace(state.content, pos))
+	}
+	if (char === '#') {
+		addTrivia(state, TriviaKind.Comment, pos, state.content.length)
+		return 'break'
+	}
+	return handleKnownToken(char, pos, state) ?? addTrivia(state, TriviaKind.Skipped, pos, pos + 1)
 }
 
 /**
@@ -511,6 +591,14 @@ function processLine(
 		lineNumber,
 		context
 	)
+	if (indentCount > 0) {
+		context.trivia.add({
+			column: 1,
+			kind: TriviaKind.Whitespace,
+			length: indentCount,
+			line: lineNumber,
+		})
+	}
 	emitIndentToken(newLevel, state.previousLevel, lineNumber, context)
 	emitDedentTokens(newLevel, state.previousLevel, lineNumber, context)
 	state.previousLevel = newLevel
@@ -598,6 +686,12 @@ function handleDirectiveLine(
 	if (directive === null) return false
 
 	state.directiveFound = true
+	context.trivia.add({
+		column: 1,
+		kind: TriviaKind.Directive,
+		length: line.length,
+		line: state.lineNumber,
+	})
 	if (state.mode === 'directive') {
 		state.expectedIndentType = directive
 	}
@@ -636,6 +730,12 @@ function processSourceLine(line: string, state: TokenizerState, context: Compila
 	processLine(line, state.lineNumber, indentCount, indentType, state, context)
 }
 
+function detectedIndentation(state: TokenizerState): Indentation | null {
+	if (state.expectedIndentType === 'tab') return { type: 'tab', unit: 1 }
+	if (state.indentUnit === null) return null
+	return { type: 'space', unit: state.indentUnit }
+}
+
 function finishTokenization(state: TokenizerState, context: CompilationContext): void {
 	if (state.bufferedLines.length > 0) {
 		flushBufferedLines(state, context)
@@ -665,5 +765,5 @@ export function tokenize(
 	}
 
 	finishTokenization(state, context)
-	return { succeeded: !context.hasErrors() }
+	return { indentation: detectedIndentation(state), succeeded: !context.hasErrors() }
 }
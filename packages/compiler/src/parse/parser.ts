@@ -21,10 +21,28 @@ function tokenToOhmString(token: Token, context: CompilationContext): string | n
 			return 'panic'
 		case TokenKind.Match:
 			return 'match'
+		case TokenKind.Extern:
+			return 'extern'
+		case TokenKind.Tailrec:
+			return 'tailrec'
+		case TokenKind.If:
+			return 'if'
+		case TokenKind.As:
+			return 'as'
 		case TokenKind.I32:
 			return 'i32'
 		case TokenKind.I64:
 			return 'i64'
+		case TokenKind.U32:
+			return 'u32'
+		case TokenKind.U64:
+			return 'u64'
+		case TokenKind.Bool:
+			return 'bool'
+		case TokenKind.True:
+			return 'true'
+		case TokenKind.False:
+			return 'false'
 		case TokenKind.F32:
 			return 'f32'
 		case TokenKind.F64:
@@ -35,6 +53,8 @@ function tokenToOhmString(token: Token, context: CompilationContext): string | n
 			return context.strings.get(token.payload as StringId)
 		case TokenKind.FloatLiteral:
 			return context.strings.get(token.payload as StringId)
+		case TokenKind.StringLiteral:
+			return `"${context.strings.get(token.payload as StringId)}"`
 		case TokenKind.Colon:
 			return ':'
 		case TokenKind.Equals:
@@ -91,12 +111,18 @@ function tokenToOhmString(token: Token, context: CompilationContext): string | n
 			return ')'
 		case TokenKind.Dot:
 			return '.'
+		case TokenKind.DotDot:
+			return '..'
 		case TokenKind.Bang:
 			return '!'
 		case TokenKind.LBracket:
 			return '['
 		case TokenKind.RBracket:
 			return ']'
+		case TokenKind.LBrace:
+			return '{'
+		case TokenKind.RBrace:
+			return '}'
 		case TokenKind.Comma:
 			return ','
 		default:
@@ -294,8 +320,18 @@ function createNodeEmittingSemantics(
 		return typeNode.child(0).ctorName === 'FuncType'
 	}
 
+	function isTupleTypeRef(typeNode: Node): boolean {
+		if (typeNode.ctorName !== 'TypeRef') return false
+		return typeNode.child(0).ctorName === 'TupleType'
+	}
+
 	function isComplexTypeRef(typeNode: Node): boolean {
-		return isListTypeRef(typeNode) || isRefinementTypeRef(typeNode) || isFuncTypeRef(typeNode)
+		return (
+			isListTypeRef(typeNode) ||
+			isRefinementTypeRef(typeNode) ||
+			isFuncTypeRef(typeNode) ||
+			isTupleTypeRef(typeNode)
+		)
 	}
 
 	function maybeEmitComplexType(typeNode: Node): void {
@@ -306,7 +342,7 @@ function createNodeEmittingSemantics(
 
 	/**
 	 * Emit a TypeAnnotation node for any TypeRef (simple or complex).
-	 * For complex types (ListType, RefinementType, FuncType), emits the complex type as child.
+	 * For complex types (ListType, RefinementType, FuncType, TupleType), emits the complex type as child.
 	 * For simple types (typeKeyword, upperIdentifier), emits just the TypeAnnotation with the token.
 	 */
 	function emitTypeRefAsTypeAnnotation(typeNode: Node): NodeId {
@@ -383,7 +419,7 @@ function createNodeEmittingSemantics(
 		AddExpr(first: Node, ops: Node, rest: Node): NodeId {
 			return emitBinaryChain(first, ops, rest)
 		},
-		BindingExpr(
+		BindingExpr_named(
 			ident: Node,
 			_optColons: Node,
 			optTypeRefs: Node,
@@ -409,6 +445,22 @@ function createNodeEmittingSemantics(
 				tokenId: tid,
 			})
 		},
+		BindingExpr_tuple(pattern: Node, _equals: Node, expr: Node): NodeId {
+			const startCount = context.nodes.count()
+			pattern['emitPattern']()
+			expr['emitExpression']()
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(pattern)
+			return context.nodes.add({
+				kind: NodeKind.BindingExpr,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
+		BindingValue(value: Node): NodeId {
+			return value['emitExpression']()
+		},
 		BitwiseAndExpr(first: Node, ops: Node, rest: Node): NodeId {
 			return emitBinaryChain(first, ops, rest)
 		},
@@ -418,17 +470,64 @@ function createNodeEmittingSemantics(
 		BitwiseXorExpr(first: Node, ops: Node, rest: Node): NodeId {
 			return emitBinaryChain(first, ops, rest)
 		},
+		boolLiteral(_keyword: Node): NodeId {
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.BoolLiteral,
+				subtreeSize: 1,
+				tokenId: tid,
+			})
+		},
 		CompareExpr(first: Node, ops: Node, rest: Node): NodeId {
 			if (ops.numChildren === 0) return first['emitExpression']()
 			if (ops.numChildren === 1) return emitBinaryChain(first, ops, rest)
 			return emitCompareChain(first, ops, rest)
 		},
+		// The node's token is the type converted to: `x as i64`
+		ConversionExpr_convert(expr: Node, _asKeyword: Node, typeKeyword: Node): NodeId {
+			const childId = expr['emitExpression']() as NodeId
+			const tid = getTokenIdForOhmNode(typeKeyword)
+			const childSize = context.nodes.get(childId).subtreeSize
+			return context.nodes.add({
+				kind: NodeKind.ConversionExpr,
+				subtreeSize: 1 + childSize,
+				tokenId: tid,
+			})
+		},
 		DeclarationExpr(decl: Node): NodeId {
 			return decl['emitExpression']()
 		},
 		Expression(expr: Node): NodeId {
 			return expr['emitExpression']()
 		},
+		ExternFunc(extern: Node): NodeId {
+			return extern['emitExpression']()
+		},
+		ExternHost(_externKeyword: Node, _hostKeyword: Node, module: Node, name: Node): NodeId {
+			const startCount = context.nodes.count()
+			module['emitExpression']()
+			name['emitExpression']()
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.ExternHost,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
+		ExternWasm(_externKeyword: Node, _wasmKeyword: Node, opcode: Node): NodeId {
+			const startCount = context.nodes.count()
+			opcode['emitExpression']()
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.ExternWasm,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
 		FieldAccess(base: Node, _dots: Node, fields: Node): NodeId {
 			let currentId = base['emitExpression']() as NodeId
 
@@ -492,18 +591,20 @@ function createNodeEmittingSemantics(
 
 			for (let i = 0; i < indices.numChildren; i++) {
 				const indexNode = indices.child(i)
+				const indexStartCount = context.nodes.count()
 				indexNode['emitExpression']()
+				const indexSize = context.nodes.count() - indexStartCount
 				const tid = getTokenIdForOhmNode(indexNode)
 				const baseSize = context.nodes.get(currentId).subtreeSize
 				currentId = context.nodes.add({
 					kind: NodeKind.IndexAccess,
-					subtreeSize: 1 + baseSize + 1,
+					subtreeSize: 1 + baseSize + indexSize,
 					tokenId: tid,
 				})
 			}
 			return currentId
 		},
-		identifier(_firstChar: Node, _restChars: Node): NodeId {
+		identifier(_effectMarker: Node, _firstChar: Node, _restChars: Node): NodeId {
 			const tid = getTokenIdForOhmNode(this)
 			return context.nodes.add({
 				kind: NodeKind.Identifier,
@@ -595,6 +696,33 @@ function createNodeEmittingSemantics(
 				tokenId: tid,
 			})
 		},
+		stringLiteral(_open: Node, _chars: Node, _close: Node): NodeId {
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.StringLiteral,
+				subtreeSize: 1,
+				tokenId: tid,
+			})
+		},
+		// The Lambda node is marked by the keyword token just before it
+		TailrecLambda(_tailrecKeyword: Node, lambda: Node): NodeId {
+			return lambda['emitLambda']()
+		},
+		TupleLiteral(_lbrace: Node, first: Node, _commas: Node, rest: Node, _rbrace: Node): NodeId {
+			const startCount = context.nodes.count()
+			first['emitExpression']()
+			for (const child of rest.children) {
+				child['emitExpression']()
+			}
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.TupleLiteral,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
 		TypeAlias(typeName: Node, _equals: Node, typeRef: Node): NodeId {
 			const startCount = context.nodes.count()
 			emitTypeRefAsTypeAnnotation(typeRef)
@@ -691,6 +819,21 @@ function createNodeEmittingSemantics(
 				tokenId: tid,
 			})
 		},
+		TupleType(_lbrace: Node, first: Node, _commas: Node, rest: Node, _rbrace: Node): NodeId {
+			const startCount = context.nodes.count()
+			emitTypeRefAsTypeAnnotation(first)
+			for (const child of rest.children) {
+				emitTypeRefAsTypeAnnotation(child)
+			}
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.TupleType,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
 		TypeAnnotation(_colon: Node, typeRef: Node): NodeId {
 			const startCount = context.nodes.count()
 			maybeEmitComplexType(typeRef)
@@ -730,6 +873,15 @@ function createNodeEmittingSemantics(
 				tokenId: tid,
 			})
 		},
+		// Boolean patterns are literal patterns too: the checker tells them apart by token.
+		BoolPattern(_lit: Node): NodeId {
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.LiteralPattern,
+				subtreeSize: 1,
+				tokenId: tid,
+			})
+		},
 		LiteralPattern(_optMinus: Node, _lit: Node): NodeId {
 			const tid = getTokenIdForOhmNode(this)
 			return context.nodes.add({
@@ -740,14 +892,14 @@ function createNodeEmittingSemantics(
 		},
 		OrPattern(first: Node, _pipes: Node, rest: Node): NodeId {
 			const startCount = context.nodes.count()
-			first['emitPattern']()
+			const firstId = first['emitPattern']()
 			for (const child of rest.children) {
 				child['emitPattern']()
 			}
 			const childCount = context.nodes.count() - startCount
 
-			if (childCount === 1) {
-				return startCount as NodeId
+			if (rest.children.length === 0) {
+				return firstId
 			}
 
 			const tid = getTokenIdForOhmNode(this)
@@ -763,6 +915,75 @@ function createNodeEmittingSemantics(
 		PrimaryPattern(pattern: Node): NodeId {
 			return pattern['emitPattern']()
 		},
+		RangePattern_from(lo: Node, _dotDot: Node, optHi: Node): NodeId {
+			const startCount = context.nodes.count()
+			lo['emitPattern']()
+			optHi.children[0]?.['emitPattern']()
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.RangePattern,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
+		// A range with only an upper end is marked by its leading `..` token.
+		RangePattern_upTo(_dotDot: Node, hi: Node): NodeId {
+			const startCount = context.nodes.count()
+			hi['emitPattern']()
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.RangePattern,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
+		TupleElementPattern(pattern: Node): NodeId {
+			return pattern['emitPattern']()
+		},
+		TuplePattern(_lbrace: Node, first: Node, _commas: Node, rest: Node, _rbrace: Node): NodeId {
+			const startCount = context.nodes.count()
+			first['emitPattern']()
+			for (const child of rest.children) {
+				child['emitPattern']()
+			}
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.TuplePattern,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
+		VariantFieldPatterns(
+			_lparen: Node,
+			first: Node,
+			_commas: Node,
+			rest: Node,
+			_rparen: Node
+		): NodeId {
+			const firstId = first['emitPattern']()
+			for (const child of rest.children) {
+				child['emitPattern']()
+			}
+			return firstId
+		},
+		VariantPattern(_variantName: Node, optFields: Node): NodeId {
+			const startCount = context.nodes.count()
+			optFields.children[0]?.['emitPattern']()
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.VariantPattern,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
 		WildcardPattern(_underscore: Node): NodeId {
 			const tid = getTokenIdForOhmNode(this)
 			return context.nodes.add({
@@ -840,19 +1061,12 @@ function createNodeEmittingSemantics(
 			// Single expression
 			return content['emitExpression']()
 		},
-		Parameter(ident: Node, _colon: Node, typeRef: Node): NodeId {
+		// Parameter = identifier (colon TypeRef)?
+		// The type may be left out when the lambda is passed where a function type is expected.
+		Parameter(ident: Node, _optColon: Node, optTypeRef: Node): NodeId {
 			const startCount = context.nodes.count()
 			ident['emitExpression']()
-			const typeStartCount = context.nodes.count()
-			maybeEmitComplexType(typeRef)
-			const typeChildCount = context.nodes.count() - typeStartCount
-
-			const tid = getTokenIdForOhmNode(typeRef)
-			context.nodes.add({
-				kind: NodeKind.TypeAnnotation,
-				subtreeSize: 1 + typeChildCount,
-				tokenId: tid,
-			})
+			maybeEmitTypeAnnotation(optTypeRef)
 
 			const childCount = context.nodes.count() - startCount
 			const paramTid = getTokenIdForOhmNode(ident)
@@ -866,9 +1080,10 @@ function createNodeEmittingSemantics(
 	})
 
 	semantics.addOperation<NodeId>('emitMatchArm', {
-		MatchArm(pattern: Node, _arrow: Node, expr: Node): NodeId {
+		MatchArm(pattern: Node, optGuard: Node, _arrow: Node, expr: Node): NodeId {
 			const startCount = context.nodes.count()
 			pattern['emitPattern']()
+			optGuard.children[0]?.['emitMatchArm']()
 			expr['emitExpression']()
 			const childCount = context.nodes.count() - startCount
 
@@ -879,6 +1094,18 @@ function createNodeEmittingSemantics(
 				tokenId: tid,
 			})
 		},
+		MatchGuard(_if: Node, condition: Node): NodeId {
+			const startCount = context.nodes.count()
+			condition['emitExpression']()
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(this)
+			return context.nodes.add({
+				kind: NodeKind.MatchGuard,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
 	})
 
 	semantics.addOperation<NodeId>('emitIndentedContent', {
@@ -916,13 +1143,15 @@ function createNodeEmittingSemantics(
 				FieldDecl: 'emitIndentedContent',
 				FieldInit: 'emitIndentedContent',
 				MatchArm: 'emitMatchArm',
+				VariantDecl: 'emitIndentedContent',
 			}
 			const operation = routeMap[content.ctorName] ?? 'emitExpression'
 			return content[operation]()
 		},
-		MatchArm(pattern: Node, _arrow: Node, expr: Node): NodeId {
+		MatchArm(pattern: Node, optGuard: Node, _arrow: Node, expr: Node): NodeId {
 			const startCount = context.nodes.count()
 			pattern['emitPattern']()
+			optGuard.children[0]?.['emitMatchArm']()
 			expr['emitExpression']()
 			const childCount = context.nodes.count() - startCount
 
@@ -933,6 +1162,28 @@ function createNodeEmittingSemantics(
 				tokenId: tid,
 			})
 		},
+		VariantDecl(
+			variantName: Node,
+			_lparen: Node,
+			first: Node,
+			_commas: Node,
+			rest: Node,
+			_rparen: Node
+		): NodeId {
+			const startCount = context.nodes.count()
+			first['emitIndentedContent']()
+			for (const child of rest.children) {
+				child['emitIndentedContent']()
+			}
+			const childCount = context.nodes.count() - startCount
+
+			const tid = getTokenIdForOhmNode(variantName)
+			return context.nodes.add({
+				kind: NodeKind.VariantDecl,
+				subtreeSize: 1 + childCount,
+				tokenId: tid,
+			})
+		},
 	})
 
 	semantics.addOperation<NodeId | null>('emitLine', {
@@ -1025,13 +1276,23 @@ function createNodeEmittingSemantics(
 	return semantics
 }
 
+/** The last token starting at or before an Ohm input position. */
+function failureTokenId(context: CompilationContext, position: number): TokenId {
+	let found = tokenId(0)
+	for (const [ohmPosition, id] of buildTokenMapping(context).ohmPositionToToken) {
+		if (ohmPosition <= position) found = id
+	}
+	return found
+}
+
 /** Parses tokens from context.tokens and populates context.nodes. */
 export function parse(context: CompilationContext): ParseResult {
 	const ohmInput = tokensToOhmInput(context)
 	const matchResult = TinyWhaleGrammar.match(ohmInput)
 
 	if (matchResult.failed()) {
-		context.emit('TWPARSE001' as DiagnosticCode, 1, 1, {
+		const failedAt = failureTokenId(context, matchResult.getRightmostFailurePosition())
+		context.emitAtToken('TWPARSE001' as DiagnosticCode, failedAt, {
 			detail: matchResult.message ?? 'unexpected input',
 		})
 		return {
@@ -0,0 +1,164 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { type CompletionItem, getCompletions } from '../../src/analysis/completion.ts'
+
+/** Completions at the end of the last line of the source. */
+function completeAtEnd(source: string): CompletionItem[] {
+	const lines = source.split('\n')
+	const last = lines[lines.length - 1] ?? ''
+	return getCompletions(source, lines.length, last.length + 1)
+}
+
+function labels(items: CompletionItem[]): string[] {
+	return items.map((item) => item.label)
+}
+
+function itemNamed(items: CompletionItem[], label: string): CompletionItem {
+	const item = items.find((candidate) => candidate.label === label)
+	assert.ok(item, `no completion ${label}`)
+	return item
+}
+
+const RECORD_SOURCE = `Point
+    x: i32
+    y: i64
+p = Point
+    x = 1
+    y = 2
+`
+
+describe('analysis/getCompletions', () => {
+	describe('expressions', () => {
+		it('should offer bindings declared above with their types', () => {
+			const items = completeAtEnd('count: i32 = 1\nratio: f64 = 0.5\ny: i32 = ')
+			assert.deepStrictEqual(itemNamed(items, 'count'), {
+				detail: 'i32',
+				kind: 'variable',
+				label: 'count',
+			})
+			assert.strictEqual(itemNamed(items, 'ratio').detail, 'f64')
+		})
+
+		it('should not offer bindings declared below the cursor', () => {
+			const items = getCompletions('a: i32 = 1\nb: i32 = \nc: i32 = 3\n', 2, 10)
+			assert.deepStrictEqual(labels(items), ['a'])
+		})
+
+		it('should offer a shadowed name once with its latest type', () => {
+			const items = completeAtEnd('x: i32 = 1\nx: i64 = 2\ny: i64 = ')
+			assert.deepStrictEqual(items, [{ detail: 'i64', kind: 'variable', label: 'x' }])
+		})
+
+		it('should show function signatures', () => {
+			const items = completeAtEnd('add = (m: i32, n: i32): i32 -> m + n\nr: i32 = ')
+			assert.deepStrictEqual(items, [
+				{ detail: '(m: i32, n: i32) -> i32', kind: 'function', label: 'add' },
+			])
+		})
+
+		it('should offer lambda parameters inside the body', () => {
+			const items = completeAtEnd('base: i32 = 1\nf = (step: i32): i32 -> ')
+			assert.deepStrictEqual(labels(items), ['step', 'base'])
+			assert.strictEqual(itemNamed(items, 'step').kind, 'parameter')
+		})
+
+		it('should offer the arm binding but not the binding being defined', () => {
+			const items = completeAtEnd('x: i32 = 1\nd: i32 = match x\n    n -> ')
+			assert.deepStrictEqual(labels(items), ['n', 'x'])
+		})
+
+		it('should offer parameters and earlier bindings in a multi-line body', () => {
+			const items = completeAtEnd(
+				'k: i32 = 1\nf = (alpha: i32, beta: i32): i32 ->\n    gamma: i32 = alpha + 1\n    g'
+			)
+			assert.deepStrictEqual(labels(items), ['gamma', 'alpha', 'beta', 'f'])
+			assert.deepStrictEqual(itemNamed(items, 'gamma'), {
+				detail: 'i32',
+				kind: 'variable',
+				label: 'gamma',
+			})
+			assert.strictEqual(itemNamed(items, 'beta').kind, 'parameter')
+		})
+
+		it('should offer top-level functions but not values in a multi-line body', () => {
+			const items = completeAtEnd(
+				'k: i32 = 1\ndouble = (n: i32): i32 -> n * 2\nf = (x: i32): i32 ->\n    '
+			)
+			assert.deepStrictEqual(labels(items).slice(0, 2), ['x', 'double'])
+			assert.ok(!labels(items).includes('k'))
+		})
+
+		it('should not offer a body binding within its own match', () => {
+			const items = completeAtEnd(
+				'f = (x: i32): i32 ->\n    y = x\n    r: i32 = match y\n        0 -> '
+			)
+			assert.deepStrictEqual(labels(items), ['y', 'x', 'f'])
+		})
+
+		it('should let a body binding shadow a parameter', () => {
+			const items = completeAtEnd('f = (x: i32): i64 ->\n    x: i64 = 1\n    ')
+			assert.deepStrictEqual(itemNamed(items, 'x'), { detail: 'i64', kind: 'variable', label: 'x' })
+		})
+
+		it('should skip lines above that do not parse', () => {
+			const items = getCompletions('x: i32 = 1\nbroken = = =\ny: i32 = \n', 3, 10)
+			assert.deepStrictEqual(labels(items), ['x'])
+		})
+	})
+
+	describe('records', () => {
+		it('should offer fields after a dot', () => {
+			const items = completeAtEnd(`${RECORD_SOURCE}a: i32 = p.`)
+			assert.deepStrictEqual(items, [
+				{ detail: 'i32', kind: 'field', label: 'x' },
+				{ detail: 'i64', kind: 'field', label: 'y' },
+			])
+		})
+
+		it('should follow nested field access', () => {
+			const source = `Inner
+    val: i32
+Outer
+    inner: Inner
+o = Outer
+    inner: Inner
+        val = 1
+z: i32 = o.inner.`
+			assert.deepStrictEqual(labels(completeAtEnd(source)), ['val'])
+		})
+
+		it('should offer only missing fields in an initializer block', () => {
+			const items = completeAtEnd('Point\n    x: i32\n    y: i64\np = Point\n    x = 1\n    ')
+			assert.deepStrictEqual(labels(items), ['y'])
+		})
+
+		it('should offer record types for an instantiation', () => {
+			assert.deepStrictEqual(labels(completeAtEnd(`${RECORD_SOURCE}q = `)), ['Point'])
+		})
+	})
+
+	describe('types', () => {
+		it('should offer primitive and record types after a colon', () => {
+			const items = completeAtEnd(`${RECORD_SOURCE}v: `)
+			assert.deepStrictEqual(labels(items), [
+				'i32',
+				'i64',
+				'u32',
+				'u64',
+				'f32',
+				'f64',
+				'bool',
+				'Point',
+			])
+		})
+
+		it('should offer bound keywords inside angle brackets', () => {
+			assert.deepStrictEqual(labels(completeAtEnd('v: i32<')).slice(0, 3), ['min', 'max', 'size'])
+		})
+
+		it('should offer nothing for a bound value', () => {
+			assert.deepStrictEqual(completeAtEnd('v: i32<min='), [])
+		})
+	})
+})
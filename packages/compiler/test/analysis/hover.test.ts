@@ -0,0 +1,351 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import fc from 'fast-check'
+
+import { getHover, type HoverInfo } from '../../src/analysis/hover.ts'
+import { SemanticIndex } from '../../src/analysis/semantic-index.ts'
+import { check } from '../../src/check/checker.ts'
+import { CompilationContext } from '../../src/core/context.ts'
+import { tokenize } from '../../src/lex/tokenizer.ts'
+import { parse } from '../../src/parse/parser.ts'
+
+function analyze(source: string): CompilationContext {
+	const ctx = new CompilationContext(source)
+	tokenize(ctx)
+	parse(ctx)
+	check(ctx)
+	return ctx
+}
+
+function hoverAt(ctx: CompilationContext, line: number, column: number): HoverInfo {
+	const info = getHover(ctx, line, column)
+	assert.ok(info, `expected hover at ${line}:${column}`)
+	return info
+}
+
+function typeNameOf(ctx: CompilationContext, info: HoverInfo): string {
+	assert.ok(ctx.types)
+	return ctx.types.typeName(info.typeId)
+}
+
+const RECORD_SOURCE = `Point
+    x: i32
+    y: i32
+p = Point
+    x = 1
+    y = 2
+a: i32 = p.x
+`
+
+describe('analysis/SemanticIndex', () => {
+	it('should find the token under a position', () => {
+		const ctx = analyze('value: i32 = 42\n')
+		const index = new SemanticIndex(ctx)
+		const tokenId = index.tokenAt(1, 3)
+		assert.ok(tokenId !== undefined)
+		assert.strictEqual(index.tokenText(tokenId), 'value')
+	})
+
+	it('should select a token when the cursor is just past its end', () => {
+		const ctx = analyze('value: i32 = 42\ncopy: i32 = value\n')
+		const index = new SemanticIndex(ctx)
+		const tokenId = index.tokenAt(2, 18)
+		assert.ok(tokenId !== undefined)
+		assert.strictEqual(index.tokenText(tokenId), 'value')
+	})
+
+	it('should measure operator and literal tokens from the source', () => {
+		const ctx = analyze('f:f64 = 1.5e-10\n')
+		const index = new SemanticIndex(ctx)
+		const tokenId = index.tokenAt(1, 10)
+		assert.ok(tokenId !== undefined)
+		assert.strictEqual(index.tokenText(tokenId), '1.5e-10')
+	})
+
+	it('should return undefined on whitespace', () => {
+		const ctx = analyze('x: i32  =  1\n')
+		const index = new SemanticIndex(ctx)
+		assert.strictEqual(index.tokenAt(1, 8), undefined)
+	})
+
+	it('should find the block owner of an indented line', () => {
+		const ctx = analyze(RECORD_SOURCE)
+		const index = new SemanticIndex(ctx)
+		const [, , , pLine, xInit] = index.lineIds()
+		assert.ok(pLine !== undefined && xInit !== undefined)
+		assert.strictEqual(index.blockOwner(xInit), pLine)
+		assert.strictEqual(index.blockOwner(pLine), undefined)
+	})
+})
+
+describe('analysis/getHover', () => {
+	describe('bindings', () => {
+		it('should describe a variable at its declaration', () => {
+			const ctx = analyze('x: i64 = 1\n')
+			const info = hoverAt(ctx, 1, 1)
+			assert.strictEqual(info.role, 'variable')
+			assert.strictEqual(info.name, 'x')
+			assert.strictEqual(typeNameOf(ctx, info), 'i64')
+		})
+
+		it('should describe a variable at a reference', () => {
+			const ctx = analyze('x: i32 = 1\ny: i32 = x + 1\n')
+			const info = hoverAt(ctx, 2, 10)
+			assert.strictEqual(info.name, 'x')
+			assert.deepStrictEqual(info.span, { column: 10, length: 1, line: 2 })
+		})
+
+		it('should resolve shadowed bindings to the visible declaration', () => {
+			const ctx = analyze('x: i32 = 1\nx: i64 = 2\ny: i64 = x\n')
+			assert.strictEqual(typeNameOf(ctx, hoverAt(ctx, 1, 1)), 'i32')
+			assert.strictEqual(typeNameOf(ctx, hoverAt(ctx, 3, 10)), 'i64')
+		})
+
+		it('should show refinement bounds', () => {
+			const ctx = analyze('r: i32<min=0, max=100> = 5\n')
+			const info = hoverAt(ctx, 1, 1)
+			assert.ok(ctx.types)
+			assert.deepStrictEqual(ctx.types.getConstraints(info.typeId), { max: 100n, min: 0n })
+		})
+
+		it('should resolve a refinement annotation to the declared type', () => {
+			const ctx = analyze('r: i32<min=0, max=100> = 5\n')
+			const info = hoverAt(ctx, 1, 4)
+			assert.strictEqual(info.role, 'type')
+			assert.strictEqual(typeNameOf(ctx, info), 'i32<min=0, max=100>')
+		})
+
+		it('should show list size for list bindings', () => {
+			const ctx = analyze('l: i32[]<size=3> = [1, 2, 3]\nv: i32 = l[0]\n')
+			const info = hoverAt(ctx, 2, 10)
+			assert.strictEqual(info.name, 'l')
+			assert.ok(ctx.types)
+			assert.strictEqual(ctx.types.getListSize(info.typeId), 3)
+		})
+
+		it('should describe match pattern bindings', () => {
+			const ctx = analyze('x: i32 = 1\ny: i32 = match x\n    n -> n\n')
+			const info = hoverAt(ctx, 3, 5)
+			assert.strictEqual(info.name, 'n')
+			assert.strictEqual(typeNameOf(ctx, info), 'i32')
+		})
+
+		it('should return null on literals', () => {
+			const ctx = analyze('x: i32 = 42\n')
+			assert.strictEqual(getHover(ctx, 1, 10), null)
+		})
+	})
+
+	describe('functions', () => {
+		const source = 'add = (a: i32, b: i64): i64 -> b\nr: i64 = add(1, 2)\n'
+
+		it('should describe a function with its signature', () => {
+			const ctx = analyze(source)
+			const info = hoverAt(ctx, 1, 1)
+			assert.strictEqual(info.role, 'function')
+			assert.ok(ctx.types)
+			assert.deepStrictEqual(ctx.types.getFuncInfo(info.typeId), {
+				paramTypes: [1, 2],
+				returnType: 2,
+			})
+		})
+
+		it('should describe a call target', () => {
+			const ctx = analyze(source)
+			const info = hoverAt(ctx, 2, 10)
+			assert.strictEqual(info.role, 'function')
+			assert.strictEqual(typeNameOf(ctx, info), '(i32, i64) -> i64')
+		})
+
+		it('should describe parameters at declaration and use', () => {
+			const ctx = analyze(source)
+			const declared = hoverAt(ctx, 1, 16)
+			assert.strictEqual(declared.role, 'parameter')
+			assert.strictEqual(typeNameOf(ctx, declared), 'i64')
+			const used = hoverAt(ctx, 1, 32)
+			assert.strictEqual(used.role, 'parameter')
+			assert.strictEqual(used.name, 'b')
+		})
+	})
+
+	describe('records', () => {
+		it('should describe a record type declaration', () => {
+			const ctx = analyze(RECORD_SOURCE)
+			const info = hoverAt(ctx, 1, 1)
+			assert.strictEqual(info.role, 'type')
+			assert.ok(ctx.types)
+			assert.deepStrictEqual(
+				ctx.types.getFields(info.typeId).map((f) => f.name),
+				['x', 'y']
+			)
+		})
+
+		it('should describe a field declaration', () => {
+			const ctx = analyze(RECORD_SOURCE)
+			const info = hoverAt(ctx, 3, 5)
+			assert.strictEqual(info.role, 'field')
+			assert.strictEqual(info.name, 'y')
+		})
+
+		it('should describe the type of a field declaration', () => {
+			const ctx = analyze(RECORD_SOURCE)
+			const info = hoverAt(ctx, 2, 8)
+			assert.strictEqual(info.role, 'type')
+			assert.strictEqual(typeNameOf(ctx, info), 'i32')
+		})
+
+		it('should describe a record binding with its record type', () => {
+			const ctx = analyze(RECORD_SOURCE)
+			const info = hoverAt(ctx, 4, 1)
+			assert.strictEqual(info.role, 'variable')
+			assert.strictEqual(typeNameOf(ctx, info), 'Point')
+		})
+
+		it('should describe field initializers', () => {
+			const ctx = analyze(RECORD_SOURCE)
+			const info = hoverAt(ctx, 5, 5)
+			assert.strictEqual(info.role, 'field')
+			assert.ok(info.role === 'field')
+			assert.strictEqual(typeNameOf(ctx, { ...info, typeId: info.recordTypeId }), 'Point')
+		})
+
+		it('should describe both sides of a field access', () => {
+			const ctx = analyze(RECORD_SOURCE)
+			assert.strictEqual(typeNameOf(ctx, hoverAt(ctx, 7, 10)), 'Point')
+			const field = hoverAt(ctx, 7, 12)
+			assert.strictEqual(field.role, 'field')
+			assert.strictEqual(field.name, 'x')
+		})
+
+		it('should follow nested field access chains', () => {
+			const ctx = analyze(`Inner
+    val: i32
+Outer
+    inner: Inner
+o = Outer
+    inner: Inner
+        val = 42
+v: i32 = o.inner.val
+`)
+			const inner = hoverAt(ctx, 8, 12)
+			assert.strictEqual(typeNameOf(ctx, inner), 'Inner')
+			const val = hoverAt(ctx, 8, 18)
+			assert.ok(val.role === 'field')
+			assert.strictEqual(typeNameOf(ctx, { ...val, typeId: val.recordTypeId }), 'Inner')
+			const nestedInit = hoverAt(ctx, 7, 9)
+			assert.strictEqual(nestedInit.name, 'val')
+		})
+
+		it('should describe record parameters and their fields', () => {
+			const ctx = analyze(`Point
+    x: i32
+    y: i32
+getx = (p: Point): i32 -> p.x
+`)
+			const param = hoverAt(ctx, 4, 9)
+			assert.strictEqual(param.role, 'parameter')
+			assert.strictEqual(typeNameOf(ctx, param), 'Point')
+			assert.strictEqual(hoverAt(ctx, 4, 27).role, 'parameter')
+			const field = hoverAt(ctx, 4, 29)
+			assert.strictEqual(field.role, 'field')
+			assert.strictEqual(field.name, 'x')
+		})
+
+		it('should describe records built in function bodies', () => {
+			const ctx = analyze(`Point
+    x: i32
+mk = (a: i32): Point ->
+    p = Point
+        x = a
+    p
+q = mk(1)
+v: i32 = q.x
+`)
+			assert.strictEqual(typeNameOf(ctx, hoverAt(ctx, 4, 5)), 'Point')
+			assert.strictEqual(hoverAt(ctx, 5, 9).role, 'field')
+			assert.strictEqual(typeNameOf(ctx, hoverAt(ctx, 8, 10)), 'Point')
+			assert.strictEqual(hoverAt(ctx, 8, 12).name, 'x')
+		})
+
+		it('should still resolve records when the program has errors', () => {
+			const ctx = analyze(`${RECORD_SOURCE}b: i32 = missing\n`)
+			assert.ok(ctx.hasErrors())
+			assert.strictEqual(typeNameOf(ctx, hoverAt(ctx, 7, 10)), 'Point')
+		})
+	})
+
+	describe('builtins', () => {
+		it('should describe checked with the type it converts to', () => {
+			const ctx = analyze('raw: i32 = 40\nage: i32<min=0, max=125> = checked(raw)\n')
+			const info = hoverAt(ctx, 2, 28)
+			assert.strictEqual(info.role, 'builtin')
+			assert.strictEqual(info.name, 'checked')
+			assert.strictEqual(typeNameOf(ctx, info), 'i32<min=0, max=125>')
+		})
+
+		it('should describe a binding named checked as that binding', () => {
+			const ctx = analyze('checked = (x: i32): i32 -> x\ny: i32 = checked(1)\n')
+			assert.strictEqual(hoverAt(ctx, 2, 10).role, 'function')
+		})
+	})
+
+	describe('sum types', () => {
+		const source = `Shape
+    Circle(r: f64)
+    Empty
+s: Shape = Circle(2.0)
+a: f64 = match s
+    Circle(r) -> r
+    Empty -> 0.0
+`
+
+		it('should describe variants by name, typed as their sum type', () => {
+			const ctx = analyze(source)
+			for (const [line, column, name] of [
+				[2, 5, 'Circle'],
+				[3, 5, 'Empty'],
+				[4, 12, 'Circle'],
+				[6, 5, 'Circle'],
+			] as const) {
+				const info = hoverAt(ctx, line, column)
+				assert.strictEqual(info.role, 'variant')
+				assert.strictEqual(info.name, name)
+				assert.strictEqual(typeNameOf(ctx, info), 'Shape')
+			}
+		})
+
+		it('should describe variant fields as fields of the sum type', () => {
+			const ctx = analyze(source)
+			const info = hoverAt(ctx, 2, 12)
+			assert.strictEqual(info.role, 'field')
+			assert.strictEqual(info.name, 'r')
+			assert.strictEqual(typeNameOf(ctx, info), 'f64')
+		})
+
+		it('should describe fields bound by a variant pattern', () => {
+			const ctx = analyze(source)
+			const info = hoverAt(ctx, 6, 12)
+			assert.strictEqual(info.name, 'r')
+			assert.strictEqual(typeNameOf(ctx, info), 'f64')
+		})
+	})
+
+	describe('properties', () => {
+		it('every binding name hovers to its declared primitive type', () => {
+			fc.assert(
+				fc.property(
+					fc.constantFrom('i32', 'i64', 'f32', 'f64'),
+					fc.stringMatching(/^[a-z][a-z0-9_]{0,8}$/).filter((s) => !KEYWORDS.has(s)),
+					(type, name) => {
+						const value = type.startsWith('f') ? '1.0' : '1'
+						const ctx = analyze(`${name}: ${type} = ${value}\n`)
+						const info = getHover(ctx, 1, 1)
+						return info !== null && info.name === name && ctx.types?.typeName(info.typeId) === type
+					}
+				)
+			)
+		})
+	})
+})
+
+const KEYWORDS = new Set(['f32', 'f64', 'i32', 'i64', 'match', 'panic'])
@@ -0,0 +1,208 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { findDefinition, findReferences, type Occurrence } from '../../src/analysis/references.ts'
+import { flattenedOrigin } from '../../src/analysis/resolve.ts'
+import { SemanticIndex } from '../../src/analysis/semantic-index.ts'
+import { check } from '../../src/check/checker.ts'
+import type { SymbolId } from '../../src/check/types.ts'
+import { CompilationContext } from '../../src/core/context.ts'
+import { tokenize } from '../../src/lex/tokenizer.ts'
+import { parse } from '../../src/parse/parser.ts'
+
+function analyze(source: string): CompilationContext {
+	const ctx = new CompilationContext(source)
+	tokenize(ctx)
+	parse(ctx)
+	check(ctx)
+	return ctx
+}
+
+function at(occurrence: Occurrence | null | undefined): string {
+	assert.ok(occurrence)
+	return `${occurrence.span.line}:${occurrence.span.column}`
+}
+
+function referencesAt(ctx: CompilationContext, line: number, column: number): string[] {
+	return findReferences(ctx, line, column, true).map(at)
+}
+
+function symbolNamed(ctx: CompilationContext, name: string): SymbolId {
+	assert.ok(ctx.symbols)
+	for (const [id, symbol] of ctx.symbols) {
+		if (ctx.strings.get(symbol.nameId) === name) return id
+	}
+	assert.fail(`no symbol ${name}`)
+}
+
+const RECORD_SOURCE = `Point
+    x: i32
+    y: i32
+p = Point
+    x = 1
+    y = 2
+a: i32 = p.x
+`
+
+const SUM_SOURCE = `Shape
+    Circle(r: f64)
+    Empty
+s: Shape = Circle(2.0)
+a: f64 = match s
+    Circle(r) -> r
+    Empty -> 0.0
+`
+
+describe('analysis/findDefinition', () => {
+	it('should jump from a reference to its binding', () => {
+		const ctx = analyze('x: i32 = 1\ny: i32 = x\n')
+		assert.strictEqual(at(findDefinition(ctx, 2, 10)), '1:1')
+	})
+
+	it('should distinguish shadowed bindings', () => {
+		const ctx = analyze('x: i32 = 1\nx: i32 = x + 1\ny: i32 = x\n')
+		assert.strictEqual(at(findDefinition(ctx, 2, 10)), '1:1')
+		assert.strictEqual(at(findDefinition(ctx, 3, 10)), '2:1')
+	})
+
+	it('should jump from a parameter use to the parameter', () => {
+		const ctx = analyze('add = (a: i32, b: i32): i32 -> a + b\n')
+		assert.strictEqual(at(findDefinition(ctx, 1, 36)), '1:16')
+	})
+
+	it('should jump from a lambda argument parameter use to the parameter', () => {
+		const ctx = analyze(
+			'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nr: i32 = apply((n) -> n + 1, 5)\n'
+		)
+		assert.strictEqual(at(findDefinition(ctx, 2, 23)), '2:17')
+	})
+
+	it('should jump from a call to the function binding', () => {
+		const ctx = analyze('inc = (n: i32): i32 -> n + 1\nr: i32 = inc(1)\n')
+		assert.strictEqual(at(findDefinition(ctx, 2, 10)), '1:1')
+	})
+
+	it('should jump to a forward declaration from the definition and calls', () => {
+		const ctx = analyze('inc: (i32) -> i32\ninc = (n: i32): i32 -> n + 1\nr: i32 = inc(1)\n')
+		assert.strictEqual(at(findDefinition(ctx, 2, 1)), '1:1')
+		assert.strictEqual(at(findDefinition(ctx, 3, 10)), '1:1')
+	})
+
+	it('should jump from a record instantiation to its type declaration', () => {
+		const ctx = analyze(RECORD_SOURCE)
+		assert.strictEqual(at(findDefinition(ctx, 4, 5)), '1:1')
+	})
+
+	it('should jump from field inits and accesses to the field declaration', () => {
+		const ctx = analyze(RECORD_SOURCE)
+		assert.strictEqual(at(findDefinition(ctx, 5, 5)), '2:5')
+		assert.strictEqual(at(findDefinition(ctx, 7, 12)), '2:5')
+	})
+
+	it('should jump from a record reference to the record binding', () => {
+		const ctx = analyze(RECORD_SOURCE)
+		assert.strictEqual(at(findDefinition(ctx, 7, 10)), '4:1')
+	})
+
+	it('should jump from variant constructors and patterns to the variant', () => {
+		const ctx = analyze(SUM_SOURCE)
+		assert.strictEqual(at(findDefinition(ctx, 4, 12)), '2:5')
+		assert.strictEqual(at(findDefinition(ctx, 7, 5)), '3:5')
+	})
+
+	it('should return null for builtin types and literals', () => {
+		const ctx = analyze('x: i32 = 1\n')
+		assert.strictEqual(findDefinition(ctx, 1, 4), null)
+		assert.strictEqual(findDefinition(ctx, 1, 10), null)
+	})
+})
+
+describe('analysis/findReferences', () => {
+	it('should collect the declaration and every use', () => {
+		const ctx = analyze('x: i32 = 1\ny: i32 = x + x\n')
+		assert.deepStrictEqual(referencesAt(ctx, 1, 1), ['1:1', '2:10', '2:14'])
+	})
+
+	it('should leave out the declaration on request', () => {
+		const ctx = analyze('x: i32 = 1\ny: i32 = x + x\n')
+		assert.deepStrictEqual(findReferences(ctx, 1, 1, false).map(at), ['2:10', '2:14'])
+	})
+
+	it('should keep shadowed bindings apart', () => {
+		const ctx = analyze('x: i32 = 1\nx: i32 = x + 1\ny: i32 = x\n')
+		assert.deepStrictEqual(referencesAt(ctx, 1, 1), ['1:1', '2:10'])
+		assert.deepStrictEqual(referencesAt(ctx, 2, 1), ['2:1', '3:10'])
+	})
+
+	it('should find a field through declaration, init and access', () => {
+		const ctx = analyze(RECORD_SOURCE)
+		assert.deepStrictEqual(referencesAt(ctx, 7, 12), ['2:5', '5:5', '7:12'])
+	})
+
+	it('should find record types where they are instantiated', () => {
+		const ctx = analyze(RECORD_SOURCE)
+		assert.deepStrictEqual(referencesAt(ctx, 1, 1), ['1:1', '4:5'])
+	})
+
+	it('should follow nested records', () => {
+		const ctx = analyze(`Inner
+    val: i32
+Outer
+    inner: Inner
+o = Outer
+    inner: Inner
+        val = 42
+v: i32 = o.inner.val
+`)
+		assert.deepStrictEqual(referencesAt(ctx, 2, 5), ['2:5', '7:9', '8:18'])
+		assert.deepStrictEqual(referencesAt(ctx, 4, 5), ['4:5', '6:5', '8:12'])
+		assert.deepStrictEqual(referencesAt(ctx, 1, 1), ['1:1', '4:12', '6:12'])
+	})
+
+	it('should keep variants apart from their sum type', () => {
+		const ctx = analyze(SUM_SOURCE)
+		assert.deepStrictEqual(referencesAt(ctx, 6, 5), ['2:5', '4:12', '6:5'])
+		assert.deepStrictEqual(referencesAt(ctx, 3, 5), ['3:5', '7:5'])
+		assert.deepStrictEqual(referencesAt(ctx, 1, 1), ['1:1', '4:4'])
+	})
+
+	it('should find match pattern bindings', () => {
+		const ctx = analyze('x: i32 = 1\ny: i32 = match x\n    n -> n\n')
+		assert.deepStrictEqual(referencesAt(ctx, 3, 10), ['3:5', '3:10'])
+	})
+})
+
+describe('analysis/flattenedOrigin', () => {
+	it('should map flattened record symbols back to their fields', () => {
+		const ctx = analyze(RECORD_SOURCE)
+		const origin = flattenedOrigin(new SemanticIndex(ctx), symbolNamed(ctx, 'p_y'))
+		assert.ok(origin?.kind === 'field')
+		assert.strictEqual(origin.field.name, 'y')
+		assert.strictEqual(ctx.types?.typeName(origin.recordTypeId), 'Point')
+	})
+
+	it('should walk nested record paths', () => {
+		const ctx = analyze(`Inner
+    the_val: i32
+Outer
+    inner: Inner
+o = Outer
+    inner: Inner
+        the_val = 42
+`)
+		const origin = flattenedOrigin(new SemanticIndex(ctx), symbolNamed(ctx, 'o_inner_the_val'))
+		assert.ok(origin?.kind === 'field')
+		assert.strictEqual(origin.field.name, 'the_val')
+		assert.strictEqual(ctx.types?.typeName(origin.recordTypeId), 'Inner')
+	})
+
+	it('should return null for list bindings, which are not flattened', () => {
+		const ctx = analyze('l: i32[]<size=2> = [1, 2]\n')
+		assert.strictEqual(flattenedOrigin(new SemanticIndex(ctx), symbolNamed(ctx, 'l')), null)
+	})
+
+	it('should return null for ordinary symbols', () => {
+		const ctx = analyze('x_y: i32 = 1\n')
+		assert.strictEqual(flattenedOrigin(new SemanticIndex(ctx), symbolNamed(ctx, 'x_y')), null)
+	})
+})
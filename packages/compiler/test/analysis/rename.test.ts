@@ -0,0 +1,248 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { applyTextEdits, prepareRename, rename } from '../../src/analysis/rename.ts'
+import { check } from '../../src/check/checker.ts'
+import { CompilationContext } from '../../src/core/context.ts'
+import { tokenize } from '../../src/lex/tokenizer.ts'
+import { parse } from '../../src/parse/parser.ts'
+
+function analyze(source: string): CompilationContext {
+	const ctx = new CompilationContext(source)
+	tokenize(ctx)
+	parse(ctx)
+	check(ctx)
+	return ctx
+}
+
+function renamed(source: string, line: number, column: number, newName: string): string {
+	const result = rename(analyze(source), line, column, newName)
+	assert.ok(result.succeeded, result.succeeded ? '' : result.error)
+	return applyTextEdits(source, result.edits)
+}
+
+function renameError(source: string, line: number, column: number, newName: string): string {
+	const result = rename(analyze(source), line, column, newName)
+	assert.ok(!result.succeeded, 'expected rename to fail')
+	return result.error
+}
+
+const RECORD_SOURCE = `Point
+    x: i32
+    y: i32
+p = Point
+    x = 1
+    y = 2
+a: i32 = p.x
+`
+
+const HOST_SOURCE = `@log: (i32) -> None
+@log = extern host "env" "log"
+@log(42)
+`
+
+describe('analysis/rename', () => {
+	describe('bindings', () => {
+		it('should rename a binding and its uses', () => {
+			assert.strictEqual(
+				renamed('x: i32 = 1\ny: i32 = x + x\n', 2, 10, 'count'),
+				'count: i32 = 1\ny: i32 = count + count\n'
+			)
+		})
+
+		it('should only rename the shadowed binding that is targeted', () => {
+			const source = 'x: i32 = 1\nx: i32 = x + 1\ny: i32 = x\n'
+			assert.strictEqual(
+				renamed(source, 1, 1, 'first'),
+				'first: i32 = 1\nx: i32 = first + 1\ny: i32 = x\n'
+			)
+			assert.strictEqual(
+				renamed(source, 3, 10, 'second'),
+				'x: i32 = 1\nsecond: i32 = x + 1\ny: i32 = second\n'
+			)
+		})
+
+		it('should reject a rename that captures a use', () => {
+			const source = 'y: i32 = 1\nx: i32 = 2\nz: i32 = y\n'
+			assert.match(renameError(source, 1, 1, 'x'), /would change what other names refer to/)
+		})
+
+		it('should reject a rename that shadows another binding', () => {
+			const source = 'x: i32 = 1\nw: i32 = 2\nz: i32 = x\n'
+			assert.match(renameError(source, 2, 1, 'x'), /would change/)
+		})
+
+		it('should allow renaming to a name that is bound only later', () => {
+			const source = 'y: i32 = 1\nz: i32 = y\nx: i32 = 2\n'
+			assert.strictEqual(renamed(source, 1, 1, 'x'), 'x: i32 = 1\nz: i32 = x\nx: i32 = 2\n')
+		})
+
+		it('should rename match pattern bindings within their arm', () => {
+			const source = 'x: i32 = 1\ny: i32 = match x\n    n -> n\n'
+			assert.strictEqual(
+				renamed(source, 3, 5, 'value'),
+				'x: i32 = 1\ny: i32 = match x\n    value -> value\n'
+			)
+		})
+
+		it('should rename list bindings', () => {
+			const source = 'l: i32[]<size=2> = [1, 2]\nv: i32 = l[1]\n'
+			assert.strictEqual(
+				renamed(source, 2, 10, 'items'),
+				'items: i32[]<size=2> = [1, 2]\nv: i32 = items[1]\n'
+			)
+		})
+	})
+
+	describe('functions', () => {
+		it('should rename a function and its calls', () => {
+			const source = 'inc = (n: i32): i32 -> n + 1\nr: i32 = inc(inc(1))\n'
+			assert.strictEqual(
+				renamed(source, 1, 1, 'next'),
+				'next = (n: i32): i32 -> n + 1\nr: i32 = next(next(1))\n'
+			)
+		})
+
+		it('should rename forward declarations together with the definition', () => {
+			const source = 'inc: (i32) -> i32\ninc = (n: i32): i32 -> n + 1\nr: i32 = inc(1)\n'
+			assert.strictEqual(
+				renamed(source, 3, 10, 'next'),
+				'next: (i32) -> i32\nnext = (n: i32): i32 -> n + 1\nr: i32 = next(1)\n'
+			)
+		})
+
+		it('should rename parameters within the function only', () => {
+			const source = 'n: i32 = 5\ninc = (n: i32): i32 -> n + 1\nr: i32 = inc(n)\n'
+			assert.strictEqual(
+				renamed(source, 2, 24, 'm'),
+				'n: i32 = 5\ninc = (m: i32): i32 -> m + 1\nr: i32 = inc(n)\n'
+			)
+		})
+
+		it('should rename an effectful function to another effectful name', () => {
+			assert.strictEqual(
+				renamed(HOST_SOURCE, 3, 1, '@print'),
+				'@print: (i32) -> None\n@print = extern host "env" "log"\n@print(42)\n'
+			)
+		})
+
+		it('should keep the effect prefix when renaming', () => {
+			assert.match(renameError(HOST_SOURCE, 1, 1, 'print'), /must start with '@'/)
+			assert.match(renameError('x: i32 = 1\n', 1, 1, '@x'), /only effectful functions/)
+		})
+
+		it('should reject a parameter name that collides with another parameter', () => {
+			const source = 'add = (a: i32, b: i32): i32 -> a + b\n'
+			assert.match(renameError(source, 1, 8, 'b'), /would change/)
+		})
+	})
+
+	describe('records', () => {
+		it('should rename a field in its declaration, initializers and accesses', () => {
+			assert.strictEqual(
+				renamed(RECORD_SOURCE, 7, 12, 'left'),
+				`Point
+    left: i32
+    y: i32
+p = Point
+    left = 1
+    y = 2
+a: i32 = p.left
+`
+			)
+		})
+
+		it('should rename fields of nested records', () => {
+			const source = `Inner
+    val: i32
+Outer
+    inner: Inner
+o = Outer
+    inner: Inner
+        val = 42
+v: i32 = o.inner.val
+`
+			assert.strictEqual(
+				renamed(source, 4, 5, 'child'),
+				`Inner
+    val: i32
+Outer
+    child: Inner
+o = Outer
+    child: Inner
+        val = 42
+v: i32 = o.child.val
+`
+			)
+			assert.match(
+				renamed(source, 8, 18, 'amount'),
+				/amount: i32[\s\S]*amount = 42[\s\S]*o\.inner\.amount/
+			)
+		})
+
+		it('should rename a record type and its instantiations', () => {
+			assert.match(renamed(RECORD_SOURCE, 1, 1, 'Vec'), /^Vec\n[\s\S]*p = Vec\n/)
+		})
+
+		it('should reject a field name that is already declared', () => {
+			assert.match(renameError(RECORD_SOURCE, 2, 5, 'y'), /would change/)
+		})
+
+		it('should rename a record binding and its field access bases', () => {
+			assert.match(
+				renamed(RECORD_SOURCE, 7, 10, 'origin'),
+				/origin = Point[\s\S]*a: i32 = origin\.x/
+			)
+		})
+	})
+
+	describe('sum types', () => {
+		it('should rename a variant in its declaration, constructors and patterns', () => {
+			const source =
+				'Shape\n    Circle(r: f64)\n    Empty\ns: Shape = Circle(2.0)\na: f64 = match s\n    Circle(r) -> r\n    Empty -> 0.0\n'
+			assert.strictEqual(
+				renamed(source, 4, 12, 'Round'),
+				'Shape\n    Round(r: f64)\n    Empty\ns: Shape = Round(2.0)\na: f64 = match s\n    Round(r) -> r\n    Empty -> 0.0\n'
+			)
+			assert.match(renameError(source, 2, 5, 'round'), /uppercase/)
+		})
+	})
+
+	describe('validation', () => {
+		it('should reject keywords', () => {
+			assert.match(renameError('x: i32 = 1\n', 1, 1, 'match'), /reserved keyword/)
+		})
+
+		it('should require lowercase value names and uppercase type names', () => {
+			assert.match(renameError('x: i32 = 1\n', 1, 1, 'X'), /lowercase/)
+			assert.match(renameError(RECORD_SOURCE, 1, 1, 'point'), /uppercase/)
+		})
+
+		it('should refuse to rename builtin types and literals', () => {
+			assert.match(renameError('x: i32 = 1\n', 1, 10, 'y'), /nothing to rename/)
+		})
+	})
+})
+
+describe('analysis/prepareRename', () => {
+	it('should return the span and current name', () => {
+		assert.deepStrictEqual(prepareRename(analyze('value: i32 = 1\n'), 1, 3), {
+			placeholder: 'value',
+			span: { column: 1, length: 5, line: 1 },
+		})
+	})
+
+	it('should return null where nothing can be renamed', () => {
+		assert.strictEqual(prepareRename(analyze('x: i32 = 1\n'), 1, 5), null)
+	})
+})
+
+describe('analysis/applyTextEdits', () => {
+	it('should apply several edits on one line from right to left', () => {
+		const edits = [
+			{ newText: 'alpha', span: { column: 1, length: 1, line: 1 } },
+			{ newText: 'beta', span: { column: 5, length: 1, line: 1 } },
+		]
+		assert.strictEqual(applyTextEdits('a + b\n', edits), 'alpha + beta\n')
+	})
+})
@@ -0,0 +1,138 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { getSemanticTokens } from '../../src/analysis/semantic-tokens.ts'
+import { check } from '../../src/check/checker.ts'
+import { CompilationContext } from '../../src/core/context.ts'
+import { tokenize } from '../../src/lex/tokenizer.ts'
+import { parse } from '../../src/parse/parser.ts'
+
+function analyze(source: string): CompilationContext {
+	const ctx = new CompilationContext(source)
+	tokenize(ctx)
+	parse(ctx)
+	check(ctx)
+	return ctx
+}
+
+/** `line:column text type[.modifier...]` for every classified token. */
+function classified(source: string): string[] {
+	const lines = source.split('\n')
+	return getSemanticTokens(analyze(source)).map(({ span, type, modifiers }) => {
+		const text = (lines[span.line - 1] ?? '').slice(span.column - 1, span.column - 1 + span.length)
+		return [`${span.line}:${span.column} ${text} ${type}`, ...modifiers].join('.')
+	})
+}
+
+describe('analysis/getSemanticTokens', () => {
+	it('should classify keywords, literals and operators by token kind', () => {
+		assert.deepStrictEqual(classified('x: f64 = 1.5 + 2.0\n'), [
+			'1:1 x variable.declaration',
+			'1:4 f64 type.defaultLibrary',
+			'1:8 = operator',
+			'1:10 1.5 number',
+			'1:14 + operator',
+			'1:16 2.0 number',
+		])
+	})
+
+	it('should tell functions and parameters from variables', () => {
+		assert.deepStrictEqual(
+			classified('add = (a: i32, b: i32): i32 -> a + b\nr: i32 = add(1, 2)\n'),
+			[
+				'1:1 add function.declaration',
+				'1:5 = operator',
+				'1:8 a parameter.declaration',
+				'1:11 i32 type.defaultLibrary',
+				'1:16 b parameter.declaration',
+				'1:19 i32 type.defaultLibrary',
+				'1:25 i32 type.defaultLibrary',
+				'1:29 -> operator',
+				'1:32 a parameter',
+				'1:34 + operator',
+				'1:36 b parameter',
+				'2:1 r variable.declaration',
+				'2:4 i32 type.defaultLibrary',
+				'2:8 = operator',
+				'2:10 add function',
+				'2:14 1 number',
+				'2:17 2 number',
+			]
+		)
+	})
+
+	it('should classify record types and fields', () => {
+		const tokens = classified('Point\n    x: i32\np = Point\n    x = 1\na: i32 = p.x\n')
+		assert.ok(tokens.includes('1:1 Point type.declaration'))
+		assert.ok(tokens.includes('2:5 x property.declaration'))
+		assert.ok(tokens.includes('3:1 p variable.declaration'))
+		assert.ok(tokens.includes('3:5 Point type'))
+		assert.ok(tokens.includes('4:5 x property'))
+		assert.ok(tokens.includes('5:10 p variable'))
+		assert.ok(tokens.includes('5:12 x property'))
+	})
+
+	it('should classify refinement bound keywords', () => {
+		const tokens = classified('v: i32<min=0, max=10> = 5\n')
+		assert.ok(tokens.includes('1:8 min keyword'))
+		assert.ok(tokens.includes('1:15 max keyword'))
+	})
+
+	it('should classify extern bindings', () => {
+		const tokens = classified('clz = extern wasm "i32.clz"\n')
+		assert.ok(tokens.includes('1:1 clz function.declaration'))
+		assert.ok(tokens.includes('1:7 extern keyword'))
+		assert.ok(tokens.includes('1:14 wasm keyword'))
+		assert.ok(tokens.includes('1:19 "i32.clz" string'))
+	})
+
+	it('should classify tailrec as a keyword', () => {
+		const tokens = classified('down = tailrec (n: i32): i32 -> n\n')
+		assert.ok(tokens.includes('1:1 down function.declaration'))
+		assert.ok(tokens.includes('1:8 tailrec keyword'))
+	})
+
+	it('should give match wildcards and pattern bindings their own types', () => {
+		const tokens = classified('x: i32 = 1\ny: i32 = match x\n    0 -> 1\n    n -> n\n    _ -> 0\n')
+		assert.ok(tokens.includes('2:10 match keyword'))
+		assert.ok(tokens.includes('4:5 n patternBinding.declaration'))
+		assert.ok(tokens.includes('4:10 n patternBinding'))
+		assert.ok(tokens.includes('5:5 _ wildcard'))
+	})
+
+	it('should classify checked as a builtin function', () => {
+		const tokens = classified('raw: i32 = 40\nage: i32<min=0, max=125> = checked(raw)\n')
+		assert.ok(tokens.includes('2:28 checked function.defaultLibrary'))
+	})
+
+	it('should classify range patterns and guards', () => {
+		const tokens = classified(
+			'x: i32 = 5\ny: i32 = match x\n    0..9 -> 1\n    n if n > 100 && n < 200 -> n\n    _ -> 0\n'
+		)
+		assert.deepStrictEqual(tokens.slice(9, 14), [
+			'3:5 0 number',
+			'3:6 .. operator',
+			'3:8 9 number',
+			'3:10 -> operator',
+			'3:13 1 number',
+		])
+		assert.ok(tokens.includes('4:7 if keyword'))
+		assert.ok(tokens.includes('4:12 > operator'))
+		assert.ok(tokens.includes('4:23 < operator'))
+	})
+
+	it('should leave the brackets of a bound list unclassified', () => {
+		const tokens = classified('v: i32<max=10> = 5\nb: bool = v < 3\n')
+		assert.ok(!tokens.some((token) => token.startsWith('1:7 ') || token.startsWith('1:14 ')))
+		assert.ok(tokens.includes('2:13 < operator'))
+	})
+
+	it('should still classify tokens of a program that does not parse', () => {
+		assert.deepStrictEqual(classified('x: i32 = = 1\n'), [
+			'1:4 i32 type.defaultLibrary',
+			'1:8 = operator',
+			'1:10 = operator',
+			'1:12 1 number',
+		])
+	})
+})
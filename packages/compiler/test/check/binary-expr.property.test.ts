@@ -269,7 +269,7 @@ describe('binary expressions/bitwise properties', () => {
 // ============================================================================
 
 describe('binary expressions/comparison properties', () => {
-	it('comparison operators always produce i32 result', () => {
+	it('comparison operators always produce bool result', () => {
 		fc.assert(
 			fc.property(
 				numericTypeArb,
@@ -279,8 +279,7 @@ describe('binary expressions/comparison properties', () => {
 				(type, op, a, b) => {
 					const litA = literalForType(type, a)
 					const litB = literalForType(type, b)
-					// Result is always i32 (boolean as 0 or 1)
-					const source = `x: ${type} = ${litA}\ny: ${type} = ${litB}\nz: i32 = x ${op} y\npanic\n`
+					const source = `x: ${type} = ${litA}\ny: ${type} = ${litB}\nz: bool = x ${op} y\npanic\n`
 
 					const ctx = new CompilationContext(source)
 					tokenize(ctx)
@@ -306,7 +305,7 @@ describe('binary expressions/comparison properties', () => {
 				fc.integer({ max: 50, min: 0 }),
 				(type, op, value) => {
 					const lit = literalForType(type, value)
-					const source = `x: ${type} = ${lit}\nz: i32 = x ${op} x\npanic\n`
+					const source = `x: ${type} = ${lit}\nz: bool = x ${op} x\npanic\n`
 
 					const ctx = new CompilationContext(source)
 					tokenize(ctx)
@@ -332,48 +331,38 @@ describe('binary expressions/comparison properties', () => {
 describe('binary expressions/logical properties', () => {
 	it('logical operators compile to valid WASM', () => {
 		fc.assert(
-			fc.property(
-				logicalOpArb,
-				fc.integer({ max: 10, min: 0 }),
-				fc.integer({ max: 10, min: 0 }),
-				(op, a, b) => {
-					const source = `x: i32 = ${a}\ny: i32 = ${b}\nz: i32 = x ${op} y\npanic\n`
+			fc.property(logicalOpArb, fc.boolean(), fc.boolean(), (op, a, b) => {
+				const source = `x: bool = ${a}\ny: bool = ${b}\nz: bool = x ${op} y\npanic\n`
 
-					const ctx = new CompilationContext(source)
-					tokenize(ctx)
-					const parseResult = parse(ctx)
-					if (!parseResult.succeeded) return true
+				const ctx = new CompilationContext(source)
+				tokenize(ctx)
+				const parseResult = parse(ctx)
+				if (!parseResult.succeeded) return true
 
-					const checkResult = check(ctx)
-					if (!checkResult.succeeded) return true
+				const checkResult = check(ctx)
+				if (!checkResult.succeeded) return true
 
-					const emitResult = emit(ctx)
-					return emitResult.valid
-				}
-			),
+				const emitResult = emit(ctx)
+				return emitResult.valid
+			}),
 			{ numRuns: 50 }
 		)
 	})
 
-	it('logical operators produce i32 result', () => {
+	it('logical operators produce bool result', () => {
 		fc.assert(
-			fc.property(
-				logicalOpArb,
-				fc.integer({ max: 10, min: 0 }),
-				fc.integer({ max: 10, min: 0 }),
-				(op, a, b) => {
-					const source = `x: i32 = ${a}\ny: i32 = ${b}\nz: i32 = x ${op} y\npanic\n`
+			fc.property(logicalOpArb, fc.boolean(), fc.boolean(), (op, a, b) => {
+				const source = `x: bool = ${a}\ny: bool = ${b}\nz: bool = x ${op} y\npanic\n`
 
-					const ctx = new CompilationContext(source)
-					tokenize(ctx)
-					const parseResult = parse(ctx)
-					if (!parseResult.succeeded) return true
+				const ctx = new CompilationContext(source)
+				tokenize(ctx)
+				const parseResult = parse(ctx)
+				if (!parseResult.succeeded) return true
 
-					const checkResult = check(ctx)
-					// Should succeed with i32 result type
-					return checkResult.succeeded
-				}
-			),
+				const checkResult = check(ctx)
+				// Should succeed with bool result type
+				return checkResult.succeeded
+			}),
 			{ numRuns: 50 }
 		)
 	})
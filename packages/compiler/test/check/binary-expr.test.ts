@@ -160,59 +160,59 @@ describe('check/binary expressions', () => {
 
 	describe('comparison operators', () => {
 		it('should compile less than', () => {
-			const ctx = compileAndCheck('x:i32 = 1 < 2\n')
+			const ctx = compileAndCheck('x:bool = 1 < 2\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile greater than', () => {
-			const ctx = compileAndCheck('x:i32 = 2 > 1\n')
+			const ctx = compileAndCheck('x:bool = 2 > 1\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile less equal', () => {
-			const ctx = compileAndCheck('x:i32 = 1 <= 2\n')
+			const ctx = compileAndCheck('x:bool = 1 <= 2\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile greater equal', () => {
-			const ctx = compileAndCheck('x:i32 = 2 >= 1\n')
+			const ctx = compileAndCheck('x:bool = 2 >= 1\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile equal equal', () => {
-			const ctx = compileAndCheck('x:i32 = 1 == 1\n')
+			const ctx = compileAndCheck('x:bool = 1 == 1\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile not equal', () => {
-			const ctx = compileAndCheck('x:i32 = 1 != 2\n')
+			const ctx = compileAndCheck('x:bool = 1 != 2\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile float comparison', () => {
-			const ctx = compileAndCheck('a:f64 = 1.5\nb:f64 = 2.5\nx:i32 = a < b\n')
+			const ctx = compileAndCheck('a:f64 = 1.5\nb:f64 = 2.5\nx:bool = a < b\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile comparison chain', () => {
-			const ctx = compileAndCheck('x:i32 = 1 < 2 < 3\n')
+			const ctx = compileAndCheck('x:bool = 1 < 2 < 3\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 	})
 
 	describe('logical operators', () => {
 		it('should compile logical AND', () => {
-			const ctx = compileAndCheck('x:i32 = 1 && 2\n')
+			const ctx = compileAndCheck('x:bool = true && false\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should compile logical OR', () => {
-			const ctx = compileAndCheck('x:i32 = 0 || 1\n')
+			const ctx = compileAndCheck('x:bool = false || true\n')
 			assert.strictEqual(ctx.hasErrors(), false)
 		})
 
 		it('should emit LogicalAnd instruction', () => {
-			const ctx = compileAndCheck('x:i32 = 1 && 2\n')
+			const ctx = compileAndCheck('x:bool = true && false\n')
 			assert.ok(ctx.insts)
 			let hasLogicalAnd = false
 			for (const [, inst] of ctx.insts) {
@@ -222,7 +222,7 @@ describe('check/binary expressions', () => {
 		})
 
 		it('should emit LogicalOr instruction', () => {
-			const ctx = compileAndCheck('x:i32 = 0 || 1\n')
+			const ctx = compileAndCheck('x:bool = false || true\n')
 			assert.ok(ctx.insts)
 			let hasLogicalOr = false
 			for (const [, inst] of ctx.insts) {
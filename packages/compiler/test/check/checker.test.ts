@@ -138,6 +138,30 @@ describe('check/checker', () => {
 		})
 	})
 
+	describe('numeric conversions', () => {
+		it('should emit a Convert instruction of the target type', () => {
+			const ctx = prepareContext('x: i32 = 1\ny: f64 = x as f64\n')
+			check(ctx)
+
+			assert.strictEqual(getErrors(ctx).length, 0)
+			const converts = [...(ctx.insts ?? [])].filter(([, inst]) => inst.kind === InstKind.Convert)
+			assert.strictEqual(converts.length, 1)
+			assert.strictEqual(ctx.types?.typeName(converts[0]![1].typeId), 'f64')
+		})
+
+		it('should warn about a conversion to the type a value already has', () => {
+			const ctx = prepareContext('x: i32<min=0> = 1\ny: i32 = x as i32\n')
+			check(ctx)
+
+			assert.strictEqual(getErrors(ctx).length, 0)
+			assert.deepStrictEqual(
+				getWarnings(ctx).map((d) => d.def.code),
+				['TWCHECK053']
+			)
+			assert.ok(![...(ctx.insts ?? [])].some(([, inst]) => inst.kind === InstKind.Convert))
+		})
+	})
+
 	describe('empty and comment-only programs', () => {
 		it('should handle empty program', () => {
 			const ctx = prepareContext('\n')
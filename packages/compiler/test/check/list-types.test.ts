@@ -12,7 +12,7 @@ import { parse } from '../../src/parse/parser.ts'
  * - TypeStore interning and distinctness
  * - Bounds checking soundness and completeness
  * - List literal size validation
- * - Codegen flattening and determinism
+ * - Codegen locals, stores and determinism
  * - Arithmetic on list elements
  *
  * These unit tests cover scenarios that property tests don't:
@@ -70,16 +70,24 @@ panic`
 		})
 
 		describe('TWCHECK035: non-integer index', () => {
-			it('errors when using variable as index (grammar rejects)', () => {
+			it('errors when indexing with a float', () => {
 				const source = `arr: i32[]<size=1> = [42]
-idx: i32 = 0
+idx: f64 = 0.0
 x: i32 = arr[idx]
 panic`
-				const ctx = createContext(source)
-				tokenize(ctx)
-				parse(ctx)
+				const ctx = prepareAndCheck(source)
+				const diags = ctx.getDiagnostics()
+				assert.ok(diags.some((d) => d.def.code === 'TWCHECK035'))
+			})
+
+			it('errors when indexing with an i64', () => {
+				const source = `arr: i32[]<size=1> = [42]
+idx: i64 = 0
+x: i32 = arr[idx]
+panic`
+				const ctx = prepareAndCheck(source)
 				const diags = ctx.getDiagnostics()
-				assert.ok(diags.length > 0, 'should have errors for variable index')
+				assert.ok(diags.some((d) => d.def.code === 'TWCHECK035'))
 			})
 		})
 
@@ -140,19 +140,31 @@ result: i32 = match x
 			assert.ok(errors.some((e) => e.message.includes('type mismatch')))
 		})
 
-		it('should check scrutinee type matches declared type', () => {
+		it('should check the scrutinee by its own type, not the declared type', () => {
 			const source = `x: i32 = 42
 result: i64 = match x
+	0 -> 1
+	_ -> 0
+`
+			const ctx = prepareContext(source)
+			const result = check(ctx)
+
+			// x is an i32 even though the match is an i64
+			assert.strictEqual(result.succeeded, true)
+			assert.strictEqual(getErrors(ctx).length, 0)
+		})
+
+		it('should reject patterns that do not match the scrutinee type', () => {
+			const source = `x: i32 = 42
+result: i32 = match x > 2
+	1 -> 1
 	_ -> 0
 `
 			const ctx = prepareContext(source)
 			const result = check(ctx)
 
-			// Currently scrutinee is checked with expected type
-			// This should fail because x is i32 but result expects i64
 			assert.strictEqual(result.succeeded, false)
-			const errors = getErrors(ctx)
-			assert.ok(errors.length > 0)
+			assert.ok(getErrors(ctx).some((d) => d.def.code === 'TWCHECK018'))
 		})
 	})
 
@@ -289,5 +301,132 @@ result: i32 = match x
 			const errors = getErrors(ctx)
 			assert.ok(errors.some((e) => e.message.includes('non-exhaustive match')))
 		})
+
+		it('should accept match covering every variant', () => {
+			const source = `Shape
+	Circle(r: f64)
+	Empty
+s: Shape = Empty
+area: f64 = match s
+	Circle(r) -> r
+	Empty -> 0.0
+`
+			const ctx = prepareContext(source)
+			const result = check(ctx)
+
+			assert.strictEqual(result.succeeded, true)
+			const errors = getErrors(ctx)
+			assert.strictEqual(errors.length, 0)
+		})
+
+		it('should name the variants a match does not cover', () => {
+			const source = `Shape
+	Circle(r: f64)
+	Rect(w: f64, h: f64)
+	Empty
+s: Shape = Empty
+area: f64 = match s
+	Circle(r) -> r
+`
+			const ctx = prepareContext(source)
+			const result = check(ctx)
+
+			assert.strictEqual(result.succeeded, false)
+			const errors = getErrors(ctx)
+			assert.strictEqual(errors.length, 1)
+			assert.ok(errors[0]?.message.includes('`Rect`, `Empty`'))
+		})
+	})
+
+	describe('range patterns and guards', () => {
+		it('should accept ranges that cover every value without a catch-all', () => {
+			const source = `x: i32 = 42
+result: i32 = match x
+	..-1 -> 0
+	0 -> 1
+	1.. -> 2
+`
+			const ctx = prepareContext(source)
+			const result = check(ctx)
+
+			assert.strictEqual(result.succeeded, true)
+		})
+
+		it('should error on ranges that leave a value uncovered', () => {
+			const source = `x: i64 = 42
+result: i64 = match x
+	..-1 -> 0
+	1.. -> 2
+`
+			const ctx = prepareContext(source)
+			const result = check(ctx)
+
+			assert.strictEqual(result.succeeded, false)
+			const errors = getErrors(ctx)
+			assert.ok(errors.some((e) => e.message.includes('non-exhaustive match')))
+		})
+
+		it('should not count guarded arms toward exhaustiveness', () => {
+			const source = `x: i32 = 42
+result: i32 = match x
+	..0 -> 0
+	n if n > 0 -> n
+`
+			const ctx = prepareContext(source)
+			const result = check(ctx)
+
+			assert.strictEqual(result.succeeded, false)
+			const errors = getErrors(ctx)
+			assert.ok(errors.some((e) => e.message.includes('non-exhaustive match')))
+		})
+
+		it('should narrow a guarded binding to the bounds its guard proves', () => {
+			const source = `x: i32 = 42
+result: i32 = match x
+	n if n > 100 && n < 200 -> n
+	n if -5 <= n -> n
+	_ -> 0
+`
+			const ctx = prepareContext(source)
+			check(ctx)
+
+			const names = [...(ctx.symbols ?? [])]
+				.filter(([, sym]) => ctx.strings.get(sym.nameId) === 'n')
+				.map(([, sym]) => ctx.types?.typeName(sym.typeId))
+			assert.deepStrictEqual(names, ['i32<min=101, max=199>', 'i32<min=-5>'])
+		})
+
+		it('should narrow a variable scrutinee to the values an arm matches', () => {
+			const source = `x: i32 = 42
+result: i32<min=0, max=100> = match x
+	..-1 -> 0
+	0..100 -> x
+	_ -> 100
+`
+			const ctx = prepareContext(source)
+			const result = check(ctx)
+
+			assert.strictEqual(result.succeeded, true)
+			const x = [...(ctx.symbols ?? [])].find(([, sym]) => ctx.strings.get(sym.nameId) === 'x')
+			assert.strictEqual(x && ctx.types?.typeName(x[1].typeId), 'i32')
+		})
+
+		it('should emit the guard before its arm', () => {
+			const source = `x: i32 = 42
+result: i32 = match x
+	n if n > 100 -> n
+	_ -> 0
+`
+			const ctx = prepareContext(source)
+			check(ctx)
+
+			const kinds = [...(ctx.insts ?? [])].map(([, inst]) => inst.kind)
+			const match = kinds.lastIndexOf(InstKind.Match)
+			assert.deepStrictEqual(kinds.slice(match - 3, match), [
+				InstKind.MatchGuard,
+				InstKind.MatchArm,
+				InstKind.MatchArm,
+			])
+		})
 	})
 })
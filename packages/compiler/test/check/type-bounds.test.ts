@@ -3,7 +3,7 @@ import { describe, it } from 'node:test'
 import fc from 'fast-check'
 import { check } from '../../src/check/checker.ts'
 import { TypeStore } from '../../src/check/stores.ts'
-import { BuiltinTypeId } from '../../src/check/types.ts'
+import { BuiltinTypeId, InstKind } from '../../src/check/types.ts'
 import { emit } from '../../src/codegen/index.ts'
 import { CompilationContext } from '../../src/core/context.ts'
 import { tokenize } from '../../src/lex/tokenizer.ts'
@@ -309,6 +309,165 @@ panic`
 	})
 })
 
+function checkSource(source: string): CompilationContext {
+	const ctx = new CompilationContext(source)
+	tokenize(ctx)
+	parse(ctx)
+	check(ctx)
+	return ctx
+}
+
+function mismatches(ctx: CompilationContext): string[] {
+	return ctx
+		.getDiagnostics()
+		.filter((d) => d.def.code === 'TWCHECK012')
+		.map((d) => d.message)
+}
+
+describe('check/type-bounds range analysis', () => {
+	it('proves arithmetic on bounded operands within bounds', () => {
+		const ctx = checkSource(`d: i32<min=0, max=9> = 5
+x: i32<min=1, max=10> = d + 1
+y: i32<min=-18, max=0> = d * -2
+z: i32<min=0, max=4> = d / 2
+panic`)
+
+		assert.deepStrictEqual(mismatches(ctx), [])
+	})
+
+	it('proves remainders and masks within bounds', () => {
+		const ctx = checkSource(`n: i32<min=0> = 1234
+x: i32 = 77
+a: i32<min=0, max=9> = n % 10
+b: i32<min=-9, max=9> = x % 10
+c: i32<min=0, max=99> = x %% 100
+d: i32<min=0, max=255> = x & 255
+panic`)
+
+		assert.deepStrictEqual(mismatches(ctx), [])
+	})
+
+	it('reports the range it found when it exceeds the bounds', () => {
+		const ctx = checkSource(`d: i32<min=0, max=9> = 5
+x: i32<min=0, max=9> = d + 1
+panic`)
+
+		assert.deepStrictEqual(mismatches(ctx), [
+			'type mismatch: expected `i32<min=0, max=9>`, found `i32<min=1, max=10>`',
+		])
+	})
+
+	it('widens a range that could overflow to the whole type', () => {
+		const ctx = checkSource(`n: i32<min=0> = 5
+x: i32<min=1> = n + 1
+panic`)
+
+		assert.deepStrictEqual(mismatches(ctx), ['type mismatch: expected `i32<min=1>`, found `i32`'])
+	})
+
+	it('keeps the range of an integer through a conversion only when it fits', () => {
+		const ctx = checkSource(`d: i32<min=0, max=9> = 5
+big: i64<min=0> = 5000000000
+w: i64<min=0, max=9> = d as i64
+n: i32<min=0> = big as i32
+panic`)
+
+		assert.deepStrictEqual(mismatches(ctx), ['type mismatch: expected `i32<min=0>`, found `i32`'])
+	})
+
+	it('widens an unsigned range that could wrap below zero', () => {
+		const ctx = checkSource(`d: u32<max=9> = 5
+one: u32<min=1, max=1> = 1
+two: u32<min=2, max=2> = 2
+y: u32<max=4> = d / two
+x: u32<max=8> = d - one
+panic`)
+
+		assert.deepStrictEqual(mismatches(ctx), ['type mismatch: expected `u32<max=8>`, found `u32`'])
+	})
+
+	it('proves arguments to bounded parameters', () => {
+		const ctx = checkSource(`digit = (d: i32<min=0, max=9>): i32 -> d
+x: i32 = 77
+a: i32 = digit(x & 7)
+b: i32 = digit(x)
+panic`)
+
+		assert.deepStrictEqual(mismatches(ctx), [
+			'type mismatch: expected `i32<min=0, max=9>`, found `i32`',
+		])
+	})
+})
+
+describe('check/type-bounds checked conversions', () => {
+	function diagnosticCodes(ctx: CompilationContext): string[] {
+		return ctx.getDiagnostics().map((d) => d.def.code)
+	}
+
+	it('converts a value it cannot prove to the expected bounded type', () => {
+		const ctx = checkSource(`raw: i32 = 42
+age: i32<min=0, max=125> = checked(raw)
+panic`)
+
+		assert.deepStrictEqual(diagnosticCodes(ctx), [])
+		const checks = [...(ctx.insts ?? [])].filter(
+			([, inst]) => inst.kind === InstKind.RefinementCheck
+		)
+		assert.strictEqual(checks.length, 1)
+		assert.strictEqual(ctx.types?.typeName(checks[0]![1].typeId), 'i32<min=0, max=125>')
+	})
+
+	it('converts arguments to bounded parameters', () => {
+		const ctx = checkSource(`digit = (d: i32<min=0, max=9>): i32 -> d
+raw: i32 = 42
+x: i32 = digit(checked(raw))
+panic`)
+
+		assert.deepStrictEqual(diagnosticCodes(ctx), [])
+	})
+
+	it('warns when the value always fits', () => {
+		const ctx = checkSource(`n: i32<min=0> = 42
+d: i32<min=0, max=9> = checked(n % 10)
+panic`)
+
+		assert.deepStrictEqual(diagnosticCodes(ctx), ['TWCHECK052'])
+		assert.ok(![...(ctx.insts ?? [])].some(([, inst]) => inst.kind === InstKind.RefinementCheck))
+	})
+
+	it('reads an unsigned constant as unsigned', () => {
+		const ctx = checkSource(`c: u32<min=3000000000> = checked(4000000000)
+panic`)
+
+		assert.deepStrictEqual(diagnosticCodes(ctx), ['TWCHECK052'])
+	})
+
+	it('errors when the expected type has no bounds', () => {
+		const ctx = checkSource(`raw: i32 = 42
+x: i32 = checked(raw)
+panic`)
+
+		assert.deepStrictEqual(diagnosticCodes(ctx), ['TWCHECK100'])
+	})
+
+	it('errors when the value is not of the type it converts to', () => {
+		const ctx = checkSource(`raw: i64 = 42
+x: i32<min=0> = checked(raw)
+panic`)
+
+		assert.deepStrictEqual(diagnosticCodes(ctx), ['TWCHECK012'])
+	})
+
+	it('calls a binding named checked', () => {
+		const ctx = checkSource(`checked = (x: i32): i32 -> x
+raw: i32 = 42
+x: i32 = checked(raw)
+panic`)
+
+		assert.deepStrictEqual(diagnosticCodes(ctx), [])
+	})
+})
+
 function generateRefinedProgram(
 	type: 'i32' | 'i64',
 	constraints: { min?: bigint; max?: bigint },
@@ -36,6 +36,11 @@ describe('check/BuiltinTypeId', () => {
 		assert.strictEqual(BuiltinTypeId.F32, 3)
 		assert.strictEqual(BuiltinTypeId.F64, 4)
 	})
+
+	it('should have unsigned integers at indices 5-6', () => {
+		assert.strictEqual(BuiltinTypeId.U32, 5)
+		assert.strictEqual(BuiltinTypeId.U64, 6)
+	})
 })
 
 describe('check/typeId', () => {
@@ -47,9 +52,9 @@ describe('check/typeId', () => {
 
 describe('check/TypeStore', () => {
 	describe('primitive bootstrapping', () => {
-		it('should initialize with 5 builtin types', () => {
+		it('should initialize with 8 builtin types', () => {
 			const store = new TypeStore()
-			assert.strictEqual(store.count(), 5)
+			assert.strictEqual(store.count(), 8)
 		})
 
 		it('should have none at index 0', () => {
@@ -87,6 +92,21 @@ describe('check/TypeStore', () => {
 			assert.strictEqual(info.name, 'f64')
 		})
 
+		it('should have u32 at index 5 and u64 at index 6', () => {
+			const store = new TypeStore()
+			assert.strictEqual(store.get(BuiltinTypeId.U32).kind, TypeKind.U32)
+			assert.strictEqual(store.get(BuiltinTypeId.U32).name, 'u32')
+			assert.strictEqual(store.get(BuiltinTypeId.U64).kind, TypeKind.U64)
+			assert.strictEqual(store.get(BuiltinTypeId.U64).name, 'u64')
+		})
+
+		it('should have bool at index 7', () => {
+			const store = new TypeStore()
+			const info = store.get(BuiltinTypeId.Bool)
+			assert.strictEqual(info.kind, TypeKind.Bool)
+			assert.strictEqual(info.name, 'bool')
+		})
+
 		it('should lookup primitives by name', () => {
 			const store = new TypeStore()
 			assert.strictEqual(store.lookup('i32'), BuiltinTypeId.I32)
@@ -120,7 +140,7 @@ describe('check/TypeStore', () => {
 			const distinctId = store.declareDistinct('UserId', BuiltinTypeId.I32, nodeId(0))
 
 			assert.notStrictEqual(distinctId, BuiltinTypeId.I32)
-			assert.strictEqual(store.count(), 6)
+			assert.strictEqual(store.count(), 9)
 		})
 
 		it('should track underlying type', () => {
@@ -268,7 +288,7 @@ describe('check/TypeStore', () => {
 				types.push([id, info])
 			}
 
-			assert.strictEqual(types.length, 5)
+			assert.strictEqual(types.length, 8)
 			assert.strictEqual(types[0]?.[0], 0)
 			assert.strictEqual(types[0]?.[1].name, 'none')
 			assert.strictEqual(types[1]?.[0], 1)
@@ -284,8 +304,8 @@ describe('check/TypeStore', () => {
 				types.push([id, info])
 			}
 
-			assert.strictEqual(types.length, 6)
-			assert.strictEqual(types[5]?.[1].name, 'UserId')
+			assert.strictEqual(types.length, 9)
+			assert.strictEqual(types[8]?.[1].name, 'UserId')
 		})
 	})
 })
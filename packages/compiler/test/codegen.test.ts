@@ -2,17 +2,17 @@ import assert from 'node:assert'
 import { describe, it } from 'node:test'
 
 import { check } from '../src/check/checker.ts'
-import { CompileError, type CompileResult, emit } from '../src/codegen/index.ts'
+import { CompileError, type CompileResult, type EmitOptions, emit } from '../src/codegen/index.ts'
 import { CompilationContext } from '../src/core/context.ts'
 import { tokenize } from '../src/lex/tokenizer.ts'
 import { parse } from '../src/parse/parser.ts'
 
-function compileSource(source: string, optimize = false): CompileResult {
+function compileSource(source: string, options: EmitOptions = {}): CompileResult {
 	const ctx = new CompilationContext(source)
 	tokenize(ctx)
 	parse(ctx)
 	check(ctx)
-	return emit(ctx, { optimize })
+	return emit(ctx, options)
 }
 
 describe('codegen', () => {
@@ -127,12 +127,12 @@ describe('codegen', () => {
 		})
 
 		it('should compile with optimization when enabled', () => {
-			const result = compileSource('panic\n', true)
+			const result = compileSource('panic\n', { optimize: true })
 			assert.strictEqual(result.valid, true)
 		})
 
 		it('should produce valid output with optimization', () => {
-			const result = compileSource('panic\npanic\n', true)
+			const result = compileSource('panic\npanic\n', { optimize: true })
 
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.binary instanceof Uint8Array)
@@ -140,6 +140,466 @@ describe('codegen', () => {
 		})
 	})
 
+	describe('exported functions', () => {
+		it('should describe each user function with its wasm signature', () => {
+			const source =
+				'add = (a: i32, b: i32): i32 -> a + b\ntwice = (x: i64): i64 -> x + x\nhalf = (x: f64): f64 -> x / 2.0\n'
+			assert.deepStrictEqual(compileSource(source).functions, [
+				{ name: 'add', params: ['i32', 'i32'], result: 'i32' },
+				{ name: 'twice', params: ['i64'], result: 'i64' },
+				{ name: 'half', params: ['f64'], result: 'f64' },
+			])
+		})
+
+		it('should lower refined parameter types to their wasm type', () => {
+			const source = 'clamp = (x: i32<min=0, max=9>): i32<min=0, max=9> -> x\n'
+			assert.deepStrictEqual(compileSource(source).functions, [
+				{ name: 'clamp', params: ['i32'], result: 'i32' },
+			])
+		})
+
+		it('should list no functions for a program without any', () => {
+			assert.deepStrictEqual(compileSource('panic\n').functions, [])
+		})
+	})
+
+	describe('higher-order functions', () => {
+		const APPLY = 'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\ninc = (n: i32): i32 -> n + 1\n'
+
+		it('should call function-typed parameters through the function table', () => {
+			const result = compileSource(APPLY)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('call_indirect'))
+			assert.ok(result.text.includes('(table $functions 2 2 funcref)'))
+			assert.ok(result.text.includes('$apply$closure $inc$closure'))
+		})
+
+		it('should call named functions directly', () => {
+			const result = compileSource('inc = (n: i32): i32 -> n + 1\nr: i32 = inc(1)\n')
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('call $inc'))
+			assert.ok(!result.text.includes('(table'))
+		})
+
+		it('should pass a named function as the address of its static closure record', () => {
+			const result = compileSource(`${APPLY}twice = (x: i32): i32 -> apply(inc, x)\n`)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(call \$apply\n\s+\(i32\.const 8\)/)
+		})
+
+		it('should emit inline lambdas as functions without exporting them', () => {
+			const result = compileSource(`${APPLY}double = (x: i32): i32 -> apply((n) -> n * 2, x)\n`)
+			assert.strictEqual(result.valid, true)
+			assert.match(
+				result.text,
+				/\(func \$lambda\$\d+ \(param \$0 i32\) \(param \$1 i32\) \(result i32\)/
+			)
+			assert.deepStrictEqual(
+				result.functions.map((f) => f.name),
+				['apply', 'inc', 'double']
+			)
+		})
+
+		it('should call function values stored in bindings indirectly', () => {
+			const result = compileSource(`${APPLY}g: (i32) -> i32 = inc\nr: i32 = g(1)\n`)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('call_indirect'))
+		})
+
+		it('should export function-typed parameters as i32 table indices', () => {
+			assert.deepStrictEqual(compileSource(APPLY).functions[0], {
+				name: 'apply',
+				params: ['i32', 'i32'],
+				result: 'i32',
+			})
+		})
+
+		it('should allocate a closure record for a lambda that captures', () => {
+			const result = compileSource(
+				`${APPLY}add_to = (n: i32, v: i32): i32 -> apply((x) -> x + n, v)\n`
+			)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(call \$lambda\$\d+\$make\n\s+\(local\.get \$0\)/)
+			assert.match(result.text, /\(i32\.load offset=8\n\s+\(local\.get \$0\)/)
+			assert.ok(result.text.includes('(memory $heap 1 65536)'))
+		})
+
+		it('should not allocate closures for lambdas without captures', () => {
+			const result = compileSource(`${APPLY}double = (x: i32): i32 -> apply((n) -> n * 2, x)\n`)
+			assert.strictEqual(result.valid, true)
+			assert.ok(!result.text.includes('$make'))
+		})
+
+		it('should capture bindings of every value type', () => {
+			const source =
+				'apply = (f: (i64) -> i64, x: i64): i64 -> f(x)\nshift = (d: i64, v: i64): i64 -> apply((x) -> x + d, v)\napply_f = (f: (f64) -> f64, x: f64): f64 -> f(x)\nscale = (s: f64, v: f64): f64 -> apply_f((x) -> x * s, v)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('i64.load offset=8'))
+			assert.ok(result.text.includes('i64.store offset=8'))
+			assert.ok(result.text.includes('f64.load offset=8'))
+			assert.ok(result.text.includes('f64.store offset=8'))
+		})
+
+		it('should capture the captures of a nested lambda', () => {
+			const source = `${APPLY}nest = (a: i32, b: i32): i32 -> apply((x) -> apply((y) -> y + a + x, b), 10)\n`
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(call \$lambda\$\d+\$make\n\s+\(i32\.load offset=8/)
+		})
+
+		it('should make a local function binding a closure', () => {
+			const source =
+				'scale = (n: i32, v: i32): i32 ->\n    h: (i32) -> i32 = (x) -> x * n\n    h(v)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(call \$lambda\$\d+\$make\n\s+\(local\.get \$0\)/)
+			assert.ok(result.text.includes('call_indirect'))
+			assert.deepStrictEqual(
+				result.functions.map((f) => f.name),
+				['scale']
+			)
+		})
+
+		it('should pass call arguments in source order', () => {
+			const source =
+				'sub = (a: i32, b: i32): i32 -> a - b\nf = (x: i32): i32 -> sub(x, sub(x, 1))\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(call \$sub\n\s+\(local\.get \$0\)\n\s+\(call \$sub/)
+		})
+	})
+
+	describe('tuples', () => {
+		const DIV_MOD = 'div_mod = (a: i32, b: i32): {i32, i32} -> {a / b, a % b}\n'
+
+		it('should return tuples as multiple values', () => {
+			const result = compileSource(DIV_MOD)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(func \$div_mod .*\(result i32 i32\)/)
+			assert.ok(result.text.includes('tuple.make 2'))
+		})
+
+		it('should export a tuple result as a list of wasm types', () => {
+			const source = 'pair = (x: i64, y: f64): {f64, i64} -> {y, x}\n'
+			assert.deepStrictEqual(compileSource(source).functions, [
+				{ name: 'pair', params: ['i64', 'f64'], result: ['f64', 'i64'] },
+			])
+		})
+
+		it('should extract destructured elements from a local', () => {
+			const source = `${DIV_MOD}digits = (n: i32): i32 ->\n    {q, r} = div_mod(n, 10)\n    q + r\n`
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('tuple.extract 2 0'))
+			assert.ok(result.text.includes('tuple.extract 2 1'))
+		})
+
+		it('should keep bindings in function bodies', () => {
+			const source = 'f = (x: i32): i32 ->\n    y: i32 = x + 1\n    y * 2\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(local\.set \$\d+\n\s+\(i32\.add/)
+		})
+	})
+
+	describe('records', () => {
+		const POINT = 'Point\n    x: i32\n    y: f64\n'
+		const MAKE = `${POINT}mk = (a: i32, b: f64): Point ->\n    p = Point\n        x = a\n        y = b\n    p\n`
+
+		it('should pass a record parameter one field at a time', () => {
+			const result = compileSource(`${POINT}getx = (p: Point): i32 -> p.x\n`)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(func \$getx \(param \$0 i32\) \(param \$1 f64\) \(result i32\)/)
+		})
+
+		it('should return a record as multiple values', () => {
+			const result = compileSource(MAKE)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(func \$mk .*\(result i32 f64\)/)
+			assert.ok(result.text.includes('tuple.make 2'))
+		})
+
+		it('should export record parameters and results as lists of wasm types', () => {
+			const source = `${POINT}flip = (p: Point, k: i64): Point -> p\n`
+			assert.deepStrictEqual(compileSource(source).functions, [
+				{ name: 'flip', params: ['i32', 'f64', 'i64'], result: ['i32', 'f64'] },
+			])
+		})
+
+		it('should spread a record argument into its fields', () => {
+			const source = `${MAKE}getx = (p: Point): i32 -> p.x\nq = mk(1, 2.0)\nr: i32 = getx(q)\n`
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('tuple.extract 2 0'))
+			assert.match(
+				result.text,
+				/\(call \$getx\n\s+\(local\.get \$\d+\)\n\s+\(local\.get \$\d+\)\n\s+\)/
+			)
+		})
+
+		it('should flatten nested record parameters', () => {
+			const source = `${POINT}Line\n    start: Point\n    end: Point\nendx = (l: Line): i32 -> l.end.x\n`
+			assert.deepStrictEqual(compileSource(source).functions, [
+				{ name: 'endx', params: ['i32', 'f64', 'i32', 'f64'], result: 'i32' },
+			])
+		})
+
+		it('should pass a record through a function value', () => {
+			const source = `${POINT}apply = (f: (Point) -> i32, p: Point): i32 -> f(p)\ngetx = (p: Point): i32 -> apply((q) -> q.x, p)\n`
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(
+				result.text,
+				/\(func \$closure\$call\$\d+ \(param \$0 i32\) \(param \$1 i32\) \(param \$2 f64\)/
+			)
+		})
+	})
+
+	describe('extern wasm', () => {
+		it('should emit intrinsics inline instead of calling them', () => {
+			const source =
+				'clz: (i32) -> i32\nclz = extern wasm "i32.clz"\nlead = (x: i32): i32 -> clz(x)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(func \$lead \(param \$0 i32\) \(result i32\)\n\s+\(i32\.clz/)
+			assert.ok(!result.text.includes('call $clz'))
+		})
+
+		it('should not export extern functions', () => {
+			const source = 'hi = extern wasm "f64.max"\nbig = (a: f64, b: f64): f64 -> hi(a, b)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('f64.max'))
+			assert.deepStrictEqual(
+				result.functions.map((f) => f.name),
+				['big']
+			)
+		})
+
+		it('should run the intrinsic in the table entry of an extern passed as a value', () => {
+			const source =
+				'apply = (f: (i64) -> i64, x: i64): i64 -> f(x)\ncount = extern wasm "i64.popcnt"\nbits = (x: i64): i64 -> apply(count, x)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(func \$count\$closure .*\n\s+\(i64\.popcnt/)
+		})
+	})
+
+	describe('extern host', () => {
+		const log = '@log: (i32) -> None\n@log = extern host "env" "log"\n'
+
+		it('should import host functions', () => {
+			const result = compileSource(`${log}@log(42)\n`)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(import "env" "log" (func $@log (param i32)))'))
+			assert.deepStrictEqual(result.imports, [
+				{ module: 'env', name: 'log', params: ['i32'], result: null },
+			])
+		})
+
+		it('should run top-level calls in order', () => {
+			const result = compileSource(`${log}@log(1)\n@log(2)\n`)
+			assert.strictEqual(result.valid, true)
+			assert.match(
+				result.text,
+				/\(func \$_start.*\n(\s+\(local .*\n)*\s+\(call \$@log\n\s+\(i32\.const 1\)\n\s+\)\n\s+\(call \$@log\n\s+\(i32\.const 2\)/
+			)
+		})
+
+		it('should run calls in a function body before its value', () => {
+			const source = `${log}@show = (x: i32): i32 ->\n    @log(x)\n    x + 1\n`
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(func \$@show .*\n\s+\(call \$@log/)
+		})
+
+		it('should drop the value of a call made for its effects', () => {
+			const source = 'sq = (x: i32): i32 -> x * x\nsq(3)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(drop\n\s+\(call \$sq/)
+		})
+	})
+
+	describe('tail calls', () => {
+		const parity =
+			'even: (i32) -> bool\nodd: (i32) -> bool\neven = tailrec (n: i32): bool -> n == 0 || odd(n - 1)\nodd = tailrec (n: i32): bool -> n != 0 && even(n - 1)\n'
+
+		it('should emit plain calls unless tail calls are enabled', () => {
+			const result = compileSource(parity)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(call $odd'))
+			assert.ok(!result.text.includes('return_call'))
+		})
+
+		it('should emit calls in tail position as tail calls', () => {
+			const result = compileSource(parity, { tailCalls: true })
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(return_call $odd'))
+			assert.ok(result.text.includes('(return_call $even'))
+		})
+
+		it('should keep calls outside tail position plain', () => {
+			const source = 'sq = (x: i32): i32 -> x * x\nquad = (x: i32): i32 -> sq(sq(x))\n'
+			const result = compileSource(source, { tailCalls: true })
+			assert.strictEqual(result.valid, true)
+			assert.match(result.text, /\(return_call \$sq\n\s+\(call \$sq/)
+		})
+
+		it('should tail call function values through the table', () => {
+			const source = 'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\n'
+			const result = compileSource(source, { tailCalls: true })
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(return_call $closure$call$'))
+			assert.ok(result.text.includes('(return_call_indirect (type'))
+			assert.match(result.text, /\(func \$apply\$closure .*\n\s+\(return_call \$apply/)
+		})
+	})
+
+	describe('checked conversions', () => {
+		it('should pass the value through a check with the bounds of its type', () => {
+			const source = 'raw: i32 = 42\nage: i32<min=0, max=125> = checked(raw)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.match(
+				result.text,
+				/\(call \$refine\$check\$i32\n\s+\(local\.get \$0\)\n\s+\(i32\.const 0\)\n\s+\(i32\.const 125\)/
+			)
+			assert.ok(result.text.includes('(func $refine$check$i32'))
+		})
+
+		it('should check an open end against the end of the base type', () => {
+			const source = 'raw: i64 = 42\nn: i64<min=1> = checked(raw)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(i64.const 9223372036854775807)'))
+			assert.ok(result.text.includes('(func $refine$check$i64'))
+		})
+
+		it('should check unsigned bounds with unsigned comparisons', () => {
+			const source = 'raw: u32 = 42\nn: u32<min=3000000000> = checked(raw)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(call $refine$check$u32'))
+			assert.ok(result.text.includes('(i32.lt_u'))
+			assert.ok(result.text.includes('(i32.gt_u'))
+		})
+
+		it('should add no check helper without checked conversions', () => {
+			const result = compileSource('age: i32<min=0, max=125> = 30\n')
+			assert.ok(!result.text.includes('refine$check'))
+		})
+	})
+
+	describe('numeric conversions', () => {
+		const conversions: [string, string, string][] = [
+			['i32', 'i64', 'i64.extend_i32_s'],
+			['i64', 'i32', 'i32.wrap_i64'],
+			['f32', 'f64', 'f64.promote_f32'],
+			['f64', 'f32', 'f32.demote_f64'],
+			['i64', 'f64', 'f64.convert_i64_s'],
+			['f32', 'i32', 'i32.trunc_f32_s'],
+			['u32', 'i64', 'i64.extend_i32_u'],
+			['i32', 'u64', 'i64.extend_i32_s'],
+			['u64', 'u32', 'i32.wrap_i64'],
+			['u64', 'f64', 'f64.convert_i64_u'],
+			['f64', 'u32', 'i32.trunc_f64_u'],
+		]
+		for (const [from, to, opcode] of conversions) {
+			it(`should convert ${from} to ${to} with ${opcode}`, () => {
+				const result = compileSource(`c = (x: ${from}): ${to} -> x as ${to}\n`)
+				assert.strictEqual(result.valid, true)
+				assert.ok(result.text.includes(`(${opcode}\n`))
+			})
+		}
+
+		it('should reinterpret between signed and unsigned of one width without an instruction', () => {
+			const result = compileSource('c = (x: i32): u32 -> x as u32\n')
+			assert.strictEqual(result.valid, true)
+			assert.match(
+				result.text,
+				/\(func \$c \(param \$0 i32\) \(result i32\)\n\s+\(local\.get \$0\)\n\s+\)/
+			)
+		})
+
+		it('should convert a bounded value as the type it refines', () => {
+			const source = 'c = (x: i32<min=0, max=9>): i64<min=0, max=9> -> x as i64\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('i64.extend_i32_s'))
+		})
+
+		it('should emit unsigned and saturating conversion intrinsics inline', () => {
+			const source =
+				'widen = extern wasm "i64.extend_i32_u"\nclamp = extern wasm "i32.trunc_sat_f64_u"\nu = (x: i32): i64 -> widen(x)\ns = (x: f64): i32 -> clamp(x)\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(i64.extend_i32_u\n'))
+			assert.ok(result.text.includes('(i32.trunc_sat_f64_u\n'))
+		})
+	})
+
+	describe('unsigned integers', () => {
+		const operators: [string, string, string][] = [
+			['u32', '/', 'i32.div_u'],
+			['u32', '%', 'i32.rem_u'],
+			['u32', '%%', 'i32.rem_u'],
+			['u32', '>>', 'i32.shr_u'],
+			['u64', '/', 'i64.div_u'],
+			['u64', '+', 'i64.add'],
+		]
+		for (const [type, op, opcode] of operators) {
+			it(`should emit ${opcode} for ${type} ${op}`, () => {
+				const result = compileSource(`f = (a: ${type}, b: ${type}): ${type} -> a ${op} b\n`)
+				assert.strictEqual(result.valid, true)
+				assert.ok(result.text.includes(`(${opcode}\n`))
+			})
+		}
+
+		it('should compare unsigned values with unsigned comparisons', () => {
+			const source = 'lt = (a: u32, b: u32): bool -> a < b\nge = (a: u64, b: u64): bool -> a >= b\n'
+			const result = compileSource(source)
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(i32.lt_u\n'))
+			assert.ok(result.text.includes('(i64.ge_u\n'))
+		})
+
+		it('should keep u32 and u64 unsigned in exported signatures', () => {
+			const result = compileSource('f = (a: u32): u64 -> a as u64\n')
+			assert.deepStrictEqual(result.functions, [{ name: 'f', params: ['u32'], result: 'u64' }])
+		})
+
+		it('should emit literals above the signed range by their bits', () => {
+			const result = compileSource('x: u32 = 4294967295\ny: u64 = 18446744073709551615\n')
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(i32.const -1)'))
+			assert.ok(result.text.includes('(i64.const -1)'))
+		})
+	})
+
+	describe('booleans', () => {
+		it('should keep bool in exported signatures', () => {
+			const result = compileSource('f = (a: bool, b: bool): bool -> a && b\n')
+			assert.deepStrictEqual(result.functions, [
+				{ name: 'f', params: ['bool', 'bool'], result: 'bool' },
+			])
+		})
+
+		it('should emit true and false as 1 and 0', () => {
+			const result = compileSource('t: bool = true\nf: bool = false\npanic\n')
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(i32.const 1)'))
+			assert.ok(result.text.includes('(i32.const 0)'))
+		})
+
+		it('should compare booleans as i32', () => {
+			const result = compileSource('f = (a: bool, b: bool): bool -> a == b\n')
+			assert.strictEqual(result.valid, true)
+			assert.ok(result.text.includes('(i32.eq\n'))
+		})
+	})
+
 	describe('CompileError', () => {
 		it('should have correct name property', () => {
 			const error = new CompileError('test error')
@@ -271,49 +731,49 @@ describe('codegen', () => {
 
 	describe('comparison operators', () => {
 		it('should emit i32.lt_s for less than', () => {
-			const result = compileSource('x:i32 = 1 < 2\npanic\n')
+			const result = compileSource('x:bool = 1 < 2\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('i32.lt_s'))
 		})
 
 		it('should emit i32.gt_s for greater than', () => {
-			const result = compileSource('x:i32 = 2 > 1\npanic\n')
+			const result = compileSource('x:bool = 2 > 1\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('i32.gt_s'))
 		})
 
 		it('should emit i32.le_s for less equal', () => {
-			const result = compileSource('x:i32 = 1 <= 2\npanic\n')
+			const result = compileSource('x:bool = 1 <= 2\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('i32.le_s'))
 		})
 
 		it('should emit i32.ge_s for greater equal', () => {
-			const result = compileSource('x:i32 = 2 >= 1\npanic\n')
+			const result = compileSource('x:bool = 2 >= 1\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('i32.ge_s'))
 		})
 
 		it('should emit i32.eq for equal equal', () => {
-			const result = compileSource('x:i32 = 1 == 1\npanic\n')
+			const result = compileSource('x:bool = 1 == 1\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('i32.eq'))
 		})
 
 		it('should emit i32.ne for not equal', () => {
-			const result = compileSource('x:i32 = 1 != 2\npanic\n')
+			const result = compileSource('x:bool = 1 != 2\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('i32.ne'))
 		})
 
 		it('should emit f64.lt for float less than', () => {
-			const result = compileSource('a:f64 = 1.5\nb:f64 = 2.5\nx:i32 = a < b\npanic\n')
+			const result = compileSource('a:f64 = 1.5\nb:f64 = 2.5\nx:bool = a < b\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('f64.lt'))
 		})
 
 		it('should emit f32.eq for float equal', () => {
-			const result = compileSource('a:f32 = 1.5\nb:f32 = 1.5\nx:i32 = a == b\npanic\n')
+			const result = compileSource('a:f32 = 1.5\nb:f32 = 1.5\nx:bool = a == b\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('f32.eq'))
 		})
@@ -321,13 +781,13 @@ describe('codegen', () => {
 
 	describe('logical operators', () => {
 		it('should emit if for logical AND (short-circuit)', () => {
-			const result = compileSource('x:i32 = 1 && 2\npanic\n')
+			const result = compileSource('x:bool = true && false\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('if'))
 		})
 
 		it('should emit if for logical OR (short-circuit)', () => {
-			const result = compileSource('x:i32 = 0 || 1\npanic\n')
+			const result = compileSource('x:bool = false || true\npanic\n')
 			assert.strictEqual(result.valid, true)
 			assert.ok(result.text.includes('if'))
 		})
@@ -354,7 +814,7 @@ describe('codegen', () => {
 		})
 
 		it('should compile comparison chain', () => {
-			const result = compileSource('x:i32 = 1 < 2 < 3\npanic\n')
+			const result = compileSource('x:bool = 1 < 2 < 3\npanic\n')
 			assert.strictEqual(result.valid, true)
 		})
 
@@ -10,9 +10,9 @@ import { parse } from '../../src/parse/parser.ts'
  * Unit tests for list codegen - complex expressions and edge cases.
  *
  * Property tests in list-types.property.test.ts cover:
- * - Flattened local counts (N elements → N locals)
+ * - One local per list, whatever its size
  * - Literal values appearing in WAT
- * - local.set and local.get emission
+ * - One store per element, and local.get emission
  * - Type-specific arithmetic operations
  * - WASM validity and determinism
  *
@@ -21,6 +21,7 @@ import { parse } from '../../src/parse/parser.ts'
  * - Complex multi-operator expressions
  * - Specific WASM instruction verification
  * - Short-circuit logical operations
+ * - Bounds checks on runtime indices
  */
 
 function compileToWat(source: string): string {
@@ -66,7 +67,7 @@ panic`
 
 		it('should emit comparison with list element', () => {
 			const source = `arr: i32[]<size=1> = [10]
-isLess: i32 = arr[0] < 20
+isLess: bool = arr[0] < 20
 panic`
 			const wat = compileToWat(source)
 
@@ -74,12 +75,63 @@ panic`
 		})
 
 		it('should emit logical operation with list element', () => {
-			const source = `arr: i32[]<size=1> = [1]
-result: i32 = arr[0] && 1
+			const source = `arr: bool[]<size=1> = [true]
+result: bool = arr[0] && true
 panic`
 			const wat = compileToWat(source)
 
 			assert.ok(wat.includes('if'), 'should emit if for short-circuit AND')
 		})
 	})
+
+	describe('runtime indices', () => {
+		const LOOKUP = 'nums: i32[]<size=4> = [10, 20, 30, 40]\n'
+
+		it('should store lists in linear memory', () => {
+			const wat = compileToWat(`${LOOKUP}panic`)
+
+			assert.ok(wat.includes('(memory $heap'), 'should declare the heap')
+			assert.ok(wat.includes('call $list$make$'), 'should allocate the list')
+		})
+
+		it('should bounds-check an index it cannot prove in range', () => {
+			const wat = compileToWat(`get = (i: i32): i32 ->\n    ${LOOKUP}    nums[i]\n`)
+
+			assert.ok(wat.includes('call $list$check'), 'should check the index')
+			assert.ok(wat.includes('unreachable'), 'should trap out of range')
+		})
+
+		it('should skip the bounds check when the index type proves it in range', () => {
+			const wat = compileToWat(`get = (i: i32<min=0, max=3>): i32 ->\n    ${LOOKUP}    nums[i]\n`)
+
+			assert.ok(!wat.includes('list$check'), 'should not check the index')
+		})
+
+		it('should skip the bounds check when the index range proves it in range', () => {
+			const wat = compileToWat(`get = (i: i32): i32 ->\n    ${LOOKUP}    nums[i & 3]\n`)
+
+			assert.ok(!wat.includes('list$check'), 'should not check the index')
+		})
+
+		it('should bounds-check an index whose type exceeds the list', () => {
+			const wat = compileToWat(`get = (i: i32<min=0, max=4>): i32 ->\n    ${LOOKUP}    nums[i]\n`)
+
+			assert.ok(wat.includes('call $list$check'), 'should check the index')
+		})
+
+		it('should not bounds-check constant indices', () => {
+			const wat = compileToWat(`${LOOKUP}last: i32 = nums[3]\npanic`)
+
+			assert.ok(!wat.includes('list$check'), 'should not check the index')
+		})
+
+		it('should scale the index by the element size', () => {
+			const wat = compileToWat(
+				'get = (i: i32): i64 ->\n    xs: i64[]<size=2> = [1, 2]\n    xs[i]\n'
+			)
+
+			assert.ok(wat.includes('i64.load'), 'should load an i64')
+			assert.ok(wat.includes('(i32.const 8)'), 'should scale by eight bytes')
+		})
+	})
 })
@@ -43,6 +43,44 @@ result: i32 = match x
 			assert.ok(!wat.includes('if'), 'should not generate if for wildcard-only match')
 		})
 
+		it('should compare true and false patterns as the bool scrutinee', () => {
+			const source = `b: bool = true
+result: i64 = match b
+	true -> 1
+	false -> 0
+`
+			const wat = compileToWat(source)
+
+			// The scrutinee is an i32 even though the match is an i64
+			assert.ok(wat.includes('(i32.eq'), 'should compare as i32')
+			assert.ok(!wat.includes('(i64.eq'), 'should not compare as i64')
+		})
+
+		it('should match a comparison by its bool result', () => {
+			const source = `x: i32 = 5
+result: i64 = match x > 2
+	true -> 1
+	false -> 0
+`
+			const wat = compileToWat(source)
+
+			assert.ok(wat.includes('(i32.gt_s'), 'should compute the comparison')
+			assert.ok(wat.includes('(i32.eq'), 'should compare the bool as i32')
+			assert.ok(!wat.includes('(i64.eq'), 'should not compare as i64')
+		})
+
+		it('should compare an integer scrutinee by its own type in a bool match', () => {
+			const source = `x: i64 = 0
+result: bool = match x
+	0 -> true
+	_ -> false
+`
+			const wat = compileToWat(source)
+
+			assert.ok(wat.includes('(i64.eq'), 'should compare as i64')
+			assert.ok(!wat.includes('(i32.eq'), 'should not compare as i32')
+		})
+
 		it('should generate or-pattern as multiple comparisons', () => {
 			const source = `x: i32 = 2
 result: i32 = match x
@@ -73,4 +111,97 @@ result: i32 = match x
 			assert.ok(wat.includes('i32.const -1'), 'should generate negative constant')
 		})
 	})
+
+	describe('sum types', () => {
+		it('should build variants as tuples of tag and fields', () => {
+			const source = `Shape
+	Circle(r: f64)
+	Empty
+s: Shape = Circle(2.0)
+`
+			const wat = compileToWat(source)
+
+			assert.ok(wat.includes('tuple.make 2'), 'should make a tuple of tag and field')
+		})
+
+		it('should compare the tag and extract bound fields', () => {
+			const source = `Shape
+	Circle(r: f64)
+	Empty
+s: Shape = Circle(2.0)
+a: f64 = match s
+	Circle(r) -> r
+	Empty -> 0.0
+`
+			const wat = compileToWat(source)
+
+			assert.ok(wat.includes('tuple.extract 2 0'), 'should read the tag')
+			assert.ok(wat.includes('tuple.extract 2 1'), 'should read the field')
+			assert.ok(wat.includes('i32.eq'), 'should compare the tag')
+		})
+
+		it('should represent sum types without fields as the tag', () => {
+			const source = `Color
+	Red
+	Green
+c: Color = Green
+n: i32 = match c
+	Red -> 0
+	Green -> 1
+`
+			const wat = compileToWat(source)
+
+			assert.ok(!wat.includes('tuple'), 'should not make tuples')
+			assert.ok(wat.includes('i32.const 1'), 'should use the tag of Green')
+		})
+	})
+
+	describe('ranges and guards', () => {
+		it('should compare a range with both of its ends', () => {
+			const source = `x: i32 = 5
+result: i32 = match x
+	0..9 -> 1
+	_ -> 0
+`
+			const wat = compileToWat(source)
+
+			assert.ok(wat.includes('i32.ge_s'), 'should compare the lower end')
+			assert.ok(wat.includes('i32.le_s'), 'should compare the upper end')
+		})
+
+		it('should compare an open range with its one end', () => {
+			const source = `x: i64 = 5
+result: i64 = match x
+	..-1 -> 0
+	_ -> 1
+`
+			const wat = compileToWat(source)
+
+			assert.ok(wat.includes('i64.le_s'), 'should compare the upper end')
+			assert.ok(!wat.includes('i64.ge_s'), 'should not compare a lower end')
+		})
+
+		it('should compare unsigned ranges with unsigned comparisons', () => {
+			const source = `x: u32 = 5
+result: u32 = match x
+	3000000000.. -> 1
+	_ -> 0
+`
+			const wat = compileToWat(source)
+
+			assert.ok(wat.includes('(i32.ge_u'), 'should compare the lower end as unsigned')
+			assert.ok(wat.includes('(i32.const -1294967296)'), 'should emit the end by its bits')
+		})
+
+		it('should test the guard only once the pattern matches', () => {
+			const source = `x: i32 = 5
+result: i32 = match x
+	1..9 if x > 2 -> 1
+	_ -> 0
+`
+			const wat = compileToWat(source)
+
+			assert.match(wat, /\(if \(result i32\)\s+\(i32\.and[\s\S]*\(then\s+\(i32\.gt_s/)
+		})
+	})
 })
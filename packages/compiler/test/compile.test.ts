@@ -1,6 +1,6 @@
 import assert from 'node:assert'
 import { describe, it } from 'node:test'
-import { CompileError, compile } from '../src/index.ts'
+import { CompileError, compile, compileToResult, DiagnosticSeverity } from '../src/index.ts'
 
 describe('compile (unified API)', () => {
 	describe('basic compilation', () => {
@@ -92,4 +92,60 @@ describe('compile (unified API)', () => {
 			assert.ok(result.text.includes('(export "_start"'))
 		})
 	})
+
+	describe('compileToResult', () => {
+		it('should return the module and no diagnostics for a valid program', () => {
+			const { diagnostics, result } = compileToResult('x: i32 = 1\n')
+			assert.deepStrictEqual(diagnostics, [])
+			assert.strictEqual(result?.valid, true)
+		})
+
+		it('should collect every error instead of stopping at the first', () => {
+			const { diagnostics, result } = compileToResult('a: i32 = 1.5\nb: i32 = q\nc: i32 = r\n')
+			assert.strictEqual(result, null)
+			assert.deepStrictEqual(
+				diagnostics.map((d) => [d.code, d.line]),
+				[
+					['TWCHECK016', 1],
+					['TWCHECK013', 2],
+					['TWCHECK013', 3],
+				]
+			)
+		})
+
+		it('should describe a diagnostic as structured data', () => {
+			const [diagnostic] = compileToResult('x: i32 = count\n', { filename: 'main.tw' }).diagnostics
+			assert.ok(diagnostic)
+			const { formattedMessage, ...fields } = diagnostic
+			assert.deepStrictEqual(fields, {
+				code: 'TWCHECK013',
+				column: 10,
+				endColumn: 15,
+				endLine: 1,
+				line: 1,
+				message: 'undefined variable `count`',
+				severity: DiagnosticSeverity.Error,
+				suggestion: 'Declare the variable before using it.',
+			})
+			assert.ok(formattedMessage.includes('--> main.tw:1:10'))
+		})
+
+		it('should report warnings alongside a successful result', () => {
+			const { diagnostics, result } = compileToResult('panic\nx: i32 = 1\n')
+			assert.ok(result)
+			assert.deepStrictEqual(
+				diagnostics.map((d) => [d.code, d.severity]),
+				[['TWCHECK050', DiagnosticSeverity.Warning]]
+			)
+		})
+
+		it('should report an empty program without throwing', () => {
+			const { diagnostics, result } = compileToResult('')
+			assert.strictEqual(result, null)
+			assert.deepStrictEqual(
+				diagnostics.map((d) => d.code),
+				['TWGEN001']
+			)
+		})
+	})
 })
@@ -0,0 +1,25 @@
+import assert from 'node:assert'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { describe, it } from 'node:test'
+import { compile } from '../src/index.ts'
+
+const EXAMPLES = join(import.meta.dirname, '../../../examples')
+
+/** Every example outside `errors/`, which holds programs that must fail. */
+function exampleFiles(): string[] {
+	return readdirSync(EXAMPLES, { recursive: true, withFileTypes: true })
+		.filter((entry) => entry.isFile() && entry.name.endsWith('.tw'))
+		.map((entry) => join(entry.parentPath, entry.name))
+		.filter((path) => !relative(EXAMPLES, path).startsWith('errors'))
+		.sort()
+}
+
+describe('examples', () => {
+	for (const path of exampleFiles()) {
+		it(`should compile ${relative(EXAMPLES, path)}`, () => {
+			const result = compile(readFileSync(path, 'utf-8'))
+			assert.strictEqual(result.valid, true)
+		})
+	}
+})
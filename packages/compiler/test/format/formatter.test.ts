@@ -0,0 +1,119 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { format } from '../../src/format/formatter.ts'
+
+function formatted(source: string): string {
+	const result = format(source)
+	assert.ok(result.succeeded, 'source should parse')
+	return result.text
+}
+
+describe('format/format', () => {
+	describe('spacing', () => {
+		it('should space binding punctuation and binary operators', () => {
+			assert.strictEqual(formatted('x:i32=1+2*3\n'), 'x: i32 = 1 + 2 * 3\n')
+		})
+
+		it('should keep unary minus and bound lists tight', () => {
+			assert.strictEqual(
+				formatted('v:i32<min = -40,max=50> = - 5\n'),
+				'v: i32<min=-40, max=50> = -5\n'
+			)
+		})
+
+		it('should space lambdas, calls and lists', () => {
+			const source = 'add=(m:i32,n:i32):i32->m+n\nr:i32=add(1,-2)\nl:i32[]<size=2>=[1,2]\n'
+			assert.strictEqual(
+				formatted(source),
+				'add = (m: i32, n: i32): i32 -> m + n\nr: i32 = add(1, -2)\nl: i32[]<size=2> = [1, 2]\n'
+			)
+		})
+
+		it('should space match arms', () => {
+			const source = 'x: i32 = 1\nd: i32 = match x\n    0|1->10\n    _  ->  20\n'
+			assert.strictEqual(
+				formatted(source),
+				'x: i32 = 1\nd: i32 = match x\n    0 | 1 -> 10\n    _ -> 20\n'
+			)
+		})
+
+		it('should space conversions and compare after them', () => {
+			assert.strictEqual(
+				formatted('x: i32 = 1\nb: i32 = -x  as  i64<5\n'),
+				'x: i32 = 1\nb: i32 = -x as i64 < 5\n'
+			)
+		})
+
+		it('should keep ranges tight and space guards', () => {
+			const source =
+				'x: i32 = 1\nd: i32 = match x\n    .. -1->0\n    0 .. 9|100 ..->1\n    n if n>9->n\n'
+			assert.strictEqual(
+				formatted(source),
+				'x: i32 = 1\nd: i32 = match x\n    ..-1 -> 0\n    0..9 | 100.. -> 1\n    n if n > 9 -> n\n'
+			)
+		})
+	})
+
+	describe('layout', () => {
+		it('should keep the indentation unit the file uses', () => {
+			const source = 'Point\n  x:i32\np = Point\n  x=1\n'
+			assert.strictEqual(formatted(source), 'Point\n  x: i32\n\np = Point\n  x = 1\n')
+		})
+
+		it('should keep tab indentation', () => {
+			assert.strictEqual(formatted('Point\n\tx: i32\n'), 'Point\n\tx: i32\n')
+		})
+
+		it('should collapse runs of blank lines and end with one newline', () => {
+			assert.strictEqual(formatted('a: i32 = 1\n\n\n\nb: i32 = 2'), 'a: i32 = 1\n\nb: i32 = 2\n')
+		})
+
+		it('should separate type declarations from their neighbours', () => {
+			const source = 'a: i32 = 1\nPoint\n    x: i32\nb: i32 = 2\n'
+			assert.strictEqual(formatted(source), 'a: i32 = 1\n\nPoint\n    x: i32\n\nb: i32 = 2\n')
+		})
+
+		it('should keep the grouping of other top-level declarations', () => {
+			const source =
+				'a: i32 = 1\nb: i32 = 2\n\n\nf = (x: i32): i32 ->\n    x + 1\ng = (x: i32): i32 -> f(x)\n\nr: i32 = g(b)\n'
+			assert.strictEqual(
+				formatted(source),
+				'a: i32 = 1\nb: i32 = 2\n\nf = (x: i32): i32 ->\n    x + 1\ng = (x: i32): i32 -> f(x)\n\nr: i32 = g(b)\n'
+			)
+		})
+	})
+
+	describe('comments', () => {
+		it('should keep every comment', () => {
+			const source = '# leading\nPoint\n    # inside\n    x: i32\n'
+			assert.strictEqual(formatted(source), source)
+		})
+
+		it('should align trailing comments in a group', () => {
+			const source = 'a: i32 = 1 # one\nlonger: i32 = 2 # two\n\nc: i32 = 3    # three\n'
+			assert.strictEqual(
+				formatted(source),
+				'a: i32 = 1       # one\nlonger: i32 = 2  # two\n\nc: i32 = 3  # three\n'
+			)
+		})
+	})
+
+	it('should be idempotent', () => {
+		const once = formatted('Point\n  x:i32 # x\np=Point\n  x=-1\n\n\nq:i32=p.x*2\n')
+		assert.strictEqual(formatted(once), once)
+	})
+
+	it('should align comments only within the blank lines it places', () => {
+		const once = formatted('Point\n    x: i32 # x\nlonger: i32 = 2 # two\n')
+		assert.strictEqual(once, 'Point\n    x: i32  # x\n\nlonger: i32 = 2  # two\n')
+		assert.strictEqual(formatted(once), once)
+	})
+
+	it('should return the source unchanged when it does not parse', () => {
+		const result = format('x: i32 = = 1\n')
+		assert.strictEqual(result.succeeded, false)
+		assert.strictEqual(result.text, 'x: i32 = = 1\n')
+		assert.ok(result.context.hasErrors())
+	})
+})
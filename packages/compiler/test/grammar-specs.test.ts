@@ -99,6 +99,9 @@ test('Grammar Specs', async (t) => {
 				'x:i64 = 123', // [FULL]
 				'x:f32 = 1.5', // [FULL]
 				'x:f64 = 2.5', // [FULL]
+				'x:u32 = 7', // [FULL]
+				'x:u64 = 8', // [FULL]
+				'x:bool = true', // [FULL]
 				'x:i32<min=0> = 5', // [FULL] - type bounds with constraint checking
 				'x:i32<min=0, max=100> = 50', // [FULL]
 				'arr:i32[]<size=3> = [1, 2, 3]', // [FULL] - single-level list
@@ -112,6 +115,7 @@ test('Grammar Specs', async (t) => {
 				'x:i64 =', // Missing expression for primitive
 				'x:f32 =', // Missing expression for primitive
 				'x:f64 =', // Missing expression for primitive
+				'x:u32 =', // Missing expression for primitive
 				'x:i32<min=0> =', // Missing expression for bounded primitive
 				'arr:i32[]<size=3> =', // Missing expression for list type
 				// Note: 'p:Point = 5' is now valid grammar (type mismatch is a semantic error)
@@ -176,6 +180,14 @@ test('Grammar Specs', async (t) => {
 				'match x\n\t0 -> 100\n\t_ -> 0',
 				// Multiple match expressions
 				'a: i32 = match x\n\t0 -> 1\n\t_ -> 0\nb: i32 = match y\n\t1 -> 2\n\t_ -> 0',
+				// Range patterns, open at either end
+				'result: i32 = match x\n\t..-1 -> 0\n\t0..9 -> 1\n\t10.. -> 2',
+				// Range patterns in an or-pattern
+				'result: i32 = match x\n\t-9..-1 | 1..9 -> 1\n\t_ -> 0',
+				// Guarded arm
+				'result: i32 = match x\n\tn if n > 100 && n < 200 -> n\n\t_ -> 0',
+				// Boolean patterns
+				'result: i32 = match b\n\ttrue -> 1\n\tfalse -> 0',
 			])
 		)
 
@@ -183,6 +195,9 @@ test('Grammar Specs', async (t) => {
 			prepareList([
 				'match', // Missing scrutinee
 				'result: i32 = match', // Missing scrutinee in binding
+				'result: i32 = match x\n\t.. -> 0', // Range without ends
+				'result: i32 = match x\n\tn if -> 0', // Guard without condition
+				'result: i32 = match b\n\tfalse..true -> 0', // Range between booleans
 			])
 		)
 
@@ -245,12 +260,26 @@ test('Grammar Specs', async (t) => {
 				'x:i32 = 1 | 2 & 3', // and before or
 				'x:i32 = 1 || 2 && 3', // and before or
 				'x:i32 = -1 * 2', // unary before mul
+				// Conversions
+				'x:i64 = y as i64',
+				'x:i64 = -y as i64 * 2', // unary before as, as before mul
+				'x:f64 = y as i64 as f64', // chained
+				'x:u64 = y as u64',
+				'x:i32 = (y + 1.5) as i32',
 				// Variables in expressions
 				'x:i32 = 1\ny:i32 = x + 1',
 				'x:i32 = 1\ny:i32 = x * x',
 			])
 		)
 
+		tester.reject(
+			prepareList([
+				'x:i64 = y as', // Missing type
+				'x:i64 = y as Point', // Conversions are to numeric types
+				'x:i64 = as i64', // Missing value
+			])
+		)
+
 		const result = tester.run()
 		if (result.failed > 0) {
 			for (const r of result.results) {
@@ -338,6 +367,44 @@ test('Grammar Specs', async (t) => {
 		}
 	})
 
+	await t.test('Tuples', (t) => {
+		const tester = createTester(grammar, 'Tuples', 'Program')
+
+		tester.match(
+			prepareList([
+				// [FULL] Tuple types, literals and destructuring
+				't: {i32, i64} = {1, 2}',
+				'{a, b} = {1, 2.5}',
+				'{_, b} = {1, 2}',
+				'{a, b, c} = f(1)',
+				'f = (a: i32, b: i32): {i32, i32} -> {a / b, a % b}',
+
+				// [GRAMMAR] Nested tuples parse; the checker rejects them
+				't: {{i32, i32}, i32} = {{1, 2}, 3}',
+			])
+		)
+
+		tester.reject(
+			prepareList([
+				't: {i32} = {1}', // a tuple has at least two elements
+				'{a} = x',
+				'{} = x',
+				'{a: i32, b} = x', // pattern names take no annotation
+			])
+		)
+
+		const result = tester.run()
+		if (result.failed > 0) {
+			for (const r of result.results) {
+				if (!r.passed) {
+					t.diagnostic(`[FAILED] ${r.expected} '${r.input}': ${r.errorMessage}`)
+					t.diagnostic(`Prepared Input: ${JSON.stringify(r.input)}`)
+				}
+			}
+			assert.fail(`Failed ${result.failed} grammar tests`)
+		}
+	})
+
 	await t.test('Field and Index Access', (t) => {
 		const tester = createTester(grammar, 'Field and Index Access', 'Program')
 
@@ -492,13 +559,24 @@ test('Grammar Specs', async (t) => {
 
 				// [GRAMMAR] Function with omitted return type (inferred)
 				'double = (x: i32) -> x * 2',
+
+				// [GRAMMAR] Parameter types omitted (inferred from the expected function type)
+				'f = (x): i32 -> x',
+				'Op = (i32, i32) -> i32\nadd: Op = (a, b) -> a + b',
+
+				// [GRAMMAR] Function-typed parameter and function-typed binding
+				'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)',
+				'g: (i32) -> i32 = double',
+
+				// [GRAMMAR] Lambda passed as an argument
+				'result:i32 = apply((n) -> n + 1, 5)',
+				'result:i32 = apply((n: i32): i32 -> n + 1, 5)',
 			])
 		)
 
 		tester.reject(
 			prepareList([
 				'f: i32 -> i32', // Missing parens around param types
-				'f = (x): i32 -> x', // Missing param type annotation
 				'f = (x: i32) ->', // Missing body
 				'f = -> 42', // Missing parameter list
 			])
@@ -516,6 +594,118 @@ test('Grammar Specs', async (t) => {
 		}
 	})
 
+	await t.test('Extern Bindings', (t) => {
+		const tester = createTester(grammar, 'Extern Bindings', 'Program')
+
+		tester.match(
+			prepareList([
+				// [FULL] WASM intrinsics
+				'clz = extern wasm "i32.clz"',
+				'clz: (i32) -> i32 = extern wasm "i32.clz"',
+				'clz: (i32) -> i32\nclz = extern wasm "i32.clz"',
+				'wasm = 1', // `wasm` is only a keyword after `extern`
+				// [FULL] Host imports
+				'@log: (i32) -> None\n@log = extern host "env" "log"',
+				'@log: (i32) -> None = extern host "env" "log"',
+				'@log(42)', // effectful names are identifiers
+				'@show = (x: i32): None -> @log(x)',
+				'host = 1', // `host` is only a keyword after `extern`
+			])
+		)
+
+		tester.reject(
+			prepareList([
+				'clz = extern "i32.clz"', // missing extern kind
+				'clz = extern wasm i32', // opcode must be a string
+				'x: i32 = 1 + extern wasm "i32.clz"', // externs are bound, not used in expressions
+				'extern = 1', // `extern` is reserved
+				'x = "i32.clz"', // strings only appear in externs
+				'@log = extern host "env"', // host imports name a module and a function
+				'@log = extern host env log', // module and function are strings
+			])
+		)
+
+		const result = tester.run()
+		if (result.failed > 0) {
+			for (const r of result.results) {
+				if (!r.passed) {
+					t.diagnostic(`[FAILED] ${r.expected} '${r.input}': ${r.errorMessage}`)
+					t.diagnostic(`Prepared Input: ${JSON.stringify(r.input)}`)
+				}
+			}
+			assert.fail(`Failed ${result.failed} grammar tests`)
+		}
+	})
+
+	await t.test('Sum Types', (t) => {
+		const tester = createTester(grammar, 'Sum Types', 'Program')
+
+		tester.match(
+			prepareList([
+				// [FULL] Variant declarations
+				'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty',
+				'Color\n    Red\n    Green', // variants without fields look like records without fields
+				// [FULL] Construction and variant patterns
+				'c: Shape = Circle(2.0)',
+				'e: Shape = Empty',
+				'a: f64 = match s\n    Circle(r) -> r\n    Rect(w, _) -> w\n    Empty -> 0.0',
+				'a: i32 = match s\n    Circle(_) | Empty -> 1\n    _ -> 0',
+			])
+		)
+
+		tester.reject(
+			prepareList([
+				'Shape\n    Circle()', // variants with no fields have no parentheses
+				'Shape\n    circle(r: f64)', // variant names are capitalized
+				'a: i32 = match s\n    Circle() -> 1', // patterns follow the declaration
+				'a: i32 = match s\n    circle(r) -> 1', // lowercase names bind, they do not destructure
+			])
+		)
+
+		const result = tester.run()
+		if (result.failed > 0) {
+			for (const r of result.results) {
+				if (!r.passed) {
+					t.diagnostic(`[FAILED] ${r.expected} '${r.input}': ${r.errorMessage}`)
+					t.diagnostic(`Prepared Input: ${JSON.stringify(r.input)}`)
+				}
+			}
+			assert.fail(`Failed ${result.failed} grammar tests`)
+		}
+	})
+
+	await t.test('Tailrec Bindings', (t) => {
+		const tester = createTester(grammar, 'Tailrec Bindings', 'Program')
+
+		tester.match(
+			prepareList([
+				// [FULL] Tail-recursive functions
+				'down = tailrec (n: i32): i32 -> down(n - 1)',
+				'down: (i32) -> i32 = tailrec (n: i32): i32 -> down(n - 1)',
+				'down = tailrec (n: i32): i32 ->\n    m: i32 = n - 1\n    down(m)',
+			])
+		)
+
+		tester.reject(
+			prepareList([
+				'down = tailrec n', // only lambdas are tail-recursive
+				'f(tailrec (n: i32): i32 -> n)', // tailrec lambdas are bound, not passed
+				'tailrec = 1', // `tailrec` is reserved
+			])
+		)
+
+		const result = tester.run()
+		if (result.failed > 0) {
+			for (const r of result.results) {
+				if (!r.passed) {
+					t.diagnostic(`[FAILED] ${r.expected} '${r.input}': ${r.errorMessage}`)
+					t.diagnostic(`Prepared Input: ${JSON.stringify(r.input)}`)
+				}
+			}
+			assert.fail(`Failed ${result.failed} grammar tests`)
+		}
+	})
+
 	await t.test('Expression Sequences in Lambda Bodies', (t) => {
 		const tester = createTester(grammar, 'Expression Sequences', 'Program')
 
@@ -586,6 +776,7 @@ panic`,
 				'panicMode:i32 = 1',
 				'i32value:i32 = 42',
 				'matchmaking:i32 = 1',
+				'aside:i32 = 1',
 				'f64data:f64 = 1.0',
 				'typeOf:i32 = 1',
 				// Keyword suffixes
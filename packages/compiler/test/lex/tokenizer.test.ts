@@ -2,6 +2,7 @@ import assert from 'node:assert'
 import { describe, it } from 'node:test'
 import { CompilationContext } from '../../src/core/context.ts'
 import { TokenKind } from '../../src/core/tokens.ts'
+import { TriviaKind } from '../../src/core/trivia.ts'
 import { tokenize } from '../../src/lex/tokenizer.ts'
 
 function getTokenKinds(ctx: CompilationContext): TokenKind[] {
@@ -12,6 +13,16 @@ function getTokenKinds(ctx: CompilationContext): TokenKind[] {
 	return kinds
 }
 
+/** Trivia of a tokenized source as `line:column kind text`. */
+function describeTrivia(ctx: CompilationContext): string[] {
+	const lines = ctx.source.split('\n')
+	return [...ctx.trivia].map(([, trivia]) => {
+		const start = trivia.column - 1
+		const text = (lines[trivia.line - 1] ?? '').slice(start, start + trivia.length)
+		return `${trivia.line}:${trivia.column} ${trivia.kind} ${JSON.stringify(text)}`
+	})
+}
+
 describe('lex/tokenizer', () => {
 	describe('basic tokenization', () => {
 		it('should tokenize empty input', () => {
@@ -56,6 +67,61 @@ describe('lex/tokenizer', () => {
 			}
 			assert.strictEqual(hasPanic, false)
 		})
+
+		it('should tokenize tailrec as a keyword', () => {
+			const ctx = new CompilationContext('down = tailrec (n: i32): i32 -> down(n)')
+			tokenize(ctx)
+			assert.ok(getTokenKinds(ctx).includes(TokenKind.Tailrec))
+		})
+
+		it('should tokenize if as a keyword', () => {
+			const ctx = new CompilationContext('n if n > 0 -> n')
+			tokenize(ctx)
+			assert.ok(getTokenKinds(ctx).includes(TokenKind.If))
+		})
+
+		it('should tokenize as as a keyword', () => {
+			const ctx = new CompilationContext('y: i64 = x as i64')
+			tokenize(ctx)
+			assert.deepStrictEqual(getTokenKinds(ctx).slice(4, 7), [
+				TokenKind.Identifier,
+				TokenKind.As,
+				TokenKind.I64,
+			])
+		})
+
+		it('should tokenize u32 and u64 as type keywords', () => {
+			const ctx = new CompilationContext('x: u32 = y as u64')
+			tokenize(ctx)
+			const kinds = getTokenKinds(ctx)
+			assert.strictEqual(kinds[2], TokenKind.U32)
+			assert.strictEqual(kinds[6], TokenKind.U64)
+		})
+
+		it('should tokenize bool as a type keyword and true and false as keywords', () => {
+			const ctx = new CompilationContext('x: bool = true || false')
+			tokenize(ctx)
+			const kinds = getTokenKinds(ctx)
+			assert.strictEqual(kinds[2], TokenKind.Bool)
+			assert.strictEqual(kinds[4], TokenKind.True)
+			assert.strictEqual(kinds[6], TokenKind.False)
+		})
+
+		it('should tokenize names that start with true as identifiers', () => {
+			const ctx = new CompilationContext('trueish')
+			tokenize(ctx)
+			assert.strictEqual(getTokenKinds(ctx)[0], TokenKind.Identifier)
+		})
+
+		it('should tokenize a range between integers', () => {
+			const ctx = new CompilationContext('0..9')
+			tokenize(ctx)
+			assert.deepStrictEqual(getTokenKinds(ctx).slice(0, 3), [
+				TokenKind.IntLiteral,
+				TokenKind.DotDot,
+				TokenKind.IntLiteral,
+			])
+		})
 	})
 
 	describe('indentation', () => {
@@ -456,4 +522,126 @@ describe('lex/tokenizer', () => {
 			assert.strictEqual(rparenCount, 2)
 		})
 	})
+
+	describe('string literals', () => {
+		it('should tokenize a string with its contents as payload', () => {
+			const ctx = new CompilationContext('clz = extern wasm "i32.clz"')
+			const result = tokenize(ctx)
+
+			assert.strictEqual(result.succeeded, true)
+			const token = [...ctx.tokens].find(([, t]) => t.kind === TokenKind.StringLiteral)?.[1]
+			assert.ok(token)
+			assert.strictEqual(token.column, 19)
+			assert.strictEqual(ctx.strings.get(token.payload as never), 'i32.clz')
+		})
+
+		it('should tokenize extern as a keyword', () => {
+			const ctx = new CompilationContext('clz = extern wasm "i32.clz"')
+			tokenize(ctx)
+			assert.ok(getTokenKinds(ctx).includes(TokenKind.Extern))
+		})
+
+		it('should keep # inside a string', () => {
+			const ctx = new CompilationContext('s = "a # b"')
+			tokenize(ctx)
+			const token = [...ctx.tokens].find(([, t]) => t.kind === TokenKind.StringLiteral)?.[1]
+			assert.strictEqual(ctx.strings.get(token?.payload as never), 'a # b')
+		})
+
+		it('should report an unterminated string', () => {
+			const ctx = new CompilationContext('clz = extern wasm "i32.clz')
+			const result = tokenize(ctx)
+
+			assert.strictEqual(result.succeeded, false)
+			const diagnostic = ctx.getDiagnostics()[0]
+			assert.strictEqual(diagnostic?.def.code, 'TWLEX006')
+			assert.strictEqual(diagnostic?.column, 19)
+		})
+	})
+
+	describe('effectful identifiers', () => {
+		it('should keep the @ as part of the name', () => {
+			const ctx = new CompilationContext('@log(1)')
+			const result = tokenize(ctx)
+
+			assert.strictEqual(result.succeeded, true)
+			const token = ctx.tokens.get(0 as never)
+			assert.strictEqual(token.kind, TokenKind.Identifier)
+			assert.strictEqual(ctx.strings.get(token.payload as never), '@log')
+		})
+
+		it('should not start a name with an @ that is not followed by a letter', () => {
+			const ctx = new CompilationContext('@ log')
+			tokenize(ctx)
+			const names = [...ctx.tokens]
+				.filter(([, t]) => t.kind === TokenKind.Identifier)
+				.map(([, t]) => ctx.strings.get(t.payload as never))
+			assert.deepStrictEqual(names, ['log'])
+		})
+	})
+
+	describe('trivia', () => {
+		it('should keep comments, indentation and spacing', () => {
+			const ctx = new CompilationContext('Point\n    x:i32  # first\n# own line\n')
+			tokenize(ctx)
+
+			assert.deepStrictEqual(describeTrivia(ctx), [
+				`2:1 ${TriviaKind.Whitespace} "    "`,
+				`2:10 ${TriviaKind.Whitespace} "  "`,
+				`2:12 ${TriviaKind.Comment} "# first"`,
+				`3:1 ${TriviaKind.Comment} "# own line"`,
+			])
+		})
+
+		it('should keep the indentation directive', () => {
+			const ctx = new CompilationContext('"use spaces"\npanic\n')
+			tokenize(ctx, { mode: 'directive' })
+
+			assert.deepStrictEqual(describeTrivia(ctx), [
+				`1:1 ${TriviaKind.Directive} "\\"use spaces\\""`,
+			])
+		})
+
+		it('should leave only token text uncovered', () => {
+			const source = 'x: i32 = 1 + 2  # sum\nresult: i32 = match x\n\t3 -> 1\n\t_ -> 0\n'
+			const ctx = new CompilationContext(source)
+			tokenize(ctx)
+
+			const lines = source.split('\n')
+			const uncovered = lines.map((line) => Array.from(line, () => true))
+			for (const [, trivia] of ctx.trivia) {
+				uncovered[trivia.line - 1]?.fill(
+					false,
+					trivia.column - 1,
+					trivia.column - 1 + trivia.length
+				)
+			}
+			const tokenStarts = new Set(
+				[...ctx.tokens].map(([, token]) => `${token.line}:${token.column}`)
+			)
+			lines.forEach((line, i) => {
+				Array.from(line).forEach((char, j) => {
+					if (!uncovered[i]?.[j]) return
+					assert.match(char, /\S/)
+					if (!uncovered[i]?.[j - 1]) assert.ok(tokenStarts.has(`${i + 1}:${j + 1}`))
+				})
+			})
+		})
+	})
+
+	describe('detected indentation', () => {
+		it('should report the detected space unit', () => {
+			const ctx = new CompilationContext('Point\n  x: i32\n')
+			assert.deepStrictEqual(tokenize(ctx).indentation, { type: 'space', unit: 2 })
+		})
+
+		it('should report tabs', () => {
+			const ctx = new CompilationContext('Point\n\tx: i32\n')
+			assert.deepStrictEqual(tokenize(ctx).indentation, { type: 'tab', unit: 1 })
+		})
+
+		it('should report no indentation for flat sources', () => {
+			assert.strictEqual(tokenize(new CompilationContext('panic\n')).indentation, null)
+		})
+	})
 })
@@ -0,0 +1,23 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { CompilationContext } from '../../src/core/context.ts'
+import { tokenize } from '../../src/lex/tokenizer.ts'
+import { parse } from '../../src/parse/parser.ts'
+
+function tokenizeAndParse(source: string): CompilationContext {
+	const ctx = new CompilationContext(source)
+	tokenize(ctx)
+	parse(ctx)
+	return ctx
+}
+
+describe('parse/errors', () => {
+	it('should report a syntax error at the line where parsing failed', () => {
+		const ctx = tokenizeAndParse('x: i32 = 1\ny: i32 = 2\nbroken = = =\n')
+		const [error] = ctx.getErrors()
+
+		assert.ok(error, 'should have an error')
+		assert.strictEqual(error.def.code, 'TWPARSE001')
+		assert.strictEqual(error.line, 3)
+	})
+})
@@ -163,6 +163,42 @@ describe('parse/match', () => {
 		})
 	})
 
+	describe('range and guard node structure', () => {
+		it('should have a RangePattern holding both ends', () => {
+			const source = `result: i32 = match x
+	0..9 -> 0`
+			const ctx = tokenizeAndParse(source)
+
+			const ranges = [...ctx.nodes].filter(([, node]) => node.kind === NodeKind.RangePattern)
+			assert.strictEqual(ranges.length, 1)
+			assert.strictEqual(ranges[0]?.[1].subtreeSize, 3, 'RangePattern: 1 (self) + 2 ends')
+		})
+
+		it('should have a RangePattern holding its one end when open', () => {
+			const source = `result: i32 = match x
+	..-1 -> 0
+	100.. -> 1`
+			const ctx = tokenizeAndParse(source)
+
+			const sizes = [...ctx.nodes]
+				.filter(([, node]) => node.kind === NodeKind.RangePattern)
+				.map(([, node]) => node.subtreeSize)
+			assert.deepStrictEqual(sizes, [2, 2])
+		})
+
+		it('should have a MatchGuard between pattern and body', () => {
+			const source = `result: i32 = match x
+	n if n > 0 -> n`
+			const ctx = tokenizeAndParse(source)
+
+			assert.strictEqual(ctx.hasErrors(), false, 'should have no errors')
+			const kinds = [...ctx.nodes].map(([, node]) => node.kind)
+			const guard = kinds.indexOf(NodeKind.MatchGuard)
+			assert.ok(guard > kinds.indexOf(NodeKind.BindingPattern), 'guard should follow the pattern')
+			assert.strictEqual(kinds[guard + 2], NodeKind.MatchArm, 'body should follow the guard')
+		})
+	})
+
 	describe('match expression node structure', () => {
 		it('should have MatchExpr containing scrutinee', () => {
 			const source = `result: i32 = match x
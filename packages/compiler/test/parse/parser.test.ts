@@ -345,6 +345,30 @@ describe('parse/parser', () => {
 			assert.strictEqual(binaryCount, 1)
 		})
 
+		it('should parse a conversion between unary and binary operators', () => {
+			const ctx = tokenizeAndParse('x:i64 = -y as i64 * 2')
+			assert.strictEqual(ctx.hasErrors(), false)
+			// Structure: ((-y) as i64) * 2
+			const kinds = [...ctx.nodes].map(([, node]) => node.kind)
+			const conversion = kinds.indexOf(NodeKind.ConversionExpr)
+			assert.ok(kinds.indexOf(NodeKind.UnaryExpr) < conversion)
+			assert.ok(conversion < kinds.indexOf(NodeKind.BinaryExpr))
+		})
+
+		it('should parse chained conversions left to right', () => {
+			const ctx = tokenizeAndParse('x:f64 = y as i64 as f64')
+			assert.strictEqual(ctx.hasErrors(), false)
+			const conversions = [...ctx.nodes].filter(([, node]) => node.kind === NodeKind.ConversionExpr)
+			assert.deepStrictEqual(
+				conversions.map(([, node]) => ctx.tokens.get(node.tokenId).column),
+				[14, 21]
+			)
+			assert.deepStrictEqual(
+				conversions.map(([, node]) => node.subtreeSize),
+				[2, 3]
+			)
+		})
+
 		it('should parse parentheses overriding precedence', () => {
 			const ctx = tokenizeAndParse('x:i32 = (1 + 2) * 3')
 			assert.strictEqual(ctx.hasErrors(), false)
@@ -121,6 +121,75 @@ test('Semantic Specs', async (t) => {
 				expect: 'check-error',
 				input: 'x:i32<max=100> = 101',
 			},
+			{
+				description: 'bounded value used as its base type',
+				expect: 'valid',
+				input: 'x:i32<min=0> = 5\ny:i32 = x\nz:i32 = x + y',
+			},
+			{
+				description: 'bounded value widened to looser bounds',
+				expect: 'valid',
+				input: 'x:i32<min=1, max=9> = 5\ny:i32<min=0> = x',
+			},
+			{
+				description: 'open end widened to bounds at the base type limit',
+				expect: 'valid',
+				input: 'x:i32<min=0> = 5\ny:i32<min=0, max=2147483647> = x',
+			},
+			{
+				description: 'open end narrowed to bounds below the base type limit',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'x:i32<min=0> = 5\ny:i32<min=0, max=100> = x',
+			},
+			{
+				description: 'masked sign bit proven within bounds at the base type limit',
+				expect: 'valid',
+				input: 'x:i32 = 7\nm:i32<min=0> = x & 2147483647\nb:i32<min=0, max=2147483647> = m',
+			},
+			{
+				description: 'bounded value narrowed to tighter bounds',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'x:i32<min=0> = 5\ny:i32<min=1> = x',
+			},
+			{
+				description: 'remainder of a value never negative proven within bounds',
+				expect: 'valid',
+				input: 'n:i32<min=0> = 1234\nd:i32<min=0, max=9> = n % 10',
+			},
+			{
+				description: 'masked value proven within bounds',
+				expect: 'valid',
+				input: 'x:i32 = 1234\nb:i32<min=0, max=255> = x & 255',
+			},
+			{
+				description: 'arithmetic on bounded operands proven within bounds',
+				expect: 'valid',
+				input: 'd:i32<min=0, max=9> = 5\ne:i32<min=1, max=10> = d + 1',
+			},
+			{
+				description: 'arithmetic on bounded operands exceeding bounds',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'd:i32<min=0, max=9> = 5\ne:i32<min=0, max=9> = d + 1',
+			},
+			{
+				description: 'scrutinee narrowed by a range arm',
+				expect: 'valid',
+				input: 'x:i32 = 5\nc:i32<min=0, max=100> = match x\n    0..100 -> x\n    _ -> 0',
+			},
+			{
+				description: 'checked conversion to a bounded type',
+				expect: 'valid',
+				input: 'raw:i32 = 42\nage:i32<min=0, max=125> = checked(raw)',
+			},
+			{
+				description: 'checked conversion to a type without bounds',
+				errorCode: 'TWCHECK100',
+				expect: 'check-error',
+				input: 'raw:i32 = 42\nx:i32 = checked(raw)',
+			},
 		])
 	)
 
@@ -203,6 +272,45 @@ test('Semantic Specs', async (t) => {
 		])
 	)
 
+	await t.test(
+		'Runtime List Indices',
+		semanticTests([
+			{
+				description: 'variable index',
+				expect: 'valid',
+				input: 'arr:i32[]<size=3> = [1, 2, 3]\ni:i32 = 2\nx:i32 = arr[i]',
+			},
+			{
+				description: 'computed index',
+				expect: 'valid',
+				input: 'arr:i32[]<size=3> = [1, 2, 3]\ni:i32 = 1\nx:i32 = arr[i + 1]',
+			},
+			{
+				description: 'refined index',
+				expect: 'valid',
+				input: 'get = (xs: i32[]<size=4>, i: i32<min=0, max=3>): i32 -> xs[i]',
+			},
+			{
+				description: 'list field indexed at runtime',
+				expect: 'valid',
+				input:
+					'Data\n\titems: i32[]<size=2>\nd = Data\n\titems = [1, 2]\ni:i32 = 1\nx:i32 = d.items[i]',
+			},
+			{
+				description: 'float index',
+				errorCode: 'TWCHECK035',
+				expect: 'check-error',
+				input: 'arr:i32[]<size=3> = [1, 2, 3]\nx:i32 = arr[1.0]',
+			},
+			{
+				description: 'list of records',
+				errorCode: 'TWCHECK045',
+				expect: 'check-error',
+				input: 'Point\n\tx: i32\n\ty: i32\nps: Point[]<size=2> = [p, p]',
+			},
+		])
+	)
+
 	// =========================================================================
 	// GRAMMAR-ONLY CONSTRUCTS - Document what parses but doesn't compile
 	// =========================================================================
@@ -310,6 +418,218 @@ test('Semantic Specs', async (t) => {
 		])
 	)
 
+	await t.test(
+		'Numeric Conversions',
+		semanticTests([
+			{
+				description: 'i32 widened to i64',
+				expect: 'valid',
+				input: 'x:i32 = 1\ny:i64 = x as i64',
+			},
+			{
+				description: 'mixed operands converted to one type',
+				expect: 'valid',
+				input: 'x:i32 = 1\ny:i64 = 2\nz:i64 = x as i64 + y',
+			},
+			{
+				description: 'float truncated to an integer',
+				expect: 'valid',
+				input: 'x:f64 = 2.5\ny:i32 = x as i32',
+			},
+			{
+				description: 'conversion keeps the range of an integer',
+				expect: 'valid',
+				input: 'x:i32<min=0, max=9> = 3\ny:i64<min=0, max=9> = x as i64',
+			},
+			{
+				description: 'conversion to another type than expected',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'x:i32 = 1\ny:f32 = x as i64',
+			},
+			{
+				description: 'conversion of a list',
+				errorCode: 'TWCHECK101',
+				expect: 'check-error',
+				input: 'l:i32[]<size=2> = [1, 2]\ny:i64 = l as i64',
+			},
+			{
+				description: 'conversion to a type name',
+				expect: 'parse-error',
+				input: 'x:i32 = 1\ny:i64 = x as Point',
+			},
+		])
+	)
+
+	await t.test(
+		'Unsigned Integers',
+		semanticTests([
+			{ description: 'u32 at its maximum', expect: 'valid', input: 'x:u32 = 4294967295' },
+			{
+				description: 'u64 at its maximum',
+				expect: 'valid',
+				input: 'x:u64 = 18446744073709551615',
+			},
+			{
+				description: 'u32 literal above its maximum',
+				errorCode: 'TWCHECK014',
+				expect: 'check-error',
+				input: 'x:u32 = 4294967296',
+			},
+			{
+				description: 'negative u64 literal',
+				errorCode: 'TWCHECK014',
+				expect: 'check-error',
+				input: 'x:u64 = -1',
+			},
+			{
+				description: 'negated unsigned value',
+				errorCode: 'TWCHECK102',
+				expect: 'check-error',
+				input: 'x:u32 = 5\ny:u32 = -x',
+			},
+			{
+				description: 'unsigned mixed with signed',
+				errorCode: 'TWCHECK022',
+				expect: 'check-error',
+				input: 'x:u32 = 5\ny:i32 = 5\nz:u32 = x + y',
+			},
+			{
+				description: 'signed reinterpreted as unsigned',
+				expect: 'valid',
+				input: 'x:i32 = -1\ny:u32 = x as u32',
+			},
+			{
+				description: 'bounded unsigned value',
+				expect: 'valid',
+				input: 'x:u32<min=3000000000> = 4000000000',
+			},
+			{
+				description: 'negative pattern on an unsigned scrutinee',
+				errorCode: 'TWCHECK014',
+				expect: 'check-error',
+				input: 'x:u32 = 5\ny:u32 = match x\n\t-1 -> 1\n\t_ -> 0',
+			},
+			{
+				description: 'open range covers every unsigned value',
+				expect: 'valid',
+				input: 'x:u32 = 5\ny:u32 = match x\n\t0.. -> 1',
+			},
+		])
+	)
+
+	await t.test(
+		'Booleans',
+		semanticTests([
+			{
+				description: 'boolean literals',
+				expect: 'valid',
+				input: 'a:bool = true\nb:bool = false',
+			},
+			{
+				description: 'comparison produces bool',
+				expect: 'valid',
+				input: 'x:i32 = 5\nb:bool = x > 3',
+			},
+			{
+				description: 'comparison bound to an integer',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'x:i32 = 5\nb:i32 = x > 3',
+			},
+			{
+				description: 'logical operators combine booleans',
+				expect: 'valid',
+				input: 'x:i32 = 5\nb:bool = x > 3 && x < 9 || x == 0',
+			},
+			{
+				description: 'logical operator on integers',
+				errorCode: 'TWCHECK024',
+				expect: 'check-error',
+				input: 'x:i32 = 5\nb:bool = x && x',
+			},
+			{
+				description: 'bitwise operator on booleans',
+				errorCode: 'TWCHECK103',
+				expect: 'check-error',
+				input: 'a:bool = true\nb:bool = false\nc:bool = a & b',
+			},
+			{
+				description: 'ordering booleans',
+				errorCode: 'TWCHECK103',
+				expect: 'check-error',
+				input: 'a:bool = true\nb:bool = false\nc:bool = a < b',
+			},
+			{
+				description: 'booleans compared for equality',
+				expect: 'valid',
+				input: 'a:bool = true\nb:bool = false\nc:bool = a != b',
+			},
+			{
+				description: 'integer literal as bool',
+				errorCode: 'TWCHECK104',
+				expect: 'check-error',
+				input: 'b:bool = 1',
+			},
+			{
+				description: 'float literal as bool',
+				errorCode: 'TWCHECK104',
+				expect: 'check-error',
+				input: 'b:bool = 1.5',
+			},
+			{
+				description: 'bool literal as integer',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'x:i32 = true',
+			},
+			{
+				description: 'true and false cover a bool',
+				expect: 'valid',
+				input: 'b:bool = true\nx:i32 = match b\n\ttrue -> 1\n\tfalse -> 0',
+			},
+			{
+				description: 'true alone does not cover a bool',
+				errorCode: 'TWCHECK020',
+				expect: 'check-error',
+				input: 'b:bool = true\nx:i32 = match b\n\ttrue -> 1',
+			},
+			{
+				description: 'bool pattern on an integer scrutinee',
+				errorCode: 'TWCHECK018',
+				expect: 'check-error',
+				input: 'x:i32 = 5\ny:i32 = match x\n\ttrue -> 1\n\t_ -> 0',
+			},
+			{
+				description: 'comparison scrutinee matched by true and false',
+				expect: 'valid',
+				input: 'x:i32 = 5\nh:i32 = match x > 2\n\ttrue -> 1\n\tfalse -> 0',
+			},
+			{
+				description: 'integer pattern on a comparison scrutinee',
+				errorCode: 'TWCHECK018',
+				expect: 'check-error',
+				input: 'x:i32 = 5\nh:i32 = match x > 2\n\t1 -> 1\n\t_ -> 0',
+			},
+			{
+				description: 'bool-valued match over an integer',
+				expect: 'valid',
+				input: 'x:i32 = 0\nf:bool = match x\n\t0 -> true\n\t_ -> false',
+			},
+			{
+				description: 'integer-valued match over an integer of another type',
+				expect: 'valid',
+				input: 'x:i64 = 5\nr:i32 = match x\n\t0 -> 1\n\t_ -> 2',
+			},
+			{
+				description: 'guard that is not a bool',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'x:i32 = 5\ny:i32 = match x\n\tn if n -> n\n\t_ -> 0',
+			},
+		])
+	)
+
 	await t.test(
 		'Undefined Variables',
 		semanticTests([
@@ -359,6 +679,587 @@ test('Semantic Specs', async (t) => {
 		])
 	)
 
+	await t.test(
+		'Functions - Higher-Order',
+		semanticTests([
+			{
+				description: 'function-typed parameter',
+				expect: 'valid',
+				input: 'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)',
+			},
+			{
+				description: 'named function passed as argument',
+				expect: 'valid',
+				input:
+					'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\ninc = (n: i32): i32 -> n + 1\nresult:i32 = apply(inc, 5)',
+			},
+			{
+				description: 'annotated lambda passed as argument',
+				expect: 'valid',
+				input:
+					'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nresult:i32 = apply((n: i32): i32 -> n * 2, 5)',
+			},
+			{
+				description: 'lambda parameter types inferred from the parameter type',
+				expect: 'valid',
+				input:
+					'fold = (f: (i32, i32) -> i32, a: i32, b: i32): i32 -> f(a, b)\nresult:i32 = fold((x, y) -> x - y, 10, 3)',
+			},
+			{
+				description: 'function value stored in a binding',
+				expect: 'valid',
+				input: 'inc = (n: i32): i32 -> n + 1\ng: (i32) -> i32 = inc\nresult:i32 = g(1)',
+			},
+			{
+				description: 'lambda parameter types inferred from a type alias',
+				expect: 'valid',
+				input:
+					'BinaryOp = (i32, i32) -> i32\nadd: BinaryOp = (a, b) -> a + b\nresult:i32 = add(1, 2)',
+			},
+			{
+				description: 'lambda parameter types inferred from a forward declaration',
+				expect: 'valid',
+				input: 'double: (i32) -> i32\ndouble = (x) -> x * 2\nresult:i32 = double(5)',
+			},
+			{
+				description: 'nested calls as arguments',
+				expect: 'valid',
+				input: 'sub = (a: i32, b: i32): i32 -> a - b\nresult:i32 = sub(sub(10, 3), sub(5, 4))',
+			},
+		])
+	)
+
+	await t.test(
+		'Functions - Higher-Order Errors',
+		semanticTests([
+			{
+				description: 'parameter type with nothing to infer it from',
+				errorCode: 'TWCHECK039',
+				expect: 'check-error',
+				input: 'f = (x) -> x',
+			},
+			{
+				description: 'lambda argument of the wrong function type',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input:
+					'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nresult:i32 = apply((n: i64): i64 -> n, 5)',
+			},
+			{
+				description: 'non-function passed for a function-typed parameter',
+				errorCode: 'TWCHECK016',
+				expect: 'check-error',
+				input: 'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nresult:i32 = apply(5, 5)',
+			},
+			{
+				description: 'function value bound with the wrong function type',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'inc = (n: i32): i32 -> n + 1\ng: (i64) -> i64 = inc',
+			},
+		])
+	)
+
+	await t.test(
+		'Functions - Closures',
+		semanticTests([
+			{
+				description: 'lambda capturing a parameter of its enclosing function',
+				expect: 'valid',
+				input:
+					'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nadd_to = (n: i32, v: i32): i32 -> apply((x) -> x + n, v)',
+			},
+			{
+				description: 'lambda capturing a top-level binding',
+				expect: 'valid',
+				input:
+					'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nk: i32 = 3\nresult:i32 = apply((x) -> x * k, 5)',
+			},
+			{
+				description: 'lambda capturing through an enclosing lambda',
+				expect: 'valid',
+				input:
+					'apply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nnest = (a: i32, b: i32): i32 -> apply((x) -> apply((y) -> y + a + x, b), 10)',
+			},
+			{
+				description: 'local function binding capturing a parameter',
+				expect: 'valid',
+				input: 'scale = (n: i32, v: i32): i32 ->\n    h: (i32) -> i32 = (x) -> x * n\n    h(v)',
+			},
+			{
+				description: 'inferred local function binding capturing a parameter',
+				expect: 'valid',
+				input: 'twice = (n: i32): i32 ->\n    g = (x: i32): i32 -> x + n\n    g(g(0))',
+			},
+			{
+				description: 'named function capturing a top-level binding',
+				errorCode: 'TWCHECK043',
+				expect: 'check-error',
+				input: 'k: i32 = 3\nf = (x: i32): i32 -> x + k',
+			},
+		])
+	)
+
+	await t.test(
+		'Tuples',
+		semanticTests([
+			{
+				description: 'function returning a tuple',
+				expect: 'valid',
+				input: 'div_mod = (a: i32, b: i32): {i32, i32} -> {a / b, a % b}',
+			},
+			{
+				description: 'destructuring a tuple returned by a call',
+				expect: 'valid',
+				input:
+					'div_mod = (a: i32, b: i32): {i32, i32} -> {a / b, a % b}\n{q, r} = div_mod(10, 3)\ns: i32 = q + r',
+			},
+			{
+				description: 'wildcard in a tuple pattern',
+				expect: 'valid',
+				input: '{_, b} = {1, 2.5}\nc: f64 = b',
+			},
+			{
+				description: 'tuple literal typed by its annotation',
+				expect: 'valid',
+				input: 't: {i32, i64} = {1, 5000000000}\n{a, b} = t',
+			},
+			{
+				description: 'destructured element has its element type',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: '{a, b} = {1, 2.5}\nc: i32 = b',
+			},
+			{
+				description: 'pattern with more names than elements',
+				errorCode: 'TWCHECK044',
+				expect: 'check-error',
+				input: '{a, b, c} = {1, 2}',
+			},
+			{
+				description: 'destructuring a value that is not a tuple',
+				errorCode: 'TWCHECK044',
+				expect: 'check-error',
+				input: 'x: i32 = 1\n{a, b} = x',
+			},
+			{
+				description: 'tuple literal of the wrong arity',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 't: {i32, i32} = {1, 2, 3}',
+			},
+			{
+				description: 'nested tuple type',
+				errorCode: 'TWCHECK045',
+				expect: 'check-error',
+				input: 't: {{i32, i32}, i32} = {{1, 2}, 3}',
+			},
+			{
+				description: 'tuple parameter',
+				errorCode: 'TWCHECK045',
+				expect: 'check-error',
+				input: 'f = (t: {i32, i32}): i32 -> 1',
+			},
+			{
+				description: 'lambda capturing a tuple',
+				errorCode: 'TWCHECK045',
+				expect: 'check-error',
+				input:
+					'apply = (f: (i32) -> {i32, i32}, x: i32): {i32, i32} -> f(x)\nt = {1, 2}\n{a, b} = apply((n) -> t, 1)',
+			},
+		])
+	)
+
+	await t.test(
+		'Records in Functions',
+		semanticTests([
+			{
+				description: 'record parameter',
+				expect: 'valid',
+				input:
+					'Point\n\tx: i32\n\ty: i32\nd2 = (p: Point): i32 -> p.x * p.x + p.y * p.y\nq = Point\n\tx = 3\n\ty = 4\nr: i32 = d2(q)',
+			},
+			{
+				description: 'record built and returned by a function',
+				expect: 'valid',
+				input:
+					'Point\n\tx: i32\n\ty: i32\nmk = (a: i32, b: i32): Point ->\n\tp = Point\n\t\tx = a\n\t\ty = b\n\tp\nq = mk(1, 2)\nr: i32 = q.x + q.y',
+			},
+			{
+				description: 'record returned by a call passed straight to another',
+				expect: 'valid',
+				input:
+					'Point\n\tx: i32\n\ty: i32\nswap = (p: Point): Point -> p\nd2 = (p: Point): i32 -> p.x * p.y\nq = Point\n\tx = 3\n\ty = 4\nr: i32 = d2(swap(q))',
+			},
+			{
+				description: 'nested record parameter',
+				expect: 'valid',
+				input:
+					'Inner\n\tval: i32\nOuter\n\tinner: Inner\n\tk: i64\nget = (o: Outer): i32 -> o.inner.val\nunwrap = (i: Inner): i32 -> i.val\nf = (o: Outer): i32 -> unwrap(o.inner)',
+			},
+			{
+				description: 'record field initialized with a record value',
+				expect: 'valid',
+				input:
+					'Point\n\tx: i32\n\ty: i32\nLine\n\tstart: Point\n\tend: Point\np = Point\n\tx = 1\n\ty = 2\nl = Line\n\tstart = p\n\tend = p\nr: i32 = l.end.y',
+			},
+			{
+				description: 'function value taking a record',
+				expect: 'valid',
+				input:
+					'Point\n\tx: i32\n\ty: i32\napply = (f: (Point) -> i32, p: Point): i32 -> f(p)\nsum = (p: Point): i32 -> apply((q) -> q.x + q.y, p)',
+			},
+			{
+				description: 'lambda capturing a record',
+				expect: 'valid',
+				input:
+					'Point\n\tx: i32\n\ty: i32\napply = (f: (i32) -> i32, x: i32): i32 -> f(x)\nshift = (p: Point, v: i32): i32 -> apply((n) -> n + p.x, v)',
+			},
+			{
+				description: 'record argument of the wrong record type',
+				errorCode: 'TWCHECK016',
+				expect: 'check-error',
+				input:
+					'Point\n\tx: i32\n\ty: i32\nSize\n\tw: i32\n\th: i32\narea = (s: Size): i32 -> s.w * s.h\np = Point\n\tx = 1\n\ty = 2\na: i32 = area(p)',
+			},
+		])
+	)
+
+	await t.test(
+		'Extern Bindings',
+		semanticTests([
+			{
+				description: 'intrinsic bound after a forward declaration',
+				expect: 'valid',
+				input: 'clz: (i32) -> i32\nclz = extern wasm "i32.clz"\nr: i32 = clz(16)',
+			},
+			{
+				description: 'intrinsic bound with an annotation',
+				expect: 'valid',
+				input: 'hi: (f64, f64) -> f64 = extern wasm "f64.max"\nr: f64 = hi(1.0, 2.0)',
+			},
+			{
+				description: 'intrinsic typed by its signature',
+				expect: 'valid',
+				input: 'rot = extern wasm "i64.rotl"\nx: i64 = 1\nr: i64 = rot(x, x)',
+			},
+			{
+				description: 'intrinsic passed as a function value',
+				expect: 'valid',
+				input:
+					'apply = (f: (f64) -> f64, x: f64): f64 -> f(x)\nroot = extern wasm "f64.sqrt"\nr: f64 = apply(root, 2.0)',
+			},
+			{
+				description: 'unknown intrinsic',
+				errorCode: 'TWCHECK046',
+				expect: 'check-error',
+				input: 'add = extern wasm "i32.add"',
+			},
+			{
+				description: 'intrinsic without its type prefix',
+				errorCode: 'TWCHECK046',
+				expect: 'check-error',
+				input: 'clz = extern wasm "clz"',
+			},
+			{
+				description: 'declared type that does not match the intrinsic',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'clz: (i64) -> i64\nclz = extern wasm "i32.clz"',
+			},
+			{
+				description: 'annotation with the wrong arity',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input: 'm: (f64) -> f64 = extern wasm "f64.min"',
+			},
+			{
+				description: 'host import called at the top level',
+				expect: 'valid',
+				input: '@log: (i32) -> None\n@log = extern host "env" "log"\n@log(42)',
+			},
+			{
+				description: 'host import bound with an annotation',
+				expect: 'valid',
+				input: '@log: (f64) -> None = extern host "env" "log"\n@log(1.5)',
+			},
+			{
+				description: 'host import called from an effectful function',
+				expect: 'valid',
+				input:
+					'@log: (i32) -> None\n@log = extern host "env" "log"\n@twice = (x: i32): None ->\n    @log(x)\n    @log(x)\n@twice(3)',
+			},
+			{
+				description: 'host import that returns a value',
+				expect: 'valid',
+				input: '@now: () -> i32\n@now = extern host "env" "now"\nt: i32 = @now()',
+			},
+			{
+				description: 'host import without an @ name',
+				errorCode: 'TWCHECK047',
+				expect: 'check-error',
+				input: 'log: (i32) -> None\nlog = extern host "env" "log"',
+			},
+			{
+				description: 'host import called from a pure function',
+				errorCode: 'TWCHECK048',
+				expect: 'check-error',
+				input:
+					'@log: (i32) -> None\n@log = extern host "env" "log"\nshow = (x: i32): None -> @log(x)',
+			},
+			{
+				description: 'host import passed as a value in a pure function',
+				errorCode: 'TWCHECK048',
+				expect: 'check-error',
+				input:
+					'@log: (i32) -> None\n@log = extern host "env" "log"\napply = (f: (i32) -> None, x: i32): None -> f(x)\nshow = (x: i32): None -> apply(@log, x)',
+			},
+			{
+				description: 'host import passed to a pure function at the top level',
+				errorCode: 'TWCHECK054',
+				expect: 'check-error',
+				input:
+					'@log: (i32) -> None\n@log = extern host "env" "log"\napply = (f: (i32) -> None, x: i32): i32 ->\n    f(x)\n    x\nr: i32 = apply(@log, 5)',
+			},
+			{
+				description: 'effectful function bound to a name without @',
+				errorCode: 'TWCHECK054',
+				expect: 'check-error',
+				input: '@log: (i32) -> None\n@log = extern host "env" "log"\ng: (i32) -> None = @log',
+			},
+			{
+				description: 'effectful function bound to an @ name',
+				expect: 'valid',
+				input:
+					'@log: (i32) -> None\n@log = extern host "env" "log"\n@alias: (i32) -> None = @log\n@alias(3)',
+			},
+			{
+				description: 'host import without a type',
+				errorCode: 'TWCHECK049',
+				expect: 'check-error',
+				input: '@log = extern host "env" "log"',
+			},
+			{
+				description: 'host import declared with a value type',
+				errorCode: 'TWCHECK016',
+				expect: 'check-error',
+				input: '@n: i32 = extern host "env" "n"',
+			},
+		])
+	)
+
+	await t.test(
+		'Match Ranges and Guards',
+		semanticTests([
+			{
+				description: 'ranges covering every i32',
+				expect: 'valid',
+				input: 'x: i32 = 5\nr: i32 = match x\n    ..-1 | 0 | 1.. -> 1',
+			},
+			{
+				description: 'ranges covering the bounds of a refined scrutinee',
+				expect: 'valid',
+				input: 'd: i32<min=0, max=9> = 3\nr: i32 = match d\n    0..4 -> 0\n    5..9 -> 1',
+			},
+			{
+				description: 'ranges leaving a gap',
+				errorCode: 'TWCHECK020',
+				expect: 'check-error',
+				input: 'x: i32 = 5\nr: i32 = match x\n    ..-1 -> 0\n    1.. -> 1',
+			},
+			{
+				description: 'empty range',
+				errorCode: 'TWCHECK011',
+				expect: 'check-error',
+				input: 'x: i32 = 5\nr: i32 = match x\n    9..1 -> 0\n    _ -> 1',
+			},
+			{
+				description: 'range over a float',
+				errorCode: 'TWCHECK018',
+				expect: 'check-error',
+				input: 'x: f64 = 1.5\nr: f64 = match x\n    0..1 -> 0.0\n    _ -> 1.0',
+			},
+			{
+				description: 'guarded binding using its narrowed bounds',
+				expect: 'valid',
+				input:
+					'x: i32 = 5\nr: i32<min=101, max=199> = match x\n    n if n > 100 && n < 200 -> n\n    _ -> 101',
+			},
+			{
+				description: 'guarded binding as the last arm',
+				errorCode: 'TWCHECK020',
+				expect: 'check-error',
+				input: 'x: i32 = 5\nr: i32 = match x\n    0 -> 0\n    n if n > 0 -> n',
+			},
+		])
+	)
+
+	await t.test(
+		'Tail Recursion',
+		semanticTests([
+			{
+				description: 'self-call in tail position',
+				expect: 'valid',
+				input: 'down: (i32) -> bool\ndown = tailrec (n: i32): bool -> n == 0 || down(n - 1)',
+			},
+			{
+				description: 'mutual recursion in tail position',
+				expect: 'valid',
+				input:
+					'even: (i32) -> bool\nodd: (i32) -> bool\neven = tailrec (n: i32): bool -> n == 0 || odd(n - 1)\nodd = tailrec (n: i32): bool -> n != 0 && even(n - 1)',
+			},
+			{
+				description: 'self-call as the value of a block body',
+				expect: 'valid',
+				input:
+					'down: (i32) -> bool\ndown = tailrec (n: i32): bool ->\n\tm: i32 = n - 1\n\tm < 0 || down(m)',
+			},
+			{
+				description: 'unmarked function recursing outside tail position',
+				expect: 'valid',
+				input: 'fact: (i32) -> i32\nfact = (n: i32): i32 -> n * fact(n - 1)',
+			},
+			{
+				description: 'self-call whose value is used',
+				errorCode: 'TWCHECK009',
+				expect: 'check-error',
+				input: 'fact: (i32) -> i32\nfact = tailrec (n: i32): i32 -> n * fact(n - 1)',
+			},
+			{
+				description: 'self-call as a left operand',
+				errorCode: 'TWCHECK009',
+				expect: 'check-error',
+				input: 'f: (i32) -> bool\nf = tailrec (n: i32): bool -> f(n - 1) || n == 0',
+			},
+			{
+				description: 'self-call in a binding of a block body',
+				errorCode: 'TWCHECK009',
+				expect: 'check-error',
+				input: 'f: (i32) -> i32\nf = tailrec (n: i32): i32 ->\n\tm: i32 = f(n - 1)\n\tm',
+			},
+		])
+	)
+
+	await t.test(
+		'Sum Types',
+		semanticTests([
+			{
+				description: 'variants constructed with and without fields',
+				expect: 'valid',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\nc: Shape = Circle(2.0)\ne: Shape = Empty',
+			},
+			{
+				description: 'sum type stored in a record field',
+				expect: 'valid',
+				input:
+					'Shape\n    Circle(r: f64)\n    Empty\nHolder\n    shape: Shape\n    count: i32\nh = Holder\n    shape = Circle(1.0)\n    count = 2\na: f64 = match h.shape\n    Circle(r) -> r\n    Empty -> 0.0',
+			},
+			{
+				description: 'sum type with fields stored in a list',
+				errorCode: 'TWCHECK045',
+				expect: 'check-error',
+				input: 'Shape\n    Circle(r: f64)\n    Empty\nl: Shape[]<size=1> = [Empty]',
+			},
+			{
+				description: 'match binding variant fields',
+				expect: 'valid',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Rect(2.0, 3.0)\na: f64 = match s\n    Circle(r) -> r * r\n    Rect(w, h) -> w * h\n    Empty -> 0.0',
+			},
+			{
+				description: 'variants covered by an or-pattern',
+				expect: 'valid',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Empty\na: f64 = match s\n    Circle(r) -> r\n    Rect(_, _) | Empty -> 0.0',
+			},
+			{
+				description: 'variants covered by a wildcard',
+				expect: 'valid',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Empty\na: f64 = match s\n    Circle(r) -> r\n    _ -> 0.0',
+			},
+			{
+				description: 'sum type returned from a function',
+				expect: 'valid',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\nmk = (x: f64): Shape -> Rect(x, x)\ns: Shape = mk(1.0)',
+			},
+			{
+				description: 'sum type without fields',
+				expect: 'valid',
+				input:
+					'Color\n    Red\n    Green\nc: Color = Green\nn: i32 = match c\n    Red -> 0\n    Green -> 1',
+			},
+			{
+				description: 'variant declared by two types',
+				errorCode: 'TWCHECK002',
+				expect: 'check-error',
+				input: 'A\n    Same(x: i32)\nB\n    Same(y: i32)',
+			},
+			{
+				description: 'unknown variant in a pattern',
+				errorCode: 'TWCHECK003',
+				expect: 'check-error',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Empty\na: f64 = match s\n    Square(w) -> w\n    _ -> 0.0',
+			},
+			{
+				description: 'variant constructed with too few fields',
+				errorCode: 'TWCHECK004',
+				expect: 'check-error',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Rect(1.0)',
+			},
+			{
+				description: 'variant pattern with too many fields',
+				errorCode: 'TWCHECK004',
+				expect: 'check-error',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Empty\na: f64 = match s\n    Circle(r, q) -> r\n    _ -> 0.0',
+			},
+			{
+				description: 'match missing a variant',
+				errorCode: 'TWCHECK005',
+				expect: 'check-error',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Empty\na: f64 = match s\n    Circle(r) -> r\n    Empty -> 0.0',
+			},
+			{
+				description: 'type mixing fields and variants',
+				errorCode: 'TWCHECK006',
+				expect: 'check-error',
+				input: 'Shape\n    x: i32\n    Circle(r: f64)',
+			},
+			{
+				description: 'variant field holding a record',
+				errorCode: 'TWCHECK007',
+				expect: 'check-error',
+				input: 'Point\n    x: i32\nShape\n    Dot(p: Point)',
+			},
+			{
+				description: 'or-pattern binding variant fields',
+				errorCode: 'TWCHECK008',
+				expect: 'check-error',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\ns: Shape = Empty\na: f64 = match s\n    Circle(r) | Empty -> 0.0\n    _ -> 1.0',
+			},
+			{
+				description: 'variant of another sum type',
+				errorCode: 'TWCHECK012',
+				expect: 'check-error',
+				input:
+					'Shape\n    Circle(r: f64)\n    Rect(w: f64, h: f64)\n    Empty\nColor\n    Red\n    Green\nc: Color = Empty',
+			},
+			{
+				description: 'sum type with fields as a parameter',
+				errorCode: 'TWCHECK045',
+				expect: 'check-error',
+				input: 'Shape\n    Circle(r: f64)\n    Empty\nf = (s: Shape): i32 -> 1',
+			},
+		])
+	)
+
 	await t.test(
 		'Functions - Type Errors',
 		semanticTests([
@@ -59,6 +59,55 @@ export const TWCLI006: DiagnosticDef = {
 	suggestion: 'Check your source file, or report this if it seems like a bug.',
 }
 
+export const TWCLI007: DiagnosticDef = {
+	code: 'TWCLI007',
+	description: "The file isn't laid out the way `tinywhale fmt` would write it.",
+	message: 'file is not formatted: {path}',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Run `tinywhale fmt` on the file to format it.',
+}
+
+export const TWCLI008: DiagnosticDef = {
+	code: 'TWCLI008',
+	description: "The program doesn't define a function with this name.",
+	message: 'no function named "{name}" to invoke',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Check the spelling, or define the function at the top level of the program.',
+}
+
+export const TWCLI009: DiagnosticDef = {
+	code: 'TWCLI009',
+	description: 'The function was given a different number of arguments than it takes.',
+	message: '{name} takes {expected} argument(s) but {actual} were given',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Pass one value after the function name for each parameter.',
+}
+
+export const TWCLI010: DiagnosticDef = {
+	code: 'TWCLI010',
+	description: "This command-line value can't be passed as the parameter's type.",
+	message: 'invalid {type} argument "{value}"',
+	severity: DiagnosticSeverity.Error,
+	suggestion:
+		'Integers must be whole numbers in range; floats must be plain decimal numbers; booleans must be `true` or `false`.',
+}
+
+export const TWCLI011: DiagnosticDef = {
+	code: 'TWCLI011',
+	description: 'The program reached a `panic` or a match with no arm for its value.',
+	message: 'program panicked',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Check which `panic` or match the input can reach.',
+}
+
+export const TWCLI012: DiagnosticDef = {
+	code: 'TWCLI012',
+	description: 'The program stopped with a WebAssembly trap, such as division by zero.',
+	message: 'runtime error: {reason}',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Check the operations that depend on the failing input.',
+}
+
 // =============================================================================
 // CATALOG
 // =============================================================================
@@ -70,6 +119,12 @@ export const CLI_DIAGNOSTICS = {
 	TWCLI004,
 	TWCLI005,
 	TWCLI006,
+	TWCLI007,
+	TWCLI008,
+	TWCLI009,
+	TWCLI010,
+	TWCLI011,
+	TWCLI012,
 } as const
 
 export type CliDiagnosticCode = keyof typeof CLI_DIAGNOSTICS
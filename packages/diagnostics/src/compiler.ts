@@ -4,7 +4,7 @@
  * Error code format: TW<PHASE><NUMBER>
  * - TWLEX: Lexer errors (001-099)
  * - TWPARSE: Parser errors (001-099)
- * - TWCHECK: Checker errors (001-049), warnings (050-099)
+ * - TWCHECK: Checker errors (001-049, 100-149), warnings (050-099)
  * - TWGEN: Codegen errors (001-099)
  */
 
@@ -57,6 +57,14 @@ export const TWLEX005: DiagnosticDef = {
 	suggestion: 'Use {expected} here to match the rest of your file.',
 }
 
+export const TWLEX006: DiagnosticDef = {
+	code: 'TWLEX006',
+	description: 'A string starts and ends with `"` on the same line.',
+	message: 'unterminated string',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Add a closing `"` to the end of the string.',
+}
+
 // =============================================================================
 // PARSER ERRORS (TWPARSE001-099)
 // =============================================================================
@@ -83,12 +91,93 @@ export const TWCHECK001: DiagnosticDef = {
 		'Remove the indentation, or wrap this code in a function when that feature is available.',
 }
 
+export const TWCHECK002: DiagnosticDef = {
+	code: 'TWCHECK002',
+	description:
+		'Constructors and patterns name variants directly, so every variant name can be declared only once across all sum types.',
+	message: 'variant `{name}` is already declared by `{typeName}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Rename one of the variants to have a unique name.',
+}
+
+export const TWCHECK003: DiagnosticDef = {
+	code: 'TWCHECK003',
+	description:
+		'An upper-case name in a pattern matches a variant of a sum type, and no variant has this name.',
+	message: 'unknown variant `{name}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Check the spelling, or use a lower-case name to bind the value.',
+}
+
+export const TWCHECK004: DiagnosticDef = {
+	code: 'TWCHECK004',
+	description:
+		'Constructing a variant takes one value per field, and a variant pattern names one binding or `_` per field.',
+	message: 'wrong number of fields for variant `{name}`: expected {expected}, found {found}',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Give one value or pattern for each field of the variant.',
+}
+
+export const TWCHECK005: DiagnosticDef = {
+	code: 'TWCHECK005',
+	description:
+		'A match on a sum type must cover every variant, either with a pattern for each one or with a catch-all as the last arm.',
+	message: 'non-exhaustive match: `{type}` variants {variants} not covered',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Add an arm for each missing variant, or a wildcard pattern `_` as the last arm.',
+}
+
+export const TWCHECK006: DiagnosticDef = {
+	code: 'TWCHECK006',
+	description:
+		'A type declaration lists either the fields of a record or the variants of a sum type, not both.',
+	message: 'type `{typeName}` mixes fields and variants',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Move the fields into a variant, or declare a separate record type.',
+}
+
+export const TWCHECK007: DiagnosticDef = {
+	code: 'TWCHECK007',
+	description:
+		'A sum type value is a WebAssembly multi-value: a tag followed by the fields of every variant. Variant fields hold numbers and function values, not records, lists, tuples or other sum types with fields.',
+	message: 'variant field `{name}` cannot hold `{type}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Use a number or function type for the field.',
+}
+
+export const TWCHECK008: DiagnosticDef = {
+	code: 'TWCHECK008',
+	description:
+		'Each alternative of an or-pattern would bind its fields from a different variant, so the bindings would not agree.',
+	message: 'cannot bind fields of variant `{name}` inside an or-pattern',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Use `_` for the fields, or give the variant an arm of its own.',
+}
+
+export const TWCHECK009: DiagnosticDef = {
+	code: 'TWCHECK009',
+	description:
+		'A `tailrec` function promises to call itself only in tail position, where the call is the last thing the function does, so it runs as a loop without growing the stack.',
+	message: 'tailrec function `{name}` calls itself outside tail position',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Make the call the result of `{name}`, carrying any pending work in a parameter.',
+}
+
 export const TWCHECK010: DiagnosticDef = {
 	code: 'TWCHECK010',
 	description: 'The type name is not recognized.',
 	message: 'unknown type `{found}`',
 	severity: DiagnosticSeverity.Error,
-	suggestion: 'Valid types are: i32, i64, f32, f64',
+	suggestion: 'Valid types are: i32, i64, u32, u64, f32, f64',
+}
+
+export const TWCHECK011: DiagnosticDef = {
+	code: 'TWCHECK011',
+	description:
+		'The lower end of a range pattern is greater than its upper end, so the range matches no value.',
+	message: 'range pattern `{lo}..{hi}` is empty',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Write the lower end first, as in `{hi}..{lo}`.',
 }
 
 export const TWCHECK012: DiagnosticDef = {
@@ -142,7 +231,8 @@ export const TWCHECK017: DiagnosticDef = {
 
 export const TWCHECK018: DiagnosticDef = {
 	code: 'TWCHECK018',
-	description: 'Integer literal patterns can only match integer types (i32, i64).',
+	description:
+		'Integer literal and range patterns can only match integer types (i32, i64, u32, u64), and `true` and `false` patterns only `bool`.',
 	message: 'pattern type mismatch: `{patternType}` pattern cannot match `{scrutineeType}`',
 	severity: DiagnosticSeverity.Error,
 	suggestion: 'Use a wildcard pattern `_` or binding pattern for non-integer scrutinees.',
@@ -158,7 +248,8 @@ export const TWCHECK019: DiagnosticDef = {
 
 export const TWCHECK020: DiagnosticDef = {
 	code: 'TWCHECK020',
-	description: 'Match expression must have a catch-all pattern as the last arm.',
+	description:
+		'Match expression must have a catch-all pattern as the last arm, unless its arms cover every variant or every integer value.',
 	message: 'non-exhaustive match: missing catch-all pattern',
 	severity: DiagnosticSeverity.Error,
 	suggestion: 'Add a wildcard pattern `_` or binding pattern as the last arm.',
@@ -167,7 +258,7 @@ export const TWCHECK020: DiagnosticDef = {
 export const TWCHECK021: DiagnosticDef = {
 	code: 'TWCHECK021',
 	description:
-		'This operator only works with integer types (i32, i64), but got a floating-point type.',
+		'This operator only works with integer types (i32, i64, u32, u64), but got a floating-point type.',
 	message: 'integer-only operator `{op}` used with `{type}`',
 	severity: DiagnosticSeverity.Error,
 	suggestion: 'Use an integer type or a different operator.',
@@ -191,10 +282,10 @@ export const TWCHECK023: DiagnosticDef = {
 
 export const TWCHECK024: DiagnosticDef = {
 	code: 'TWCHECK024',
-	description: 'Logical operators require integer operands (i32 or i64).',
+	description: 'Logical operators require `bool` operands, such as the results of comparisons.',
 	message: 'logical operator `{op}` used with `{type}`',
 	severity: DiagnosticSeverity.Error,
-	suggestion: 'Convert to an integer type before using logical operators.',
+	suggestion: 'Compare the value to get a `bool`, such as `x != 0`.',
 }
 
 export const TWCHECK025: DiagnosticDef = {
@@ -279,11 +370,10 @@ export const TWCHECK034: DiagnosticDef = {
 
 export const TWCHECK035: DiagnosticDef = {
 	code: 'TWCHECK035',
-	description:
-		'Variable indices cannot be statically verified to be within bounds without additional proof.',
-	message: 'cannot prove index bounds for variable access',
+	description: 'Lists are indexed by i32 values, refined or not.',
+	message: 'list index must be `i32`, found `{found}`',
 	severity: DiagnosticSeverity.Error,
-	suggestion: 'Use a constant index or add bounds checking.',
+	suggestion: 'Index the list with an i32 expression.',
 }
 
 export const TWCHECK036: DiagnosticDef = {
@@ -310,9 +400,19 @@ export const TWCHECK038: DiagnosticDef = {
 	suggestion: 'Use an expression that produces a value of the expected type.',
 }
 
+export const TWCHECK039: DiagnosticDef = {
+	code: 'TWCHECK039',
+	description:
+		'A lambda parameter has no type annotation and no expected function type to infer it from.',
+	message: 'cannot infer type of parameter `{name}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion:
+		'Annotate the parameter, like `({name}: i32)`, or pass the lambda where a function type is expected.',
+}
+
 export const TWCHECK040: DiagnosticDef = {
 	code: 'TWCHECK040',
-	description: 'Type hints min/max can only be applied to integer types (i32, i64).',
+	description: 'Type hints min/max can only be applied to integer types (i32, i64, u32, u64).',
 	message: 'cannot apply min/max constraints to `{type}`',
 	severity: DiagnosticSeverity.Error,
 	suggestion: 'Remove the type hints or change the type to i32 or i64.',
@@ -331,7 +431,70 @@ export const TWCHECK042: DiagnosticDef = {
 	description: 'Cannot statically verify that value satisfies type constraints.',
 	message: 'cannot prove constraint {constraint} for expression',
 	severity: DiagnosticSeverity.Warning,
-	suggestion: 'Add explicit bounds checking or use `as` with a pattern guard.',
+	suggestion: 'Convert it with `checked(value)`, which traps when the value does not fit.',
+}
+
+export const TWCHECK043: DiagnosticDef = {
+	code: 'TWCHECK043',
+	description:
+		'A top-level function refers to a top-level binding. Top-level functions can be called from outside the program, where that binding does not exist; only lambdas used as values, including local function bindings, capture bindings.',
+	message: 'function `{name}` cannot capture `{captured}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Pass `{captured}` to `{name}` as a parameter.',
+}
+
+export const TWCHECK044: DiagnosticDef = {
+	code: 'TWCHECK044',
+	description:
+		'A tuple pattern must name every element of the value it destructures, and the value must be a tuple.',
+	message: 'cannot destructure `{type}` into {count} names',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Write one name or `_` for each element of the tuple.',
+}
+
+export const TWCHECK045: DiagnosticDef = {
+	code: 'TWCHECK045',
+	description:
+		'Tuples, and sum types whose variants have fields, are WebAssembly multi-values: they can be bound, returned and matched, but not nested in tuples, stored in lists, passed as parameters or captured by closures. Sum types can also be record fields. Tuples hold only numbers and function values.',
+	message: 'multi-value `{type}` is not supported here',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Destructure or match the value and use its parts instead.',
+}
+
+export const TWCHECK046: DiagnosticDef = {
+	code: 'TWCHECK046',
+	description:
+		'`extern wasm` binds a function to one pure WebAssembly instruction: clz, ctz, popcnt, rotl or rotr on i32 and i64, or sqrt, floor, ceil, trunc, nearest, abs, copysign, min or max on f32 and f64, or a conversion such as i64.extend_i32_u or i32.trunc_sat_f64_s.',
+	message: 'unknown wasm intrinsic `{opcode}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Name the instruction with its type, such as `i32.clz` or `f64.sqrt`.',
+}
+
+export const TWCHECK047: DiagnosticDef = {
+	code: 'TWCHECK047',
+	description:
+		'Host functions can affect the world outside the program, so their names start with `@`, as in `@log = extern host "env" "log"`.',
+	message: 'host import `{name}` must have an `@` name',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Rename it `@{name}`.',
+}
+
+export const TWCHECK048: DiagnosticDef = {
+	code: 'TWCHECK048',
+	description:
+		'Functions whose names start with `@` can have effects. They can only be used at the top level or inside other `@` functions, which keeps every other function pure.',
+	message: 'effectful function `{name}` used in a pure function',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Give the enclosing function an `@` name, or use `{name}` at the top level.',
+}
+
+export const TWCHECK049: DiagnosticDef = {
+	code: 'TWCHECK049',
+	description:
+		"TinyWhale can't see the signature of a function the host provides, so it has to be declared.",
+	message: 'host import `{name}` has no declared type',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Declare its type first, such as `{name}: (i32) -> None`.',
 }
 
 // =============================================================================
@@ -355,6 +518,78 @@ export const TWCHECK051: DiagnosticDef = {
 	suggestion: 'Consider using a different variable name to avoid confusion.',
 }
 
+export const TWCHECK052: DiagnosticDef = {
+	code: 'TWCHECK052',
+	description:
+		'The value always fits the bounded type it converts to, so `checked` never traps and adds nothing.',
+	message: '`checked` is not needed: the value always fits `{type}`',
+	severity: DiagnosticSeverity.Warning,
+	suggestion: 'Use the value without `checked`.',
+}
+
+export const TWCHECK053: DiagnosticDef = {
+	code: 'TWCHECK053',
+	description: 'The value already has the type it converts to, so the conversion does nothing.',
+	message: '`as {type}` is not needed: the value is already `{type}`',
+	severity: DiagnosticSeverity.Warning,
+	suggestion: 'Use the value without `as {type}`.',
+}
+
+export const TWCHECK054: DiagnosticDef = {
+	code: 'TWCHECK054',
+	description:
+		'Functions whose names start with `@` can only be called or bound to other `@` names. Passed or stored anywhere else, a pure function could call them and have their effects.',
+	message: 'effectful function `{name}` used as a value',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Call `{name}` directly, or bind it to an `@` name.',
+}
+
+// =============================================================================
+// CHECKER ERRORS (TWCHECK100-149)
+// =============================================================================
+
+export const TWCHECK100: DiagnosticDef = {
+	code: 'TWCHECK100',
+	description:
+		'`checked(value)` converts a value to the integer type with min/max bounds expected where the value goes, such as an annotated binding or a parameter, and traps when it does not fit.',
+	message: 'cannot convert to `{type}` with `checked`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Give the value a bounded type where it goes, such as `i32<min=0, max=100>`.',
+}
+
+export const TWCHECK101: DiagnosticDef = {
+	code: 'TWCHECK101',
+	description: '`as` converts numbers between the numeric types i32, i64, u32, u64, f32 and f64.',
+	message: 'cannot convert `{from}` to `{to}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Convert a number, or a field or element of this value that is one.',
+}
+
+export const TWCHECK102: DiagnosticDef = {
+	code: 'TWCHECK102',
+	description: 'Unsigned integers (u32, u64) have no negative values, so they cannot be negated.',
+	message: 'cannot negate unsigned `{type}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Convert the value to a signed type first, such as `x as i64`.',
+}
+
+export const TWCHECK103: DiagnosticDef = {
+	code: 'TWCHECK103',
+	description:
+		'Booleans are not numbers: they support only `==`, `!=`, `&&` and `||`. Bitwise `&` and `|` on booleans are usually a mistake for `&&` and `||`.',
+	message: 'operator `{op}` cannot be used with `{type}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Use `&&` or `||` to combine booleans, or `==` and `!=` to compare them.',
+}
+
+export const TWCHECK104: DiagnosticDef = {
+	code: 'TWCHECK104',
+	description: 'Booleans are not numbers, so a number literal cannot be used as a `bool`.',
+	message: 'type mismatch: expected `{expected}`, found {found} `{value}`',
+	severity: DiagnosticSeverity.Error,
+	suggestion: 'Use `true` or `false`, or compare the number to get a `bool`, such as `x != 0`.',
+}
+
 // =============================================================================
 // CODEGEN ERRORS (TWGEN001-099)
 // =============================================================================
@@ -373,7 +608,16 @@ export const TWGEN001: DiagnosticDef = {
 
 export const COMPILER_DIAGNOSTICS = {
 	TWCHECK001,
+	TWCHECK002,
+	TWCHECK003,
+	TWCHECK004,
+	TWCHECK005,
+	TWCHECK006,
+	TWCHECK007,
+	TWCHECK008,
+	TWCHECK009,
 	TWCHECK010,
+	TWCHECK011,
 	TWCHECK012,
 	TWCHECK013,
 	TWCHECK014,
@@ -401,17 +645,34 @@ export const COMPILER_DIAGNOSTICS = {
 	TWCHECK036,
 	TWCHECK037,
 	TWCHECK038,
+	TWCHECK039,
 	TWCHECK040,
 	TWCHECK041,
 	TWCHECK042,
+	TWCHECK043,
+	TWCHECK044,
+	TWCHECK045,
+	TWCHECK046,
+	TWCHECK047,
+	TWCHECK048,
+	TWCHECK049,
 	TWCHECK050,
 	TWCHECK051,
+	TWCHECK052,
+	TWCHECK053,
+	TWCHECK054,
+	TWCHECK100,
+	TWCHECK101,
+	TWCHECK102,
+	TWCHECK103,
+	TWCHECK104,
 	TWGEN001,
 	TWLEX001,
 	TWLEX002,
 	TWLEX003,
 	TWLEX004,
 	TWLEX005,
+	TWLEX006,
 	TWPARSE001,
 } as const
 
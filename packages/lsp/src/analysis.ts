@@ -0,0 +1,56 @@
+/**
+ * Document analysis.
+ *
+ * Runs the compiler front end (tokenize → parse → check) on a document
+ * and returns the resulting context. Emission is skipped: the language
+ * server only needs diagnostics and the checker's stores.
+ */
+
+import {
+	CompilationContext,
+	check,
+	parse,
+	ReferenceIndex,
+	SemanticIndex,
+	tokenize,
+} from '@tinywhale/compiler'
+
+/**
+ * Analyze source text, stopping at the first phase that fails.
+ * Later phases depend on the output of earlier ones, so running them
+ * after a failure would only produce cascading noise.
+ */
+export function analyze(source: string, filename: string): CompilationContext {
+	const context = new CompilationContext(source, filename)
+
+	if (!tokenize(context).succeeded) return context
+	if (!parse(context).succeeded) return context
+	check(context)
+
+	return context
+}
+
+/**
+ * The latest analysis of an open document. Query indexes are built on
+ * first use and shared by every request until the document changes.
+ */
+export class DocumentAnalysis {
+	readonly context: CompilationContext
+
+	private semanticIndex: SemanticIndex | null = null
+	private referenceIndex: ReferenceIndex | null = null
+
+	constructor(context: CompilationContext) {
+		this.context = context
+	}
+
+	get semantic(): SemanticIndex {
+		this.semanticIndex ??= new SemanticIndex(this.context)
+		return this.semanticIndex
+	}
+
+	get references(): ReferenceIndex {
+		this.referenceIndex ??= new ReferenceIndex(this.semantic)
+		return this.referenceIndex
+	}
+}
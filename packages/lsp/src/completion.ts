@@ -0,0 +1,41 @@
+/**
+ * Completion.
+ *
+ * Completion works from the document text rather than the last analysis:
+ * the line being typed usually does not parse, and the compiler decides
+ * what to offer from the text before the cursor.
+ */
+
+import { type CompletionKind, getCompletions } from '@tinywhale/compiler'
+import {
+	type CompletionItem,
+	CompletionItemKind,
+	type Position,
+} from 'vscode-languageserver/node.js'
+import { toSourcePosition } from './positions.ts'
+
+/** Characters after which editors should ask for completions unprompted. */
+export const COMPLETION_TRIGGER_CHARACTERS = ['.', '<', ':', ' ']
+
+const ITEM_KINDS: Record<CompletionKind, CompletionItemKind> = {
+	field: CompletionItemKind.Field,
+	function: CompletionItemKind.Function,
+	keyword: CompletionItemKind.Keyword,
+	parameter: CompletionItemKind.Variable,
+	type: CompletionItemKind.Class,
+	variable: CompletionItemKind.Variable,
+}
+
+/** Answer an LSP completion request. */
+export function toLspCompletions(
+	text: string,
+	filename: string,
+	position: Position
+): CompletionItem[] {
+	const { line, column } = toSourcePosition(position)
+	return getCompletions(text, line, column, filename).map((item) => ({
+		kind: ITEM_KINDS[item.kind],
+		label: item.label,
+		...(item.detail === undefined ? {} : { detail: item.detail }),
+	}))
+}
@@ -0,0 +1,62 @@
+/**
+ * Conversion from compiler diagnostics to LSP diagnostics.
+ *
+ * Compiler diagnostics are 1-indexed; LSP positions are 0-indexed.
+ */
+
+import { type CompilationContext, type Diagnostic, DiagnosticSeverity } from '@tinywhale/compiler'
+import {
+	type Diagnostic as LspDiagnostic,
+	DiagnosticSeverity as LspSeverity,
+	type Range,
+} from 'vscode-languageserver/node.js'
+
+/** Shown as the diagnostic source in editors. */
+export const DIAGNOSTIC_SOURCE = 'tinywhale'
+
+/** Extra data attached to each published diagnostic. */
+export interface DiagnosticData {
+	readonly suggestion?: string
+}
+
+const SEVERITY_MAP: Record<DiagnosticSeverity, LspSeverity> = {
+	[DiagnosticSeverity.Error]: LspSeverity.Error,
+	[DiagnosticSeverity.Warning]: LspSeverity.Warning,
+	[DiagnosticSeverity.Note]: LspSeverity.Information,
+}
+
+/** Compute the LSP range for a compiler diagnostic. */
+export function diagnosticRange(context: CompilationContext, diagnostic: Diagnostic): Range {
+	const line = Math.max(diagnostic.line - 1, 0)
+	const end = context.getDiagnosticEnd(diagnostic)
+	return {
+		end: { character: end.column - 1, line },
+		start: { character: Math.max(diagnostic.column - 1, 0), line },
+	}
+}
+
+function formatMessage(message: string, suggestion: string | undefined): string {
+	return suggestion === undefined ? message : `${message}\nhelp: ${suggestion}`
+}
+
+/** Convert a single compiler diagnostic to an LSP diagnostic. */
+export function toLspDiagnostic(
+	context: CompilationContext,
+	diagnostic: Diagnostic
+): LspDiagnostic {
+	const suggestion = context.getSuggestion(diagnostic)
+	const data: DiagnosticData = suggestion === undefined ? {} : { suggestion }
+	return {
+		code: diagnostic.def.code,
+		data,
+		message: formatMessage(diagnostic.message, suggestion),
+		range: diagnosticRange(context, diagnostic),
+		severity: SEVERITY_MAP[diagnostic.def.severity],
+		source: DIAGNOSTIC_SOURCE,
+	}
+}
+
+/** Convert every diagnostic collected in a context. */
+export function toLspDiagnostics(context: CompilationContext): LspDiagnostic[] {
+	return context.getDiagnostics().map((d) => toLspDiagnostic(context, d))
+}
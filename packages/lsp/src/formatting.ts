@@ -0,0 +1,27 @@
+/**
+ * Document formatting.
+ *
+ * Uses the same engine as `tinywhale fmt`, so the editor and the CLI
+ * always agree. The client's tab size and spacing options are ignored:
+ * the formatter keeps the indentation unit the document already uses.
+ */
+
+import { format } from '@tinywhale/compiler'
+import type { Position, TextEdit } from 'vscode-languageserver/node.js'
+
+function endOfText(text: string): Position {
+	const lines = text.split('\n')
+	return { character: lines[lines.length - 1]?.length ?? 0, line: lines.length - 1 }
+}
+
+/**
+ * Answer an LSP formatting request with one edit replacing the whole
+ * document, or none when it is already formatted or does not parse.
+ */
+export function toLspFormatting(text: string, filename: string): TextEdit[] {
+	const result = format(text, filename)
+	if (!result.succeeded || result.text === text) return []
+	return [
+		{ newText: result.text, range: { end: endOfText(text), start: { character: 0, line: 0 } } },
+	]
+}
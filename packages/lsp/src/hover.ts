@@ -0,0 +1,99 @@
+/**
+ * Hover rendering.
+ *
+ * The compiler answers what is under the cursor; this module turns that
+ * answer into markdown for the editor.
+ */
+
+import type { HoverInfo, TypeId, TypeStore } from '@tinywhale/compiler'
+import { BuiltinTypeId, getHover } from '@tinywhale/compiler'
+import { type Hover, MarkupKind, type Position } from 'vscode-languageserver/node.js'
+import type { DocumentAnalysis } from './analysis.ts'
+import { spanToRange, toSourcePosition } from './positions.ts'
+
+const FENCE = '```tinywhale'
+
+function codeBlock(lines: readonly string[]): string {
+	return [FENCE, ...lines, '```'].join('\n')
+}
+
+/** A builtin is called with one value; its result type is known once the call checks. */
+function builtinSignature(info: HoverInfo, types: TypeStore): string {
+	const call = `${info.name}(value)`
+	return info.typeId === BuiltinTypeId.Invalid ? call : `${call}: ${types.typeName(info.typeId)}`
+}
+
+/** `name: type`, qualified with the record name for fields. */
+function signature(info: HoverInfo, types: TypeStore): string {
+	const typeName = types.typeName(info.typeId)
+	switch (info.role) {
+		case 'builtin':
+			return builtinSignature(info, types)
+		case 'field':
+			return `${types.typeName(info.recordTypeId)}.${info.name}: ${typeName}`
+		case 'parameter':
+			return `(parameter) ${info.name}: ${typeName}`
+		case 'type':
+			return typeName
+		default:
+			return `${info.name}: ${typeName}`
+	}
+}
+
+/** Record types render as their declaration: the name, then one field per line. */
+function declaration(info: HoverInfo, types: TypeStore): string[] {
+	const fields = types.isRecordType(info.typeId) ? types.getFields(info.typeId) : []
+	if (info.role !== 'type' || fields.length === 0) return [signature(info, types)]
+	return [info.name, ...fields.map((field) => `    ${field.name}: ${types.typeName(field.typeId)}`)]
+}
+
+function constraintDetails(types: TypeStore, typeId: TypeId): string[] {
+	const constraints = types.getConstraints(typeId)
+	const details: string[] = []
+	if (constraints?.min !== undefined) details.push(`min: \`${constraints.min}\``)
+	if (constraints?.max !== undefined) details.push(`max: \`${constraints.max}\``)
+	return details
+}
+
+function listDetails(types: TypeStore, typeId: TypeId): string[] {
+	const element = types.getListElementType(typeId)
+	const size = types.getListSize(typeId)
+	if (element === undefined || size === undefined) return []
+	return [`element: \`${types.typeName(element)}\``, `size: \`${size}\``]
+}
+
+function funcDetails(types: TypeStore, typeId: TypeId): string[] {
+	const func = types.getFuncInfo(typeId)
+	if (!func) return []
+	const params = func.paramTypes.map((param) => types.typeName(param)).join(', ')
+	return [`params: \`(${params})\``, `returns: \`${types.typeName(func.returnType)}\``]
+}
+
+/** Facts about a type that its name alone does not spell out. */
+function typeDetails(types: TypeStore, typeId: TypeId): string[] {
+	return [
+		...constraintDetails(types, typeId),
+		...listDetails(types, typeId),
+		...funcDetails(types, typeId),
+	]
+}
+
+/** Render hover info as markdown. */
+export function hoverMarkdown(info: HoverInfo, types: TypeStore): string {
+	const details = typeDetails(types, info.typeId).map((detail) => `- ${detail}`)
+	const sections = [codeBlock(declaration(info, types))]
+	if (details.length > 0) sections.push(details.join('\n'))
+	return sections.join('\n\n')
+}
+
+/** Answer an LSP hover request against an analyzed document. */
+export function toLspHover(analysis: DocumentAnalysis, position: Position): Hover | null {
+	const { context } = analysis
+	const { line, column } = toSourcePosition(position)
+	const info = getHover(context, line, column, analysis.semantic)
+	if (info === null || context.types === null) return null
+	return {
+		contents: { kind: MarkupKind.Markdown, value: hoverMarkdown(info, context.types) },
+		range: spanToRange(info.span),
+	}
+}
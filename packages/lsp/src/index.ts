@@ -0,0 +1,32 @@
+/**
+ * @tinywhale/lsp
+ *
+ * Language Server Protocol implementation for TinyWhale.
+ */
+
+export { analyze, DocumentAnalysis } from './analysis.ts'
+export { COMPLETION_TRIGGER_CHARACTERS, toLspCompletions } from './completion.ts'
+export {
+	DIAGNOSTIC_SOURCE,
+	type DiagnosticData,
+	diagnosticRange,
+	toLspDiagnostic,
+	toLspDiagnostics,
+} from './diagnostics.ts'
+export { hoverMarkdown, toLspHover } from './hover.ts'
+export { toLspDefinition, toLspReferences } from './navigation.ts'
+export { type SourcePosition, spanToRange, toSourcePosition } from './positions.ts'
+export { toLspPrepareRename, toLspRename } from './rename.ts'
+export {
+	encodeSemanticTokens,
+	SEMANTIC_TOKENS_LEGEND,
+	SemanticTokensCache,
+} from './semantic-tokens.ts'
+export {
+	createServer,
+	filenameFromUri,
+	SERVER_NAME,
+	SERVER_VERSION,
+	startStdioServer,
+} from './server.ts'
+export { createSocketConnection, startTcpServer } from './tcp.ts'
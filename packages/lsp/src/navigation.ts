@@ -0,0 +1,40 @@
+/**
+ * Go-to-definition and find-references.
+ */
+
+import { findDefinition, findReferences, type Occurrence } from '@tinywhale/compiler'
+import type { Location, Position } from 'vscode-languageserver/node.js'
+import type { DocumentAnalysis } from './analysis.ts'
+import { spanToRange, toSourcePosition } from './positions.ts'
+
+function toLocation(uri: string, occurrence: Occurrence): Location {
+	return { range: spanToRange(occurrence.span), uri }
+}
+
+/** Answer an LSP definition request. Declarations are always in the same document. */
+export function toLspDefinition(
+	analysis: DocumentAnalysis,
+	uri: string,
+	position: Position
+): Location | null {
+	const { line, column } = toSourcePosition(position)
+	const definition = findDefinition(analysis.context, line, column, analysis.references)
+	return definition ? toLocation(uri, definition) : null
+}
+
+/** Answer an LSP references request. */
+export function toLspReferences(
+	analysis: DocumentAnalysis,
+	uri: string,
+	position: Position,
+	includeDeclaration: boolean
+): Location[] {
+	const { line, column } = toSourcePosition(position)
+	return findReferences(
+		analysis.context,
+		line,
+		column,
+		includeDeclaration,
+		analysis.references
+	).map((occurrence) => toLocation(uri, occurrence))
+}
@@ -0,0 +1,24 @@
+/**
+ * Position conversion.
+ *
+ * LSP positions are 0-indexed; the compiler's lines and columns are
+ * 1-indexed, matching what it prints in diagnostics.
+ */
+
+import type { SourceSpan } from '@tinywhale/compiler'
+import type { Position, Range } from 'vscode-languageserver/node.js'
+
+/** A 1-indexed line and column. */
+export interface SourcePosition {
+	readonly line: number
+	readonly column: number
+}
+
+export function toSourcePosition(position: Position): SourcePosition {
+	return { column: position.character + 1, line: position.line + 1 }
+}
+
+export function spanToRange(span: SourceSpan): Range {
+	const start = { character: span.column - 1, line: span.line - 1 }
+	return { end: { character: start.character + span.length, line: start.line }, start }
+}
@@ -0,0 +1,47 @@
+/**
+ * Rename.
+ *
+ * The compiler computes and validates the edits; this module converts
+ * them to a workspace edit, or to an error the editor shows the user.
+ */
+
+import { prepareRename, rename } from '@tinywhale/compiler'
+import {
+	LSPErrorCodes,
+	type Position,
+	type PrepareRenameResult,
+	ResponseError,
+	type WorkspaceEdit,
+} from 'vscode-languageserver/node.js'
+import type { DocumentAnalysis } from './analysis.ts'
+import { spanToRange, toSourcePosition } from './positions.ts'
+
+/** Answer an LSP prepareRename request. */
+export function toLspPrepareRename(
+	analysis: DocumentAnalysis,
+	position: Position
+): PrepareRenameResult | null {
+	const { line, column } = toSourcePosition(position)
+	const target = prepareRename(analysis.context, line, column, analysis.references)
+	return target ? { placeholder: target.placeholder, range: spanToRange(target.span) } : null
+}
+
+/**
+ * Answer an LSP rename request. A rejected rename is reported as a
+ * failed request so the editor surfaces the reason.
+ */
+export function toLspRename(
+	analysis: DocumentAnalysis,
+	uri: string,
+	position: Position,
+	newName: string
+): WorkspaceEdit | ResponseError {
+	const { line, column } = toSourcePosition(position)
+	const result = rename(analysis.context, line, column, newName, analysis.references)
+	if (!result.succeeded) return new ResponseError(LSPErrorCodes.RequestFailed, result.error)
+	const edits = result.edits.map((edit) => ({
+		newText: edit.newText,
+		range: spanToRange(edit.span),
+	}))
+	return { changes: { [uri]: edits } }
+}
@@ -0,0 +1,129 @@
+/**
+ * Semantic tokens.
+ *
+ * The compiler classifies tokens; this module encodes them in the LSP's
+ * relative integer format and answers delta requests against the last
+ * result sent for each document.
+ */
+
+import {
+	getSemanticTokens,
+	type SemanticToken,
+	type SemanticTokenModifier,
+	type SemanticTokenType,
+} from '@tinywhale/compiler'
+import type {
+	SemanticTokens,
+	SemanticTokensDelta,
+	SemanticTokensEdit,
+	SemanticTokensLegend,
+} from 'vscode-languageserver/node.js'
+import type { DocumentAnalysis } from './analysis.ts'
+
+const TOKEN_TYPES: readonly SemanticTokenType[] = [
+	'function',
+	'keyword',
+	'number',
+	'operator',
+	'parameter',
+	'patternBinding',
+	'property',
+	'string',
+	'type',
+	'variable',
+	'wildcard',
+]
+
+const TOKEN_MODIFIERS: readonly SemanticTokenModifier[] = ['declaration', 'defaultLibrary']
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+	tokenModifiers: [...TOKEN_MODIFIERS],
+	tokenTypes: [...TOKEN_TYPES],
+}
+
+function modifierBits(modifiers: readonly SemanticTokenModifier[]): number {
+	return modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0)
+}
+
+/**
+ * Encode tokens as five integers each: line and start character relative
+ * to the previous token, length, type index and modifier bits.
+ */
+export function encodeSemanticTokens(tokens: readonly SemanticToken[]): number[] {
+	const data: number[] = []
+	let previousLine = 0
+	let previousChar = 0
+	for (const { span, type, modifiers } of tokens) {
+		const line = span.line - 1
+		const char = span.column - 1
+		const deltaChar = line === previousLine ? char - previousChar : char
+		data.push(line - previousLine, deltaChar, span.length, TOKEN_TYPES.indexOf(type))
+		data.push(modifierBits(modifiers))
+		previousLine = line
+		previousChar = char
+	}
+	return data
+}
+
+function commonPrefixLength(a: readonly number[], b: readonly number[]): number {
+	let length = 0
+	while (length < a.length && length < b.length && a[length] === b[length]) length++
+	return length
+}
+
+/** The single edit that turns one encoding into another. */
+function diffTokens(previous: readonly number[], next: readonly number[]): SemanticTokensEdit[] {
+	const start = commonPrefixLength(previous, next)
+	const end = commonPrefixLength(previous.slice(start).reverse(), next.slice(start).reverse())
+	if (start === previous.length && start === next.length) return []
+	return [
+		{
+			data: next.slice(start, next.length - end),
+			deleteCount: previous.length - start - end,
+			start,
+		},
+	]
+}
+
+/** Semantic tokens that carry the id a later delta request will refer to. */
+type IdentifiedTokens = SemanticTokens & { readonly resultId: string }
+
+/**
+ * The last semantic tokens sent for each open document, kept so that
+ * delta requests can be answered with an edit instead of a full result.
+ */
+export class SemanticTokensCache {
+	private readonly results: Map<string, IdentifiedTokens> = new Map()
+	private nextResultId = 1
+
+	/** Answer an LSP semanticTokens/full request. */
+	full(uri: string, analysis: DocumentAnalysis): IdentifiedTokens {
+		const tokens = this.encode(analysis)
+		this.results.set(uri, tokens)
+		return tokens
+	}
+
+	/**
+	 * Answer an LSP semanticTokens/full/delta request. Falls back to a full
+	 * result when the client's previous result is no longer known.
+	 */
+	delta(
+		uri: string,
+		analysis: DocumentAnalysis,
+		previousResultId: string
+	): SemanticTokens | SemanticTokensDelta {
+		const previous = this.results.get(uri)
+		const tokens = this.full(uri, analysis)
+		if (previous?.resultId !== previousResultId) return tokens
+		return { edits: diffTokens(previous.data, tokens.data), resultId: tokens.resultId }
+	}
+
+	delete(uri: string): void {
+		this.results.delete(uri)
+	}
+
+	private encode(analysis: DocumentAnalysis): IdentifiedTokens {
+		const tokens = getSemanticTokens(analysis.context, analysis.references)
+		return { data: encodeSemanticTokens(tokens), resultId: String(this.nextResultId++) }
+	}
+}
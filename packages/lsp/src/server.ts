@@ -0,0 +1,145 @@
+/**
+ * TinyWhale language server.
+ *
+ * Each connection owns its own document store, so a single process can
+ * serve several clients without sharing state between them.
+ */
+
+import {
+	type Connection,
+	createConnection,
+	type InitializeResult,
+	ProposedFeatures,
+	TextDocumentSyncKind,
+	TextDocuments,
+} from 'vscode-languageserver/node.js'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { analyze, DocumentAnalysis } from './analysis.ts'
+import { COMPLETION_TRIGGER_CHARACTERS, toLspCompletions } from './completion.ts'
+import { toLspDiagnostics } from './diagnostics.ts'
+import { toLspFormatting } from './formatting.ts'
+import { toLspHover } from './hover.ts'
+import { toLspDefinition, toLspReferences } from './navigation.ts'
+import { toLspPrepareRename, toLspRename } from './rename.ts'
+import { SEMANTIC_TOKENS_LEGEND, SemanticTokensCache } from './semantic-tokens.ts'
+
+export const SERVER_NAME = 'tinywhale-lsp'
+export const SERVER_VERSION = '0.0.0'
+
+function initializeResult(): InitializeResult {
+	return {
+		capabilities: {
+			completionProvider: { triggerCharacters: COMPLETION_TRIGGER_CHARACTERS },
+			definitionProvider: true,
+			documentFormattingProvider: true,
+			hoverProvider: true,
+			referencesProvider: true,
+			renameProvider: { prepareProvider: true },
+			semanticTokensProvider: { full: { delta: true }, legend: SEMANTIC_TOKENS_LEGEND },
+			textDocumentSync: TextDocumentSyncKind.Incremental,
+		},
+		serverInfo: { name: SERVER_NAME, version: SERVER_VERSION },
+	}
+}
+
+/** Derive a display filename from a document URI. */
+export function filenameFromUri(uri: string): string {
+	if (!uri.startsWith('file://')) return uri
+	return decodeURIComponent(new URL(uri).pathname)
+}
+
+/** Latest analysis of each open document, keyed by URI. */
+type Analyses = Map<string, DocumentAnalysis>
+
+function refreshDocument(connection: Connection, analyses: Analyses, document: TextDocument): void {
+	try {
+		const context = analyze(document.getText(), filenameFromUri(document.uri))
+		analyses.set(document.uri, new DocumentAnalysis(context))
+		void connection.sendDiagnostics({
+			diagnostics: toLspDiagnostics(context),
+			uri: document.uri,
+			version: document.version,
+		})
+	} catch (error: unknown) {
+		connection.console.error(`analysis failed for ${document.uri}: ${String(error)}`)
+	}
+}
+
+function closeDocument(connection: Connection, analyses: Analyses, document: TextDocument): void {
+	analyses.delete(document.uri)
+	void connection.sendDiagnostics({ diagnostics: [], uri: document.uri })
+}
+
+/**
+ * Wire language features onto a connection and start listening.
+ * Returns the document store backing this connection.
+ */
+export function createServer(connection: Connection): TextDocuments<TextDocument> {
+	const documents = new TextDocuments(TextDocument)
+	const analyses: Analyses = new Map()
+	const semanticTokens = new SemanticTokensCache()
+
+	connection.onInitialize(initializeResult)
+	documents.onDidChangeContent((event) => refreshDocument(connection, analyses, event.document))
+	documents.onDidClose((event) => {
+		semanticTokens.delete(event.document.uri)
+		closeDocument(connection, analyses, event.document)
+	})
+
+	connection.onCompletion((params) => {
+		const document = documents.get(params.textDocument.uri)
+		if (!document) return []
+		return toLspCompletions(document.getText(), filenameFromUri(document.uri), params.position)
+	})
+	connection.onDocumentFormatting((params) => {
+		const document = documents.get(params.textDocument.uri)
+		if (!document) return []
+		return toLspFormatting(document.getText(), filenameFromUri(document.uri))
+	})
+	connection.onHover((params) => {
+		const analysis = analyses.get(params.textDocument.uri)
+		return analysis ? toLspHover(analysis, params.position) : null
+	})
+	connection.onDefinition((params) => {
+		const { textDocument, position } = params
+		const analysis = analyses.get(textDocument.uri)
+		return analysis ? toLspDefinition(analysis, textDocument.uri, position) : null
+	})
+	connection.onReferences((params) => {
+		const { textDocument, position, context } = params
+		const analysis = analyses.get(textDocument.uri)
+		if (!analysis) return []
+		return toLspReferences(analysis, textDocument.uri, position, context.includeDeclaration)
+	})
+	connection.onPrepareRename((params) => {
+		const analysis = analyses.get(params.textDocument.uri)
+		return analysis ? toLspPrepareRename(analysis, params.position) : null
+	})
+	connection.onRenameRequest((params) => {
+		const { textDocument, position, newName } = params
+		const analysis = analyses.get(textDocument.uri)
+		return analysis ? toLspRename(analysis, textDocument.uri, position, newName) : null
+	})
+	connection.languages.semanticTokens.on((params) => {
+		const { uri } = params.textDocument
+		const analysis = analyses.get(uri)
+		return analysis ? semanticTokens.full(uri, analysis) : { data: [] }
+	})
+	connection.languages.semanticTokens.onDelta((params) => {
+		const { textDocument, previousResultId } = params
+		const analysis = analyses.get(textDocument.uri)
+		if (!analysis) return { edits: [] }
+		return semanticTokens.delta(textDocument.uri, analysis, previousResultId)
+	})
+
+	documents.listen(connection)
+	connection.listen()
+	return documents
+}
+
+/** Start a language server speaking LSP over stdin/stdout. */
+export function startStdioServer(): Connection {
+	const connection = createConnection(ProposedFeatures.all, process.stdin, process.stdout)
+	createServer(connection)
+	return connection
+}
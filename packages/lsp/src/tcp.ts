@@ -0,0 +1,52 @@
+/**
+ * TCP transport.
+ *
+ * The stock node connection ties its lifetime to the process: an `exit`
+ * notification terminates it. A socket server has to outlive its clients,
+ * so each socket's connection answers `exit` by closing only that socket.
+ */
+
+import { createServer as createNetServer, type Server, type Socket } from 'node:net'
+import {
+	type Connection,
+	createConnection,
+	ExitNotification,
+	ProposedFeatures,
+	SocketMessageReader,
+	SocketMessageWriter,
+} from 'vscode-languageserver/node.js'
+import { createServer } from './server.ts'
+
+/** Create a language server connection over a connected socket. */
+export function createSocketConnection(socket: Socket): Connection {
+	const connection = createConnection(
+		ProposedFeatures.all,
+		new SocketMessageReader(socket),
+		new SocketMessageWriter(socket)
+	)
+	// Replaces the default handler, which exits the process.
+	connection.onNotification(ExitNotification.type, () => socket.end())
+	return connection
+}
+
+function serveSocket(socket: Socket): void {
+	const connection = createSocketConnection(socket)
+	createServer(connection)
+	socket.on('close', () => connection.dispose())
+}
+
+/**
+ * Start a language server accepting LSP clients on a TCP port.
+ * Every client gets its own connection and document store.
+ * Resolves once the server is listening; pass port 0 for an ephemeral port.
+ */
+export function startTcpServer(port: number, host = '127.0.0.1'): Promise<Server> {
+	const server = createNetServer(serveSocket)
+	return new Promise((resolve, reject) => {
+		server.once('error', reject)
+		server.listen(port, host, () => {
+			server.off('error', reject)
+			resolve(server)
+		})
+	})
+}
@@ -0,0 +1,28 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { CompletionItemKind } from 'vscode-languageserver/node.js'
+import { toLspCompletions } from '../src/completion.ts'
+
+describe('toLspCompletions', () => {
+	it('should convert positions and kinds', () => {
+		const items = toLspCompletions('count: i32 = 1\ny: i32 = \n', 'test.tw', {
+			character: 9,
+			line: 1,
+		})
+		assert.deepStrictEqual(items, [
+			{ detail: 'i32', kind: CompletionItemKind.Variable, label: 'count' },
+		])
+	})
+
+	it('should complete fields on a line that does not parse yet', () => {
+		const source = 'Point\n    x: i32\n    y: i32\np = Point\n    x = 1\n    y = 2\na: i32 = p.\n'
+		const items = toLspCompletions(source, 'test.tw', { character: 11, line: 6 })
+		assert.deepStrictEqual(
+			items.map((item) => [item.label, item.kind]),
+			[
+				['x', CompletionItemKind.Field],
+				['y', CompletionItemKind.Field],
+			]
+		)
+	})
+})
@@ -0,0 +1,80 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { DiagnosticSeverity } from 'vscode-languageserver/node.js'
+import { analyze } from '../src/analysis.ts'
+import { toLspDiagnostics } from '../src/diagnostics.ts'
+import { filenameFromUri } from '../src/server.ts'
+
+function diagnosticsFor(source: string) {
+	return toLspDiagnostics(analyze(source, 'test.tw'))
+}
+
+describe('analyze', () => {
+	it('should produce no diagnostics for a valid program', () => {
+		assert.deepStrictEqual(diagnosticsFor('x:i32 = 1\npanic\n'), [])
+	})
+
+	it('should populate checker stores for a valid program', () => {
+		const context = analyze('x:i32 = 1\n', 'test.tw')
+		assert.ok(context.symbols !== null)
+		assert.ok(context.types !== null)
+	})
+
+	it('should stop after a tokenizer failure', () => {
+		const context = analyze('panic\n\t  panic\n', 'test.tw')
+		assert.ok(context.hasErrors())
+		assert.strictEqual(context.nodes.count(), 0)
+	})
+})
+
+describe('toLspDiagnostics', () => {
+	it('should convert an undefined variable error', () => {
+		const [diagnostic] = diagnosticsFor('x:i32 = missing\n')
+		assert.ok(diagnostic)
+		assert.strictEqual(diagnostic.code, 'TWCHECK013')
+		assert.strictEqual(diagnostic.severity, DiagnosticSeverity.Error)
+		assert.strictEqual(diagnostic.source, 'tinywhale')
+		assert.deepStrictEqual(diagnostic.range, {
+			end: { character: 15, line: 0 },
+			start: { character: 8, line: 0 },
+		})
+	})
+
+	it('should include the suggestion in message and data', () => {
+		const [diagnostic] = diagnosticsFor('x:i32 = missing\n')
+		assert.ok(diagnostic)
+		assert.match(diagnostic.message, /^undefined variable `missing`\nhelp: /)
+		assert.deepStrictEqual(diagnostic.data, { suggestion: 'Declare the variable before using it.' })
+	})
+
+	it('should map warnings to warning severity', () => {
+		const diagnostics = diagnosticsFor('panic\nx:i32 = 1\n')
+		const warning = diagnostics.find((d) => d.code === 'TWCHECK050')
+		assert.ok(warning)
+		assert.strictEqual(warning.severity, DiagnosticSeverity.Warning)
+		assert.strictEqual(warning.range.start.line, 1)
+	})
+
+	it('should publish every diagnostic, not just the first', () => {
+		const diagnostics = diagnosticsFor('a:i32 = b\nc:i32 = d\n')
+		assert.deepStrictEqual(
+			diagnostics.map((d) => d.range.start.line),
+			[0, 1]
+		)
+	})
+
+	it('should report syntax errors', () => {
+		const diagnostics = diagnosticsFor('x:i32 = = 1\n')
+		assert.strictEqual(diagnostics[0]?.code, 'TWPARSE001')
+	})
+})
+
+describe('filenameFromUri', () => {
+	it('should decode file URIs to paths', () => {
+		assert.strictEqual(filenameFromUri('file:///home/me/my%20file.tw'), '/home/me/my file.tw')
+	})
+
+	it('should pass other URIs through', () => {
+		assert.strictEqual(filenameFromUri('untitled:Untitled-1'), 'untitled:Untitled-1')
+	})
+})
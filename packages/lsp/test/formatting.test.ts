@@ -0,0 +1,23 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { toLspFormatting } from '../src/formatting.ts'
+
+describe('toLspFormatting', () => {
+	it('should replace the whole document with the formatted text', () => {
+		const edits = toLspFormatting('x:i32=1\ny:i32=x+1', 'test.tw')
+		assert.deepStrictEqual(edits, [
+			{
+				newText: 'x: i32 = 1\ny: i32 = x + 1\n',
+				range: { end: { character: 9, line: 1 }, start: { character: 0, line: 0 } },
+			},
+		])
+	})
+
+	it('should return no edits for formatted text', () => {
+		assert.deepStrictEqual(toLspFormatting('x: i32 = 1\n', 'test.tw'), [])
+	})
+
+	it('should return no edits when the document does not parse', () => {
+		assert.deepStrictEqual(toLspFormatting('x: i32 = = 1\n', 'test.tw'), [])
+	})
+})
@@ -0,0 +1,70 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import type { MarkupContent } from 'vscode-languageserver/node.js'
+import { analyze, DocumentAnalysis } from '../src/analysis.ts'
+import { toLspHover } from '../src/hover.ts'
+
+function analysisOf(source: string): DocumentAnalysis {
+	return new DocumentAnalysis(analyze(source, 'test.tw'))
+}
+
+function hoverText(source: string, line: number, character: number): string {
+	const hover = toLspHover(analysisOf(source), { character, line })
+	assert.ok(hover)
+	return (hover.contents as MarkupContent).value
+}
+
+describe('toLspHover', () => {
+	it('should convert positions and ranges between 0- and 1-indexed', () => {
+		const hover = toLspHover(analysisOf('x: i32 = 1\ny: i32 = x\n'), {
+			character: 9,
+			line: 1,
+		})
+		assert.ok(hover)
+		assert.deepStrictEqual(hover.range, {
+			end: { character: 10, line: 1 },
+			start: { character: 9, line: 1 },
+		})
+	})
+
+	it('should render a binding signature as a code block', () => {
+		assert.strictEqual(hoverText('x: i64 = 1\n', 0, 0), '```tinywhale\nx: i64\n```')
+	})
+
+	it('should list refinement bounds', () => {
+		const text = hoverText('r: i32<min=0, max=100> = 5\n', 0, 0)
+		assert.match(text, /r: i32<min=0, max=100>/)
+		assert.match(text, /- min: `0`\n- max: `100`/)
+	})
+
+	it('should list element type and size for lists', () => {
+		const text = hoverText('l: i32[]<size=3> = [1, 2, 3]\n', 0, 0)
+		assert.match(text, /- element: `i32`\n- size: `3`/)
+	})
+
+	it('should list function parameters and return type', () => {
+		const text = hoverText('add = (a: i32, b: i32): i32 -> a + b\n', 0, 0)
+		assert.match(text, /add: \(i32, i32\) -> i32/)
+		assert.match(text, /- params: `\(i32, i32\)`\n- returns: `i32`/)
+	})
+
+	it('should render the checked builtin with the type it converts to', () => {
+		const text = hoverText('raw: i32 = 40\nage: i32<min=0, max=125> = checked(raw)\n', 1, 28)
+		assert.match(text, /checked\(value\): i32<min=0, max=125>/)
+		assert.match(text, /- min: `0`\n- max: `125`/)
+	})
+
+	it('should render record types with their fields', () => {
+		const text = hoverText('Point\n    x: i32\n    y: i64\n', 0, 0)
+		assert.strictEqual(text, '```tinywhale\nPoint\n    x: i32\n    y: i64\n```')
+	})
+
+	it('should qualify fields with their record type', () => {
+		const text = hoverText('Point\n    x: i32\np = Point\n    x = 1\na: i32 = p.x\n', 4, 11)
+		assert.match(text, /Point\.x: i32/)
+	})
+
+	it('should return null off identifiers', () => {
+		assert.strictEqual(toLspHover(analysisOf('x: i32 = 42\n'), { character: 9, line: 0 }), null)
+	})
+})
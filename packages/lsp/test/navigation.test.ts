@@ -0,0 +1,35 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { analyze, DocumentAnalysis } from '../src/analysis.ts'
+import { toLspDefinition, toLspReferences } from '../src/navigation.ts'
+
+const URI = 'file:///test.tw'
+const SOURCE = 'x: i32 = 1\nx: i32 = x + 1\ny: i32 = x\n'
+
+function analysisOf(source: string): DocumentAnalysis {
+	return new DocumentAnalysis(analyze(source, 'test.tw'))
+}
+
+describe('toLspDefinition', () => {
+	it('should return a location with a 0-indexed range', () => {
+		assert.deepStrictEqual(toLspDefinition(analysisOf(SOURCE), URI, { character: 9, line: 2 }), {
+			range: { end: { character: 1, line: 1 }, start: { character: 0, line: 1 } },
+			uri: URI,
+		})
+	})
+
+	it('should return null off identifiers', () => {
+		assert.strictEqual(toLspDefinition(analysisOf(SOURCE), URI, { character: 9, line: 0 }), null)
+	})
+})
+
+describe('toLspReferences', () => {
+	it('should honour includeDeclaration', () => {
+		const analysis = analysisOf(SOURCE)
+		const position = { character: 0, line: 0 }
+		const lines = (include: boolean) =>
+			toLspReferences(analysis, URI, position, include).map((l) => l.range.start.line)
+		assert.deepStrictEqual(lines(true), [0, 1])
+		assert.deepStrictEqual(lines(false), [1])
+	})
+})
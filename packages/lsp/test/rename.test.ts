@@ -0,0 +1,56 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { LSPErrorCodes, ResponseError } from 'vscode-languageserver/node.js'
+import { analyze, DocumentAnalysis } from '../src/analysis.ts'
+import { toLspPrepareRename, toLspRename } from '../src/rename.ts'
+
+const URI = 'file:///test.tw'
+
+function analysisOf(source: string): DocumentAnalysis {
+	return new DocumentAnalysis(analyze(source, 'test.tw'))
+}
+
+describe('toLspPrepareRename', () => {
+	it('should return the range and placeholder of the identifier', () => {
+		assert.deepStrictEqual(
+			toLspPrepareRename(analysisOf('value: i32 = 1\n'), { character: 2, line: 0 }),
+			{
+				placeholder: 'value',
+				range: { end: { character: 5, line: 0 }, start: { character: 0, line: 0 } },
+			}
+		)
+	})
+
+	it('should return null on builtin types', () => {
+		assert.strictEqual(
+			toLspPrepareRename(analysisOf('x: i32 = 1\n'), { character: 4, line: 0 }),
+			null
+		)
+	})
+})
+
+describe('toLspRename', () => {
+	it('should return a workspace edit for the document', () => {
+		const edit = toLspRename(
+			analysisOf('x: i32 = 1\ny: i32 = x\n'),
+			URI,
+			{ character: 0, line: 0 },
+			'z'
+		)
+		assert.ok(!(edit instanceof ResponseError))
+		assert.deepStrictEqual(
+			edit.changes?.[URI]?.map((e) => [e.range.start.line, e.range.start.character, e.newText]),
+			[
+				[0, 0, 'z'],
+				[1, 9, 'z'],
+			]
+		)
+	})
+
+	it('should report rejected renames as failed requests', () => {
+		const source = 'y: i32 = 1\nx: i32 = 2\nz: i32 = y\n'
+		const edit = toLspRename(analysisOf(source), URI, { character: 0, line: 0 }, 'x')
+		assert.ok(edit instanceof ResponseError)
+		assert.strictEqual(edit.code, LSPErrorCodes.RequestFailed)
+	})
+})
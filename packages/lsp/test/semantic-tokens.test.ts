@@ -0,0 +1,76 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import type { SemanticTokens, SemanticTokensDelta } from 'vscode-languageserver/node.js'
+import { analyze, DocumentAnalysis } from '../src/analysis.ts'
+import {
+	encodeSemanticTokens,
+	SEMANTIC_TOKENS_LEGEND,
+	SemanticTokensCache,
+} from '../src/semantic-tokens.ts'
+
+const URI = 'file:///test.tw'
+
+function analysisOf(source: string): DocumentAnalysis {
+	return new DocumentAnalysis(analyze(source, 'test.tw'))
+}
+
+function typeIndex(type: string): number {
+	return SEMANTIC_TOKENS_LEGEND.tokenTypes.indexOf(type)
+}
+
+function isDelta(result: SemanticTokens | SemanticTokensDelta): result is SemanticTokensDelta {
+	return 'edits' in result
+}
+
+describe('encodeSemanticTokens', () => {
+	it('should encode positions relative to the previous token', () => {
+		const data = encodeSemanticTokens([
+			{ modifiers: ['declaration'], span: { column: 1, length: 1, line: 1 }, type: 'variable' },
+			{ modifiers: [], span: { column: 10, length: 2, line: 1 }, type: 'number' },
+			{ modifiers: ['defaultLibrary'], span: { column: 4, length: 3, line: 3 }, type: 'type' },
+		])
+		assert.deepStrictEqual(data, [
+			...[0, 0, 1, typeIndex('variable'), 0b01],
+			...[0, 9, 2, typeIndex('number'), 0],
+			...[2, 3, 3, typeIndex('type'), 0b10],
+		])
+	})
+
+	it('should include every compiler token type in the legend', () => {
+		assert.ok(SEMANTIC_TOKENS_LEGEND.tokenTypes.includes('patternBinding'))
+		assert.ok(SEMANTIC_TOKENS_LEGEND.tokenTypes.includes('wildcard'))
+	})
+})
+
+describe('SemanticTokensCache', () => {
+	it('should answer a delta with an edit against the previous result', () => {
+		const cache = new SemanticTokensCache()
+		const first = cache.full(URI, analysisOf('x: i32 = 1\n'))
+		const second = cache.delta(URI, analysisOf('x: i32 = 1\ny: i32 = x\n'), first.resultId)
+
+		assert.ok(isDelta(second))
+		assert.notStrictEqual(second.resultId, first.resultId)
+		const [edit] = second.edits
+		assert.ok(edit)
+		assert.strictEqual(edit.start, first.data.length)
+		assert.strictEqual(edit.deleteCount, 0)
+	})
+
+	it('should fall back to a full result for an unknown previous result', () => {
+		const cache = new SemanticTokensCache()
+		cache.full(URI, analysisOf('x: i32 = 1\n'))
+		const result = cache.delta(URI, analysisOf('x: i32 = 2\n'), 'stale')
+
+		assert.ok(!isDelta(result))
+		assert.strictEqual(result.data.length, 4 * 5)
+	})
+
+	it('should return no edits when nothing changed', () => {
+		const cache = new SemanticTokensCache()
+		const first = cache.full(URI, analysisOf('x: i32 = 1\n'))
+		const second = cache.delta(URI, analysisOf('x: i32 = 1\n'), first.resultId)
+
+		assert.ok(isDelta(second))
+		assert.deepStrictEqual(second.edits, [])
+	})
+})
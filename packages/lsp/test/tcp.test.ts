@@ -0,0 +1,100 @@
+import assert from 'node:assert'
+import { connect, type Server } from 'node:net'
+import { after, before, describe, it } from 'node:test'
+import {
+	createProtocolConnection,
+	type ProtocolConnection,
+	type PublishDiagnosticsParams,
+	SocketMessageReader,
+	SocketMessageWriter,
+} from 'vscode-languageserver/node.js'
+import { startTcpServer } from '../src/tcp.ts'
+
+interface TestClient {
+	readonly connection: ProtocolConnection
+	nextDiagnostics(): Promise<PublishDiagnosticsParams>
+}
+
+function serverPort(server: Server): number {
+	const address = server.address()
+	assert.ok(address !== null && typeof address === 'object')
+	return address.port
+}
+
+async function connectClient(port: number): Promise<TestClient> {
+	const socket = connect(port, '127.0.0.1')
+	await new Promise<void>((resolve) => socket.once('connect', resolve))
+	const connection = createProtocolConnection(
+		new SocketMessageReader(socket),
+		new SocketMessageWriter(socket)
+	)
+	const pending: Array<(params: PublishDiagnosticsParams) => void> = []
+	connection.onNotification('textDocument/publishDiagnostics', (params: PublishDiagnosticsParams) =>
+		pending.shift()?.(params)
+	)
+	connection.listen()
+	await connection.sendRequest('initialize', { capabilities: {}, processId: null, rootUri: null })
+	return {
+		connection,
+		nextDiagnostics: () => new Promise((resolve) => pending.push(resolve)),
+	}
+}
+
+function openDocument(client: TestClient, uri: string, text: string): Promise<void> {
+	return client.connection.sendNotification('textDocument/didOpen', {
+		textDocument: { languageId: 'tinywhale', text, uri, version: 1 },
+	})
+}
+
+describe('startTcpServer', () => {
+	let server: Server
+	let port: number
+
+	before(async () => {
+		server = await startTcpServer(0)
+		port = serverPort(server)
+	})
+
+	after(() => {
+		server.close()
+	})
+
+	it('should publish diagnostics to a TCP client', async () => {
+		const client = await connectClient(port)
+		const diagnostics = client.nextDiagnostics()
+		await openDocument(client, 'file:///a.tw', 'x:i32 = y\n')
+		const params = await diagnostics
+		assert.strictEqual(params.uri, 'file:///a.tw')
+		assert.strictEqual(params.diagnostics[0]?.code, 'TWCHECK013')
+		client.connection.dispose()
+	})
+
+	it('should keep document state separate per client', async () => {
+		const first = await connectClient(port)
+		const second = await connectClient(port)
+
+		const firstDiagnostics = first.nextDiagnostics()
+		await openDocument(first, 'file:///shared.tw', 'x:i32 = y\n')
+		assert.strictEqual((await firstDiagnostics).diagnostics.length, 1)
+
+		const secondDiagnostics = second.nextDiagnostics()
+		await openDocument(second, 'file:///shared.tw', 'x:i32 = 1\n')
+		assert.strictEqual((await secondDiagnostics).diagnostics.length, 0)
+
+		first.connection.dispose()
+		second.connection.dispose()
+	})
+
+	it('should keep serving after a client exits', async () => {
+		const leaving = await connectClient(port)
+		await leaving.connection.sendRequest('shutdown')
+		await leaving.connection.sendNotification('exit')
+
+		const staying = await connectClient(port)
+		const diagnostics = staying.nextDiagnostics()
+		await openDocument(staying, 'file:///b.tw', 'x:i32 = 1\n')
+		assert.strictEqual((await diagnostics).uri, 'file:///b.tw')
+		leaving.connection.dispose()
+		staying.connection.dispose()
+	})
+})